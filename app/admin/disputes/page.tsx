@@ -0,0 +1,7 @@
+'use client';
+
+import AdminDisputes from '@/views/AdminDisputes';
+
+export default function AdminDisputesPage() {
+  return <AdminDisputes />;
+}
@@ -0,0 +1,7 @@
+'use client';
+
+import AdminFeeds from '@/views/AdminFeeds';
+
+export default function AdminFeedsPage() {
+  return <AdminFeeds />;
+}
@@ -0,0 +1,7 @@
+'use client';
+
+import AdminOutlets from '@/views/AdminOutlets';
+
+export default function AdminOutletsPage() {
+  return <AdminOutlets />;
+}
@@ -0,0 +1,7 @@
+'use client';
+
+import AdminStories from '@/views/AdminStories';
+
+export default function AdminStoriesPage() {
+  return <AdminStories />;
+}
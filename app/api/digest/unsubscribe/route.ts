@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { fetchMutation } from 'convex/nextjs';
+import { api } from '../../../../convex/_generated/api';
+
+/** RFC 8058 one-click unsubscribe: mail clients POST to the `List-Unsubscribe` URL from the digest. */
+export async function POST(req: Request) {
+  const token = new URL(req.url).searchParams.get('token');
+  if (!token) {
+    return NextResponse.json({ error: 'missing token' }, { status: 400 });
+  }
+  if (!process.env.NEXT_PUBLIC_CONVEX_URL) {
+    return NextResponse.json({ error: 'unsubscribe not configured' }, { status: 503 });
+  }
+  try {
+    const { unsubscribed } = await fetchMutation(api.digests.unsubscribe, { token });
+    return NextResponse.json({ unsubscribed }, { status: unsubscribed ? 200 : 404 });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : 'unsubscribe failed';
+    return NextResponse.json({ error: msg }, { status: 502 });
+  }
+}
+
+/** Someone opened the header link in a browser: show the unsubscribe page instead. */
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const target = new URL('/unsubscribe', url.origin);
+  const token = url.searchParams.get('token');
+  if (token) target.searchParams.set('token', token);
+  return NextResponse.redirect(target);
+}
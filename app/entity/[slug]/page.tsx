@@ -0,0 +1,7 @@
+'use client';
+
+import EntityPage from '@/views/EntityPage';
+
+export default function EntityRoute() {
+  return <EntityPage />;
+}
@@ -0,0 +1,7 @@
+'use client';
+
+import MyNewsBias from '@/views/MyNewsBias';
+
+export default function MyNewsBiasPage() {
+  return <MyNewsBias />;
+}
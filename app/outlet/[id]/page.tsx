@@ -0,0 +1,7 @@
+'use client';
+
+import OutletPage from '@/views/OutletPage';
+
+export default function OutletRoute() {
+  return <OutletPage />;
+}
@@ -7,7 +7,7 @@ export default function robots(): MetadataRoute.Robots {
     rules: {
       userAgent: '*',
       allow: ['/', '/feed', '/blindspot', '/about', '/how-it-works', '/methodology', '/pricing', '/legal'],
-      disallow: ['/dashboard/', '/settings/', '/result/', '/search-results/', '/api/'],
+      disallow: ['/dashboard/', '/my-news-bias/', '/settings/', '/unsubscribe', '/result/', '/search-results/', '/api/'],
     },
     sitemap: `${base}/sitemap.xml`,
   };
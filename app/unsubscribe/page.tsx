@@ -0,0 +1,7 @@
+'use client';
+
+import Unsubscribe from '@/views/Unsubscribe';
+
+export default function UnsubscribePage() {
+  return <Unsubscribe />;
+}
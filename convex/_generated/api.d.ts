@@ -8,41 +8,106 @@
  * @module
  */
 
+import type * as admin from "../admin.js";
+import type * as articleText from "../articleText.js";
+import type * as articleTextMutations from "../articleTextMutations.js";
+import type * as articleTextQueries from "../articleTextQueries.js";
 import type * as billing from "../billing.js";
 import type * as billingActions from "../billingActions.js";
+import type * as blindspotFormulaActions from "../blindspotFormulaActions.js";
+import type * as blindspotFormulas from "../blindspotFormulas.js";
 import type * as blindspotMutations from "../blindspotMutations.js";
 import type * as crons from "../crons.js";
+import type * as digestActions from "../digestActions.js";
+import type * as digests from "../digests.js";
+import type * as editions from "../editions.js";
+import type * as entities from "../entities.js";
 import type * as feedEnrichQueries from "../feedEnrichQueries.js";
 import type * as feedPoll from "../feedPoll.js";
 import type * as feedPollQueries from "../feedPollQueries.js";
 import type * as follows from "../follows.js";
 import type * as health from "../health.js";
+import type * as lib_admin from "../lib/admin.js";
 import type * as lib_aggregationTypes from "../lib/aggregationTypes.js";
 import type * as lib_bias from "../lib/bias.js";
 import type * as lib_bigPickle from "../lib/bigPickle.js";
 import type * as lib_blindspot from "../lib/blindspot.js";
 import type * as lib_blindspotFormula from "../lib/blindspotFormula.js";
+import type * as lib_blindspotOps from "../lib/blindspotOps.js";
 import type * as lib_cluster from "../lib/cluster.js";
 import type * as lib_clusterEntities from "../lib/clusterEntities.js";
+import type * as lib_clusterOps from "../lib/clusterOps.js";
+import type * as lib_digest from "../lib/digest.js";
+import type * as lib_digestTemplates from "../lib/digestTemplates.js";
+import type * as lib_editions from "../lib/editions.js";
+import type * as lib_embeddings from "../lib/embeddings.js";
 import type * as lib_entitlements from "../lib/entitlements.js";
-import type * as lib_exaClient from "../lib/exaClient.js";
+import type * as lib_entityGazetteer from "../lib/entityGazetteer.js";
+import type * as lib_entityOps from "../lib/entityOps.js";
+import type * as lib_feedHealth from "../lib/feedHealth.js";
+import type * as lib_feedParsers from "../lib/feedParsers.js";
+import type * as lib_feedSchedule from "../lib/feedSchedule.js";
 import type * as lib_headline from "../lib/headline.js";
+import type * as lib_language from "../lib/language.js";
+import type * as lib_mailTransport from "../lib/mailTransport.js";
+import type * as lib_minhash from "../lib/minhash.js";
+import type * as lib_namedEntities from "../lib/namedEntities.js";
+import type * as lib_outletChanges from "../lib/outletChanges.js";
+import type * as lib_outletEdits from "../lib/outletEdits.js";
 import type * as lib_outletFromUrl from "../lib/outletFromUrl.js";
+import type * as lib_outletProfile from "../lib/outletProfile.js";
+import type * as lib_ownership from "../lib/ownership.js";
+import type * as lib_ownershipOps from "../lib/ownershipOps.js";
 import type * as lib_planPricing from "../lib/planPricing.js";
 import type * as lib_plans from "../lib/plans.js";
+import type * as lib_ratingDisputes from "../lib/ratingDisputes.js";
+import type * as lib_ratingOps from "../lib/ratingOps.js";
+import type * as lib_ratings from "../lib/ratings.js";
+import type * as lib_reach from "../lib/reach.js";
+import type * as lib_readability from "../lib/readability.js";
+import type * as lib_readingStats from "../lib/readingStats.js";
+import type * as lib_retention from "../lib/retention.js";
+import type * as lib_retentionOps from "../lib/retentionOps.js";
+import type * as lib_robots from "../lib/robots.js";
+import type * as lib_searchFixtures from "../lib/searchFixtures.js";
+import type * as lib_searchProviders from "../lib/searchProviders.js";
 import type * as lib_slug from "../lib/slug.js";
 import type * as lib_storyBuild from "../lib/storyBuild.js";
+import type * as lib_storyCursor from "../lib/storyCursor.js";
+import type * as lib_storySimilarity from "../lib/storySimilarity.js";
+import type * as lib_storyTerms from "../lib/storyTerms.js";
+import type * as lib_storyTimeline from "../lib/storyTimeline.js";
+import type * as lib_storyTimelineOps from "../lib/storyTimelineOps.js";
+import type * as lib_storylineOps from "../lib/storylineOps.js";
+import type * as lib_storylines from "../lib/storylines.js";
 import type * as lib_subscriptions from "../lib/subscriptions.js";
+import type * as lib_syndication from "../lib/syndication.js";
+import type * as lib_syndicationOps from "../lib/syndicationOps.js";
 import type * as lib_time from "../lib/time.js";
+import type * as lib_topicAlerts from "../lib/topicAlerts.js";
+import type * as lib_topicOps from "../lib/topicOps.js";
+import type * as notifications from "../notifications.js";
+import type * as outletAdmin from "../outletAdmin.js";
 import type * as outlets from "../outlets.js";
+import type * as owners from "../owners.js";
+import type * as ratingDisputes from "../ratingDisputes.js";
+import type * as ratings from "../ratings.js";
+import type * as reading from "../reading.js";
+import type * as retention from "../retention.js";
 import type * as rss from "../rss.js";
 import type * as rssMutations from "../rssMutations.js";
 import type * as rssQueries from "../rssQueries.js";
+import type * as searchUsage from "../searchUsage.js";
 import type * as seed from "../seed.js";
 import type * as seedData from "../seedData.js";
 import type * as stories from "../stories.js";
+import type * as storyAdmin from "../storyAdmin.js";
 import type * as storyCompare from "../storyCompare.js";
 import type * as storyCompareMutations from "../storyCompareMutations.js";
+import type * as storyTimeline from "../storyTimeline.js";
+import type * as storylines from "../storylines.js";
+import type * as topicAlertActions from "../topicAlertActions.js";
+import type * as topicAlerts from "../topicAlerts.js";
 import type * as topics from "../topics.js";
 import type * as verifications from "../verifications.js";
 import type * as verify from "../verify.js";
@@ -55,41 +120,106 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  admin: typeof admin;
+  articleText: typeof articleText;
+  articleTextMutations: typeof articleTextMutations;
+  articleTextQueries: typeof articleTextQueries;
   billing: typeof billing;
   billingActions: typeof billingActions;
+  blindspotFormulaActions: typeof blindspotFormulaActions;
+  blindspotFormulas: typeof blindspotFormulas;
   blindspotMutations: typeof blindspotMutations;
   crons: typeof crons;
+  digestActions: typeof digestActions;
+  digests: typeof digests;
+  editions: typeof editions;
+  entities: typeof entities;
   feedEnrichQueries: typeof feedEnrichQueries;
   feedPoll: typeof feedPoll;
   feedPollQueries: typeof feedPollQueries;
   follows: typeof follows;
   health: typeof health;
+  "lib/admin": typeof lib_admin;
   "lib/aggregationTypes": typeof lib_aggregationTypes;
   "lib/bias": typeof lib_bias;
   "lib/bigPickle": typeof lib_bigPickle;
   "lib/blindspot": typeof lib_blindspot;
   "lib/blindspotFormula": typeof lib_blindspotFormula;
+  "lib/blindspotOps": typeof lib_blindspotOps;
   "lib/cluster": typeof lib_cluster;
   "lib/clusterEntities": typeof lib_clusterEntities;
+  "lib/clusterOps": typeof lib_clusterOps;
+  "lib/digest": typeof lib_digest;
+  "lib/digestTemplates": typeof lib_digestTemplates;
+  "lib/editions": typeof lib_editions;
+  "lib/embeddings": typeof lib_embeddings;
   "lib/entitlements": typeof lib_entitlements;
-  "lib/exaClient": typeof lib_exaClient;
+  "lib/entityGazetteer": typeof lib_entityGazetteer;
+  "lib/entityOps": typeof lib_entityOps;
+  "lib/feedHealth": typeof lib_feedHealth;
+  "lib/feedParsers": typeof lib_feedParsers;
+  "lib/feedSchedule": typeof lib_feedSchedule;
   "lib/headline": typeof lib_headline;
+  "lib/language": typeof lib_language;
+  "lib/mailTransport": typeof lib_mailTransport;
+  "lib/minhash": typeof lib_minhash;
+  "lib/namedEntities": typeof lib_namedEntities;
+  "lib/outletChanges": typeof lib_outletChanges;
+  "lib/outletEdits": typeof lib_outletEdits;
   "lib/outletFromUrl": typeof lib_outletFromUrl;
+  "lib/outletProfile": typeof lib_outletProfile;
+  "lib/ownership": typeof lib_ownership;
+  "lib/ownershipOps": typeof lib_ownershipOps;
   "lib/planPricing": typeof lib_planPricing;
   "lib/plans": typeof lib_plans;
+  "lib/ratingDisputes": typeof lib_ratingDisputes;
+  "lib/ratingOps": typeof lib_ratingOps;
+  "lib/ratings": typeof lib_ratings;
+  "lib/reach": typeof lib_reach;
+  "lib/readability": typeof lib_readability;
+  "lib/readingStats": typeof lib_readingStats;
+  "lib/retention": typeof lib_retention;
+  "lib/retentionOps": typeof lib_retentionOps;
+  "lib/robots": typeof lib_robots;
+  "lib/searchFixtures": typeof lib_searchFixtures;
+  "lib/searchProviders": typeof lib_searchProviders;
   "lib/slug": typeof lib_slug;
   "lib/storyBuild": typeof lib_storyBuild;
+  "lib/storyCursor": typeof lib_storyCursor;
+  "lib/storySimilarity": typeof lib_storySimilarity;
+  "lib/storyTerms": typeof lib_storyTerms;
+  "lib/storyTimeline": typeof lib_storyTimeline;
+  "lib/storyTimelineOps": typeof lib_storyTimelineOps;
+  "lib/storylineOps": typeof lib_storylineOps;
+  "lib/storylines": typeof lib_storylines;
   "lib/subscriptions": typeof lib_subscriptions;
+  "lib/syndication": typeof lib_syndication;
+  "lib/syndicationOps": typeof lib_syndicationOps;
   "lib/time": typeof lib_time;
+  "lib/topicAlerts": typeof lib_topicAlerts;
+  "lib/topicOps": typeof lib_topicOps;
+  notifications: typeof notifications;
+  outletAdmin: typeof outletAdmin;
   outlets: typeof outlets;
+  owners: typeof owners;
+  ratingDisputes: typeof ratingDisputes;
+  ratings: typeof ratings;
+  reading: typeof reading;
+  retention: typeof retention;
   rss: typeof rss;
   rssMutations: typeof rssMutations;
   rssQueries: typeof rssQueries;
+  searchUsage: typeof searchUsage;
   seed: typeof seed;
   seedData: typeof seedData;
   stories: typeof stories;
+  storyAdmin: typeof storyAdmin;
   storyCompare: typeof storyCompare;
   storyCompareMutations: typeof storyCompareMutations;
+  storyTimeline: typeof storyTimeline;
+  storylines: typeof storylines;
+  topicAlertActions: typeof topicAlertActions;
+  topicAlerts: typeof topicAlerts;
   topics: typeof topics;
   verifications: typeof verifications;
   verify: typeof verify;
@@ -0,0 +1,7 @@
+import { query } from './_generated/server';
+import { isAdmin } from './lib/admin';
+
+export const me = query({
+  args: {},
+  handler: async (ctx) => ({ isAdmin: await isAdmin(ctx) }),
+});
@@ -0,0 +1,162 @@
+'use node';
+
+import { v } from 'convex/values';
+import { internalAction } from './_generated/server';
+import { internal } from './_generated/api';
+import type { Id } from './_generated/dataModel';
+import { sleep } from './lib/time';
+import { hostFromUrl } from './lib/outletFromUrl';
+import { extractArticle } from './lib/readability';
+import { ALLOW_ALL, hostIntervalMs, isPathAllowed, parseRobots, type RobotsPolicy } from './lib/robots';
+
+const USER_AGENT = 'Facets/0.1 (+https://github.com/Aditya190803/Facets)';
+const ROBOTS_AGENT = 'facets';
+const FETCH_TIMEOUT_MS = 20_000;
+const BATCH_SIZE = 30;
+const MAX_PER_HOST = 4;
+const MIN_HOST_INTERVAL_MS = 5_000;
+const ROBOTS_TTL_MS = 24 * 3_600_000;
+const RUN_BUDGET_MS = 4 * 60_000;
+const MAX_HTML_CHARS = 3_000_000;
+
+type Job = { articleId: Id<'articles'>; url: string };
+type HostQueue = { host: string; policy: RobotsPolicy; intervalMs: number; nextAt: number; jobs: Job[] };
+type ExtractResult = { attempted: number; ok: number; blocked: number; failed: number; skippedHosts: number };
+
+/** robots.txt for a host; `null` when it cannot be read (5xx / network), so the host is skipped. */
+async function fetchRobots(host: string): Promise<string | null> {
+  try {
+    const res = await fetch(`https://${host}/robots.txt`, {
+      headers: { 'User-Agent': USER_AGENT },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+    if (res.ok) return (await res.text()).slice(0, 50_000);
+    // No robots.txt (4xx) means no restrictions.
+    if (res.status >= 400 && res.status < 500) return '';
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+async function fetchHtml(url: string): Promise<string> {
+  const res = await fetch(url, {
+    headers: { 'User-Agent': USER_AGENT, Accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.5' },
+    redirect: 'follow',
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+  if (!res.ok) throw new Error(`Status code ${res.status}`);
+  const type = res.headers.get('content-type') ?? '';
+  if (type && !/html/i.test(type)) throw new Error(`Not HTML (${type.split(';')[0]})`);
+  return (await res.text()).slice(0, MAX_HTML_CHARS);
+}
+
+/**
+ * Fetch pending article URLs and store cleaned body text. Hosts are visited round-robin;
+ * each host gets at most one request per `MIN_HOST_INTERVAL_MS` (or its Crawl-delay), and
+ * the next allowed time is persisted so overlapping runs stay polite too.
+ */
+export const extractPending = internalAction({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, args): Promise<ExtractResult> => {
+    const started = Date.now();
+    const jobs = await ctx.runMutation(internal.articleTextMutations.nextJobs, {
+      limit: Math.min(args.limit ?? BATCH_SIZE, 100),
+      now: started,
+    });
+    const result: ExtractResult = { attempted: 0, ok: 0, blocked: 0, failed: 0, skippedHosts: 0 };
+
+    const byHost = new Map<string, Job[]>();
+    for (const job of jobs) {
+      const host = hostFromUrl(job.url);
+      if (!host) {
+        await ctx.runMutation(internal.articleTextMutations.saveBody, {
+          articleId: job.articleId,
+          status: 'failed',
+          error: 'Invalid URL',
+        });
+        continue;
+      }
+      const list = byHost.get(host) ?? [];
+      if (list.length < MAX_PER_HOST) list.push(job);
+      byHost.set(host, list);
+    }
+
+    const states = await ctx.runQuery(internal.articleTextQueries.hostStates, { hosts: [...byHost.keys()] });
+    const queues: HostQueue[] = [];
+    for (const state of states) {
+      let robotsTxt = state.robotsTxt;
+      if (robotsTxt === null || !state.robotsFetchedAt || started - state.robotsFetchedAt > ROBOTS_TTL_MS) {
+        robotsTxt = await fetchRobots(state.host);
+        if (robotsTxt === null) {
+          result.skippedHosts++;
+          await ctx.runMutation(internal.articleTextMutations.deferJobs, {
+            articleIds: (byHost.get(state.host) ?? []).map((j) => j.articleId),
+          });
+          continue;
+        }
+        await ctx.runMutation(internal.articleTextMutations.saveHost, {
+          host: state.host,
+          robotsTxt,
+          robotsFetchedAt: Date.now(),
+          nextFetchAt: state.nextFetchAt,
+        });
+      }
+      const policy = robotsTxt ? parseRobots(robotsTxt, ROBOTS_AGENT) : ALLOW_ALL;
+      queues.push({
+        host: state.host,
+        policy,
+        intervalMs: hostIntervalMs(policy, MIN_HOST_INTERVAL_MS),
+        nextAt: state.nextFetchAt,
+        jobs: byHost.get(state.host) ?? [],
+      });
+    }
+
+    while (queues.some((q) => q.jobs.length > 0)) {
+      const open = queues.filter((q) => q.jobs.length > 0).sort((a, b) => a.nextAt - b.nextAt);
+      const queue = open[0];
+      const wait = queue.nextAt - Date.now();
+      if (Date.now() + Math.max(wait, 0) - started > RUN_BUDGET_MS) break;
+      if (wait > 0) await sleep(wait);
+
+      const job = queue.jobs.shift()!;
+      const u = new URL(job.url);
+      if (!isPathAllowed(queue.policy, `${u.pathname}${u.search}`)) {
+        result.blocked++;
+        await ctx.runMutation(internal.articleTextMutations.saveBody, {
+          articleId: job.articleId,
+          status: 'blocked',
+          error: 'Disallowed by robots.txt',
+        });
+        continue;
+      }
+
+      result.attempted++;
+      queue.nextAt = Date.now() + queue.intervalMs;
+      try {
+        const extracted = extractArticle(await fetchHtml(job.url), job.url);
+        await ctx.runMutation(internal.articleTextMutations.saveBody, {
+          articleId: job.articleId,
+          status: extracted.text ? 'ok' : 'empty',
+          text: extracted.text || undefined,
+          author: extracted.author,
+          leadImage: extracted.leadImage,
+          wordCount: extracted.wordCount,
+        });
+        if (extracted.text) result.ok++;
+      } catch (e) {
+        result.failed++;
+        await ctx.runMutation(internal.articleTextMutations.saveBody, {
+          articleId: job.articleId,
+          status: 'failed',
+          error: e instanceof Error ? e.message : String(e),
+        });
+      }
+    }
+
+    for (const q of queues) {
+      await ctx.runMutation(internal.articleTextMutations.saveHost, { host: q.host, nextFetchAt: q.nextAt });
+    }
+    return result;
+  },
+});
@@ -0,0 +1,116 @@
+import { v } from 'convex/values';
+import { internalMutation } from './_generated/server';
+import type { Doc, Id } from './_generated/dataModel';
+import { detectSyndication } from './lib/syndicationOps';
+
+const MAX_ATTEMPTS = 3;
+const RETRY_AFTER_MS = 6 * 3_600_000;
+
+/** `articles.extractState` after a stored body: failed fetches retry `RETRY_AFTER_MS` later, up to `MAX_ATTEMPTS`. */
+function extractStateAfter(body: Pick<Doc<'articleBodies'>, 'status' | 'attempts' | 'extractedAt'>) {
+  return body.status === 'failed' && body.attempts < MAX_ATTEMPTS
+    ? { extractState: 'retry' as const, extractDueAt: body.extractedAt + RETRY_AFTER_MS }
+    : { extractState: 'done' as const, extractDueAt: undefined };
+}
+
+/**
+ * Articles due for extraction through `by_extract`: never tried, oldest first (undated ones too), then
+ * failed fetches whose retry is due. Articles from before `extractState` existed that already have a
+ * body or were compacted are settled as the scan reaches them instead of being returned.
+ */
+export const nextJobs = internalMutation({
+  args: { limit: v.number(), now: v.number() },
+  handler: async (ctx, args) => {
+    const out: { articleId: Id<'articles'>; url: string }[] = [];
+    const untried = await ctx.db
+      .query('articles')
+      .withIndex('by_extract', (q) => q.eq('extractState', undefined))
+      .take(args.limit * 4);
+    for (const art of untried) {
+      if (out.length >= args.limit) break;
+      const body = await ctx.db
+        .query('articleBodies')
+        .withIndex('by_article', (q) => q.eq('articleId', art._id))
+        .first();
+      if (body) await ctx.db.patch(art._id, extractStateAfter(body));
+      else if (art.compactedAt) await ctx.db.patch(art._id, { extractState: 'done' });
+      else out.push({ articleId: art._id, url: art.url });
+    }
+    if (out.length < args.limit) {
+      const due = await ctx.db
+        .query('articles')
+        .withIndex('by_extract', (q) => q.eq('extractState', 'retry').lte('extractDueAt', args.now))
+        .take(args.limit - out.length);
+      for (const art of due) out.push({ articleId: art._id, url: art.url });
+    }
+    return out;
+  },
+});
+
+/** Put off articles whose host could not be checked (robots.txt unreadable) without counting an attempt. */
+export const deferJobs = internalMutation({
+  args: { articleIds: v.array(v.id('articles')) },
+  handler: async (ctx, args) => {
+    const extractDueAt = Date.now() + RETRY_AFTER_MS;
+    for (const articleId of args.articleIds) await ctx.db.patch(articleId, { extractState: 'retry', extractDueAt });
+  },
+});
+
+export const saveBody = internalMutation({
+  args: {
+    articleId: v.id('articles'),
+    status: v.union(v.literal('ok'), v.literal('empty'), v.literal('blocked'), v.literal('failed')),
+    text: v.optional(v.string()),
+    author: v.optional(v.string()),
+    leadImage: v.optional(v.string()),
+    wordCount: v.optional(v.number()),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query('articleBodies')
+      .withIndex('by_article', (q) => q.eq('articleId', args.articleId))
+      .first();
+    const row = {
+      articleId: args.articleId,
+      status: args.status,
+      text: args.text,
+      author: args.author,
+      leadImage: args.leadImage,
+      wordCount: args.wordCount ?? 0,
+      error: args.error?.slice(0, 300),
+      attempts: (existing?.attempts ?? 0) + 1,
+      extractedAt: Date.now(),
+    };
+    if (existing) await ctx.db.replace(existing._id, row);
+    else await ctx.db.insert('articleBodies', row);
+    await ctx.db.patch(args.articleId, extractStateAfter(row));
+    // Full text is a much stronger near-duplicate signal than the feed summary.
+    if (args.status === 'ok') await detectSyndication(ctx, args.articleId);
+  },
+});
+
+export const saveHost = internalMutation({
+  args: {
+    host: v.string(),
+    robotsTxt: v.optional(v.string()),
+    robotsFetchedAt: v.optional(v.number()),
+    nextFetchAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query('crawlHosts')
+      .withIndex('by_host', (q) => q.eq('host', args.host))
+      .first();
+    if (!existing) {
+      await ctx.db.insert('crawlHosts', args);
+      return;
+    }
+    await ctx.db.patch(existing._id, {
+      nextFetchAt: Math.max(existing.nextFetchAt, args.nextFetchAt),
+      ...(args.robotsFetchedAt !== undefined
+        ? { robotsTxt: args.robotsTxt, robotsFetchedAt: args.robotsFetchedAt }
+        : {}),
+    });
+  },
+});
@@ -0,0 +1,38 @@
+import { v } from 'convex/values';
+import { internalQuery } from './_generated/server';
+
+export const hostStates = internalQuery({
+  args: { hosts: v.array(v.string()) },
+  handler: async (ctx, args) => {
+    const out = [];
+    for (const host of args.hosts) {
+      const row = await ctx.db
+        .query('crawlHosts')
+        .withIndex('by_host', (q) => q.eq('host', host))
+        .first();
+      out.push({
+        host,
+        robotsTxt: row?.robotsTxt ?? null,
+        robotsFetchedAt: row?.robotsFetchedAt ?? null,
+        nextFetchAt: row?.nextFetchAt ?? 0,
+      });
+    }
+    return out;
+  },
+});
+
+/** Leading excerpt of each extracted body, keyed by article id (for prompts). */
+export const excerpts = internalQuery({
+  args: { articleIds: v.array(v.id('articles')), maxChars: v.number() },
+  handler: async (ctx, args) => {
+    const out: Record<string, string> = {};
+    for (const articleId of args.articleIds) {
+      const body = await ctx.db
+        .query('articleBodies')
+        .withIndex('by_article', (q) => q.eq('articleId', articleId))
+        .first();
+      if (body?.status === 'ok' && body.text) out[articleId] = body.text.slice(0, args.maxChars);
+    }
+    return out;
+  },
+});
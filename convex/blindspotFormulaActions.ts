@@ -0,0 +1,70 @@
+import { v } from 'convex/values';
+import { internalAction } from './_generated/server';
+import { internal } from './_generated/api';
+import type { BlindspotSide } from './lib/blindspotFormula';
+import { paramsPatch } from './blindspotFormulas';
+
+const BATCH = 50;
+const MAX_REPORTED_FLIPS = 100;
+
+type Flip = { slug: string; title: string; from: BlindspotSide; to: BlindspotSide; reason: string };
+
+type DryRunReport = {
+  active: string;
+  candidate: string;
+  scanned: number;
+  flipped: number;
+  /** Flips by new side (`none` = the story would stop being a blindspot). */
+  flippedTo: Record<BlindspotSide, number>;
+  /** The newest flips, up to 100. */
+  flips: Flip[];
+};
+
+/**
+ * Score recent stories with the active formula and a candidate — a stored `name` (and `version`)
+ * or `params` applied to the active formula — and report the stories that would change side.
+ * Writes nothing. `npx convex run blindspotFormulaActions:dryRun '{"params": {"heavySideMinPct": 40}}'`
+ */
+export const dryRun = internalAction({
+  args: {
+    name: v.optional(v.string()),
+    version: v.optional(v.number()),
+    params: v.optional(paramsPatch),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<DryRunReport> => {
+    const limit = Math.min(args.limit ?? 200, 2000);
+    const report: DryRunReport = {
+      active: '',
+      candidate: '',
+      scanned: 0,
+      flipped: 0,
+      flippedTo: { left: 0, right: 0, none: 0 },
+      flips: [],
+    };
+    let cursor: string | undefined;
+    let seen = 0;
+    while (seen < limit) {
+      const size = Math.min(BATCH, limit - seen);
+      const page = await ctx.runQuery(internal.blindspotFormulas.dryRunBatch, {
+        name: args.name,
+        version: args.version,
+        params: args.params,
+        cursor,
+        limit: size,
+      });
+      report.active = page.active;
+      report.candidate = page.candidate;
+      report.scanned += page.scanned;
+      for (const flip of page.flips) {
+        report.flipped++;
+        report.flippedTo[flip.to]++;
+        if (report.flips.length < MAX_REPORTED_FLIPS) report.flips.push(flip);
+      }
+      seen += size;
+      if (page.cursor === null) break;
+      cursor = page.cursor;
+    }
+    return report;
+  },
+});
@@ -0,0 +1,149 @@
+import { v } from 'convex/values';
+import { internalMutation, internalQuery, type QueryCtx } from './_generated/server';
+import {
+  BUILTIN_FORMULA,
+  formulaLabel,
+  storyBlindspot,
+  validateBlindspotParams,
+  type BlindspotSide,
+} from './lib/blindspotFormula';
+import { activeBlindspotFormula, findBlindspotFormula, type BlindspotFormula } from './lib/blindspotOps';
+import { buildStoryDto } from './lib/storyBuild';
+
+/** Any subset of `BlindspotParams`; missing values come from the active formula. */
+export const paramsPatch = v.object({
+  minSources: v.optional(v.number()),
+  maxLowFactualityShare: v.optional(v.number()),
+  missingSideMaxSources: v.optional(v.number()),
+  heavySideMinPct: v.optional(v.number()),
+  missingSideSlope: v.optional(v.number()),
+  fallbackHeavyPct: v.optional(v.number()),
+  fallbackMissingMaxSources: v.optional(v.number()),
+  weighting: v.optional(v.union(v.literal('articles'), v.literal('outlets'), v.literal('reach'))),
+});
+
+/** Stored formula (`name`, optional `version`) or the active formula with `params` applied. */
+async function candidateFormula(
+  ctx: QueryCtx,
+  args: { name?: string; version?: number; params?: Partial<BlindspotFormula['params']> },
+): Promise<BlindspotFormula> {
+  if (args.name) {
+    const found = await findBlindspotFormula(ctx, args.name, args.version);
+    if (!found) throw new Error(`blindspot formula ${args.name}${args.version ? `@${args.version}` : ''} not found`);
+    return found;
+  }
+  if (!args.params) throw new Error('pass a formula name or params');
+  const active = await activeBlindspotFormula(ctx);
+  return { name: 'draft', version: 0, params: validateBlindspotParams(args.params, active.params) };
+}
+
+/** `npx convex run blindspotFormulas:list` */
+export const list = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    const active = await activeBlindspotFormula(ctx);
+    const rows = await ctx.db.query('blindspotFormulas').collect();
+    return {
+      active: formulaLabel(active),
+      formulas: [
+        { ...BUILTIN_FORMULA, note: 'Thresholds in convex/lib/blindspotFormula.ts', active: active === BUILTIN_FORMULA },
+        ...rows
+          .sort((a, b) => a.name.localeCompare(b.name) || b.version - a.version)
+          .map((r) => ({ name: r.name, version: r.version, params: r.params, note: r.note, active: r.active })),
+      ],
+    };
+  },
+});
+
+/**
+ * Save a new version of `name`: the active formula's params with `params` applied. Versions are
+ * never edited, so a story's `blindspotFormula` stamp always points at the thresholds that set it.
+ */
+export const create = internalMutation({
+  args: { name: v.string(), params: paramsPatch, note: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const name = args.name.trim().toLowerCase();
+    if (!/^[a-z0-9][a-z0-9-]*$/.test(name)) throw new Error('name must be lowercase letters, digits and dashes');
+    if (name === BUILTIN_FORMULA.name || name === 'draft') throw new Error(`${name} is reserved`);
+    const active = await activeBlindspotFormula(ctx);
+    const params = validateBlindspotParams(args.params, active.params);
+    const latest = await findBlindspotFormula(ctx, name);
+    const version = (latest?.version ?? 0) + 1;
+    await ctx.db.insert('blindspotFormulas', {
+      name,
+      version,
+      params,
+      note: args.note?.trim() || undefined,
+      active: false,
+      createdAt: Date.now(),
+    });
+    return { formula: formulaLabel({ name, version }), params };
+  },
+});
+
+/**
+ * Make one version the active formula (`builtin` restores the code defaults). Stories keep their
+ * side until the next `blindspotMutations:recomputeBlindspots`; dry-run first with
+ * `blindspotFormulaActions:dryRun`.
+ */
+export const activate = internalMutation({
+  args: { name: v.string(), version: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const formula = await findBlindspotFormula(ctx, args.name, args.version);
+    if (!formula) throw new Error(`blindspot formula ${args.name} not found`);
+    const now = Date.now();
+    const current = await ctx.db
+      .query('blindspotFormulas')
+      .withIndex('by_active', (q) => q.eq('active', true))
+      .collect();
+    for (const row of current) await ctx.db.patch(row._id, { active: false });
+    if (formula.name !== BUILTIN_FORMULA.name) {
+      const row = await ctx.db
+        .query('blindspotFormulas')
+        .withIndex('by_name_version', (q) => q.eq('name', formula.name).eq('version', formula.version))
+        .first();
+      if (row) await ctx.db.patch(row._id, { active: true, activatedAt: now });
+    }
+    return { active: formulaLabel(formula) };
+  },
+});
+
+/** One page of a dry run: stories newest update first from `cursor` (a `paginate` cursor), scored by both formulas. */
+export const dryRunBatch = internalQuery({
+  args: {
+    name: v.optional(v.string()),
+    version: v.optional(v.number()),
+    params: v.optional(paramsPatch),
+    cursor: v.optional(v.string()),
+    limit: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const active = await activeBlindspotFormula(ctx);
+    const candidate = await candidateFormula(ctx, args);
+    const { page: stories, isDone, continueCursor } = await ctx.db
+      .query('storyClusters')
+      .withIndex('by_lastUpdated')
+      .order('desc')
+      .paginate({ numItems: args.limit, cursor: args.cursor ?? null });
+    const flips: { slug: string; title: string; from: BlindspotSide; to: BlindspotSide; reason: string }[] = [];
+    let scanned = 0;
+    for (const story of stories) {
+      if (story.mergedIntoId) continue;
+      const dto = await buildStoryDto(ctx, story, undefined);
+      if (!dto) continue;
+      scanned++;
+      const from = storyBlindspot(dto, active.params);
+      const to = storyBlindspot(dto, candidate.params);
+      if (from.side !== to.side) {
+        flips.push({ slug: story.slug, title: story.canonicalTitle, from: from.side, to: to.side, reason: to.reason });
+      }
+    }
+    return {
+      active: formulaLabel(active),
+      candidate: formulaLabel(candidate),
+      scanned,
+      flips,
+      cursor: isDone ? null : continueCursor,
+    };
+  },
+});
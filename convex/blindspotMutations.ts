@@ -1,28 +1,33 @@
 import { v } from 'convex/values';
 import { internalMutation } from './_generated/server';
 import { buildStoryDto } from './lib/storyBuild';
-import { computeStoryBlindspot, lowFactualityShare } from './lib/blindspotFormula';
+import { formulaLabel, storyBlindspot } from './lib/blindspotFormula';
+import { activeBlindspotFormula } from './lib/blindspotOps';
+import { recordStoryChange } from './lib/storyTimelineOps';
 
 export const recomputeBlindspots = internalMutation({
   args: { limit: v.optional(v.number()) },
   handler: async (ctx, args) => {
+    const formula = await activeBlindspotFormula(ctx);
     const rows = await ctx.db.query('storyClusters').withIndex('by_lastUpdated').order('desc').take(args.limit ?? 200);
     let updated = 0;
     for (const story of rows) {
+      if (story.mergedIntoId) continue;
       const dto = await buildStoryDto(ctx, story, undefined);
       if (!dto) continue;
-      const lf = lowFactualityShare(dto.articles);
-      const { side, reason } = computeStoryBlindspot(dto.biasSpread, lf);
+      const { side, reason } = storyBlindspot(dto, formula.params);
       const blindspotSide = side === 'none' ? undefined : side;
+      await recordStoryChange(ctx, story._id, 'blindspot_changed', story.blindspotSide, blindspotSide, Date.now());
       const searchText = `${story.canonicalTitle} ${dto.articles.map((a) => a.outlet?.name ?? '').join(' ')}`.toLowerCase();
       await ctx.db.patch(story._id, {
         blindspotSide,
         blindspotReason: side === 'none' ? undefined : reason,
+        blindspotFormula: formulaLabel(formula),
         searchText,
         lastUpdatedAt: story.lastUpdatedAt,
       });
       updated++;
     }
-    return { updated };
+    return { updated, formula: formulaLabel(formula) };
   },
-});
\ No newline at end of file
+});
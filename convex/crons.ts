@@ -4,5 +4,18 @@ import { internal } from './_generated/api';
 const crons = cronJobs();
 
 crons.interval('ingest feed rss then exa', { minutes: 15 }, internal.feedPoll.ingestFeed);
+crons.interval('extract article text', { minutes: 10 }, internal.articleText.extractPending, {});
+crons.interval('link storylines', { hours: 1 }, internal.storylines.linkRecent, {});
+crons.interval('apply retention policy', { hours: 24 }, internal.retention.run, {});
+// 08:00 IST; the weekly digest goes out on Monday mornings.
+crons.daily('send daily blindspot digest', { hourUTC: 2, minuteUTC: 30 }, internal.digestActions.send, {
+  frequency: 'daily',
+});
+crons.weekly(
+  'send weekly blindspot digest',
+  { dayOfWeek: 'monday', hourUTC: 2, minuteUTC: 30 },
+  internal.digestActions.send,
+  { frequency: 'weekly' },
+);
 
 export default crons;
\ No newline at end of file
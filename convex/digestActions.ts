@@ -0,0 +1,212 @@
+'use node';
+
+import { v } from 'convex/values';
+import { internalAction, type ActionCtx } from './_generated/server';
+import { api, internal } from './_generated/api';
+import type { Id } from './_generated/dataModel';
+import {
+  DIGEST_PER_SIDE,
+  DIGEST_PERSONAL,
+  DIGEST_REPORTED_ERRORS,
+  digestDueBefore,
+  digestPeriodStart,
+  digestStory,
+  siteUrlFromEnv,
+  topBlindspots,
+  type DigestStory,
+} from './lib/digest';
+import { renderDigestEmail, type DigestSection } from './lib/digestTemplates';
+import { mailFromEnv, mailTransportFromEnv, type MailTransport } from './lib/mailTransport';
+
+/** Subscribers per invocation: ten sends at the 30 s SMTP timeout stay well inside the action time limit. */
+const BATCH = 10;
+/** Blindspots fetched per side before picking the period's top few. */
+const BLINDSPOT_POOL = 40;
+
+const schedule = v.union(v.literal('daily'), v.literal('weekly'));
+
+type SendReport = {
+  frequency: 'daily' | 'weekly';
+  transport: string;
+  sent: number;
+  skipped: number;
+  failed: number;
+  errors: string[];
+  /** Dry runs only: the first rendered email. */
+  preview?: { to: string; subject: string; text: string } | null;
+};
+
+async function blindspots(ctx: ActionCtx, side: 'left' | 'right', since: number): Promise<DigestStory[]> {
+  const { stories } = await ctx.runQuery(api.stories.blindspotList, { side, limit: BLINDSPOT_POOL });
+  return topBlindspots(stories.map((s) => digestStory(s)), since, DIGEST_PER_SIDE);
+}
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+/**
+ * Send the blindspot digest to due subscribers on `frequency` (cron: daily and weekly), one page
+ * of `BATCH` per invocation: each page adds its counts to the run's `digestRuns` report and
+ * schedules the next, so a slow mail server cannot time out the whole run.
+ * Each email has the period's top left- and right-blindspots plus personal picks; subscribers whose
+ * digest would be empty are skipped. `dryRun` renders the first page without sending or marking
+ * anyone as sent. `npx convex run digestActions:send '{"frequency": "weekly", "dryRun": true}'`
+ */
+export const send = internalAction({
+  args: {
+    frequency: schedule,
+    dryRun: v.optional(v.boolean()),
+    /** Follow-up pages only (scheduled by the previous page). */
+    next: v.optional(v.object({ runId: v.id('digestRuns'), cursor: v.string(), startedAt: v.number() })),
+  },
+  handler: async (ctx, args): Promise<SendReport> => {
+    const startedAt = args.next?.startedAt ?? Date.now();
+    let transport: MailTransport | null = null;
+    let configError: string | null = null;
+    if (!args.dryRun) {
+      try {
+        transport = mailTransportFromEnv();
+        if (!transport) configError = 'no mail transport configured (MAIL_TRANSPORT / SMTP_HOST)';
+      } catch (e) {
+        configError = `mail transport: ${errorMessage(e)}`.slice(0, 300);
+      }
+    }
+    const report: SendReport = {
+      frequency: args.frequency,
+      transport: args.dryRun ? 'dry-run' : (transport?.name ?? 'none'),
+      sent: 0,
+      skipped: 0,
+      failed: 0,
+      errors: configError ? [configError] : [],
+      ...(args.dryRun ? { preview: null } : {}),
+    };
+    if (configError) {
+      if (args.next) {
+        await ctx.runMutation(internal.digests.recordPage, {
+          runId: args.next.runId,
+          sent: 0,
+          skipped: 0,
+          failed: 0,
+          errors: report.errors,
+          done: true,
+        });
+      } else {
+        await ctx.runMutation(internal.digests.recordRun, {
+          frequency: report.frequency,
+          transport: report.transport,
+          startedAt,
+          finishedAt: Date.now(),
+          sent: 0,
+          skipped: 0,
+          failed: 0,
+          errors: report.errors,
+        });
+      }
+      return report;
+    }
+
+    const runId: Id<'digestRuns'> | null = args.dryRun
+      ? null
+      : (args.next?.runId ??
+        (await ctx.runMutation(internal.digests.startRun, {
+          frequency: args.frequency,
+          transport: report.transport,
+          startedAt,
+        })));
+    const since = digestPeriodStart(args.frequency, startedAt);
+    const left = await blindspots(ctx, 'left', since);
+    const right = await blindspots(ctx, 'right', since);
+    const shared = new Set([...left, ...right].map((s) => s.id));
+    const site = siteUrlFromEnv(process.env.SITE_URL);
+    const from = mailFromEnv();
+
+    const page: {
+      page: { id: Id<'digestSubscriptions'>; userId: string; email: string; unsubscribeToken: string }[];
+      isDone: boolean;
+      continueCursor: string;
+    } = await ctx.runQuery(internal.digests.dueBatch, {
+      frequency: args.frequency,
+      dueBefore: digestDueBefore(args.frequency, startedAt),
+      paginationOpts: { numItems: BATCH, cursor: args.next?.cursor ?? null },
+    });
+    for (const sub of page.page) {
+      const forYou = await ctx.runQuery(internal.digests.personalPicks, {
+        userId: sub.userId,
+        since,
+        exclude: [...shared],
+        limit: DIGEST_PERSONAL,
+      });
+      const sections: DigestSection[] = [
+        { title: 'For you', intro: 'From the outlets and topics you follow.', stories: forYou },
+        {
+          title: 'Missed by the left',
+          intro: 'Covered mostly by right-leaning outlets, with few left-leaning sources.',
+          stories: left,
+        },
+        {
+          title: 'Missed by the right',
+          intro: 'Covered mostly by left-leaning outlets, with few right-leaning sources.',
+          stories: right,
+        },
+      ];
+      if (!sections.some((s) => s.stories.length)) {
+        report.skipped++;
+        continue;
+      }
+      const token = encodeURIComponent(sub.unsubscribeToken);
+      const email = renderDigestEmail({
+        siteUrl: site,
+        frequency: args.frequency,
+        now: startedAt,
+        sections,
+        unsubscribeUrl: `${site}/unsubscribe?token=${token}`,
+        preferencesUrl: `${site}/settings`,
+      });
+      if (args.dryRun) {
+        report.preview ??= { to: sub.email, subject: email.subject, text: email.text };
+        report.sent++;
+        continue;
+      }
+      try {
+        await transport!.send({
+          from,
+          to: sub.email,
+          ...email,
+          headers: {
+            'List-Unsubscribe': `<${site}/api/digest/unsubscribe?token=${token}>`,
+            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+          },
+        });
+        await ctx.runMutation(internal.digests.markSent, {
+          subscriptionId: sub.id,
+          at: startedAt,
+        });
+        report.sent++;
+      } catch (e) {
+        report.failed++;
+        if (report.errors.length < DIGEST_REPORTED_ERRORS) {
+          report.errors.push(`${sub.email}: ${errorMessage(e)}`.slice(0, 300));
+        }
+      }
+    }
+
+    if (runId) {
+      await ctx.runMutation(internal.digests.recordPage, {
+        runId,
+        sent: report.sent,
+        skipped: report.skipped,
+        failed: report.failed,
+        errors: report.errors,
+        done: page.isDone,
+      });
+      if (!page.isDone) {
+        await ctx.scheduler.runAfter(0, internal.digestActions.send, {
+          frequency: args.frequency,
+          next: { runId, cursor: page.continueCursor, startedAt },
+        });
+      }
+    }
+    return report;
+  },
+});
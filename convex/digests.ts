@@ -0,0 +1,250 @@
+import { v } from 'convex/values';
+import { paginationOptsValidator } from 'convex/server';
+import { internalMutation, internalQuery, mutation, query } from './_generated/server';
+import type { Id } from './_generated/dataModel';
+import {
+  DIGEST_REPORTED_ERRORS,
+  digestStory,
+  newUnsubscribeToken,
+  rankPersonalPicks,
+  validateDigestEmail,
+  type DigestStory,
+  type PersonalCandidate,
+} from './lib/digest';
+import { buildStoryDto } from './lib/storyBuild';
+
+const frequency = v.union(v.literal('daily'), v.literal('weekly'), v.literal('off'));
+const schedule = v.union(v.literal('daily'), v.literal('weekly'));
+
+/** Recent stories scanned for personal picks. */
+const PERSONAL_SCAN = 100;
+
+/** The signed-in user's digest settings, and their account address (the default when subscribing). */
+export const preferences = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return { subscription: null, accountEmail: null };
+    const row = await ctx.db
+      .query('digestSubscriptions')
+      .withIndex('by_user', (q) => q.eq('userId', identity.subject))
+      .first();
+    return {
+      subscription: row
+        ? {
+            email: row.email,
+            frequency: row.frequency,
+            lastSentAt: row.lastSentAt ?? null,
+            topicAlertEmail: row.topicAlertEmail ?? false,
+          }
+        : null,
+      accountEmail: identity.email ?? null,
+    };
+  },
+});
+
+/**
+ * Subscribe, change frequency or address, or pause (`off`); `topicAlerts` also emails topic alerts to the
+ * same address. The unsubscribe token is kept across changes.
+ */
+export const setPreferences = mutation({
+  args: { frequency, email: v.optional(v.string()), topicAlerts: v.optional(v.boolean()) },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error('Not authenticated');
+    const userId = identity.subject;
+    const existing = await ctx.db
+      .query('digestSubscriptions')
+      .withIndex('by_user', (q) => q.eq('userId', userId))
+      .first();
+    const now = Date.now();
+    if (existing) {
+      const email = args.email !== undefined ? validateDigestEmail(args.email) : existing.email;
+      const topicAlertEmail = args.topicAlerts ?? existing.topicAlertEmail ?? false;
+      await ctx.db.patch(existing._id, { email, frequency: args.frequency, topicAlertEmail, updatedAt: now });
+      return { email, frequency: args.frequency, topicAlertEmail };
+    }
+    const topicAlertEmail = args.topicAlerts ?? false;
+    if (args.frequency === 'off' && !topicAlertEmail) {
+      return { email: null, frequency: args.frequency, topicAlertEmail };
+    }
+    const email = validateDigestEmail(args.email ?? identity.email);
+    await ctx.db.insert('digestSubscriptions', {
+      userId,
+      email,
+      frequency: args.frequency,
+      unsubscribeToken: newUnsubscribeToken(),
+      topicAlertEmail,
+      createdAt: now,
+      updatedAt: now,
+    });
+    return { email, frequency: args.frequency, topicAlertEmail };
+  },
+});
+
+/**
+ * Unsubscribe link target (`/unsubscribe`, one-click `POST /api/digest/unsubscribe`); no sign-in needed.
+ * Stops the digest and topic alert emails.
+ */
+export const unsubscribe = mutation({
+  args: { token: v.string() },
+  handler: async (ctx, args) => {
+    const token = args.token.trim();
+    const row = token
+      ? await ctx.db
+          .query('digestSubscriptions')
+          .withIndex('by_token', (q) => q.eq('unsubscribeToken', token))
+          .first()
+      : null;
+    if (!row) return { unsubscribed: false };
+    if (row.frequency !== 'off' || row.topicAlertEmail) {
+      await ctx.db.patch(row._id, { frequency: 'off', topicAlertEmail: false, updatedAt: Date.now() });
+    }
+    return { unsubscribed: true };
+  },
+});
+
+/** Subscribers on `frequency` last sent a digest before `dueBefore` (or never). */
+export const dueBatch = internalQuery({
+  args: { frequency: schedule, dueBefore: v.number(), paginationOpts: paginationOptsValidator },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query('digestSubscriptions')
+      .withIndex('by_frequency', (q) => q.eq('frequency', args.frequency).lt('lastSentAt', args.dueBefore))
+      .paginate(args.paginationOpts);
+    return {
+      ...page,
+      page: page.page.map((s) => ({
+        id: s._id,
+        userId: s.userId,
+        email: s.email,
+        unsubscribeToken: s.unsubscribeToken,
+      })),
+    };
+  },
+});
+
+/** "For you" picks: recent stories matching the user's topics or covered by outlets they follow. */
+export const personalPicks = internalQuery({
+  args: { userId: v.string(), since: v.number(), exclude: v.array(v.string()), limit: v.number() },
+  handler: async (ctx, args): Promise<DigestStory[]> => {
+    const follows = await ctx.db
+      .query('userFollows')
+      .withIndex('by_user', (q) => q.eq('userId', args.userId))
+      .collect();
+    const topics = await ctx.db
+      .query('userTopicFollows')
+      .withIndex('by_user', (q) => q.eq('userId', args.userId))
+      .collect();
+    if (!follows.length && !topics.length) return [];
+
+    const stories = await ctx.db
+      .query('storyClusters')
+      .withIndex('by_lastUpdated', (q) => q.gte('lastUpdatedAt', args.since))
+      .order('desc')
+      .take(PERSONAL_SCAN);
+    const candidates: PersonalCandidate[] = [];
+    for (const s of stories) {
+      if (s.mergedIntoId) continue;
+      const links = await ctx.db
+        .query('storyArticles')
+        .withIndex('by_story', (q) => q.eq('storyId', s._id))
+        .collect();
+      const outletIds: string[] = [];
+      for (const link of links) {
+        const article = await ctx.db.get(link.articleId);
+        if (article) outletIds.push(article.outletId);
+      }
+      candidates.push({ id: s._id, title: s.canonicalTitle, outletIds });
+    }
+
+    const picks = rankPersonalPicks(
+      candidates,
+      new Set(follows.map((f) => f.outletId as string)),
+      topics.map((t) => t.topic),
+      new Set(args.exclude),
+      args.limit,
+    );
+    const out: DigestStory[] = [];
+    for (const pick of picks) {
+      const story = await ctx.db.get(pick.id as Id<'storyClusters'>);
+      const dto = story ? await buildStoryDto(ctx, story) : null;
+      if (dto) out.push(digestStory(dto, pick.note));
+    }
+    return out;
+  },
+});
+
+export const markSent = internalMutation({
+  args: { subscriptionId: v.id('digestSubscriptions'), at: v.number() },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.subscriptionId, { lastSentAt: args.at });
+  },
+});
+
+export const recordRun = internalMutation({
+  args: {
+    frequency: schedule,
+    transport: v.string(),
+    startedAt: v.number(),
+    finishedAt: v.number(),
+    sent: v.number(),
+    skipped: v.number(),
+    failed: v.number(),
+    errors: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.insert('digestRuns', args);
+  },
+});
+
+/** Open a run report before the first page is sent; `recordPage` adds to it. */
+export const startRun = internalMutation({
+  args: { frequency: schedule, transport: v.string(), startedAt: v.number() },
+  handler: async (ctx, args) => {
+    return ctx.db.insert('digestRuns', {
+      ...args,
+      finishedAt: args.startedAt,
+      sent: 0,
+      skipped: 0,
+      failed: 0,
+      errors: [],
+      running: true,
+    });
+  },
+});
+
+export const recordPage = internalMutation({
+  args: {
+    runId: v.id('digestRuns'),
+    sent: v.number(),
+    skipped: v.number(),
+    failed: v.number(),
+    errors: v.array(v.string()),
+    done: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const run = await ctx.db.get(args.runId);
+    if (!run) return;
+    await ctx.db.patch(run._id, {
+      finishedAt: Date.now(),
+      sent: run.sent + args.sent,
+      skipped: run.skipped + args.skipped,
+      failed: run.failed + args.failed,
+      errors: [...run.errors, ...args.errors].slice(0, DIGEST_REPORTED_ERRORS),
+      running: args.done ? undefined : true,
+    });
+  },
+});
+
+/** Latest digest runs: `npx convex run digests:recentRuns`. */
+export const recentRuns = internalQuery({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    return ctx.db
+      .query('digestRuns')
+      .withIndex('by_started')
+      .order('desc')
+      .take(Math.min(args.limit ?? 10, 50));
+  },
+});
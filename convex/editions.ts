@@ -0,0 +1,28 @@
+import { v } from 'convex/values';
+import { internalMutation, query } from './_generated/server';
+import type { EditionDto } from './lib/aggregationTypes';
+import { DEFAULT_EDITION, EDITION_IDS, EDITIONS } from './lib/editions';
+
+export const list = query({
+  args: {},
+  handler: async (): Promise<{ editions: EditionDto[]; defaultEdition: string }> => ({
+    editions: EDITION_IDS.map((id) => {
+      const e = EDITIONS[id];
+      return { id: e.id, name: e.name, locales: e.locales, biasScale: e.biasScale };
+    }),
+    defaultEdition: DEFAULT_EDITION,
+  }),
+});
+
+/** Tag clusters created before editions existed: `npx convex run editions:backfillStoryEditions`. */
+export const backfillStoryEditions = internalMutation({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const rows = await ctx.db
+      .query('storyClusters')
+      .withIndex('by_edition_updated', (q) => q.eq('edition', undefined))
+      .take(args.limit ?? 500);
+    for (const s of rows) await ctx.db.patch(s._id, { edition: DEFAULT_EDITION });
+    return { updated: rows.length, done: rows.length < (args.limit ?? 500) };
+  },
+});
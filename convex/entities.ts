@@ -0,0 +1,119 @@
+import { v } from 'convex/values';
+import { internalMutation, query } from './_generated/server';
+import type { Doc, Id } from './_generated/dataModel';
+import type { BiasLabel, EntityDto, StoryDto } from './lib/aggregationTypes';
+import { resolveMergedStory } from './lib/clusterOps';
+import { feedEdition } from './lib/editions';
+import { rebuildStoryEntities, recordArticleEntities } from './lib/entityOps';
+import { buildStoryDto } from './lib/storyBuild';
+
+function mapEntity(row: Doc<'entities'>): EntityDto {
+  return {
+    slug: row.slug,
+    name: row.name,
+    kind: row.kind,
+    articleCount: row.articleCount,
+    lastSeenAt: new Date(row.lastSeenAt).toISOString(),
+  };
+}
+
+/** Entity page: every story mentioning the entity, newest first, with their combined bias spread. */
+export const get = query({
+  args: { slug: v.string(), limit: v.optional(v.number()) },
+  handler: async (
+    ctx,
+    args,
+  ): Promise<{ entity: EntityDto | null; stories: StoryDto[]; biasSpread: Partial<Record<BiasLabel, number>> }> => {
+    const entity = await ctx.db
+      .query('entities')
+      .withIndex('by_slug', (q) => q.eq('slug', args.slug))
+      .first();
+    if (!entity) return { entity: null, stories: [], biasSpread: {} };
+    const identity = await ctx.auth.getUserIdentity();
+    const rows = await ctx.db
+      .query('storyEntities')
+      .withIndex('by_entity_seen', (q) => q.eq('entityId', entity._id))
+      .order('desc')
+      .take(Math.min(args.limit ?? 30, 60));
+
+    const stories: StoryDto[] = [];
+    const biasSpread: Partial<Record<BiasLabel, number>> = {};
+    for (const row of rows) {
+      const story = await ctx.db.get(row.storyId);
+      if (!story || story.mergedIntoId) continue;
+      const dto = await buildStoryDto(ctx, story, identity?.subject);
+      if (!dto) continue;
+      stories.push(dto);
+      for (const [label, n] of Object.entries(dto.biasSpread)) {
+        biasSpread[label as BiasLabel] = (biasSpread[label as BiasLabel] ?? 0) + (n ?? 0);
+      }
+    }
+    return { entity: mapEntity(entity), stories, biasSpread };
+  },
+});
+
+/** Entities most mentioned in a story (by story slug), for links to entity pages. */
+export const forStory = query({
+  args: { slug: v.string(), limit: v.optional(v.number()) },
+  handler: async (ctx, args): Promise<{ entities: EntityDto[] }> => {
+    const story = await ctx.db
+      .query('storyClusters')
+      .withIndex('by_slug', (q) => q.eq('slug', args.slug))
+      .first();
+    if (!story) return { entities: [] };
+    const live = await resolveMergedStory(ctx, story);
+    const rows = await ctx.db
+      .query('storyEntities')
+      .withIndex('by_story', (q) => q.eq('storyId', live._id))
+      .collect();
+    rows.sort((a, b) => b.articleCount - a.articleCount || b.mentions - a.mentions);
+    const entities: EntityDto[] = [];
+    for (const row of rows.slice(0, args.limit ?? 10)) {
+      const entity = await ctx.db.get(row.entityId);
+      if (entity) entities.push(mapEntity(entity));
+    }
+    return { entities };
+  },
+});
+
+/**
+ * Extract entities for articles that have none yet, newest first, and rebuild their stories:
+ * `npx convex run entities:backfill`, then pass the returned `before` until it is null.
+ */
+export const backfill = internalMutation({
+  args: { before: v.optional(v.number()), limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const articles = await ctx.db
+      .query('articles')
+      .withIndex('by_published', (q) => q.lt('publishedAt', args.before ?? now + 86_400_000))
+      .order('desc')
+      .take(args.limit ?? 200);
+    const touched = new Set<Id<'storyClusters'>>();
+    let processed = 0;
+    for (const article of articles) {
+      const done = await ctx.db
+        .query('articleEntities')
+        .withIndex('by_article', (q) => q.eq('articleId', article._id))
+        .first();
+      if (done) continue;
+      const feed = await ctx.db.get(article.feedId);
+      const outlet = await ctx.db.get(article.outletId);
+      const edition = feedEdition(feed ?? {}, outlet ?? {});
+      await recordArticleEntities(ctx, article._id, [article.title, article.summary ?? ''], edition, now);
+      const links = await ctx.db
+        .query('storyArticles')
+        .withIndex('by_article', (q) => q.eq('articleId', article._id))
+        .collect();
+      for (const l of links) touched.add(l.storyId);
+      processed++;
+    }
+    for (const storyId of touched) await rebuildStoryEntities(ctx, storyId);
+    const last = articles[articles.length - 1];
+    return {
+      processed,
+      stories: touched.size,
+      before: articles.length === (args.limit ?? 200) && last?.publishedAt ? last.publishedAt : null,
+    };
+  },
+});
@@ -1,5 +1,6 @@
 import { v } from 'convex/values';
 import { internalQuery } from './_generated/server';
+import { editionOf } from './lib/editions';
 
 /** Stories that could use more outlet coverage (RSS seed + room for Exa). */
 export const storiesForEnrich = internalQuery({
@@ -18,13 +19,14 @@ export const storiesForEnrich = internalQuery({
     const out: {
       storyId: (typeof rows)[0]['_id'];
       canonicalTitle: string;
+      edition: string;
       sourceCount: number;
       outletIds: string[];
       articleUrls: string[];
     }[] = [];
 
     for (const story of rows) {
-      if (story.lastUpdatedAt < since) continue;
+      if (story.lastUpdatedAt < since || story.mergedIntoId) continue;
       const links = await ctx.db
         .query('storyArticles')
         .withIndex('by_story', (q) => q.eq('storyId', story._id))
@@ -42,6 +44,7 @@ export const storiesForEnrich = internalQuery({
       out.push({
         storyId: story._id,
         canonicalTitle: story.canonicalTitle,
+        edition: editionOf(story),
         sourceCount: outletExt.size,
         outletIds: [...outletExt],
         articleUrls,
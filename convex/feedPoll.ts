@@ -3,45 +3,48 @@
 import { v } from 'convex/values';
 import { action, internalAction, type ActionCtx } from './_generated/server';
 import { internal } from './_generated/api';
+import type { Id } from './_generated/dataModel';
 import { createHash } from 'crypto';
+import { articleEmbeddingText, embedderFromEnv, embedForIngest, type Embedder } from './lib/embeddings';
+import { getEdition } from './lib/editions';
 import { cleanHeadline, isLikelyNewsHeadline } from './lib/headline';
-import { exaSearch, sleep, type ExaHit } from './lib/exaClient';
-import { outletExternalIdForUrl } from './lib/outletFromUrl';
-
-const ENRICH_DOMAINS = [
-  'thewire.in',
-  'republicworld.com',
-  'thehindu.com',
-  'ndtv.com',
-  'timesofindia.com',
-  'indianexpress.com',
-  'scroll.in',
-  'hindustantimes.com',
-] as const;
+import { outletExternalIdForUrl, type OutletDomain } from './lib/outletFromUrl';
+import {
+  createSearchRouter,
+  parseSearchQuotas,
+  searchProvidersFromEnv,
+  type SearchHit,
+} from './lib/searchProviders';
+import { sleep } from './lib/time';
 
 const MAX_STORIES_PER_RUN = 14;
-const EXA_DELAY_MS = 180;
+const SEARCH_DELAY_MS = 180;
 
 function hashContent(title: string, url: string): string {
   return createHash('sha256').update(`${title}|${url}`).digest('hex').slice(0, 32);
 }
 
-function exaApiKey(): string | undefined {
-  return process.env.EXA_API_KEY?.trim() || undefined;
-}
-
-async function ingestExaHits(
+async function ingestSearchHits(
   ctx: ActionCtx,
-  hits: ExaHit[],
+  hits: SearchHit[],
   knownUrls: Set<string>,
+  embedder: Embedder | null,
+  outlets: OutletDomain[],
+  edition: string,
 ): Promise<number> {
-  let inserted = 0;
+  const rows: {
+    url: string;
+    title: string;
+    summary?: string;
+    publishedAt?: number;
+    outlet: { outletId: Id<'outlets'>; feedId: Id<'feeds'> };
+  }[] = [];
   for (const h of hits) {
     const url = h.url?.trim();
     if (!url || knownUrls.has(url)) continue;
     knownUrls.add(url);
 
-    const extId = outletExternalIdForUrl(url);
+    const extId = outletExternalIdForUrl(url, outlets);
     if (!extId) continue;
 
     const rawTitle = h.title?.trim() || cleanHeadline(h.text?.slice(0, 140) ?? '') || url;
@@ -52,28 +55,55 @@ async function ingestExaHits(
     if (!outlet) continue;
 
     const pub = h.publishedDate ? new Date(h.publishedDate).getTime() : undefined;
-    const guid = `exa:${createHash('sha256').update(url).digest('hex').slice(0, 24)}`;
-    const res = await ctx.runMutation(internal.rssMutations.insertArticle, {
-      feedId: outlet.feedId,
-      outletId: outlet.outletId,
-      guid,
+    rows.push({
       url,
       title,
       summary: h.summary?.slice(0, 2000) ?? h.text?.slice(0, 500),
       publishedAt: pub && !Number.isNaN(pub) ? pub : undefined,
-      contentHash: hashContent(title, url),
+      outlet,
+    });
+  }
+
+  const embeddings = await embedForIngest(
+    embedder,
+    rows.map((r) => articleEmbeddingText(r.title, r.summary)),
+  );
+  let inserted = 0;
+  for (const [idx, row] of rows.entries()) {
+    const guid = `exa:${createHash('sha256').update(row.url).digest('hex').slice(0, 24)}`;
+    const res = await ctx.runMutation(internal.rssMutations.insertArticle, {
+      feedId: row.outlet.feedId,
+      outletId: row.outlet.outletId,
+      guid,
+      url: row.url,
+      title: row.title,
+      summary: row.summary,
+      publishedAt: row.publishedAt,
+      contentHash: hashContent(row.title, row.url),
+      embedding: embeddings[idx]?.vector,
+      embeddingModel: embeddings[idx]?.model,
+      edition,
     });
     if (res.inserted) inserted++;
   }
   return inserted;
 }
 
-/** Stage 2: Exa finds same story on more seeded India outlets. */
+/**
+ * Stage 2: web search (Exa, failing over to Tavily — see `convex/lib/searchProviders.ts`) finds
+ * the same story on more outlets, using each story's edition domains and region.
+ */
 export const enrichFromExa = internalAction({
   args: { maxStories: v.optional(v.number()) },
   handler: async (ctx, args) => {
-    const apiKey = exaApiKey();
-    if (!apiKey) return { inserted: 0, storiesTouched: 0, skipped: 'EXA_API_KEY not on Convex' };
+    const providers = searchProvidersFromEnv();
+    if (providers.length === 0) {
+      return { inserted: 0, storiesTouched: 0, skipped: 'no search provider on Convex (EXA_API_KEY / TAVILY_API_KEY)' };
+    }
+    const router = createSearchRouter(providers, {
+      quotas: parseSearchQuotas(process.env.SEARCH_DAILY_QUOTA),
+      state: await ctx.runQuery(internal.searchUsage.today, {}),
+    });
 
     const candidates = (await ctx.runQuery(internal.feedEnrichQueries.storiesForEnrich, {
       limit: 100,
@@ -82,60 +112,76 @@ export const enrichFromExa = internalAction({
     })) as {
       storyId: string;
       canonicalTitle: string;
+      edition: string;
       articleUrls: string[];
     }[];
 
     const batch = candidates.slice(0, args.maxStories ?? MAX_STORIES_PER_RUN);
+    const embedder = embedderFromEnv();
+    const outlets = await ctx.runQuery(internal.outlets.domainIndex, {});
     let inserted = 0;
     let storiesTouched = 0;
 
     for (const story of batch) {
+      if (router.available().length === 0) break;
       const knownUrls = new Set(story.articleUrls);
       const title = story.canonicalTitle.slice(0, 200);
+      const edition = getEdition(story.edition);
       const queries = [
-        `"${title}" India news`,
-        `${title} India latest`,
-        ...ENRICH_DOMAINS.slice(0, 4).map((d) => `${title} site:${d}`),
+        `"${title}" ${edition.searchRegion} news`,
+        `${title} ${edition.searchRegion} latest`,
+        ...edition.enrichDomains.slice(0, 4).map((d) => `${title} site:${d}`),
       ];
 
       let storyAdded = 0;
       for (const q of queries) {
         try {
-          const hits = await exaSearch(apiKey, q, 10);
-          storyAdded += await ingestExaHits(ctx, hits, knownUrls);
-          await sleep(EXA_DELAY_MS);
+          const { hits } = await router.search(q, 10);
+          storyAdded += await ingestSearchHits(ctx, hits, knownUrls, embedder, outlets, edition.id);
+          await sleep(SEARCH_DELAY_MS);
         } catch (e) {
-          console.warn('feed enrich exa:', q, e instanceof Error ? e.message : e);
+          console.warn('feed enrich search:', q, e instanceof Error ? e.message : e);
         }
       }
       if (storyAdded > 0) storiesTouched++;
       inserted += storyAdded;
     }
 
-    return { inserted, storiesTouched };
+    await ctx.runMutation(internal.searchUsage.record, { entries: router.usage() });
+    const skipped = router.available().length === 0 ? 'all search providers over quota or failing' : undefined;
+    return { inserted, storiesTouched, ...(skipped ? { skipped } : {}) };
   },
 });
 
-/** Stage 1 RSS + stage 2 Exa — cron + manual refresh. */
+/** Stage 1 RSS + stage 2 search enrich, then blindspots and topic alerts — cron + manual refresh. */
 export const ingestFeed = internalAction({
   args: {},
   handler: async (ctx): Promise<{
-    rss: { inserted: number; feeds: number };
+    rss: { inserted: number; feeds: number; polled: number; notModified: number };
     enrich: { inserted: number; storiesTouched: number; skipped?: string };
     blindspot: { updated: number };
+    alerts: { notified: number; emailed: number; errors: string[] };
   }> => {
     const rss = await ctx.runAction(internal.rss.pollAll, {});
     const enrich = await ctx.runAction(internal.feedPoll.enrichFromExa, { maxStories: MAX_STORIES_PER_RUN });
     const blindspot = await ctx.runMutation(internal.blindspotMutations.recomputeBlindspots, { limit: 200 });
-    return { rss, enrich, blindspot };
+    let alerts: { notified: number; emailed: number; errors: string[] };
+    try {
+      alerts = await ctx.runAction(internal.topicAlertActions.run, {});
+    } catch (e) {
+      // The feed is already ingested; a failed alert pass is reported, not rethrown.
+      alerts = { notified: 0, emailed: 0, errors: [e instanceof Error ? e.message : String(e)] };
+    }
+    return { rss, enrich, blindspot, alerts };
   },
 });
 
 /** `npx convex run feedPoll:refreshFeed` */
 type IngestResult = {
-  rss: { inserted: number; feeds: number };
+  rss: { inserted: number; feeds: number; polled: number; notModified: number };
   enrich: { inserted: number; storiesTouched: number; skipped?: string };
   blindspot: { updated: number };
+  alerts: { notified: number; emailed: number; errors: string[] };
 };
 
 export const refreshFeed = action({
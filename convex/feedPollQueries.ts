@@ -8,11 +8,16 @@ export const outletAndFeed = internalQuery({
       .query('outlets')
       .withIndex('by_externalId', (q) => q.eq('externalId', args.externalId))
       .first();
-    if (!outlet) return null;
-    const feed = await ctx.db
-      .query('feeds')
-      .withIndex('by_externalId', (q) => q.eq('externalId', `feed-${args.externalId}`))
-      .first();
+    if (!outlet || outlet.enabled === false) return null;
+    const feed =
+      (await ctx.db
+        .query('feeds')
+        .withIndex('by_externalId', (q) => q.eq('externalId', `feed-${args.externalId}`))
+        .first()) ??
+      (await ctx.db
+        .query('feeds')
+        .withIndex('by_outlet', (q) => q.eq('outletId', outlet._id))
+        .first());
     if (!feed) return null;
     return { outletId: outlet._id, feedId: feed._id };
   },
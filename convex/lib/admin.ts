@@ -0,0 +1,24 @@
+/** Admins are Clerk user ids listed in `ADMIN_USER_IDS` (comma-separated) on Convex. */
+
+type AuthCtx = { auth: { getUserIdentity: () => Promise<{ subject: string } | null> } };
+
+export function adminUserIds(): Set<string> {
+  return new Set(
+    (process.env.ADMIN_USER_IDS ?? '')
+      .split(',')
+      .map((s) => s.trim())
+      .filter(Boolean),
+  );
+}
+
+export async function isAdmin(ctx: AuthCtx): Promise<boolean> {
+  const identity = await ctx.auth.getUserIdentity();
+  return Boolean(identity && adminUserIds().has(identity.subject));
+}
+
+export async function requireAdmin(ctx: AuthCtx): Promise<string> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) throw new Error('Not authenticated');
+  if (!adminUserIds().has(identity.subject)) throw new Error('Admin only');
+  return identity.subject;
+}
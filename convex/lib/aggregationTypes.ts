@@ -1,5 +1,8 @@
 /** Shared DTO shapes (aligned with @facets/shared). */
 
+import type { OwnershipCategory } from './ownership';
+import type { CoverageWeighting } from './reach';
+
 export type BiasLabel =
   | 'left'
   | 'center-left'
@@ -17,6 +20,9 @@ export interface OutletDto {
   biasLabel: BiasLabel;
   factuality: FactualityTier;
   ownershipCategory?: string | null;
+  /** `REACH_TIERS` (`convex/lib/reach.ts`); unset counts as `standard`. */
+  reachTier?: string | null;
+  edition?: string;
 }
 
 export interface ArticleDto {
@@ -28,6 +34,11 @@ export interface ArticleDto {
   publishedAt: string | null;
   fetchedAt: string;
   outlet?: OutletDto;
+  /** Earliest near-duplicate this article copies, when detected as syndicated. */
+  syndicatedFromId?: string | null;
+  wireSource?: string | null;
+  /** ISO 639-1 code detected on ingest; null for English. */
+  language?: string | null;
 }
 
 export interface BlindspotDto {
@@ -39,12 +50,174 @@ export interface StoryDto {
   id: string;
   canonicalTitle: string;
   slug: string;
+  edition?: string;
   lastUpdatedAt: string;
+  /** Articles in the story; with SYNDICATION_MODE once or weight, copies of one original count once. */
   sourceCount: number;
+  /** Articles detected as copies of another article in the story. */
+  syndicatedCount?: number;
   biasSpread: Partial<Record<BiasLabel, number>>;
+  /** The same coverage counted per article (= `biasSpread`), per outlet, and per outlet scaled by reach tier. */
+  biasSpreadBy: Record<CoverageWeighting, Partial<Record<BiasLabel, number>>>;
+  /** Syndication-weighted coverage per ownership category; outlets without one count as `unknown`. */
+  ownershipSpread: Partial<Record<OwnershipCategory | 'unknown', number>>;
   articles: ArticleDto[];
   blindspot?: BlindspotDto | null;
   blindspotSide?: 'left' | 'right' | null;
   blindspotReason?: string | null;
+  /** `name@version` of the formula that set `blindspotSide`. */
+  blindspotFormula?: string | null;
   biasCompareSummary?: string | null;
-}
\ No newline at end of file
+}
+
+/** A cluster removed by retention (`archivedStories`): only its headline and article links are left. */
+export interface ArchivedStoryDto {
+  slug: string;
+  canonicalTitle: string;
+  edition: string;
+  firstSeenAt: string;
+  lastUpdatedAt: string;
+  archivedAt: string;
+  articles: {
+    title: string;
+    url: string;
+    publishedAt: string | null;
+    outlet: { id: string; name: string; biasLabel: string } | null;
+  }[];
+}
+
+export interface StoryEventDto {
+  kind: 'outlet_joined' | 'title_changed' | 'blindspot_changed' | 'milestone';
+  at: string;
+  outlet?: { id: string; name: string; biasLabel: string } | null;
+  publishedAt?: string | null;
+  from?: string | null;
+  to?: string | null;
+  count?: number | null;
+}
+
+export interface StoryTimelineDto {
+  events: StoryEventDto[];
+  /** First outlet per side (publish time), for "who broke it". */
+  firstBySide: Partial<Record<'left' | 'center' | 'right', { at: string; outletName: string | null }>>;
+  brokeFirst: 'left' | 'right' | null;
+  otherSideLagHours: number | null;
+}
+
+export interface StorylineDto {
+  id: string;
+  slug: string;
+  title: string;
+  entities: string[];
+  edition?: string;
+  firstSeenAt: string;
+  lastUpdatedAt: string;
+  /** Clusters in the storyline, oldest first. */
+  stories: {
+    id: string;
+    slug: string;
+    canonicalTitle: string;
+    firstSeenAt: string;
+    lastUpdatedAt: string;
+    articleCount: number;
+  }[];
+}
+
+export interface EntityDto {
+  slug: string;
+  name: string;
+  kind: 'person' | 'org' | 'place' | 'party';
+  articleCount: number;
+  lastSeenAt: string;
+}
+
+export interface EditionDto {
+  id: string;
+  name: string;
+  locales: string[];
+  biasScale: { label: BiasLabel; name: string }[];
+}
+
+export interface FeedHealthDto {
+  feedId: string;
+  outletName: string;
+  url: string;
+  enabled: boolean;
+  status: 'ok' | 'failing' | 'stale' | 'disabled';
+  lastFetchedAt: string | null;
+  lastSuccessAt: string | null;
+  nextPollAt: string | null;
+  lastError: string | null;
+  errorStreak: number;
+  disabledReason: string | null;
+  polls: number;
+  errors: number;
+  notModified: number;
+  itemsPerPoll: number | null;
+  duplicateRate: number | null;
+}
+
+export interface OutletRatingDto {
+  id: string;
+  source: string;
+  kind: 'bias' | 'factuality';
+  scale: string;
+  scaleName: string;
+  rawValue: string;
+  /** Normalised: bias -1 … +1, factuality 0 … 1. */
+  score: number;
+  ratedAt: string;
+  url: string | null;
+  /** Latest row from its source, so it counts toward the effective rating. */
+  current: boolean;
+  /** Aggregator weight for the source (0 = ignored). */
+  weight: number;
+}
+
+export interface OutletRatingBreakdownDto {
+  /** Outlet `externalId`, as in `OutletDto.id`. */
+  outletId: string;
+  name: string;
+  domain: string;
+  biasLabel: BiasLabel;
+  /** `biasLabel`, or the 7-point label when the aggregator is configured for 7 points. */
+  biasScaleLabel: string;
+  biasScore: number | null;
+  factuality: string;
+  factualityScore: number | null;
+  ratings: OutletRatingDto[];
+}
+
+export interface RatingDisputeDto {
+  id: string;
+  kind: 'bias' | 'factuality';
+  currentValue: string;
+  proposedValue: string;
+  evidenceUrls: string[];
+  status: 'open' | 'accepted' | 'rejected';
+  rationale: string | null;
+  createdAt: string;
+  resolvedAt: string | null;
+}
+
+export interface AdminRatingDisputeDto extends RatingDisputeDto {
+  outletId: string;
+  outletName: string;
+  claim: string;
+  userId: string;
+}
+
+export interface OutletProfileDto {
+  outlet: OutletDto;
+  /** Direct owner first, then its parents up to the ultimate owner. */
+  owners: { id: string; name: string; category: string }[];
+  feeds: { url: string; kind: string; enabled: boolean; lastSuccessAt: string | null }[];
+  /** Whether the signed-in reader follows the outlet; null when signed out. */
+  following: boolean | null;
+  /** Newest stories the outlet covered. */
+  stories: StoryDto[];
+  /** Recent stories from a left- or right-leaning outlet that no outlet from the other side covered. */
+  exclusives: StoryDto[];
+  /** Recent stories the outlet covered, and how many were left- or right-side blindspots. */
+  blindspots: { stories: number; left: number; right: number };
+}
@@ -1,5 +1,11 @@
 import { describe, expect, it } from 'vitest';
-import { computeStoryBlindspot } from './blindspotFormula';
+import {
+  computeStoryBlindspot,
+  DEFAULT_BLINDSPOT_PARAMS,
+  formulaLabel,
+  storyBlindspot,
+  validateBlindspotParams,
+} from './blindspotFormula';
 
 describe('blindspotFormula', () => {
   it('flags right-heavy as blindspot for left', () => {
@@ -11,4 +17,41 @@ describe('blindspotFormula', () => {
     const r = computeStoryBlindspot({ left: 2, right: 2, center: 2 }, 0.1);
     expect(r.side).toBe('none');
   });
-});
\ No newline at end of file
+});
+
+describe('blindspot params', () => {
+  const rightHeavy = { right: 5, 'center-right': 2, center: 1, left: 1 };
+
+  it('defaults reproduce the original thresholds', () => {
+    expect(computeStoryBlindspot(rightHeavy, 0.1, DEFAULT_BLINDSPOT_PARAMS)).toEqual(
+      computeStoryBlindspot(rightHeavy, 0.1),
+    );
+    expect(computeStoryBlindspot({ left: 1, right: 1 }, 0).reason).toBe('too_few_sources');
+    expect(computeStoryBlindspot(rightHeavy, 0.4).reason).toBe('low_factuality_cap');
+  });
+
+  it('applies a candidate config', () => {
+    const strict = validateBlindspotParams({ minSources: 10 });
+    expect(computeStoryBlindspot(rightHeavy, 0.1, strict)).toEqual({ side: 'none', reason: 'too_few_sources' });
+    const lenient = validateBlindspotParams({ maxLowFactualityShare: 0.5 });
+    expect(computeStoryBlindspot(rightHeavy, 0.4, lenient).side).toBe('left');
+  });
+
+  it('reads the coverage count named by weighting', () => {
+    const story = {
+      biasSpread: rightHeavy,
+      biasSpreadBy: { articles: rightHeavy, outlets: { right: 1, left: 1, center: 1 }, reach: rightHeavy },
+      articles: [],
+    };
+    expect(storyBlindspot(story, DEFAULT_BLINDSPOT_PARAMS).side).toBe('left');
+    expect(storyBlindspot(story, validateBlindspotParams({ weighting: 'outlets' })).side).toBe('none');
+    expect(() => validateBlindspotParams({ weighting: 'pages' as never })).toThrow(/weighting must be one of/);
+  });
+
+  it('rejects out-of-range values and labels versions', () => {
+    expect(() => validateBlindspotParams({ heavySideMinPct: 120 })).toThrow(/between 0 and 100/);
+    expect(() => validateBlindspotParams({ maxLowFactualityShare: 2 })).toThrow(/between 0 and 1/);
+    expect(() => validateBlindspotParams({ minSources: -1 })).toThrow(/>= 0/);
+    expect(formulaLabel({ name: 'default', version: 3 })).toBe('default@3');
+  });
+});
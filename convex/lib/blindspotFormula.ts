@@ -1,10 +1,18 @@
-import type { BiasLabel } from './aggregationTypes';
+import type { BiasLabel, StoryDto } from './aggregationTypes';
+import { COVERAGE_WEIGHTINGS, type CoverageWeighting } from './reach';
 
 export type BlindspotSide = 'left' | 'right' | 'none';
 
 const LEFT: BiasLabel[] = ['left', 'center-left'];
 const RIGHT: BiasLabel[] = ['right', 'center-right'];
 
+/** Which side of the spectrum a label counts toward; `unknown` counts toward none. */
+export function sideOf(label: string): 'left' | 'center' | 'right' | null {
+  if (LEFT.includes(label as BiasLabel)) return 'left';
+  if (RIGHT.includes(label as BiasLabel)) return 'right';
+  return label === 'center' ? 'center' : null;
+}
+
 export function countBySide(spread: Partial<Record<BiasLabel, number>>) {
   let left = 0;
   let right = 0;
@@ -21,39 +29,112 @@ export function countBySide(spread: Partial<Record<BiasLabel, number>>) {
   return { left, right, center, total };
 }
 
+/** Source counts are whole numbers for article and outlet counts but fractional under reach weighting. */
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/** Thresholds for `computeStoryBlindspot`; stored as named, versioned rows in `blindspotFormulas`. */
+export interface BlindspotParams {
+  /** Stories with fewer (weighted) sources are never blindspots. */
+  minSources: number;
+  /** Above this share of low / mixed factuality sources, no blindspot is flagged. */
+  maxLowFactualityShare: number;
+  /** The missing side has fewer sources than this. */
+  missingSideMaxSources: number;
+  /** The heavy side has at least this share (%) of coverage. */
+  heavySideMinPct: number;
+  /** The missing side's share (%) is at most `(heavyPct - heavySideMinPct) * missingSideSlope`. */
+  missingSideSlope: number;
+  /** Fallback rule: the heavy side has at least this share (%)… */
+  fallbackHeavyPct: number;
+  /** …and the missing side fewer sources than this. */
+  fallbackMissingMaxSources: number;
+  /** Coverage the thresholds count (`StoryDto.biasSpreadBy`); unset = `articles`. */
+  weighting?: CoverageWeighting;
+}
+
+export const BLINDSPOT_PARAM_KEYS = [
+  'minSources',
+  'maxLowFactualityShare',
+  'missingSideMaxSources',
+  'heavySideMinPct',
+  'missingSideSlope',
+  'fallbackHeavyPct',
+  'fallbackMissingMaxSources',
+] as const satisfies readonly (keyof BlindspotParams)[];
+
+export const DEFAULT_BLINDSPOT_PARAMS: BlindspotParams = {
+  minSources: 3,
+  maxLowFactualityShare: 0.35,
+  missingSideMaxSources: 3,
+  heavySideMinPct: 33,
+  missingSideSlope: 30 / 37,
+  fallbackHeavyPct: 70,
+  fallbackMissingMaxSources: 2,
+};
+
+/** The formula used until a `blindspotFormulas` row is activated. */
+export const BUILTIN_FORMULA = { name: 'builtin', version: 1, params: DEFAULT_BLINDSPOT_PARAMS };
+
+/** Stamp stored on each story (`default@3`). */
+export function formulaLabel(formula: { name: string; version: number }): string {
+  return `${formula.name}@${formula.version}`;
+}
+
+/** `base` with `patch` applied; throws when a value is out of range. */
+export function validateBlindspotParams(
+  patch: Partial<BlindspotParams>,
+  base: BlindspotParams = DEFAULT_BLINDSPOT_PARAMS,
+): BlindspotParams {
+  const params = { ...base, ...patch };
+  for (const key of BLINDSPOT_PARAM_KEYS) {
+    const n = params[key];
+    if (typeof n !== 'number' || !Number.isFinite(n) || n < 0) throw new Error(`${key} must be a number >= 0`);
+  }
+  if (params.weighting !== undefined && !COVERAGE_WEIGHTINGS.includes(params.weighting)) {
+    throw new Error(`weighting must be one of ${COVERAGE_WEIGHTINGS.join(', ')}`);
+  }
+  if (params.maxLowFactualityShare > 1) throw new Error('maxLowFactualityShare must be between 0 and 1');
+  for (const key of ['heavySideMinPct', 'fallbackHeavyPct'] as const) {
+    if (params[key] > 100) throw new Error(`${key} must be between 0 and 100`);
+  }
+  return params;
+}
+
 /** Ground-inspired rules adapted to India 5-bucket spread (article counts). */
 export function computeStoryBlindspot(
   spread: Partial<Record<BiasLabel, number>>,
   lowFactualityShare: number,
+  params: BlindspotParams = DEFAULT_BLINDSPOT_PARAMS,
 ): { side: BlindspotSide; reason: string } {
   const { left, right, total } = countBySide(spread);
-  if (total < 3) return { side: 'none', reason: 'too_few_sources' };
-  if (lowFactualityShare > 0.35) return { side: 'none', reason: 'low_factuality_cap' };
+  if (total < params.minSources) return { side: 'none', reason: 'too_few_sources' };
+  if (lowFactualityShare > params.maxLowFactualityShare) return { side: 'none', reason: 'low_factuality_cap' };
 
   const leftPct = (left / total) * 100;
   const rightPct = (right / total) * 100;
+  const maxMissingPct = (heavyPct: number) => Math.max(0, heavyPct - params.heavySideMinPct) * params.missingSideSlope;
 
   // Blindspot for left-leaning readers: right-heavy, left under-covered
-  if (left < 3 && rightPct >= 33 && leftPct <= Math.max(0, rightPct - 33) * (30 / 37)) {
+  if (left < params.missingSideMaxSources && rightPct >= params.heavySideMinPct && leftPct <= maxMissingPct(rightPct)) {
     return {
       side: 'left',
-      reason: `Only ${left} left-leaning source(s); ${rightPct.toFixed(0)}% right-leaning coverage`,
+      reason: `Only ${round1(left)} left-leaning source(s); ${rightPct.toFixed(0)}% right-leaning coverage`,
     };
   }
 
   // Blindspot for right-leaning readers: left-heavy
-  if (right < 3 && leftPct >= 33 && rightPct <= Math.max(0, leftPct - 33) * (30 / 37)) {
+  if (right < params.missingSideMaxSources && leftPct >= params.heavySideMinPct && rightPct <= maxMissingPct(leftPct)) {
     return {
       side: 'right',
-      reason: `Only ${right} right-leaning source(s); ${leftPct.toFixed(0)}% left-leaning coverage`,
+      reason: `Only ${round1(right)} right-leaning source(s); ${leftPct.toFixed(0)}% left-leaning coverage`,
     };
   }
 
   // Simpler skew fallback (quick win)
-  if (leftPct >= 70 && right < 2) {
+  if (leftPct >= params.fallbackHeavyPct && right < params.fallbackMissingMaxSources) {
     return { side: 'right', reason: `${leftPct.toFixed(0)}% left-leaning; few right sources` };
   }
-  if (rightPct >= 70 && left < 2) {
+  if (rightPct >= params.fallbackHeavyPct && left < params.fallbackMissingMaxSources) {
     return { side: 'left', reason: `${rightPct.toFixed(0)}% right-leaning; few left sources` };
   }
 
@@ -66,4 +147,13 @@ export function lowFactualityShare(
   if (!articles.length) return 0;
   const low = articles.filter((a) => a.outlet?.factuality === 'low' || a.outlet?.factuality === 'mixed').length;
   return low / articles.length;
-}
\ No newline at end of file
+}
+
+/** `computeStoryBlindspot` for a built story, on the coverage count the formula asks for. */
+export function storyBlindspot(
+  story: Pick<StoryDto, 'biasSpread' | 'biasSpreadBy' | 'articles'>,
+  params: BlindspotParams,
+): { side: BlindspotSide; reason: string } {
+  const spread = story.biasSpreadBy[params.weighting ?? 'articles'] ?? story.biasSpread;
+  return computeStoryBlindspot(spread, lowFactualityShare(story.articles), params);
+}
@@ -0,0 +1,32 @@
+import type { QueryCtx } from '../_generated/server';
+import { BUILTIN_FORMULA, validateBlindspotParams, type BlindspotParams } from './blindspotFormula';
+
+export type BlindspotFormula = { name: string; version: number; params: BlindspotParams };
+
+/** The active `blindspotFormulas` row, or the built-in thresholds when none is active. */
+export async function activeBlindspotFormula(ctx: QueryCtx): Promise<BlindspotFormula> {
+  const row = await ctx.db
+    .query('blindspotFormulas')
+    .withIndex('by_active', (q) => q.eq('active', true))
+    .first();
+  if (!row) return BUILTIN_FORMULA;
+  return { name: row.name, version: row.version, params: validateBlindspotParams(row.params) };
+}
+
+/** A stored formula by name, latest version when `version` is omitted. */
+export async function findBlindspotFormula(
+  ctx: QueryCtx,
+  name: string,
+  version?: number,
+): Promise<BlindspotFormula | null> {
+  if (name === BUILTIN_FORMULA.name) return BUILTIN_FORMULA;
+  const row = await ctx.db
+    .query('blindspotFormulas')
+    .withIndex('by_name_version', (q) => {
+      const byName = q.eq('name', name);
+      return version === undefined ? byName : byName.eq('version', version);
+    })
+    .order('desc')
+    .first();
+  return row ? { name: row.name, version: row.version, params: validateBlindspotParams(row.params) } : null;
+}
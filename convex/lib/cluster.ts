@@ -1,24 +1,16 @@
 import { entityOverlap } from './clusterEntities';
+import { ALL_STOPWORDS, normalizeText } from './language';
+import { matchKnownEntities } from './namedEntities';
 
-const STOP = new Set(
-  'a an the and or but in on at to for of is are was were be been being with from as by it its this that these those not says said will can could would about into over after before during amid'.split(
-    ' ',
-  ),
-);
-
+/** Unicode-aware, so Hindi and Marathi headlines keep their words (vowel signs included). */
 export function normalizeTitle(title: string): string {
-  return title
-    .toLowerCase()
-    .replace(/['']/g, '')
-    .replace(/[^a-z0-9\s]/g, ' ')
-    .replace(/\s+/g, ' ')
-    .trim();
+  return normalizeText(title);
 }
 
 export function titleTokens(title: string): Set<string> {
   const tokens = new Set<string>();
   for (const w of normalizeTitle(title).split(' ')) {
-    if (w.length > 2 && !STOP.has(w)) tokens.add(w);
+    if (w.length > 2 && !ALL_STOPWORDS.has(w)) tokens.add(w);
   }
   return tokens;
 }
@@ -38,12 +30,47 @@ export function titlesMatch(
   b: string,
   publishedA?: number | null,
   publishedB?: number | null,
+  edition?: string | null,
 ): boolean {
   const j = jaccard(titleTokens(a), titleTokens(b));
-  const e = entityOverlap(a, b);
+  const e = entityOverlap(a, b, edition);
   if (j < 0.38 && e < 0.25) return false;
   if (j < 0.42 && e < 0.15) return false;
   if (!publishedA || !publishedB) return true;
   const dayMs = 86_400_000;
   return Math.abs(publishedA - publishedB) <= dayMs;
-}
\ No newline at end of file
+}
+
+/**
+ * Language-neutral anchors for comparing headlines in different languages:
+ * gazetteer entity slugs (which carry Devanagari aliases) plus multi-digit numbers.
+ */
+export function languageAnchors(title: string, edition?: string | null): Set<string> {
+  const { found } = matchKnownEntities(title, edition);
+  const anchors = new Set(found.map((f) => f.entity.slug));
+  for (const w of normalizeTitle(title).split(' ')) {
+    if (/^\d{2,}$/.test(w)) anchors.add(w);
+  }
+  return anchors;
+}
+
+/**
+ * Cross-language "same event?" check: at least two shared anchors, one of them an entity,
+ * covering half of the smaller headline's anchors, published within a day. Returns the anchor
+ * overlap, or null.
+ */
+export function crossLanguageMatch(
+  a: string,
+  b: string,
+  publishedA?: number | null,
+  publishedB?: number | null,
+  edition?: string | null,
+): number | null {
+  const aa = languageAnchors(a, edition);
+  const ab = languageAnchors(b, edition);
+  const shared = [...aa].filter((t) => ab.has(t));
+  if (shared.length < 2 || !shared.some((t) => !/^\d+$/.test(t))) return null;
+  if (shared.length / Math.min(aa.size, ab.size) < 0.5) return null;
+  if (publishedA && publishedB && Math.abs(publishedA - publishedB) > 86_400_000) return null;
+  return shared.length / (aa.size + ab.size - shared.length);
+}
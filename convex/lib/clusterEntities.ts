@@ -1,40 +1,29 @@
-/** Lightweight entity hints from headlines (clustering aid). */
-const INDIA_ENTITIES = [
-  'modi',
-  'bjp',
-  'congress',
-  'delhi',
-  'mumbai',
-  'kashmir',
-  'parliament',
-  'supreme court',
-  'election',
-  'lok sabha',
-  'rahul',
-  'gandhi',
-  'india',
-  'pakistan',
-  'china',
-  'rupee',
-  'rbi',
-];
+import { getEdition } from './editions';
+import { normalizeText } from './language';
+import { matchKnownEntities } from './namedEntities';
 
-export function extractEntityTokens(title: string): Set<string> {
-  const norm = title.toLowerCase().replace(/[^a-z0-9\s]/g, ' ');
+/**
+ * Lightweight entity hints from headlines (clustering aid); the dictionary comes from the edition.
+ * Gazetteer aliases add the entity slug, so "PM Modi" and "Narendra Modi" share a token.
+ */
+
+export function extractEntityTokens(title: string, edition?: string | null): Set<string> {
+  const norm = normalizeText(title);
   const words = new Set(norm.split(/\s+/).filter((w) => w.length > 3));
   const entities = new Set<string>();
-  for (const e of INDIA_ENTITIES) {
+  for (const e of getEdition(edition).entities) {
     if (norm.includes(e)) entities.add(e);
   }
   for (const w of words) {
     if (w.length > 5) entities.add(w);
   }
+  for (const { entity } of matchKnownEntities(title, edition).found) entities.add(entity.slug);
   return entities;
 }
 
-export function entityOverlap(a: string, b: string): number {
-  const ea = extractEntityTokens(a);
-  const eb = extractEntityTokens(b);
+export function entityOverlap(a: string, b: string, edition?: string | null): number {
+  const ea = extractEntityTokens(a, edition);
+  const eb = extractEntityTokens(b, edition);
   if (ea.size === 0 && eb.size === 0) return 0;
   let inter = 0;
   for (const t of ea) if (eb.has(t)) inter++;
@@ -0,0 +1,221 @@
+import { describe, expect, it } from 'vitest';
+import type { Id } from '../_generated/dataModel';
+import type { MutationCtx } from '../_generated/server';
+import { mergeClusters, revertClusterOp, splitArticles } from './clusterOps';
+
+type Row = Record<string, unknown> & { _id: string; _creationTime: number };
+type Range = { field: string; op: 'eq' | 'gt' | 'gte' | 'lt' | 'lte'; value: unknown };
+
+function inRange(row: Row, r: Range): boolean {
+  const a = row[r.field] as number | string;
+  const b = r.value as number | string;
+  if (r.op === 'eq') return a === b;
+  if (a === undefined) return false;
+  if (r.op === 'gt') return a > b;
+  if (r.op === 'gte') return a >= b;
+  if (r.op === 'lt') return a < b;
+  return a <= b;
+}
+
+/** In-memory stand-in for `ctx.db`: enough of get / insert / patch / delete and index range queries. */
+class MemoryDb {
+  private tables = new Map<string, Map<string, Row>>();
+  private seq = 0;
+
+  private table(name: string) {
+    let t = this.tables.get(name);
+    if (!t) this.tables.set(name, (t = new Map()));
+    return t;
+  }
+
+  rows(name: string): Row[] {
+    return [...this.table(name).values()];
+  }
+
+  async get(id: string) {
+    return this.table(id.split(':')[0]).get(id) ?? null;
+  }
+
+  async insert(name: string, doc: Record<string, unknown>) {
+    const _id = `${name}:${++this.seq}`;
+    this.table(name).set(_id, { ...doc, _id, _creationTime: this.seq });
+    return _id;
+  }
+
+  async patch(id: string, fields: Record<string, unknown>) {
+    const row = await this.get(id);
+    if (!row) throw new Error(`no row ${id}`);
+    for (const [k, v] of Object.entries(fields)) {
+      if (v === undefined) delete row[k];
+      else row[k] = v;
+    }
+  }
+
+  async delete(id: string) {
+    this.table(id.split(':')[0]).delete(id);
+  }
+
+  query(name: string) {
+    const ranges: Range[] = [];
+    let desc = false;
+    const q = {
+      eq: (field: string, value: unknown) => (ranges.push({ field, op: 'eq', value }), q),
+      gt: (field: string, value: unknown) => (ranges.push({ field, op: 'gt', value }), q),
+      gte: (field: string, value: unknown) => (ranges.push({ field, op: 'gte', value }), q),
+      lt: (field: string, value: unknown) => (ranges.push({ field, op: 'lt', value }), q),
+      lte: (field: string, value: unknown) => (ranges.push({ field, op: 'lte', value }), q),
+    };
+    const run = () => {
+      const rows = this.rows(name).filter((row) => ranges.every((r) => inRange(row, r)));
+      rows.sort((a, b) => a._creationTime - b._creationTime);
+      return desc ? rows.reverse() : rows;
+    };
+    const chain = {
+      withIndex: (_index: string, fn?: (b: typeof q) => unknown) => (fn?.(q), chain),
+      order: (dir: 'asc' | 'desc') => ((desc = dir === 'desc'), chain),
+      collect: async () => run(),
+      take: async (n: number) => run().slice(0, n),
+      first: async () => run()[0] ?? null,
+    };
+    return chain;
+  }
+}
+
+const HOUR = 3_600_000;
+
+async function setup() {
+  const db = new MemoryDb();
+  const ctx = { db } as unknown as MutationCtx;
+  const outletId = await db.insert('outlets', { name: 'Wire', biasLabel: 'center' });
+  const article = async (title: string, outlet = outletId) =>
+    (await db.insert('articles', { outletId: outlet, title, fetchedAt: 0, publishedAt: 0 })) as Id<'articles'>;
+  const story = async (slug: string, firstSeenAt: number, articleIds: Id<'articles'>[]) => {
+    const id = (await db.insert('storyClusters', {
+      canonicalTitle: slug,
+      slug,
+      firstSeenAt,
+      lastUpdatedAt: firstSeenAt,
+    })) as Id<'storyClusters'>;
+    for (const articleId of articleIds) await db.insert('storyArticles', { storyId: id, articleId });
+    return id;
+  };
+  const articlesOf = (storyId: string) =>
+    db
+      .rows('storyArticles')
+      .filter((l) => l.storyId === storyId)
+      .map((l) => l.articleId)
+      .sort();
+  return { db, ctx, outletId, article, story, articlesOf };
+}
+
+describe('mergeClusters', () => {
+  it('keeps the older slug, moves the links and tombstones the newer story', async () => {
+    const { db, ctx, article, story, articlesOf } = await setup();
+    const [a1, a2, b1] = [await article('Rains lash Mumbai'), await article('Mumbai rains'), await article('Flooding')];
+    const older = await story('rains-lash-mumbai', 0, [a1, a2]);
+    const newer = await story('flooding', HOUR, [b1]);
+
+    const res = await mergeClusters(ctx, newer, older, 'admin');
+    expect(res).toMatchObject({ keptSlug: 'rains-lash-mumbai', mergedSlug: 'flooding', moved: 1 });
+    expect(articlesOf(older)).toEqual([a1, a2, b1].sort());
+    expect(articlesOf(newer)).toEqual([]);
+    expect((await db.get(newer))?.mergedIntoId).toBe(older);
+  });
+
+  it('does not record an article both stories already had', async () => {
+    const { db, ctx, article, story } = await setup();
+    const [shared, own] = [await article('Budget session opens'), await article('Opposition walks out')];
+    const keep = await story('budget-session', 0, [shared]);
+    const drop = await story('walkout', HOUR, [shared, own]);
+
+    const res = await mergeClusters(ctx, keep, drop, 'admin');
+    expect(res.moved).toBe(1);
+    expect((await db.get(res.auditId))?.articleIds).toEqual([own]);
+  });
+
+  it('refuses self-merges and stories that were already merged', async () => {
+    const { ctx, article, story } = await setup();
+    const a = await story('a', 0, [await article('One')]);
+    const b = await story('b', HOUR, [await article('Two')]);
+    const c = await story('c', 2 * HOUR, [await article('Three')]);
+    await expect(mergeClusters(ctx, a, a, 'admin')).rejects.toThrow('into itself');
+    await mergeClusters(ctx, a, b, 'admin');
+    await expect(mergeClusters(ctx, b, c, 'admin')).rejects.toThrow('already merged');
+  });
+});
+
+describe('splitArticles', () => {
+  it('moves the selected articles into a new story', async () => {
+    const { db, ctx, article, story, articlesOf } = await setup();
+    const [a1, a2, a3] = [await article('Cricket final'), await article('Final tickets'), await article('Stock rally')];
+    const source = await story('cricket-final', 0, [a1, a2, a3]);
+
+    const res = await splitArticles(ctx, source, [a3], 'admin');
+    const audit = await db.get(res.auditId);
+    expect(res.moved).toBe(1);
+    expect(res.newSlug).toBe('stock-rally');
+    expect(articlesOf(source)).toEqual([a1, a2].sort());
+    expect(articlesOf(audit!.otherStoryId as string)).toEqual([a3]);
+  });
+
+  it('drops outlet joins from the source for outlets that moved out entirely', async () => {
+    const { db, ctx, outletId, article, story } = await setup();
+    const other = await db.insert('outlets', { name: 'Daily', biasLabel: 'left' });
+    const [a1, a2] = [await article('Cricket final'), await article('Stock rally', other)];
+    const source = await story('cricket-final', 0, [a1, a2]);
+    for (const [outlet, articleId] of [[outletId, a1], [other, a2]]) {
+      await db.insert('storyEvents', { storyId: source, kind: 'outlet_joined', at: 0, outletId: outlet, articleId });
+    }
+
+    await splitArticles(ctx, source, [a2], 'admin');
+    const joins = db.rows('storyEvents').filter((e) => e.storyId === source && e.kind === 'outlet_joined');
+    expect(joins.map((e) => e.outletId)).toEqual([outletId]);
+  });
+
+  it('rejects empty and whole-story selections', async () => {
+    const { ctx, article, story } = await setup();
+    const [a1, a2, other] = [await article('One'), await article('Two'), await article('Elsewhere')];
+    const source = await story('one', 0, [a1, a2]);
+    await expect(splitArticles(ctx, source, [other], 'admin')).rejects.toThrow('no selected articles');
+    await expect(splitArticles(ctx, source, [a1, a2], 'admin')).rejects.toThrow('every article');
+  });
+});
+
+describe('revertClusterOp', () => {
+  it('undoes a merge, leaving shared articles in both stories', async () => {
+    const { db, ctx, article, story, articlesOf } = await setup();
+    const [shared, own] = [await article('Budget session opens'), await article('Opposition walks out')];
+    const keep = await story('budget-session', 0, [shared]);
+    const drop = await story('walkout', HOUR, [shared, own]);
+
+    const { auditId } = await mergeClusters(ctx, keep, drop, 'admin');
+    expect((await db.get(auditId))?.sharedArticleIds).toEqual([shared]);
+    expect(await revertClusterOp(ctx, auditId, 'admin')).toEqual({ moved: 1 });
+    expect(articlesOf(keep)).toEqual([shared]);
+    expect(articlesOf(drop)).toEqual([own, shared].sort());
+    expect((await db.get(drop))?.mergedIntoId).toBeUndefined();
+    await expect(revertClusterOp(ctx, auditId, 'admin')).rejects.toThrow('already reverted');
+  });
+
+  it('folds a split back into its source and tombstones the split-off story', async () => {
+    const { db, ctx, article, story, articlesOf } = await setup();
+    const [a1, a2] = [await article('Cricket final'), await article('Stock rally')];
+    const source = await story('cricket-final', 0, [a1, a2]);
+
+    const { auditId } = await splitArticles(ctx, source, [a2], 'admin');
+    const created = (await db.get(auditId))!.otherStoryId as string;
+    await revertClusterOp(ctx, auditId, 'admin');
+    expect(articlesOf(source)).toEqual([a1, a2].sort());
+    expect((await db.get(created))?.mergedIntoId).toBe(source);
+    expect((await db.get(auditId))?.revertedBy).toBe('admin');
+  });
+
+  it('refuses to revert a merge whose tombstone moved on', async () => {
+    const { db, ctx, article, story } = await setup();
+    const a = await story('a', 0, [await article('One')]);
+    const b = await story('b', HOUR, [await article('Two')]);
+    const { auditId } = await mergeClusters(ctx, a, b, 'admin');
+    await db.patch(b, { mergedIntoId: undefined });
+    await expect(revertClusterOp(ctx, auditId, 'admin')).rejects.toThrow('cannot revert');
+  });
+});
@@ -0,0 +1,274 @@
+import type { Doc, Id } from '../_generated/dataModel';
+import type { MutationCtx, QueryCtx } from '../_generated/server';
+import { getEdition } from './editions';
+import { rebuildStoryEntities } from './entityOps';
+import { pickCanonicalTitle } from './headline';
+import { slugify } from './slug';
+import { pruneOutletJoins, recordOutletJoins, recordStoryChange } from './storyTimelineOps';
+import { indexTerms, type TermIndexReader } from './storyTerms';
+
+/** Cluster maintenance shared by ingest and the admin merge / split tools. */
+
+export function termIndexReader(ctx: Pick<QueryCtx, 'db'>): TermIndexReader<Id<'storyClusters'>> {
+  return {
+    postings: async (term, since, limit) => {
+      const rows = await ctx.db
+        .query('storyTerms')
+        .withIndex('by_term_seen', (q) => q.eq('term', term).gte('seenAt', since))
+        .order('desc')
+        .take(limit);
+      return rows.map((r) => ({ storyId: r.storyId, seenAt: r.seenAt }));
+    },
+  };
+}
+
+/** Upsert postings for an article's terms; `seenAt` moves forward so active stories stay findable. */
+export async function indexStoryTerms(
+  ctx: MutationCtx,
+  storyId: Id<'storyClusters'>,
+  terms: string[],
+  seenAt: number,
+) {
+  for (const term of terms) {
+    const existing = await ctx.db
+      .query('storyTerms')
+      .withIndex('by_story_term', (q) => q.eq('storyId', storyId).eq('term', term))
+      .first();
+    if (!existing) await ctx.db.insert('storyTerms', { term, storyId, seenAt });
+    else if (existing.seenAt < seenAt) await ctx.db.patch(existing._id, { seenAt });
+  }
+}
+
+export async function dropStoryTerms(ctx: MutationCtx, storyId: Id<'storyClusters'>) {
+  const rows = await ctx.db
+    .query('storyTerms')
+    .withIndex('by_story_term', (q) => q.eq('storyId', storyId))
+    .collect();
+  for (const r of rows) await ctx.db.delete(r._id);
+}
+
+/** Rebuild a story's postings from its current articles (after merge / split, or backfill). */
+export async function reindexStory(ctx: MutationCtx, storyId: Id<'storyClusters'>) {
+  await dropStoryTerms(ctx, storyId);
+  const story = await ctx.db.get(storyId);
+  if (!story || story.mergedIntoId) return;
+  const links = await ctx.db
+    .query('storyArticles')
+    .withIndex('by_story', (q) => q.eq('storyId', storyId))
+    .collect();
+  for (const link of links) {
+    const art = await ctx.db.get(link.articleId);
+    if (art) await indexStoryTerms(ctx, storyId, indexTerms(art.title, story.edition), story.lastUpdatedAt);
+  }
+}
+
+export async function refreshCanonicalTitle(ctx: MutationCtx, storyId: Id<'storyClusters'>) {
+  const links = await ctx.db
+    .query('storyArticles')
+    .withIndex('by_story', (q) => q.eq('storyId', storyId))
+    .collect();
+  const titles: string[] = [];
+  for (const link of links) {
+    const art = await ctx.db.get(link.articleId);
+    if (art?.title) titles.push(art.title);
+  }
+  if (titles.length === 0) return;
+  const story = await ctx.db.get(storyId);
+  const canonicalTitle = pickCanonicalTitle(titles, getEdition(story?.edition).locales[0]);
+  const now = Date.now();
+  if (story) await recordStoryChange(ctx, storyId, 'title_changed', story.canonicalTitle, canonicalTitle, now);
+  await ctx.db.patch(storyId, { canonicalTitle, lastUpdatedAt: now });
+}
+
+export async function allocateStorySlug(ctx: MutationCtx, title: string, now: number): Promise<string> {
+  const slug = slugify(title);
+  const clash = await ctx.db
+    .query('storyClusters')
+    .withIndex('by_slug', (q) => q.eq('slug', slug))
+    .first();
+  return clash ? `${slug}-${now.toString(36)}` : slug;
+}
+
+/** Follow merge tombstones (`mergedIntoId`) to the live cluster. */
+export async function resolveMergedStory(
+  ctx: Pick<QueryCtx, 'db'>,
+  story: Doc<'storyClusters'>,
+): Promise<Doc<'storyClusters'>> {
+  let current = story;
+  for (let hops = 0; current.mergedIntoId && hops < 8; hops++) {
+    const next = await ctx.db.get(current.mergedIntoId);
+    if (!next) break;
+    current = next;
+  }
+  return current;
+}
+
+async function moveLinks(
+  ctx: MutationCtx,
+  from: Id<'storyClusters'>,
+  to: Id<'storyClusters'>,
+  articleIds?: Set<Id<'articles'>>,
+): Promise<{ moved: Id<'articles'>[]; shared: Id<'articles'>[] }> {
+  const links = await ctx.db
+    .query('storyArticles')
+    .withIndex('by_story', (q) => q.eq('storyId', from))
+    .collect();
+  const existing = await ctx.db
+    .query('storyArticles')
+    .withIndex('by_story', (q) => q.eq('storyId', to))
+    .collect();
+  const already = new Set(existing.map((l) => l.articleId));
+  // A duplicate already belonged to `to`: its link from `from` is deleted and returned as `shared`, so a
+  // revert can restore it without pulling the article out of `to`.
+  const moved: Id<'articles'>[] = [];
+  const shared: Id<'articles'>[] = [];
+  for (const link of links) {
+    if (articleIds && !articleIds.has(link.articleId)) continue;
+    if (already.has(link.articleId)) {
+      await ctx.db.delete(link._id);
+      shared.push(link.articleId);
+      continue;
+    }
+    await ctx.db.patch(link._id, { storyId: to });
+    moved.push(link.articleId);
+  }
+  return { moved, shared };
+}
+
+async function liveStory(ctx: MutationCtx, id: Id<'storyClusters'>) {
+  const story = await ctx.db.get(id);
+  if (!story) throw new Error('story not found');
+  if (story.mergedIntoId) throw new Error(`story ${story.slug} was already merged`);
+  return story;
+}
+
+/** Merge two clusters; the older one keeps its slug and the newer becomes a redirect tombstone. */
+export async function mergeClusters(
+  ctx: MutationCtx,
+  a: Id<'storyClusters'>,
+  b: Id<'storyClusters'>,
+  actorId: string,
+  note?: string,
+) {
+  if (a === b) throw new Error('cannot merge a story into itself');
+  const [sa, sb] = [await liveStory(ctx, a), await liveStory(ctx, b)];
+  const [keep, drop] = sa.firstSeenAt <= sb.firstSeenAt ? [sa, sb] : [sb, sa];
+
+  const { moved, shared } = await moveLinks(ctx, drop._id, keep._id);
+  await ctx.db.patch(drop._id, {
+    mergedIntoId: keep._id,
+    blindspotSide: undefined,
+    blindspotReason: undefined,
+  });
+  if (!keep.storylineId && drop.storylineId) await ctx.db.patch(keep._id, { storylineId: drop.storylineId });
+  await refreshCanonicalTitle(ctx, keep._id);
+  await reindexStory(ctx, keep._id);
+  await dropStoryTerms(ctx, drop._id);
+  await recordOutletJoins(ctx, keep._id, Date.now());
+  await rebuildStoryEntities(ctx, keep._id);
+  await rebuildStoryEntities(ctx, drop._id);
+
+  const auditId = await ctx.db.insert('clusterAudit', {
+    op: 'merge',
+    actorId,
+    storyId: keep._id,
+    otherStoryId: drop._id,
+    articleIds: moved,
+    sharedArticleIds: shared,
+    note,
+    createdAt: Date.now(),
+  });
+  return { auditId, keptSlug: keep.slug, mergedSlug: drop.slug, moved: moved.length };
+}
+
+/** Move selected articles out of a cluster into a brand-new one. */
+export async function splitArticles(
+  ctx: MutationCtx,
+  storyId: Id<'storyClusters'>,
+  articleIds: Id<'articles'>[],
+  actorId: string,
+  note?: string,
+) {
+  const source = await liveStory(ctx, storyId);
+  const links = await ctx.db
+    .query('storyArticles')
+    .withIndex('by_story', (q) => q.eq('storyId', source._id))
+    .collect();
+  const selected = new Set(articleIds.filter((id) => links.some((l) => l.articleId === id)));
+  if (selected.size === 0) throw new Error('no selected articles belong to this story');
+  if (selected.size === links.length) throw new Error('cannot split every article out of a story');
+
+  const titles: string[] = [];
+  for (const id of selected) {
+    const art = await ctx.db.get(id);
+    if (art?.title) titles.push(art.title);
+  }
+  const now = Date.now();
+  const canonicalTitle = pickCanonicalTitle(titles, getEdition(source.edition).locales[0]);
+  const newId = await ctx.db.insert('storyClusters', {
+    canonicalTitle,
+    slug: await allocateStorySlug(ctx, canonicalTitle, now),
+    firstSeenAt: now,
+    lastUpdatedAt: now,
+    edition: source.edition,
+  });
+  const { moved } = await moveLinks(ctx, source._id, newId, selected);
+  await pruneOutletJoins(ctx, source._id);
+  await refreshCanonicalTitle(ctx, source._id);
+  await reindexStory(ctx, source._id);
+  await reindexStory(ctx, newId);
+  await recordOutletJoins(ctx, newId, now);
+  await rebuildStoryEntities(ctx, source._id);
+  await rebuildStoryEntities(ctx, newId);
+
+  const auditId = await ctx.db.insert('clusterAudit', {
+    op: 'split',
+    actorId,
+    storyId: source._id,
+    otherStoryId: newId,
+    articleIds: moved,
+    note,
+    createdAt: now,
+  });
+  const created = await ctx.db.get(newId);
+  return { auditId, newSlug: created?.slug ?? '', moved: moved.length };
+}
+
+/**
+ * Undo a merge (move the recorded articles back, re-link shared ones and revive the tombstone) or a split
+ * (fold the split-off cluster back into its source, tombstoning it so links keep working).
+ */
+export async function revertClusterOp(ctx: MutationCtx, auditId: Id<'clusterAudit'>, actorId: string) {
+  const row = await ctx.db.get(auditId);
+  if (!row) throw new Error('audit entry not found');
+  if (row.revertedAt) throw new Error('already reverted');
+
+  let moved: Id<'articles'>[];
+  if (row.op === 'merge') {
+    const drop = await ctx.db.get(row.otherStoryId);
+    if (!drop || drop.mergedIntoId !== row.storyId) throw new Error('merged story changed since; cannot revert');
+    ({ moved } = await moveLinks(ctx, row.storyId, row.otherStoryId, new Set(row.articleIds)));
+    for (const articleId of row.sharedArticleIds ?? []) {
+      await ctx.db.insert('storyArticles', { storyId: row.otherStoryId, articleId });
+    }
+    await pruneOutletJoins(ctx, row.storyId);
+    await ctx.db.patch(row.otherStoryId, { mergedIntoId: undefined });
+    await refreshCanonicalTitle(ctx, row.otherStoryId);
+  } else {
+    const created = await liveStory(ctx, row.otherStoryId);
+    ({ moved } = await moveLinks(ctx, created._id, row.storyId));
+    await ctx.db.patch(created._id, {
+      mergedIntoId: row.storyId,
+      blindspotSide: undefined,
+      blindspotReason: undefined,
+    });
+  }
+  await refreshCanonicalTitle(ctx, row.storyId);
+  await reindexStory(ctx, row.storyId);
+  await reindexStory(ctx, row.otherStoryId);
+  await recordOutletJoins(ctx, row.storyId, Date.now());
+  await rebuildStoryEntities(ctx, row.storyId);
+  await rebuildStoryEntities(ctx, row.otherStoryId);
+  await ctx.db.patch(auditId, { revertedAt: Date.now(), revertedBy: actorId });
+  return { moved: moved.length };
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { digestDueBefore, rankPersonalPicks, topBlindspots, validateDigestEmail, type DigestStory } from './digest';
+import { fillTemplate, renderDigestEmail, renderTopicAlertEmail } from './digestTemplates';
+
+const NOW = Date.UTC(2026, 2, 12, 2, 30);
+const HOUR = 3_600_000;
+
+function story(id: string, sourceCount: number, hoursAgo: number, extra: Partial<DigestStory> = {}): DigestStory {
+  return {
+    id,
+    slug: id,
+    title: `Story ${id}`,
+    sourceCount,
+    lastUpdatedAt: new Date(NOW - hoursAgo * HOUR).toISOString(),
+    sides: { left: 10, center: 20, right: 70 },
+    note: null,
+    ...extra,
+  };
+}
+
+describe('digest', () => {
+  it('picks the most covered blindspots of the period', () => {
+    const stories = [story('a', 4, 2), story('b', 9, 30), story('c', 7, 5), story('d', 7, 1), story('e', 2, 3)];
+    expect(topBlindspots(stories, NOW - 24 * HOUR, 3).map((s) => s.id)).toEqual(['d', 'c', 'a']);
+  });
+
+  it('ranks topic matches over followed outlets and skips excluded stories', () => {
+    const picks = rankPersonalPicks(
+      [
+        { id: 's1', title: 'Monsoon session opens', outletIds: ['o1', 'o2'] },
+        { id: 's2', title: 'Budget 2026 explained', outletIds: ['o3'] },
+        { id: 's3', title: 'Cricket final', outletIds: ['o1'] },
+        { id: 's4', title: 'Budget deficit widens', outletIds: ['o1'] },
+        { id: 's5', title: 'Unrelated', outletIds: ['o9'] },
+      ],
+      new Set(['o1', 'o2']),
+      ['budget'],
+      new Set(['s4']),
+      3,
+    );
+    expect(picks).toEqual([
+      { id: 's2', note: 'Matches your topic “budget”' },
+      { id: 's1', note: 'Covered by 2 outlets you follow' },
+      { id: 's3', note: 'Covered by 1 outlet you follow' },
+    ]);
+  });
+
+  it('makes subscribers due a little before a full period has passed', () => {
+    expect(digestDueBefore('daily', NOW)).toBe(NOW - 22 * HOUR);
+    expect(digestDueBefore('weekly', NOW)).toBe(NOW - 7 * 24 * HOUR + 2 * HOUR);
+  });
+
+  it('normalises and validates digest addresses', () => {
+    expect(validateDigestEmail('  Reader@Example.COM ')).toBe('reader@example.com');
+    expect(() => validateDigestEmail(undefined)).toThrow('required');
+    expect(() => validateDigestEmail('not an email')).toThrow('invalid');
+    expect(() => validateDigestEmail('a@b')).toThrow('invalid');
+  });
+});
+
+describe('digestTemplates', () => {
+  it('escapes values in HTML but never re-expands placeholders inside them', () => {
+    expect(fillTemplate('<p>{{a}}</p>{{{b}}}', { a: '<b>{{b}}</b>', b: '<i>x</i>' }, true)).toBe(
+      '<p>&lt;b&gt;{{b}}&lt;/b&gt;</p><i>x</i>',
+    );
+    expect(fillTemplate('{{a}} {{missing}}', { a: 'A & B' }, false)).toBe('A & B ');
+  });
+
+  it('renders subject, HTML and text and drops empty sections', () => {
+    const email = renderDigestEmail({
+      siteUrl: 'https://facets.test',
+      frequency: 'weekly',
+      now: NOW,
+      sections: [
+        { title: 'For you', intro: 'Picks', stories: [] },
+        {
+          title: 'Missed by the left',
+          intro: 'Mostly right-leaning coverage.',
+          stories: [story('tax-cuts', 5, 2, { title: 'Tax <cuts> & you', note: 'Few left sources' })],
+        },
+      ],
+      unsubscribeUrl: 'https://facets.test/unsubscribe?token=abc',
+      preferencesUrl: 'https://facets.test/settings',
+    });
+    expect(email.subject).toBe('Facets weekly digest · 1 story one side may have missed');
+    expect(email.html).toContain('Tax &lt;cuts&gt; &amp; you');
+    expect(email.html).toContain('href="https://facets.test/story/tax-cuts"');
+    expect(email.html).toContain('href="https://facets.test/unsubscribe?token=abc"');
+    expect(email.html).not.toContain('For you');
+    expect(email.text).toContain('* Tax <cuts> & you\n  5 sources · Left 10% · Center 20% · Right 70%\n  Few left sources');
+    expect(email.text).toContain('Unsubscribe: https://facets.test/unsubscribe?token=abc');
+    expect(email.text).toContain('12 March 2026');
+  });
+
+  it('renders topic alerts with the story headline as the subject', () => {
+    const input = {
+      siteUrl: 'https://facets.test',
+      now: NOW,
+      unsubscribeUrl: 'https://facets.test/unsubscribe?token=abc',
+      preferencesUrl: 'https://facets.test/settings',
+    };
+    const one = renderTopicAlertEmail({ ...input, stories: [story('rbi', 3, 1, { note: 'Matches your topic “rbi”' })] });
+    expect(one.subject).toBe('Facets alert · Story rbi');
+    expect(one.html).toContain('Matches your topic “rbi”');
+    expect(one.text).toContain('https://facets.test/story/rbi');
+    const two = renderTopicAlertEmail({ ...input, stories: [story('a', 3, 1), story('b', 2, 1)] });
+    expect(two.subject).toBe('Facets alert · 2 new stories on topics you follow');
+  });
+});
@@ -0,0 +1,125 @@
+import type { StoryDto } from './aggregationTypes';
+import { countBySide } from './blindspotFormula';
+import { matchesTopic } from './retention';
+
+/**
+ * Blindspot digest: which stories go into a subscriber's email. Every digest carries the top
+ * left- and right-blindspots of the period (from `stories.blindspotList`) plus "for you" picks
+ * from recent stories that match a followed topic or were covered by followed outlets.
+ */
+
+export const DIGEST_FREQUENCIES = ['daily', 'weekly', 'off'] as const;
+export type DigestFrequency = (typeof DIGEST_FREQUENCIES)[number];
+export type DigestSchedule = Exclude<DigestFrequency, 'off'>;
+
+/** Stories per blindspot side and personal picks per digest. */
+export const DIGEST_PER_SIDE = 3;
+export const DIGEST_PERSONAL = 4;
+/** Send errors kept on a `digestRuns` report. */
+export const DIGEST_REPORTED_ERRORS = 20;
+
+const HOUR_MS = 3_600_000;
+const PERIOD_MS: Record<DigestSchedule, number> = { daily: 24 * HOUR_MS, weekly: 7 * 24 * HOUR_MS };
+/** A subscriber is due a little before a full period has passed, so a cron that runs late does not skip a day. */
+const DUE_SLACK_MS = 2 * HOUR_MS;
+
+export function isDigestFrequency(value: string): value is DigestFrequency {
+  return (DIGEST_FREQUENCIES as readonly string[]).includes(value);
+}
+
+export function digestPeriodStart(frequency: DigestSchedule, now: number): number {
+  return now - PERIOD_MS[frequency];
+}
+
+/** Subscribers last sent a digest before this time (or never) are due one. */
+export function digestDueBefore(frequency: DigestSchedule, now: number): number {
+  return now - PERIOD_MS[frequency] + DUE_SLACK_MS;
+}
+
+export type DigestStory = {
+  id: string;
+  slug: string;
+  title: string;
+  sourceCount: number;
+  lastUpdatedAt: string;
+  /** Share of left / center / right coverage, whole percent. */
+  sides: { left: number; center: number; right: number };
+  /** Blindspot reason, or why a personal pick was chosen. */
+  note: string | null;
+};
+
+export function digestStory(dto: StoryDto, note?: string | null): DigestStory {
+  const { left, center, right, total } = countBySide(dto.biasSpread);
+  const pct = (n: number) => (total ? Math.round((n / total) * 100) : 0);
+  return {
+    id: dto.id,
+    slug: dto.slug,
+    title: dto.canonicalTitle,
+    sourceCount: dto.sourceCount,
+    lastUpdatedAt: dto.lastUpdatedAt,
+    sides: { left: pct(left), center: pct(center), right: pct(right) },
+    note: note === undefined ? (dto.blindspotReason ?? null) : note,
+  };
+}
+
+/** The most widely covered blindspots updated since `since`. */
+export function topBlindspots(stories: DigestStory[], since: number, limit: number): DigestStory[] {
+  return stories
+    .filter((s) => Date.parse(s.lastUpdatedAt) >= since)
+    .sort((a, b) => b.sourceCount - a.sourceCount || b.lastUpdatedAt.localeCompare(a.lastUpdatedAt))
+    .slice(0, limit);
+}
+
+export type PersonalCandidate = { id: string; title: string; outletIds: string[] };
+
+/**
+ * Personal picks: stories matching a followed topic first, then stories by how many followed
+ * outlets covered them. Stories already in the digest (`exclude`) and stories with no match are left out.
+ */
+export function rankPersonalPicks(
+  candidates: PersonalCandidate[],
+  follows: Set<string>,
+  topics: string[],
+  exclude: Set<string>,
+  limit: number,
+): { id: string; note: string }[] {
+  const scored = [];
+  for (const c of candidates) {
+    if (exclude.has(c.id)) continue;
+    const topic = topics.find((t) => matchesTopic(c.title, [t]));
+    const followed = new Set(c.outletIds.filter((id) => follows.has(id))).size;
+    if (!topic && !followed) continue;
+    scored.push({
+      id: c.id,
+      score: (topic ? 100 : 0) + followed,
+      note: topic
+        ? `Matches your topic “${topic}”`
+        : `Covered by ${followed} outlet${followed === 1 ? '' : 's'} you follow`,
+    });
+  }
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ id, note }) => ({ id, note }));
+}
+
+export function validateDigestEmail(raw: string | undefined | null): string {
+  const email = raw?.trim().toLowerCase() ?? '';
+  if (!email) throw new Error('an email address is required for the digest');
+  if (email.length > 254 || !/^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/.test(email)) throw new Error('invalid email address');
+  return email;
+}
+
+export const DEFAULT_SITE_URL = 'https://facets.adityamer.dev';
+
+/** `SITE_URL` on Convex: where links in emails point (same value as `NEXT_PUBLIC_SITE_URL`). */
+export function siteUrlFromEnv(raw: string | undefined): string {
+  return raw?.trim().replace(/\/+$/, '') || DEFAULT_SITE_URL;
+}
+
+/** URL-safe random token for unsubscribe links (32 hex chars). */
+export function newUnsubscribeToken(): string {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
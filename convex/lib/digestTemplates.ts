@@ -0,0 +1,190 @@
+import type { DigestSchedule, DigestStory } from './digest';
+
+/**
+ * Digest and topic alert email templates. `{{name}}` is HTML-escaped in the HTML templates, `{{{name}}}` is
+ * inserted as is (already rendered blocks); the text templates never escape.
+ */
+
+export const DIGEST_HTML = `<!doctype html>
+<html lang="en">
+<body style="margin:0;padding:0;background:#f6f6f4;font-family:-apple-system,Segoe UI,Roboto,Helvetica,Arial,sans-serif;color:#1c1c1a">
+<div style="max-width:600px;margin:0 auto;padding:24px 16px">
+<p style="font-size:12px;letter-spacing:.12em;text-transform:uppercase;color:#8a6d3b;margin:0">Facets · {{period}} blindspot digest</p>
+<h1 style="font-size:22px;margin:8px 0 4px">{{heading}}</h1>
+<p style="font-size:13px;color:#6b6b66;margin:0 0 24px">{{date}}</p>
+{{{sections}}}
+<p style="font-size:12px;color:#6b6b66;margin-top:32px;border-top:1px solid #e2e2dc;padding-top:16px">
+You get this email {{period}} because you subscribed on Facets.
+<a href="{{preferencesUrl}}" style="color:#6b6b66">Change frequency</a> ·
+<a href="{{unsubscribeUrl}}" style="color:#6b6b66">Unsubscribe</a>
+</p>
+</div>
+</body>
+</html>
+`;
+
+export const ALERT_HTML = `<!doctype html>
+<html lang="en">
+<body style="margin:0;padding:0;background:#f6f6f4;font-family:-apple-system,Segoe UI,Roboto,Helvetica,Arial,sans-serif;color:#1c1c1a">
+<div style="max-width:600px;margin:0 auto;padding:24px 16px">
+<p style="font-size:12px;letter-spacing:.12em;text-transform:uppercase;color:#8a6d3b;margin:0">Facets · topic alert</p>
+<h1 style="font-size:22px;margin:8px 0 4px">{{heading}}</h1>
+<p style="font-size:13px;color:#6b6b66;margin:0 0 24px">{{date}}</p>
+{{{sections}}}
+<p style="font-size:12px;color:#6b6b66;margin-top:32px;border-top:1px solid #e2e2dc;padding-top:16px">
+You get these alerts because you follow topics on Facets and turned on alert emails.
+<a href="{{preferencesUrl}}" style="color:#6b6b66">Email settings</a> ·
+<a href="{{unsubscribeUrl}}" style="color:#6b6b66">Unsubscribe from all Facets email</a>
+</p>
+</div>
+</body>
+</html>
+`;
+
+export const SECTION_HTML = `<h2 style="font-size:15px;margin:24px 0 4px">{{title}}</h2>
+<p style="font-size:13px;color:#6b6b66;margin:0 0 12px">{{intro}}</p>
+{{{stories}}}
+`;
+
+export const STORY_HTML = `<div style="background:#fff;border:1px solid #e2e2dc;border-radius:8px;padding:12px 14px;margin-bottom:10px">
+<a href="{{url}}" style="font-size:15px;font-weight:600;color:#1c1c1a;text-decoration:none">{{title}}</a>
+<p style="font-size:12px;color:#6b6b66;margin:6px 0 0">{{coverage}}</p>
+{{{note}}}
+</div>
+`;
+
+export const DIGEST_TEXT = `FACETS · {{period}} blindspot digest
+{{heading}}
+{{date}}
+{{{sections}}}
+--
+Change frequency: {{preferencesUrl}}
+Unsubscribe: {{unsubscribeUrl}}
+`;
+
+export const ALERT_TEXT = `FACETS · topic alert
+{{heading}}
+{{date}}
+{{{sections}}}
+--
+Email settings: {{preferencesUrl}}
+Unsubscribe from all Facets email: {{unsubscribeUrl}}
+`;
+
+export const SECTION_TEXT = `
+{{title}}
+{{intro}}
+{{{stories}}}`;
+
+export const STORY_TEXT = `
+* {{title}}
+  {{coverage}}{{{note}}}
+  {{url}}
+`;
+
+const ENTITIES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+export function escapeHtml(s: string): string {
+  return s.replace(/[&<>"']/g, (c) => ENTITIES[c]);
+}
+
+/** Fill `{{name}}` / `{{{name}}}` placeholders; unknown names render empty. */
+export function fillTemplate(template: string, vars: Record<string, string>, html: boolean): string {
+  // One pass, so braces inside substituted values are never read as placeholders.
+  return template.replace(/\{\{\{(\w+)\}\}\}|\{\{(\w+)\}\}/g, (_, raw?: string, escaped?: string) => {
+    const value = vars[(raw ?? escaped)!] ?? '';
+    return escaped && html ? escapeHtml(value) : value;
+  });
+}
+
+export type DigestSection = { title: string; intro: string; stories: DigestStory[] };
+
+export type DigestEmailInput = {
+  siteUrl: string;
+  frequency: DigestSchedule;
+  now: number;
+  sections: DigestSection[];
+  unsubscribeUrl: string;
+  preferencesUrl: string;
+};
+
+function coverageLine(s: DigestStory): string {
+  return `${s.sourceCount} source${s.sourceCount === 1 ? '' : 's'} · Left ${s.sides.left}% · Center ${s.sides.center}% · Right ${s.sides.right}%`;
+}
+
+function renderSections(sections: DigestSection[], siteUrl: string, html: boolean): string {
+  const storyVars = (s: DigestStory) => ({
+    url: `${siteUrl}/story/${encodeURIComponent(s.slug)}`,
+    title: s.title,
+    coverage: coverageLine(s),
+    note: s.note
+      ? html
+        ? `<p style="font-size:12px;color:#8a6d3b;margin:4px 0 0">${escapeHtml(s.note)}</p>`
+        : `\n  ${s.note}`
+      : '',
+  });
+  return sections
+    .map((section) =>
+      fillTemplate(
+        html ? SECTION_HTML : SECTION_TEXT,
+        {
+          title: section.title,
+          intro: section.intro,
+          stories: section.stories
+            .map((s) => fillTemplate(html ? STORY_HTML : STORY_TEXT, storyVars(s), html))
+            .join(''),
+        },
+        html,
+      ),
+    )
+    .join('');
+}
+
+function emailDate(now: number): string {
+  return new Date(now).toLocaleDateString('en-IN', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'Asia/Kolkata',
+  });
+}
+
+/** Subject, HTML and plain-text bodies for one subscriber. Empty sections are left out. */
+export function renderDigestEmail(input: DigestEmailInput): { subject: string; html: string; text: string } {
+  const sections = input.sections.filter((s) => s.stories.length);
+  const count = sections.reduce((n, s) => n + s.stories.length, 0);
+  const period = input.frequency;
+  const heading = `${count} ${count === 1 ? 'story' : 'stories'} one side may have missed`;
+  const vars = {
+    period,
+    heading,
+    date: emailDate(input.now),
+    unsubscribeUrl: input.unsubscribeUrl,
+    preferencesUrl: input.preferencesUrl,
+  };
+  return {
+    subject: `Facets ${period} digest · ${heading}`,
+    html: fillTemplate(DIGEST_HTML, { ...vars, sections: renderSections(sections, input.siteUrl, true) }, true),
+    text: fillTemplate(DIGEST_TEXT, { ...vars, sections: renderSections(sections, input.siteUrl, false) }, false),
+  };
+}
+
+export type TopicAlertEmailInput = Omit<DigestEmailInput, 'frequency' | 'sections'> & { stories: DigestStory[] };
+
+/** One email per alert pass with every new story that matched the subscriber's topics. */
+export function renderTopicAlertEmail(input: TopicAlertEmailInput): { subject: string; html: string; text: string } {
+  const count = input.stories.length;
+  const heading = `${count} new ${count === 1 ? 'story' : 'stories'} on topics you follow`;
+  const sections = [{ title: 'New on your topics', intro: 'First reported in the last day.', stories: input.stories }];
+  const vars = {
+    heading,
+    date: emailDate(input.now),
+    unsubscribeUrl: input.unsubscribeUrl,
+    preferencesUrl: input.preferencesUrl,
+  };
+  return {
+    subject: count === 1 ? `Facets alert · ${input.stories[0].title}` : `Facets alert · ${heading}`,
+    html: fillTemplate(ALERT_HTML, { ...vars, sections: renderSections(sections, input.siteUrl, true) }, true),
+    text: fillTemplate(ALERT_TEXT, { ...vars, sections: renderSections(sections, input.siteUrl, false) }, false),
+  };
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { extractEntityTokens } from './clusterEntities';
+import { DEFAULT_EDITION, feedEdition, getEdition, validateEdition } from './editions';
+import { indexTerms } from './storyTerms';
+
+describe('editions', () => {
+  it('falls back to the default edition for missing or unknown ids', () => {
+    expect(getEdition(undefined).id).toBe(DEFAULT_EDITION);
+    expect(getEdition('mars').id).toBe(DEFAULT_EDITION);
+    expect(getEdition('in-maharashtra').searchRegion).toBe('Maharashtra');
+  });
+
+  it("prefers the feed's edition over the outlet's", () => {
+    expect(feedEdition({ edition: 'in-maharashtra' }, { edition: 'in-national' })).toBe('in-maharashtra');
+    expect(feedEdition({}, { edition: 'uk' })).toBe('uk');
+    expect(feedEdition({}, {})).toBe(DEFAULT_EDITION);
+  });
+
+  it('validates admin input', () => {
+    expect(validateEdition(' us ')).toBe('us');
+    expect(validateEdition('')).toBeUndefined();
+    expect(() => validateEdition('in-goa')).toThrow(/edition must be one of/);
+  });
+
+  it('uses the edition entity dictionary', () => {
+    const title = 'Fadnavis meets Pawar over BMC polls';
+    expect(extractEntityTokens(title, 'in-maharashtra').has('bmc')).toBe(true);
+    expect(extractEntityTokens(title, 'in-national').has('bmc')).toBe(false);
+  });
+
+  it('scopes index terms for non-default editions', () => {
+    const title = 'Senate passes budget bill';
+    expect(indexTerms(title)).not.toContain('us:senate');
+    expect(indexTerms(title, 'us')).toContain('us:senate');
+    expect(indexTerms(title, 'us').every((t) => t.startsWith('us:'))).toBe(true);
+  });
+});
@@ -0,0 +1,210 @@
+import type { BiasLabel } from './aggregationTypes';
+
+/**
+ * Regional editions. Outlets, feeds and story clusters carry an `edition`; rows without one
+ * belong to `DEFAULT_EDITION` (everything ingested before editions existed). Each edition
+ * has its own enrich domains, entity dictionary and bias scale wording.
+ */
+
+export const EDITION_IDS = ['in-national', 'in-maharashtra', 'us', 'uk'] as const;
+export type EditionId = (typeof EDITION_IDS)[number];
+
+export const DEFAULT_EDITION: EditionId = 'in-national';
+
+export type BiasScaleStep = { label: BiasLabel; name: string };
+
+export type Edition = {
+  id: EditionId;
+  name: string;
+  /** UI languages offered while reading this edition. */
+  locales: string[];
+  /** Region phrase appended to Exa queries ("<headline> India news"). */
+  searchRegion: string;
+  /** Outlets queried with `site:` when widening story coverage (first four per story). */
+  enrichDomains: string[];
+  /** Outlets queried with `site:` for server-side verify search. */
+  verifyDomains: string[];
+  /** Lower-case names boosted as entities in clustering. */
+  entities: string[];
+  biasScale: BiasScaleStep[];
+};
+
+const INDIA_ENTITIES = [
+  'modi',
+  'bjp',
+  'congress',
+  'delhi',
+  'mumbai',
+  'kashmir',
+  'parliament',
+  'supreme court',
+  'election',
+  'lok sabha',
+  'rahul',
+  'gandhi',
+  'india',
+  'pakistan',
+  'china',
+  'rupee',
+  'rbi',
+];
+
+const INDIA_SCALE: BiasScaleStep[] = [
+  { label: 'left', name: 'Left' },
+  { label: 'center-left', name: 'Centre-left' },
+  { label: 'center', name: 'Centre' },
+  { label: 'center-right', name: 'Centre-right' },
+  { label: 'right', name: 'Right' },
+];
+
+export const EDITIONS: Record<EditionId, Edition> = {
+  'in-national': {
+    id: 'in-national',
+    name: 'India',
+    locales: ['en', 'hi'],
+    searchRegion: 'India',
+    enrichDomains: [
+      'thewire.in',
+      'republicworld.com',
+      'thehindu.com',
+      'ndtv.com',
+      'timesofindia.com',
+      'indianexpress.com',
+      'scroll.in',
+      'hindustantimes.com',
+    ],
+    verifyDomains: ['thehindu.com', 'indianexpress.com', 'ndtv.com', 'republicworld.com', 'thewire.in'],
+    entities: INDIA_ENTITIES,
+    biasScale: INDIA_SCALE,
+  },
+  'in-maharashtra': {
+    id: 'in-maharashtra',
+    name: 'Maharashtra',
+    locales: ['en', 'mr', 'hi'],
+    searchRegion: 'Maharashtra',
+    enrichDomains: [
+      'loksatta.com',
+      'maharashtratimes.com',
+      'lokmat.com',
+      'mid-day.com',
+      'freepressjournal.in',
+      'punemirror.com',
+    ],
+    verifyDomains: ['loksatta.com', 'lokmat.com', 'mid-day.com', 'thehindu.com', 'indianexpress.com'],
+    entities: [
+      ...INDIA_ENTITIES,
+      'maharashtra',
+      'pune',
+      'nagpur',
+      'thane',
+      'nashik',
+      'shiv sena',
+      'ncp',
+      'fadnavis',
+      'shinde',
+      'pawar',
+      'thackeray',
+      'bmc',
+      'mahayuti',
+      'aghadi',
+    ],
+    biasScale: INDIA_SCALE,
+  },
+  us: {
+    id: 'us',
+    name: 'United States',
+    locales: ['en'],
+    searchRegion: 'US',
+    enrichDomains: ['apnews.com', 'nytimes.com', 'washingtonpost.com', 'wsj.com', 'foxnews.com', 'npr.org', 'nypost.com'],
+    verifyDomains: ['apnews.com', 'nytimes.com', 'wsj.com', 'foxnews.com', 'npr.org'],
+    entities: [
+      'trump',
+      'biden',
+      'harris',
+      'congress',
+      'senate',
+      'white house',
+      'supreme court',
+      'republican',
+      'democrat',
+      'pentagon',
+      'federal reserve',
+      'ukraine',
+      'china',
+      'israel',
+      'election',
+    ],
+    biasScale: [
+      { label: 'left', name: 'Left' },
+      { label: 'center-left', name: 'Lean left' },
+      { label: 'center', name: 'Center' },
+      { label: 'center-right', name: 'Lean right' },
+      { label: 'right', name: 'Right' },
+    ],
+  },
+  uk: {
+    id: 'uk',
+    name: 'United Kingdom',
+    locales: ['en'],
+    searchRegion: 'UK',
+    enrichDomains: [
+      'bbc.co.uk',
+      'theguardian.com',
+      'telegraph.co.uk',
+      'thetimes.co.uk',
+      'independent.co.uk',
+      'dailymail.co.uk',
+      'ft.com',
+    ],
+    verifyDomains: ['bbc.co.uk', 'theguardian.com', 'telegraph.co.uk', 'thetimes.co.uk', 'ft.com'],
+    entities: [
+      'starmer',
+      'sunak',
+      'labour',
+      'tory',
+      'conservative',
+      'reform',
+      'westminster',
+      'downing street',
+      'nhs',
+      'brexit',
+      'parliament',
+      'bank of england',
+      'scotland',
+      'ukraine',
+      'election',
+    ],
+    biasScale: [
+      { label: 'left', name: 'Left' },
+      { label: 'center-left', name: 'Centre-left' },
+      { label: 'center', name: 'Centre' },
+      { label: 'center-right', name: 'Centre-right' },
+      { label: 'right', name: 'Right' },
+    ],
+  },
+};
+
+export function isEditionId(id: string): id is EditionId {
+  return (EDITION_IDS as readonly string[]).includes(id);
+}
+
+/** Unknown or missing ids fall back to the default edition. */
+export function getEdition(id?: string | null): Edition {
+  return id && isEditionId(id) ? EDITIONS[id] : EDITIONS[DEFAULT_EDITION];
+}
+
+export function editionOf(row: { edition?: string | null }): EditionId {
+  return getEdition(row.edition).id;
+}
+
+/** A feed's own edition wins over its outlet's (e.g. a national outlet's Maharashtra feed). */
+export function feedEdition(feed: { edition?: string | null }, outlet: { edition?: string | null }): EditionId {
+  return editionOf({ edition: feed.edition ?? outlet.edition });
+}
+
+export function validateEdition(id: string | undefined): EditionId | undefined {
+  const trimmed = id?.trim();
+  if (!trimmed) return undefined;
+  if (!isEditionId(trimmed)) throw new Error(`edition must be one of ${EDITION_IDS.join(', ')}`);
+  return trimmed;
+}
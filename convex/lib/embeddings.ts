@@ -0,0 +1,122 @@
+import { titleTokens } from './cluster';
+import { extractEntityTokens } from './clusterEntities';
+
+/** Article vectors for clustering: OpenAI-compatible `/embeddings` or a deterministic local hash model. */
+
+export type ArticleEmbedding = { model: string; vector: number[] };
+
+export type Embedder = {
+  model: string;
+  embed(texts: string[]): Promise<number[][]>;
+};
+
+const LOCAL_DIM = 256;
+export const LOCAL_MODEL = `local-hash-${LOCAL_DIM}`;
+
+const DEFAULT_BASE = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'text-embedding-3-small';
+/** A hung endpoint must not stall ingest; the batch then falls back to Jaccard. */
+const REQUEST_TIMEOUT_MS = 20_000;
+
+/** Title carries the event; summary only adds context. */
+export function articleEmbeddingText(title: string, summary?: string | null): string {
+  const s = summary?.replace(/\s+/g, ' ').trim().slice(0, 1000);
+  return s ? `${title}\n${s}` : title;
+}
+
+function fnv1a(s: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function normalize(vec: number[]): number[] {
+  const norm = Math.sqrt(vec.reduce((s, x) => s + x * x, 0));
+  return norm === 0 ? vec : vec.map((x) => x / norm);
+}
+
+/** Signed feature hashing of title tokens, entities and summary tokens (title weighted 2×). */
+export function hashEmbed(text: string, dim = LOCAL_DIM): number[] {
+  const [title, ...rest] = text.split('\n');
+  const vec = new Array<number>(dim).fill(0);
+  const add = (feature: string, weight: number) => {
+    const h = fnv1a(feature);
+    vec[h % dim] += h & 0x80000000 ? -weight : weight;
+  };
+  for (const t of titleTokens(title)) add(t, 2);
+  for (const e of extractEntityTokens(title)) add(`e:${e}`, 1);
+  for (const t of titleTokens(rest.join(' '))) add(t, 1);
+  return normalize(vec);
+}
+
+export function localEmbedder(dim = LOCAL_DIM): Embedder {
+  return {
+    model: `local-hash-${dim}`,
+    embed: async (texts) => texts.map((t) => hashEmbed(t, dim)),
+  };
+}
+
+function remoteEmbedder(): Embedder | null {
+  const apiKey = process.env.EMBEDDINGS_API_KEY?.trim();
+  if (!apiKey) return null;
+  const base = (process.env.EMBEDDINGS_BASE_URL ?? DEFAULT_BASE).replace(/\/$/, '');
+  const model = process.env.EMBEDDINGS_MODEL ?? DEFAULT_MODEL;
+
+  return {
+    model,
+    embed: async (texts) => {
+      if (texts.length === 0) return [];
+      const res = await fetch(`${base}/embeddings`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model, input: texts }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (!res.ok) {
+        const errText = await res.text();
+        throw new Error(`Embeddings ${res.status}: ${errText.slice(0, 300)}`);
+      }
+      const json = (await res.json()) as { data?: { index: number; embedding: number[] }[] };
+      const rows = [...(json.data ?? [])].sort((a, b) => a.index - b.index);
+      if (rows.length !== texts.length) throw new Error('Embeddings: row count mismatch');
+      return rows.map((r) => r.embedding);
+    },
+  };
+}
+
+/** `EMBEDDINGS_PROVIDER=local` forces the hash model; otherwise remote when `EMBEDDINGS_API_KEY` is set. */
+export function embedderFromEnv(): Embedder | null {
+  if (process.env.EMBEDDINGS_PROVIDER?.trim() === 'local') return localEmbedder();
+  return remoteEmbedder();
+}
+
+/** Embed a batch for ingest; failures degrade to "no embedding" so clustering falls back to Jaccard. */
+export async function embedForIngest(
+  embedder: Embedder | null,
+  texts: string[],
+): Promise<(ArticleEmbedding | undefined)[]> {
+  if (!embedder || texts.length === 0) return texts.map(() => undefined);
+  try {
+    const vectors = await embedder.embed(texts);
+    return vectors.map((vector) => ({ model: embedder.model, vector }));
+  } catch (e) {
+    console.warn('embeddings:', e instanceof Error ? e.message : e);
+    return texts.map(() => undefined);
+  }
+}
+
+export function cosine(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na === 0 || nb === 0 ? 0 : dot / Math.sqrt(na * nb);
+}
@@ -0,0 +1,157 @@
+import type { EditionId } from './editions';
+
+/**
+ * Known people, organisations, places and parties per edition. Every alias resolves to one
+ * slug, so "PM Modi", "Narendra Modi" and "Modi" land on the same entity page. Names not listed
+ * here are still picked up from capitalised phrases (`namedEntities.ts`), just without aliases.
+ */
+
+export type EntityKind = 'person' | 'org' | 'place' | 'party';
+
+export type KnownEntity = {
+  slug: string;
+  name: string;
+  kind: EntityKind;
+  /** Lower-case surface forms (any script), matched on word boundaries. */
+  aliases: string[];
+};
+
+const INDIA: KnownEntity[] = [
+  { slug: 'narendra-modi', name: 'Narendra Modi', kind: 'person', aliases: ['narendra modi', 'pm modi', 'prime minister modi', 'modi'] },
+  { slug: 'rahul-gandhi', name: 'Rahul Gandhi', kind: 'person', aliases: ['rahul gandhi', 'rahul'] },
+  { slug: 'amit-shah', name: 'Amit Shah', kind: 'person', aliases: ['amit shah', 'home minister shah'] },
+  { slug: 'mallikarjun-kharge', name: 'Mallikarjun Kharge', kind: 'person', aliases: ['mallikarjun kharge', 'kharge'] },
+  { slug: 'arvind-kejriwal', name: 'Arvind Kejriwal', kind: 'person', aliases: ['arvind kejriwal', 'kejriwal'] },
+  { slug: 'mamata-banerjee', name: 'Mamata Banerjee', kind: 'person', aliases: ['mamata banerjee', 'mamata'] },
+  { slug: 'nirmala-sitharaman', name: 'Nirmala Sitharaman', kind: 'person', aliases: ['nirmala sitharaman', 'sitharaman'] },
+  { slug: 'bjp', name: 'BJP', kind: 'party', aliases: ['bjp', 'bharatiya janata party'] },
+  { slug: 'congress', name: 'Congress', kind: 'party', aliases: ['indian national congress', 'congress party', 'congress'] },
+  { slug: 'aap', name: 'Aam Aadmi Party', kind: 'party', aliases: ['aam aadmi party', 'aap'] },
+  { slug: 'tmc', name: 'Trinamool Congress', kind: 'party', aliases: ['trinamool congress', 'trinamool', 'tmc'] },
+  { slug: 'rss', name: 'RSS', kind: 'org', aliases: ['rashtriya swayamsevak sangh', 'rss'] },
+  { slug: 'supreme-court', name: 'Supreme Court', kind: 'org', aliases: ['supreme court', 'apex court', 'sc'] },
+  { slug: 'election-commission', name: 'Election Commission', kind: 'org', aliases: ['election commission', 'eci'] },
+  { slug: 'rbi', name: 'Reserve Bank of India', kind: 'org', aliases: ['reserve bank of india', 'reserve bank', 'rbi'] },
+  { slug: 'sebi', name: 'SEBI', kind: 'org', aliases: ['securities and exchange board of india', 'sebi'] },
+  { slug: 'enforcement-directorate', name: 'Enforcement Directorate', kind: 'org', aliases: ['enforcement directorate', 'ed'] },
+  { slug: 'cbi', name: 'CBI', kind: 'org', aliases: ['central bureau of investigation', 'cbi'] },
+  { slug: 'isro', name: 'ISRO', kind: 'org', aliases: ['indian space research organisation', 'isro'] },
+  { slug: 'adani-group', name: 'Adani Group', kind: 'org', aliases: ['adani group', 'adani'] },
+  { slug: 'parliament', name: 'Parliament', kind: 'org', aliases: ['parliament', 'lok sabha', 'rajya sabha'] },
+  { slug: 'india', name: 'India', kind: 'place', aliases: ['india'] },
+  { slug: 'delhi', name: 'Delhi', kind: 'place', aliases: ['new delhi', 'delhi'] },
+  { slug: 'mumbai', name: 'Mumbai', kind: 'place', aliases: ['mumbai', 'bombay'] },
+  { slug: 'kolkata', name: 'Kolkata', kind: 'place', aliases: ['kolkata', 'calcutta'] },
+  { slug: 'bengaluru', name: 'Bengaluru', kind: 'place', aliases: ['bengaluru', 'bangalore'] },
+  { slug: 'jammu-and-kashmir', name: 'Jammu and Kashmir', kind: 'place', aliases: ['jammu and kashmir', 'j&k', 'kashmir'] },
+  { slug: 'manipur', name: 'Manipur', kind: 'place', aliases: ['manipur'] },
+  { slug: 'pakistan', name: 'Pakistan', kind: 'place', aliases: ['pakistan'] },
+  { slug: 'china', name: 'China', kind: 'place', aliases: ['china', 'beijing'] },
+];
+
+const MAHARASHTRA: KnownEntity[] = [
+  { slug: 'eknath-shinde', name: 'Eknath Shinde', kind: 'person', aliases: ['eknath shinde', 'shinde'] },
+  { slug: 'devendra-fadnavis', name: 'Devendra Fadnavis', kind: 'person', aliases: ['devendra fadnavis', 'fadnavis'] },
+  { slug: 'uddhav-thackeray', name: 'Uddhav Thackeray', kind: 'person', aliases: ['uddhav thackeray', 'uddhav'] },
+  { slug: 'sharad-pawar', name: 'Sharad Pawar', kind: 'person', aliases: ['sharad pawar'] },
+  { slug: 'ajit-pawar', name: 'Ajit Pawar', kind: 'person', aliases: ['ajit pawar'] },
+  { slug: 'shiv-sena', name: 'Shiv Sena', kind: 'party', aliases: ['shiv sena', 'sena'] },
+  { slug: 'ncp', name: 'NCP', kind: 'party', aliases: ['nationalist congress party', 'ncp'] },
+  { slug: 'mns', name: 'MNS', kind: 'party', aliases: ['maharashtra navnirman sena', 'mns'] },
+  { slug: 'bmc', name: 'BMC', kind: 'org', aliases: ['brihanmumbai municipal corporation', 'bmc'] },
+  { slug: 'maharashtra', name: 'Maharashtra', kind: 'place', aliases: ['maharashtra'] },
+  { slug: 'pune', name: 'Pune', kind: 'place', aliases: ['pune'] },
+  { slug: 'nagpur', name: 'Nagpur', kind: 'place', aliases: ['nagpur'] },
+  { slug: 'thane', name: 'Thane', kind: 'place', aliases: ['thane'] },
+];
+
+const US: KnownEntity[] = [
+  { slug: 'donald-trump', name: 'Donald Trump', kind: 'person', aliases: ['donald trump', 'president trump', 'trump'] },
+  { slug: 'joe-biden', name: 'Joe Biden', kind: 'person', aliases: ['joe biden', 'president biden', 'biden'] },
+  { slug: 'kamala-harris', name: 'Kamala Harris', kind: 'person', aliases: ['kamala harris', 'harris'] },
+  { slug: 'republican-party', name: 'Republican Party', kind: 'party', aliases: ['republican party', 'republicans', 'gop'] },
+  { slug: 'democratic-party', name: 'Democratic Party', kind: 'party', aliases: ['democratic party', 'democrats'] },
+  { slug: 'us-congress', name: 'Congress', kind: 'org', aliases: ['congress'] },
+  { slug: 'us-senate', name: 'Senate', kind: 'org', aliases: ['senate'] },
+  { slug: 'us-supreme-court', name: 'Supreme Court', kind: 'org', aliases: ['supreme court', 'scotus'] },
+  { slug: 'white-house', name: 'White House', kind: 'org', aliases: ['white house'] },
+  { slug: 'federal-reserve', name: 'Federal Reserve', kind: 'org', aliases: ['federal reserve', 'the fed'] },
+  { slug: 'fbi', name: 'FBI', kind: 'org', aliases: ['fbi'] },
+  { slug: 'washington', name: 'Washington', kind: 'place', aliases: ['washington'] },
+];
+
+const UK: KnownEntity[] = [
+  { slug: 'keir-starmer', name: 'Keir Starmer', kind: 'person', aliases: ['keir starmer', 'starmer'] },
+  { slug: 'rishi-sunak', name: 'Rishi Sunak', kind: 'person', aliases: ['rishi sunak', 'sunak'] },
+  { slug: 'nigel-farage', name: 'Nigel Farage', kind: 'person', aliases: ['nigel farage', 'farage'] },
+  { slug: 'labour-party', name: 'Labour', kind: 'party', aliases: ['labour party', 'labour'] },
+  { slug: 'conservative-party', name: 'Conservatives', kind: 'party', aliases: ['conservative party', 'conservatives', 'tories', 'tory'] },
+  { slug: 'reform-uk', name: 'Reform UK', kind: 'party', aliases: ['reform uk'] },
+  { slug: 'liberal-democrats', name: 'Liberal Democrats', kind: 'party', aliases: ['liberal democrats', 'lib dems'] },
+  { slug: 'nhs', name: 'NHS', kind: 'org', aliases: ['national health service', 'nhs'] },
+  { slug: 'bank-of-england', name: 'Bank of England', kind: 'org', aliases: ['bank of england'] },
+  { slug: 'downing-street', name: 'Downing Street', kind: 'org', aliases: ['downing street', 'no 10'] },
+  { slug: 'westminster', name: 'Westminster', kind: 'place', aliases: ['westminster'] },
+  { slug: 'london', name: 'London', kind: 'place', aliases: ['london'] },
+];
+
+/**
+ * Hindi and Marathi spellings, keyed by slug. They resolve to the same entity as the English
+ * aliases, which is what lets cross-language clustering line up a Hindi and an English headline.
+ */
+const DEVANAGARI: Record<string, string[]> = {
+  'narendra-modi': ['नरेंद्र मोदी', 'प्रधानमंत्री मोदी', 'पीएम मोदी', 'पंतप्रधान मोदी', 'मोदी'],
+  'rahul-gandhi': ['राहुल गांधी', 'राहुल'],
+  'amit-shah': ['अमित शाह'],
+  'mallikarjun-kharge': ['मल्लिकार्जुन खड़गे', 'मल्लिकार्जुन खरगे', 'खड़गे', 'खरगे'],
+  'arvind-kejriwal': ['अरविंद केजरीवाल', 'केजरीवाल'],
+  'mamata-banerjee': ['ममता बनर्जी'],
+  'nirmala-sitharaman': ['निर्मला सीतारमण', 'सीतारमण'],
+  bjp: ['भाजपा', 'बीजेपी', 'भारतीय जनता पार्टी', 'भारतीय जनता पक्ष'],
+  congress: ['कांग्रेस', 'काँग्रेस'],
+  aap: ['आम आदमी पार्टी'],
+  tmc: ['तृणमूल कांग्रेस', 'तृणमूल'],
+  rss: ['राष्ट्रीय स्वयंसेवक संघ', 'आरएसएस'],
+  'supreme-court': ['सुप्रीम कोर्ट', 'सर्वोच्च न्यायालय', 'उच्चतम न्यायालय'],
+  'election-commission': ['चुनाव आयोग', 'निवडणूक आयोग'],
+  rbi: ['भारतीय रिज़र्व बैंक', 'रिजर्व बैंक', 'रिझर्व्ह बँक', 'आरबीआई'],
+  sebi: ['सेबी'],
+  'enforcement-directorate': ['प्रवर्तन निदेशालय', 'ईडी'],
+  cbi: ['सीबीआई'],
+  isro: ['इसरो'],
+  'adani-group': ['अडाणी समूह', 'अदाणी समूह', 'अडाणी', 'अदाणी'],
+  parliament: ['संसद', 'लोकसभा', 'राज्यसभा'],
+  india: ['भारत'],
+  delhi: ['नई दिल्ली', 'दिल्ली'],
+  mumbai: ['मुंबई'],
+  kolkata: ['कोलकाता'],
+  bengaluru: ['बेंगलुरु'],
+  'jammu-and-kashmir': ['जम्मू-कश्मीर', 'जम्मू कश्मीर', 'कश्मीर'],
+  manipur: ['मणिपुर'],
+  pakistan: ['पाकिस्तान'],
+  china: ['चीन'],
+  'eknath-shinde': ['एकनाथ शिंदे', 'शिंदे'],
+  'devendra-fadnavis': ['देवेंद्र फडणवीस', 'फडणवीस'],
+  'uddhav-thackeray': ['उद्धव ठाकरे', 'उद्धव'],
+  'sharad-pawar': ['शरद पवार'],
+  'ajit-pawar': ['अजित पवार'],
+  'shiv-sena': ['शिवसेना', 'शिव सेना'],
+  ncp: ['राष्ट्रवादी काँग्रेस'],
+  mns: ['महाराष्ट्र नवनिर्माण सेना', 'मनसे'],
+  bmc: ['मुंबई महानगरपालिका', 'बीएमसी'],
+  maharashtra: ['महाराष्ट्र'],
+  pune: ['पुणे'],
+  nagpur: ['नागपूर', 'नागपुर'],
+  thane: ['ठाणे'],
+};
+
+function withAliases(list: KnownEntity[], extra: Record<string, string[]>): KnownEntity[] {
+  return list.map((e) => (extra[e.slug] ? { ...e, aliases: [...e.aliases, ...extra[e.slug]] } : e));
+}
+
+export const GAZETTEER: Record<EditionId, KnownEntity[]> = {
+  'in-national': withAliases(INDIA, DEVANAGARI),
+  'in-maharashtra': withAliases([...INDIA, ...MAHARASHTRA], DEVANAGARI),
+  us: US,
+  uk: UK,
+};
@@ -0,0 +1,112 @@
+import type { Id } from '../_generated/dataModel';
+import type { MutationCtx } from '../_generated/server';
+import { extractNamedEntities } from './namedEntities';
+
+/** Entities kept per story; the long tail of one-off names stays on the articles. */
+const ENTITIES_PER_STORY = 30;
+
+/** Extract and store an article's entities (replacing any earlier extraction). */
+export async function recordArticleEntities(
+  ctx: MutationCtx,
+  articleId: Id<'articles'>,
+  texts: string[],
+  edition: string,
+  now: number,
+) {
+  const old = await ctx.db
+    .query('articleEntities')
+    .withIndex('by_article', (q) => q.eq('articleId', articleId))
+    .collect();
+  const previous = new Set(old.map((r) => r.entityId));
+  for (const row of old) await ctx.db.delete(row._id);
+
+  const current = new Set<Id<'entities'>>();
+  for (const e of extractNamedEntities(texts, edition)) {
+    const existing = await ctx.db
+      .query('entities')
+      .withIndex('by_slug', (q) => q.eq('slug', e.slug))
+      .first();
+    let entityId: Id<'entities'>;
+    if (existing) {
+      entityId = existing._id;
+      await ctx.db.patch(entityId, {
+        articleCount: existing.articleCount + (previous.has(entityId) ? 0 : 1),
+        lastSeenAt: Math.max(existing.lastSeenAt, now),
+      });
+    } else {
+      entityId = await ctx.db.insert('entities', {
+        slug: e.slug,
+        name: e.name,
+        kind: e.kind,
+        articleCount: 1,
+        firstSeenAt: now,
+        lastSeenAt: now,
+      });
+    }
+    await ctx.db.insert('articleEntities', { articleId, entityId, mentions: e.mentions });
+    current.add(entityId);
+  }
+  for (const entityId of previous) {
+    if (current.has(entityId)) continue;
+    const entity = await ctx.db.get(entityId);
+    if (entity) await ctx.db.patch(entityId, { articleCount: Math.max(0, entity.articleCount - 1) });
+  }
+}
+
+/** Recompute a story's entity totals from its articles; a story with no articles ends up with none. */
+export async function rebuildStoryEntities(ctx: MutationCtx, storyId: Id<'storyClusters'>) {
+  const story = await ctx.db.get(storyId);
+  const links = story?.mergedIntoId
+    ? []
+    : await ctx.db
+        .query('storyArticles')
+        .withIndex('by_story', (q) => q.eq('storyId', storyId))
+        .collect();
+  const totals = new Map<Id<'entities'>, { mentions: number; articleCount: number }>();
+  for (const link of links) {
+    const rows = await ctx.db
+      .query('articleEntities')
+      .withIndex('by_article', (q) => q.eq('articleId', link.articleId))
+      .collect();
+    for (const r of rows) {
+      const t = totals.get(r.entityId) ?? { mentions: 0, articleCount: 0 };
+      t.mentions += r.mentions;
+      t.articleCount++;
+      totals.set(r.entityId, t);
+    }
+  }
+  const keep = new Map(
+    [...totals.entries()]
+      .sort((a, b) => b[1].articleCount - a[1].articleCount || b[1].mentions - a[1].mentions)
+      .slice(0, ENTITIES_PER_STORY),
+  );
+
+  const lastSeenAt = story?.lastUpdatedAt ?? Date.now();
+  const existing = await ctx.db
+    .query('storyEntities')
+    .withIndex('by_story', (q) => q.eq('storyId', storyId))
+    .collect();
+  for (const row of existing) {
+    const t = keep.get(row.entityId);
+    if (!t) await ctx.db.delete(row._id);
+    else await ctx.db.patch(row._id, { ...t, lastSeenAt });
+    keep.delete(row.entityId);
+  }
+  for (const [entityId, t] of keep) {
+    await ctx.db.insert('storyEntities', { storyId, entityId, ...t, lastSeenAt });
+  }
+}
+
+/** Drop an article's entity rows (article deleted); returns how many rows were removed. */
+export async function removeArticleEntities(ctx: MutationCtx, articleId: Id<'articles'>): Promise<number> {
+  const rows = await ctx.db
+    .query('articleEntities')
+    .withIndex('by_article', (q) => q.eq('articleId', articleId))
+    .collect();
+  for (const row of rows) {
+    await ctx.db.delete(row._id);
+    const entity = await ctx.db.get(row.entityId);
+    if (entity) await ctx.db.patch(row.entityId, { articleCount: Math.max(0, entity.articleCount - 1) });
+  }
+  return rows.length;
+}
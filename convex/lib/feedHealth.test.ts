@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import {
+  autoDisableThreshold,
+  FEED_AUTO_DISABLE_STREAK,
+  feedHealthStatus,
+  shouldAutoDisable,
+  summarizePolls,
+} from './feedHealth';
+
+const HOUR = 3_600_000;
+
+describe('feedHealth', () => {
+  it('averages items over successful polls and computes duplicate rate', () => {
+    const s = summarizePolls([
+      { status: 'ok', items: 20, fresh: 5 },
+      { status: 'ok', items: 30, fresh: 0 },
+      { status: 'not-modified' },
+      { status: 'error' },
+    ]);
+    expect(s).toEqual({ polls: 4, errors: 1, notModified: 1, itemsPerPoll: 25, duplicateRate: 0.9 });
+    expect(summarizePolls([{ status: 'error' }]).itemsPerPoll).toBeNull();
+    expect(summarizePolls([{ status: 'ok', items: 0, fresh: 0 }]).duplicateRate).toBeNull();
+  });
+
+  it('reads the auto-disable threshold from env, 0 disables the rule', () => {
+    expect(autoDisableThreshold(undefined)).toBe(FEED_AUTO_DISABLE_STREAK);
+    expect(autoDisableThreshold('oops')).toBe(FEED_AUTO_DISABLE_STREAK);
+    expect(autoDisableThreshold('3')).toBe(3);
+    expect(shouldAutoDisable(3, 3)).toBe(true);
+    expect(shouldAutoDisable(2, 3)).toBe(false);
+    expect(shouldAutoDisable(50, autoDisableThreshold('0'))).toBe(false);
+  });
+
+  it('classifies feed status', () => {
+    const now = 100 * HOUR;
+    const base = { enabled: true, pollIntervalSec: 900, lastSuccessAt: now - HOUR };
+    expect(feedHealthStatus(base, now)).toBe('ok');
+    expect(feedHealthStatus({ ...base, errorStreak: 2 }, now)).toBe('failing');
+    expect(feedHealthStatus({ ...base, lastSuccessAt: now - 30 * HOUR }, now)).toBe('stale');
+    expect(feedHealthStatus({ ...base, lastSuccessAt: undefined }, now)).toBe('stale');
+    expect(feedHealthStatus({ ...base, enabled: false, errorStreak: 9 }, now)).toBe('disabled');
+  });
+});
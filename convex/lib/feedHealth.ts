@@ -0,0 +1,67 @@
+/** Feed health rollups for the admin dashboard and the auto-disable rule. */
+
+/** Consecutive failures before a feed is switched off (with 15m polls and backoff, about 2.5 days). */
+export const FEED_AUTO_DISABLE_STREAK = 8;
+
+/** Recent polls kept per feed (`feedPolls`); older rows are pruned on insert. */
+export const FEED_POLL_RETENTION_MS = 7 * 24 * 3_600_000;
+
+export type FeedPollSample = { status: 'ok' | 'not-modified' | 'error'; items?: number; fresh?: number };
+
+export type FeedPollSummary = {
+  polls: number;
+  errors: number;
+  notModified: number;
+  /** Mean parsed items over successful (200) polls. */
+  itemsPerPoll: number | null;
+  /** Share of parsed items that were already stored; ~1 for days means the feed stopped updating. */
+  duplicateRate: number | null;
+};
+
+export type FeedHealthStatus = 'ok' | 'failing' | 'stale' | 'disabled';
+
+/** `FEED_AUTO_DISABLE_AFTER` on Convex; `0` turns the rule off. */
+export function autoDisableThreshold(raw: string | undefined): number {
+  const n = Number(raw?.trim());
+  return raw?.trim() && Number.isInteger(n) && n >= 0 ? n : FEED_AUTO_DISABLE_STREAK;
+}
+
+export function shouldAutoDisable(errorStreak: number, threshold: number): boolean {
+  return threshold > 0 && errorStreak >= threshold;
+}
+
+export function summarizePolls(samples: FeedPollSample[]): FeedPollSummary {
+  let errors = 0;
+  let notModified = 0;
+  let okPolls = 0;
+  let items = 0;
+  let fresh = 0;
+  for (const s of samples) {
+    if (s.status === 'error') errors++;
+    else if (s.status === 'not-modified') notModified++;
+    else {
+      okPolls++;
+      items += s.items ?? 0;
+      fresh += Math.min(s.fresh ?? 0, s.items ?? 0);
+    }
+  }
+  return {
+    polls: samples.length,
+    errors,
+    notModified,
+    itemsPerPoll: okPolls > 0 ? items / okPolls : null,
+    duplicateRate: items > 0 ? 1 - fresh / items : null,
+  };
+}
+
+/** Stale = no successful poll for a day, or six intervals for slow feeds. */
+export function feedHealthStatus(
+  feed: { enabled: boolean; errorStreak?: number; lastSuccessAt?: number; pollIntervalSec: number },
+  now: number,
+): FeedHealthStatus {
+  if (!feed.enabled) return 'disabled';
+  if ((feed.errorStreak ?? 0) > 0) return 'failing';
+  const staleAfterMs = Math.max(24 * 3_600_000, feed.pollIntervalSec * 6 * 1000);
+  if (feed.lastSuccessAt === undefined || now - feed.lastSuccessAt > staleAfterMs) return 'stale';
+  return 'ok';
+}
@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest';
+import {
+  parseFeed,
+  parseGoogleNewsSitemap,
+  parseJsonFeed,
+  parseRssOrAtom,
+  parseSitemap,
+  titleFromUrl,
+} from './feedParsers';
+
+const RSS = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+  <channel>
+    <title>National</title>
+    <item>
+      <title><![CDATA[Opinion: Supreme Court reserves verdict on electoral bonds]]></title>
+      <link>https://example.in/india/sc-electoral-bonds-123.html</link>
+      <guid isPermaLink="false">sc-123</guid>
+      <description><![CDATA[<p>The bench heard arguments for three days.</p>]]></description>
+      <pubDate>Tue, 01 Oct 2024 08:30:00 +0530</pubDate>
+    </item>
+    <item>
+      <title>Best deals on hair dryer this week</title>
+      <link>https://example.in/shopping/hair-dryer</link>
+    </item>
+    <item>
+      <title>Missing link is skipped entirely</title>
+    </item>
+  </channel>
+</rss>`;
+
+const ATOM = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>Politics</title>
+  <entry>
+    <id>tag:example.in,2024:9876</id>
+    <title>Election Commission announces Maharashtra poll dates</title>
+    <link rel="alternate" href="https://example.in/politics/maharashtra-poll-dates"/>
+    <updated>2024-10-15T10:00:00Z</updated>
+    <summary>Voting in a single phase on November 20.</summary>
+  </entry>
+</feed>`;
+
+const JSON_FEED = JSON.stringify({
+  version: 'https://jsonfeed.org/version/1.1',
+  title: 'Example',
+  items: [
+    {
+      id: 42,
+      url: 'https://example.in/economy/rbi-repo-rate',
+      title: 'RBI keeps repo rate unchanged at 6.5%',
+      content_html: '<p>The MPC voted 5&ndash;1 &amp; kept its stance.</p>',
+      date_published: '2024-10-09T05:00:00Z',
+    },
+    { id: 'no-title', url: 'https://example.in/x' },
+  ],
+});
+
+const SITEMAP = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">
+  <url>
+    <loc>https://example.in/india/modi-meets-rahul-gandhi-over-manipur-violence-12345.html</loc>
+    <lastmod>2024-10-02T09:00:00+05:30</lastmod>
+  </url>
+  <url>
+    <loc>https://example.in/city/mumbai-metro-line-3-opens-to-public</loc>
+    <lastmod>2024-10-03T09:00:00+05:30</lastmod>
+    <image:image>
+      <image:loc>https://example.in/img/metro.jpg</image:loc>
+      <image:title>Mumbai Metro Line 3 opens to the public &amp; draws crowds</image:title>
+    </image:image>
+  </url>
+  <url>
+    <loc>https://example.in/about</loc>
+  </url>
+</urlset>`;
+
+const SITEMAP_INDEX = `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap><loc>https://example.in/sitemap-2024-09.xml</loc><lastmod>2024-09-30</lastmod></sitemap>
+  <sitemap><loc>https://example.in/sitemap-2024-10.xml</loc><lastmod>2024-10-03</lastmod></sitemap>
+</sitemapindex>`;
+
+const NEWS_SITEMAP = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:news="http://www.google.com/schemas/sitemap-news/0.9">
+  <url>
+    <loc>https://example.in/national/isro-launches-gaganyaan-test-flight</loc>
+    <news:news>
+      <news:publication>
+        <news:name>Example News</news:name>
+        <news:language>en</news:language>
+      </news:publication>
+      <news:publication_date>2024-10-21T07:10:00+05:30</news:publication_date>
+      <news:title>ISRO launches Gaganyaan test flight from Sriharikota</news:title>
+    </news:news>
+  </url>
+  <url>
+    <loc>https://example.in/not-news</loc>
+  </url>
+</urlset>`;
+
+describe('feedParsers', () => {
+  it('parses RSS, cleaning headlines and skipping promos and items without links', async () => {
+    const items = await parseRssOrAtom(RSS);
+    expect(items).toEqual([
+      {
+        guid: 'sc-123',
+        link: 'https://example.in/india/sc-electoral-bonds-123.html',
+        title: 'Supreme Court reserves verdict on electoral bonds',
+        summary: 'The bench heard arguments for three days.',
+        publishedAt: Date.UTC(2024, 9, 1, 3, 0),
+      },
+    ]);
+  });
+
+  it('parses Atom entries', async () => {
+    const [item] = await parseRssOrAtom(ATOM);
+    expect(item).toMatchObject({
+      guid: 'tag:example.in,2024:9876',
+      link: 'https://example.in/politics/maharashtra-poll-dates',
+      title: 'Election Commission announces Maharashtra poll dates',
+      summary: 'Voting in a single phase on November 20.',
+      publishedAt: Date.UTC(2024, 9, 15, 10),
+    });
+  });
+
+  it('parses JSON Feed, falling back to stripped content_html for the summary', () => {
+    expect(parseJsonFeed(JSON_FEED)).toEqual([
+      {
+        guid: '42',
+        link: 'https://example.in/economy/rbi-repo-rate',
+        title: 'RBI keeps repo rate unchanged at 6.5%',
+        summary: 'The MPC voted 5–1 & kept its stance.',
+        publishedAt: Date.UTC(2024, 9, 9, 5),
+      },
+    ]);
+    expect(() => parseJsonFeed('<rss/>')).toThrow(/not valid JSON/);
+  });
+
+  it('parses sitemaps newest first, titling entries from image titles or the URL', () => {
+    const { items, sitemaps } = parseSitemap(SITEMAP);
+    expect(sitemaps).toEqual([]);
+    expect(items.map((i) => i.title)).toEqual([
+      'Mumbai Metro Line 3 opens to the public & draws crowds',
+      'Modi meets rahul gandhi over manipur violence',
+    ]);
+    expect(items[1]).toMatchObject({
+      guid: 'https://example.in/india/modi-meets-rahul-gandhi-over-manipur-violence-12345.html',
+      publishedAt: Date.UTC(2024, 9, 2, 3, 30),
+    });
+  });
+
+  it('returns child sitemaps of a sitemap index, newest first', async () => {
+    expect(parseSitemap(SITEMAP_INDEX)).toEqual({
+      items: [],
+      sitemaps: ['https://example.in/sitemap-2024-10.xml', 'https://example.in/sitemap-2024-09.xml'],
+    });
+    expect((await parseFeed('google-news-sitemap', SITEMAP_INDEX)).sitemaps).toHaveLength(2);
+  });
+
+  it('parses Google News sitemaps from the news:news block', async () => {
+    const { items } = parseGoogleNewsSitemap(NEWS_SITEMAP);
+    expect(items).toEqual([
+      {
+        guid: 'https://example.in/national/isro-launches-gaganyaan-test-flight',
+        link: 'https://example.in/national/isro-launches-gaganyaan-test-flight',
+        title: 'ISRO launches Gaganyaan test flight from Sriharikota',
+        summary: undefined,
+        publishedAt: Date.UTC(2024, 9, 21, 1, 40),
+      },
+    ]);
+    expect((await parseFeed(undefined, RSS)).items).toHaveLength(1);
+  });
+
+  it('reads headlines from article URLs', () => {
+    expect(titleFromUrl('https://t.example.com/india/pm-unveils-statue-in-pune/articleshow/1234567.cms')).toBe(
+      'Pm unveils statue in pune',
+    );
+    expect(titleFromUrl('https://example.in/about')).toBeUndefined();
+  });
+});
@@ -0,0 +1,229 @@
+'use node';
+
+import Parser from 'rss-parser';
+import { cleanHeadline, isLikelyNewsHeadline } from './headline';
+import type { FeedKind } from './outletEdits';
+
+/**
+ * One parser per feed kind, all producing the same item shape for `rssMutations.insertArticle`.
+ * RSS and Atom go through `rss-parser`; JSON Feed and sitemaps are parsed here.
+ */
+
+export type FeedItem = { guid: string; link: string; title: string; summary?: string; publishedAt?: number };
+
+export type ParsedFeed = {
+  items: FeedItem[];
+  /** Child sitemaps when the body is a `<sitemapindex>`, newest first. */
+  sitemaps: string[];
+};
+
+/** Plain sitemaps can list a whole archive; only the most recently modified URLs are ingested. */
+export const MAX_SITEMAP_ITEMS = 100;
+
+const SUMMARY_MAX = 2000;
+
+const rssParser = new Parser();
+
+export const ACCEPT_BY_KIND: Record<FeedKind, string> = {
+  rss: 'application/rss+xml, application/atom+xml, application/xml;q=0.9, */*;q=0.8',
+  atom: 'application/atom+xml, application/xml;q=0.9, */*;q=0.8',
+  'json-feed': 'application/feed+json, application/json;q=0.9, */*;q=0.8',
+  sitemap: 'application/xml, text/xml;q=0.9, */*;q=0.8',
+  'google-news-sitemap': 'application/xml, text/xml;q=0.9, */*;q=0.8',
+};
+
+function time(value: unknown): number | undefined {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const t = new Date(value.trim()).getTime();
+  return Number.isFinite(t) ? t : undefined;
+}
+
+/** Cleaned headline, or null when the item should be skipped (missing fields, lifestyle promos). */
+function toItem(raw: { guid?: string; link?: string; title?: string; summary?: string; publishedAt?: number }) {
+  const title = raw.title?.trim();
+  const link = raw.link?.trim();
+  if (!title || !link) return null;
+  const t = cleanHeadline(title);
+  if (!isLikelyNewsHeadline(t)) return null;
+  const summary = raw.summary?.trim().slice(0, SUMMARY_MAX);
+  return { guid: raw.guid || link, link, title: t, summary: summary || undefined, publishedAt: raw.publishedAt };
+}
+
+function compact(items: (FeedItem | null)[]): FeedItem[] {
+  return items.filter((i): i is FeedItem => i !== null);
+}
+
+/** RSS 2.0 / RSS 1.0 / Atom. */
+export async function parseRssOrAtom(body: string): Promise<FeedItem[]> {
+  const parsed = await rssParser.parseString(body);
+  return compact(
+    (parsed.items ?? []).map((item) =>
+      toItem({
+        guid: item.guid || item.id ? String(item.guid || item.id) : undefined,
+        link: item.link,
+        title: item.title,
+        summary: item.contentSnippet ?? item.summary,
+        publishedAt: time(item.isoDate ?? item.pubDate),
+      }),
+    ),
+  );
+}
+
+type JsonFeedItem = {
+  id?: unknown;
+  url?: unknown;
+  external_url?: unknown;
+  title?: unknown;
+  summary?: unknown;
+  content_text?: unknown;
+  content_html?: unknown;
+  date_published?: unknown;
+  date_modified?: unknown;
+};
+
+const str = (v: unknown) => (typeof v === 'string' ? v : undefined);
+
+/** JSON Feed 1.0 / 1.1 (https://jsonfeed.org/version/1.1). */
+export function parseJsonFeed(body: string): FeedItem[] {
+  let doc: { version?: unknown; items?: unknown };
+  try {
+    doc = JSON.parse(body);
+  } catch {
+    throw new Error('JSON Feed body is not valid JSON');
+  }
+  if (!Array.isArray(doc.items)) throw new Error('JSON Feed has no items array');
+  return compact(
+    (doc.items as JsonFeedItem[]).map((item) => {
+      const html = str(item.content_html);
+      return toItem({
+        guid: item.id === undefined || item.id === null ? undefined : String(item.id),
+        link: str(item.url) ?? str(item.external_url),
+        title: str(item.title),
+        summary: str(item.summary) ?? str(item.content_text) ?? (html ? stripTags(html) : undefined),
+        publishedAt: time(item.date_published) ?? time(item.date_modified),
+      });
+    }),
+  );
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  hellip: '…',
+};
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, e: string) => {
+      if (e[0] === '#') {
+        const code = e[1] === 'x' || e[1] === 'X' ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10);
+        return Number.isFinite(code) ? String.fromCodePoint(code) : m;
+      }
+      return ENTITIES[e.toLowerCase()] ?? m;
+    })
+    .trim();
+}
+
+function stripTags(html: string): string {
+  return decodeXml(html.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ');
+}
+
+/** Text of the first `<tag>` (any namespace prefix) inside `xml`. */
+function tagText(xml: string, tag: string): string | undefined {
+  const m = xml.match(new RegExp(`<(?:[\\w-]+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`, 'i'));
+  return m ? decodeXml(m[1]) : undefined;
+}
+
+function blocks(xml: string, tag: string): string[] {
+  return xml.match(new RegExp(`<(?:[\\w-]+:)?${tag}(?:\\s[^>]*)?>[\\s\\S]*?</(?:[\\w-]+:)?${tag}>`, 'gi')) ?? [];
+}
+
+const SLUG_NOISE = new Set(['amp', 'articleshow', 'story', 'news', 'index', 'article', 'html']);
+
+/**
+ * Plain sitemaps carry no headline, so one is read from the URL: the path segment with the most
+ * hyphenated words ("/india/modi-meets-rahul-gandhi-12345.html" → "Modi meets rahul gandhi").
+ */
+export function titleFromUrl(url: string): string | undefined {
+  let path: string;
+  try {
+    path = decodeURIComponent(new URL(url).pathname);
+  } catch {
+    return undefined;
+  }
+  let best: string[] = [];
+  for (const segment of path.split('/')) {
+    const words = segment
+      .replace(/\.(s?html?|cms|ece|php|aspx?)$/i, '')
+      .split(/[-_]+/)
+      .filter((w) => w && !/^\d+$/.test(w) && !SLUG_NOISE.has(w.toLowerCase()));
+    if (words.length > best.length) best = words;
+  }
+  if (best.length < 3) return undefined;
+  const title = best.join(' ');
+  return title[0].toUpperCase() + title.slice(1);
+}
+
+function sitemapIndex(body: string): string[] {
+  return blocks(body, 'sitemap')
+    .map((b) => ({ loc: tagText(b, 'loc'), at: time(tagText(b, 'lastmod')) ?? 0 }))
+    .filter((s): s is { loc: string; at: number } => Boolean(s.loc))
+    .sort((a, b) => b.at - a.at)
+    .map((s) => s.loc);
+}
+
+/** Standard sitemap (`<urlset>` of `<loc>` + `<lastmod>`); titles from `<image:title>` or the URL. */
+export function parseSitemap(body: string): ParsedFeed {
+  if (/<sitemapindex\b/i.test(body)) return { items: [], sitemaps: sitemapIndex(body) };
+  const urls = blocks(body, 'url')
+    .map((b) => ({ loc: tagText(b, 'loc'), at: time(tagText(b, 'lastmod')), imageTitle: tagText(b, 'title') }))
+    .sort((a, b) => (b.at ?? 0) - (a.at ?? 0))
+    .slice(0, MAX_SITEMAP_ITEMS);
+  return {
+    items: compact(
+      urls.map((u) =>
+        toItem({ link: u.loc, title: u.imageTitle ?? (u.loc ? titleFromUrl(u.loc) : undefined), publishedAt: u.at }),
+      ),
+    ),
+    sitemaps: [],
+  };
+}
+
+/** Google News sitemap: `<news:news>` carries the headline and publication date. */
+export function parseGoogleNewsSitemap(body: string): ParsedFeed {
+  if (/<sitemapindex\b/i.test(body)) return { items: [], sitemaps: sitemapIndex(body) };
+  const items = blocks(body, 'url').map((b) => {
+    const news = blocks(b, 'news')[0];
+    if (!news) return null;
+    return toItem({
+      link: tagText(b, 'loc'),
+      title: tagText(news, 'title'),
+      publishedAt: time(tagText(news, 'publication_date')),
+    });
+  });
+  return { items: compact(items), sitemaps: [] };
+}
+
+export async function parseFeed(kind: FeedKind | undefined, body: string): Promise<ParsedFeed> {
+  switch (kind ?? 'rss') {
+    case 'json-feed':
+      return { items: parseJsonFeed(body), sitemaps: [] };
+    case 'sitemap':
+      return parseSitemap(body);
+    case 'google-news-sitemap':
+      return parseGoogleNewsSitemap(body);
+    default:
+      return { items: await parseRssOrAtom(body), sitemaps: [] };
+  }
+}
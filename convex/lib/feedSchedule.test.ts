@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { backoffSec, isFeedDue, MAX_BACKOFF_SEC } from './feedSchedule';
+
+describe('feedSchedule', () => {
+  it('doubles the interval per consecutive error up to the cap', () => {
+    expect(backoffSec(900, 0)).toBe(900);
+    expect(backoffSec(900, 1)).toBe(1800);
+    expect(backoffSec(900, 3)).toBe(7200);
+    expect(backoffSec(900, 40)).toBe(MAX_BACKOFF_SEC);
+  });
+
+  it('treats never-fetched feeds as due and respects nextPollAt', () => {
+    const now = 1_700_000_000_000;
+    expect(isFeedDue({ pollIntervalSec: 900 }, now)).toBe(true);
+    expect(isFeedDue({ pollIntervalSec: 900, nextPollAt: now + 10 * 60_000 }, now)).toBe(false);
+    expect(isFeedDue({ pollIntervalSec: 900, nextPollAt: now + 30_000 }, now)).toBe(true);
+  });
+
+  it('falls back to lastFetchedAt + backoff for rows without nextPollAt', () => {
+    const now = 1_700_000_000_000;
+    expect(isFeedDue({ pollIntervalSec: 900, lastFetchedAt: now - 901_000 }, now)).toBe(true);
+    expect(isFeedDue({ pollIntervalSec: 900, lastFetchedAt: now - 901_000, errorStreak: 2 }, now)).toBe(false);
+  });
+});
@@ -0,0 +1,34 @@
+/** Per-feed poll scheduling: honor `pollIntervalSec`, back off on recurring errors. */
+
+/** Never wait longer than a day between attempts, however often a feed fails. */
+export const MAX_BACKOFF_SEC = 24 * 3600;
+
+/** Cron ticks drift a little; treat feeds due within this window as due now. */
+export const DUE_SLACK_MS = 60_000;
+
+export type FeedScheduleRow = {
+  pollIntervalSec: number;
+  lastFetchedAt?: number;
+  nextPollAt?: number;
+  errorStreak?: number;
+};
+
+export function backoffSec(pollIntervalSec: number, errorStreak: number): number {
+  if (errorStreak <= 0) return pollIntervalSec;
+  const backedOff = pollIntervalSec * 2 ** Math.min(errorStreak, 16);
+  return Math.max(pollIntervalSec, Math.min(backedOff, MAX_BACKOFF_SEC));
+}
+
+export function nextPollAfter(now: number, pollIntervalSec: number, errorStreak: number): number {
+  return now + backoffSec(pollIntervalSec, errorStreak) * 1000;
+}
+
+/** Feeds never fetched are always due; older rows without `nextPollAt` fall back to the interval. */
+export function isFeedDue(feed: FeedScheduleRow, now: number): boolean {
+  const next =
+    feed.nextPollAt ??
+    (feed.lastFetchedAt !== undefined
+      ? nextPollAfter(feed.lastFetchedAt, feed.pollIntervalSec, feed.errorStreak ?? 0)
+      : 0);
+  return next <= now + DUE_SLACK_MS;
+}
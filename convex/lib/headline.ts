@@ -1,9 +1,12 @@
+import { detectLanguage } from './language';
+
 const LIFESTYLE =
   /amazon|wayfair|way day|mother's day|composting|high-yield savings|best deals|shop this week|taxes are due|hair dryer|aluminum foil|travel products|dress this spring|bidets save/i;
 
 export function cleanHeadline(title: string): string {
   return title
     .replace(/^(opinion|analysis|watch|podcast|exclusive|breaking):\s*/i, '')
+    .replace(/^(वीडियो|व्हिडिओ|ब्रेकिंग|एक्सक्लूसिव|विश्लेषण|मत):\s*/u, '')
     .replace(/\s+/g, ' ')
     .trim();
 }
@@ -15,10 +18,17 @@ export function isLikelyNewsHeadline(title: string): boolean {
   return true;
 }
 
-/** Prefer shorter, neutral headlines when clustering (first article often has promos). */
-export function pickCanonicalTitle(titles: string[]): string {
-  const candidates = [...new Set(titles.map(cleanHeadline).filter(isLikelyNewsHeadline))];
+/**
+ * Prefer shorter, neutral headlines when clustering (first article often has promos).
+ * With `preferLanguage`, headlines in that language win when the cluster has any.
+ */
+export function pickCanonicalTitle(titles: string[], preferLanguage?: string): string {
+  let candidates = [...new Set(titles.map(cleanHeadline).filter(isLikelyNewsHeadline))];
   if (candidates.length === 0) return cleanHeadline(titles[0] ?? 'Story');
+  if (preferLanguage) {
+    const preferred = candidates.filter((t) => detectLanguage(t) === preferLanguage);
+    if (preferred.length) candidates = preferred;
+  }
 
   return candidates.sort((a, b) => {
     const score = (s: string) => {
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { crossLanguageMatch, titleTokens } from './cluster';
+import { pickCanonicalTitle } from './headline';
+import { detectLanguage } from './language';
+import { jaccardBackend } from './storySimilarity';
+
+const HOUR = 3_600_000;
+
+describe('language', () => {
+  it('detects the language from the script, and Marathi from its function words', () => {
+    expect(detectLanguage('RBI keeps repo rate unchanged')).toBe('en');
+    expect(detectLanguage('आरबीआई ने रेपो दर में कोई बदलाव नहीं किया')).toBe('hi');
+    expect(detectLanguage('रिझर्व्ह बँकेने रेपो दरात कोणताही बदल केला नाही, असे गव्हर्नर म्हणाले')).toBe('mr');
+    expect(detectLanguage('রিজার্ভ ব্যাংক রেপো রেট অপরিবর্তিত রাখল')).toBe('bn');
+    expect(detectLanguage('')).toBe('en');
+  });
+
+  it('keeps Devanagari words whole and drops Hindi stop words', () => {
+    const tokens = titleTokens('मणिपुर हिंसा: मोदी ने राहुल गांधी से की मुलाकात');
+    expect([...tokens]).toEqual(expect.arrayContaining(['मणिपुर', 'हिंसा', 'मोदी', 'राहुल', 'गांधी', 'मुलाकात']));
+    expect(tokens.has('ने')).toBe(false);
+    expect(tokens.has('से')).toBe(false);
+  });
+
+  it('clusters a Hindi headline with the English coverage of the same event', () => {
+    const t = Date.UTC(2026, 9, 1, 8);
+    const english = { title: 'PM Modi meets Rahul Gandhi over Manipur violence', publishedAt: t, edition: 'in-national' };
+    const hindi = { title: 'मणिपुर हिंसा पर पीएम मोदी ने राहुल गांधी से की मुलाकात', publishedAt: t + 3 * HOUR, edition: 'in-national' };
+    expect(jaccardBackend.score(english, hindi)).toBeGreaterThan(0.5);
+    expect(jaccardBackend.score(english, { ...hindi, publishedAt: t + 40 * HOUR })).toBeNull();
+  });
+
+  it('does not match across languages on a single shared name', () => {
+    expect(crossLanguageMatch('Modi inaugurates new airport terminal in Pune', 'मोदी ने राहुल गांधी पर साधा निशाना')).toBeNull();
+  });
+
+  it('prefers the edition language for the canonical title', () => {
+    expect(
+      pickCanonicalTitle(
+        ['मणिपुर हिंसा पर मोदी और राहुल की मुलाकात', 'PM Modi meets Rahul Gandhi over Manipur violence'],
+        'en',
+      ),
+    ).toBe('PM Modi meets Rahul Gandhi over Manipur violence');
+  });
+});
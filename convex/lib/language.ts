@@ -0,0 +1,85 @@
+/**
+ * Script-based language detection and per-language stop words for ingest and clustering.
+ * Devanagari is split into Hindi and Marathi by their most frequent function words.
+ */
+
+export const LANGUAGES = ['en', 'hi', 'mr', 'bn', 'gu', 'pa', 'ta', 'te', 'kn', 'ml', 'ur'] as const;
+export type Language = (typeof LANGUAGES)[number];
+
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: 'English',
+  hi: 'हिन्दी',
+  mr: 'मराठी',
+  bn: 'বাংলা',
+  gu: 'ગુજરાતી',
+  pa: 'ਪੰਜਾਬੀ',
+  ta: 'தமிழ்',
+  te: 'తెలుగు',
+  kn: 'ಕನ್ನಡ',
+  ml: 'മലയാളം',
+  ur: 'اردو',
+};
+
+const SCRIPTS: { lang: Language | 'deva'; re: RegExp }[] = [
+  { lang: 'deva', re: /[ऀ-ॿ]/g },
+  { lang: 'bn', re: /[ঀ-৿]/g },
+  { lang: 'pa', re: /[਀-੿]/g },
+  { lang: 'gu', re: /[઀-૿]/g },
+  { lang: 'ta', re: /[஀-௿]/g },
+  { lang: 'te', re: /[ఀ-౿]/g },
+  { lang: 'kn', re: /[ಀ-೿]/g },
+  { lang: 'ml', re: /[ഀ-ൿ]/g },
+  { lang: 'ur', re: /[؀-ۿ]/g },
+  { lang: 'en', re: /[A-Za-z]/g },
+];
+
+const EN_STOP =
+  'a an the and or but in on at to for of is are was were be been being with from as by it its this that these those not says said will can could would about into over after before during amid';
+const HI_STOP =
+  'का की के को में से पर है हैं था थी थे और या ने भी तो ही एक यह वह इस उस इन उन कि जो लिए साथ बाद तक नहीं कहा गया गई किया करने होगा रहा रही रहे अब';
+const MR_STOP =
+  'आणि आहे आहेत होते होता होती या ही हा हे त्या त्यांच्या च्या चा ची चे ला ने मध्ये वर साठी नाही केले केली केला असे म्हणाले पण तर की व एक';
+
+export const STOPWORDS: Record<'en' | 'hi' | 'mr', Set<string>> = {
+  en: new Set(EN_STOP.split(' ')),
+  hi: new Set(HI_STOP.split(' ')),
+  mr: new Set(MR_STOP.split(' ')),
+};
+
+/** Stop words of every supported language; tokens never collide across scripts, so one set serves all. */
+export const ALL_STOPWORDS = new Set([...STOPWORDS.en, ...STOPWORDS.hi, ...STOPWORDS.mr]);
+
+/** Unicode word split: letters, combining marks (Indic vowel signs) and digits survive. */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[०-९]/g, (d) => String(d.charCodeAt(0) - 0x0966))
+    .replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function devanagariLanguage(text: string): 'hi' | 'mr' {
+  const words = normalizeText(text).split(' ');
+  let hi = 0;
+  let mr = 0;
+  for (const w of words) {
+    if (STOPWORDS.mr.has(w) && !STOPWORDS.hi.has(w)) mr++;
+    else if (STOPWORDS.hi.has(w) && !STOPWORDS.mr.has(w)) hi++;
+  }
+  // ळ is common in Marathi and rare in Hindi.
+  mr += (text.match(/ळ/g) ?? []).length;
+  return mr > hi ? 'mr' : 'hi';
+}
+
+/** Dominant script decides; English is the fallback for empty or unrecognised text. */
+export function detectLanguage(text: string): Language {
+  let best: { lang: Language | 'deva'; n: number } = { lang: 'en', n: 0 };
+  for (const { lang, re } of SCRIPTS) {
+    const n = text.match(re)?.length ?? 0;
+    if (n > best.n) best = { lang, n };
+  }
+  return best.lang === 'deva' ? devanagariLanguage(text) : best.lang;
+}
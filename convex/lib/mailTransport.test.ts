@@ -0,0 +1,62 @@
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { buildMime, dotStuff, fileTransport, mailTransportFromEnv, takeReply, type MailMessage } from './mailTransport';
+
+const MESSAGE: MailMessage = {
+  from: 'Facets <digest@facets.test>',
+  to: 'reader@example.com',
+  subject: 'Facets daily digest · 3 stories',
+  text: 'plain',
+  html: '<p>html</p>',
+  headers: { 'List-Unsubscribe': '<https://facets.test/api/digest/unsubscribe?token=abc>' },
+};
+
+describe('mailTransport', () => {
+  it('builds a multipart message with encoded non-ASCII headers', () => {
+    const mime = buildMime(MESSAGE, { messageId: 'id@facets.test', date: new Date(0), boundary: 'B' });
+    expect(mime).toContain('Subject: =?UTF-8?B?');
+    expect(mime).toContain('List-Unsubscribe: <https://facets.test/api/digest/unsubscribe?token=abc>\r\n');
+    expect(mime).toContain('Content-Type: multipart/alternative; boundary="B"\r\n');
+    expect(mime).toContain(`\r\n${Buffer.from('plain').toString('base64')}\r\n`);
+    expect(mime.endsWith('--B--\r\n')).toBe(true);
+    const subject = /Subject: (.*(?:\r\n .*)*)/.exec(mime)![1];
+    const decoded = subject
+      .split('\r\n ')
+      .map((w) => Buffer.from(/=\?UTF-8\?B\?(.*)\?=/.exec(w)![1], 'base64').toString('utf8'))
+      .join('');
+    expect(decoded).toBe(MESSAGE.subject);
+  });
+
+  it('parses single and multi-line SMTP replies', () => {
+    expect(takeReply('250-facets\r\n250-STARTTLS\r\n')).toBeNull();
+    const next = takeReply('250-facets\r\n250-STARTTLS\r\n250 AUTH PLAIN\r\n354 go');
+    expect(next?.reply).toEqual({ code: 250, lines: ['facets', 'STARTTLS', 'AUTH PLAIN'] });
+    expect(next?.rest).toBe('354 go');
+  });
+
+  it('dot-stuffs lines that start with a dot', () => {
+    expect(dotStuff('.first\r\nmid\r\n.\r\nlast.')).toBe('..first\r\nmid\r\n..\r\nlast.');
+  });
+
+  it('picks a transport from env', () => {
+    expect(mailTransportFromEnv({})).toBeNull();
+    expect(mailTransportFromEnv({ SMTP_HOST: 'smtp.example.com' })?.name).toBe('smtp');
+    expect(mailTransportFromEnv({ MAIL_TRANSPORT: 'file' })?.name).toBe('file');
+    expect(() => mailTransportFromEnv({ MAIL_TRANSPORT: 'smtp' })).toThrow('SMTP_HOST');
+    expect(() => mailTransportFromEnv({ SMTP_HOST: 'x', SMTP_PORT: 'abc' })).toThrow('SMTP_PORT');
+  });
+
+  it('writes messages to the file sink', async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), 'facets-mail-'));
+    try {
+      const { id } = await fileTransport(dir).send(MESSAGE);
+      expect(await readdir(dir)).toEqual([path.basename(id)]);
+      expect(id).toMatch(/reader@example\.com\.eml$/);
+      expect(await readFile(id, 'utf8')).toContain('To: reader@example.com\r\n');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,291 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, writeFile } from 'node:fs/promises';
+import net from 'node:net';
+import path from 'node:path';
+import tls from 'node:tls';
+
+/**
+ * Outgoing mail behind one interface: SMTP (STARTTLS or implicit TLS, AUTH PLAIN) or a file sink
+ * that writes each message as an `.eml` for dev and tests. Node-only — import from `'use node'` actions.
+ */
+
+export type MailMessage = {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  /** Extra headers, e.g. `List-Unsubscribe`. */
+  headers?: Record<string, string>;
+};
+
+export const MAIL_TRANSPORT_NAMES = ['smtp', 'file'] as const;
+export type MailTransportName = (typeof MAIL_TRANSPORT_NAMES)[number];
+
+export interface MailTransport {
+  readonly name: MailTransportName;
+  /** Resolves with the message id (file sink: the file path). */
+  send(message: MailMessage): Promise<{ id: string }>;
+}
+
+export class SmtpError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+export const DEFAULT_MAIL_FROM = 'Facets <digest@facets.adityamer.dev>';
+const SMTP_TIMEOUT_MS = 30_000;
+
+/** The bare address of `Name <a@b>` or `a@b`. */
+export function addressOf(mailbox: string): string {
+  return (/<([^>]+)>/.exec(mailbox)?.[1] ?? mailbox).trim();
+}
+
+/** RFC 2047 encoded words for non-ASCII header values, split so each word stays under 75 characters. */
+function encodeHeader(value: string): string {
+  if (!/[^\x20-\x7e]/.test(value)) return value;
+  const chunks: string[] = [];
+  let chunk = '';
+  for (const ch of value) {
+    if (Buffer.byteLength(chunk + ch, 'utf8') > 45) {
+      chunks.push(chunk);
+      chunk = '';
+    }
+    chunk += ch;
+  }
+  if (chunk) chunks.push(chunk);
+  return chunks.map((c) => `=?UTF-8?B?${Buffer.from(c, 'utf8').toString('base64')}?=`).join('\r\n ');
+}
+
+function encodeMailbox(mailbox: string): string {
+  const m = /^(.*?)\s*<([^>]+)>$/.exec(mailbox.trim());
+  return m && m[1] ? `${encodeHeader(m[1].replace(/"/g, ''))} <${m[2]}>` : mailbox.trim();
+}
+
+function base64Lines(s: string): string {
+  return (Buffer.from(s, 'utf8').toString('base64').match(/.{1,76}/g) ?? []).join('\r\n');
+}
+
+/** RFC 5322 message with text and HTML alternatives (base64 bodies, CRLF line endings). */
+export function buildMime(
+  message: MailMessage,
+  opts: { messageId: string; date: Date; boundary: string },
+): string {
+  const headers: [string, string][] = [
+    ['From', encodeMailbox(message.from)],
+    ['To', encodeMailbox(message.to)],
+    ['Subject', encodeHeader(message.subject)],
+    ['Date', opts.date.toUTCString()],
+    ['Message-ID', `<${opts.messageId}>`],
+    ['MIME-Version', '1.0'],
+    ...Object.entries(message.headers ?? {}).map(([k, v]) => [k, encodeHeader(v)] as [string, string]),
+    ['Content-Type', `multipart/alternative; boundary="${opts.boundary}"`],
+  ];
+  const part = (type: string, body: string) =>
+    [
+      `--${opts.boundary}`,
+      `Content-Type: ${type}; charset=utf-8`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      base64Lines(body),
+    ].join('\r\n');
+  return [
+    ...headers.map(([k, v]) => `${k}: ${v}`),
+    '',
+    part('text/plain', message.text),
+    part('text/html', message.html),
+    `--${opts.boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+function newMime(message: MailMessage): { id: string; mime: string } {
+  const domain = addressOf(message.from).split('@')[1] || 'localhost';
+  const id = `${randomUUID()}@${domain}`;
+  return { id, mime: buildMime(message, { messageId: id, date: new Date(), boundary: `facets-${randomUUID()}` }) };
+}
+
+export type SmtpReply = { code: number; lines: string[] };
+
+/** Split the next complete (possibly multi-line `250-…`) reply off the front of `buffer`. */
+export function takeReply(buffer: string): { reply: SmtpReply; rest: string } | null {
+  const lines: string[] = [];
+  let start = 0;
+  for (;;) {
+    const end = buffer.indexOf('\n', start);
+    if (end < 0) return null;
+    const line = buffer.slice(start, end).replace(/\r$/, '');
+    start = end + 1;
+    lines.push(line.slice(4));
+    if (/^\d{3}(?: |$)/.test(line)) {
+      return { reply: { code: Number(line.slice(0, 3)), lines }, rest: buffer.slice(start) };
+    }
+  }
+}
+
+function replyReader(socket: net.Socket) {
+  let buffer = '';
+  const queue: SmtpReply[] = [];
+  let failure: Error | null = null;
+  let waiter: ((r: SmtpReply | Error) => void) | null = null;
+  const push = (r: SmtpReply | Error) => {
+    if (waiter) {
+      const w = waiter;
+      waiter = null;
+      w(r);
+    } else if (r instanceof Error) failure ??= r;
+    else queue.push(r);
+  };
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    for (let next = takeReply(buffer); next; next = takeReply(buffer)) {
+      buffer = next.rest;
+      push(next.reply);
+    }
+  };
+  const onError = (e: Error) => push(e);
+  const onClose = () => push(new Error('SMTP connection closed'));
+  socket.on('data', onData);
+  socket.on('error', onError);
+  socket.on('close', onClose);
+  return {
+    read: () =>
+      new Promise<SmtpReply>((resolve, reject) => {
+        if (queue.length) return resolve(queue.shift()!);
+        if (failure) return reject(failure);
+        const timer = setTimeout(() => {
+          waiter = null;
+          reject(new Error('SMTP server did not answer'));
+        }, SMTP_TIMEOUT_MS);
+        waiter = (r) => {
+          clearTimeout(timer);
+          if (r instanceof Error) reject(r);
+          else resolve(r);
+        };
+      }),
+    detach: () => {
+      socket.off('data', onData);
+      socket.off('error', onError);
+      socket.off('close', onClose);
+    },
+  };
+}
+
+/** Lines starting with `.` are doubled so they cannot end the DATA block. */
+export function dotStuff(mime: string): string {
+  return mime.replace(/(^|\r\n)\./g, '$1..');
+}
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  /** Implicit TLS (port 465). Otherwise STARTTLS is used when the server offers it. */
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  /** Name sent with EHLO. */
+  heloName?: string;
+};
+
+export function smtpTransport(config: SmtpConfig): MailTransport {
+  return {
+    name: 'smtp',
+    send: async (message) => {
+      const { id, mime } = newMime(message);
+      let socket: net.Socket = config.secure
+        ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+        : net.connect({ host: config.host, port: config.port });
+      let reader = replyReader(socket);
+      let tlsActive = config.secure;
+      const expect = async (codes: number[], what: string) => {
+        const reply = await reader.read();
+        if (!codes.includes(reply.code)) {
+          throw new SmtpError(reply.code, `SMTP ${what}: ${reply.code} ${reply.lines.join(' ')}`.slice(0, 300));
+        }
+        return reply;
+      };
+      // `what` names the command in errors, so credentials never end up in a message.
+      const command = (line: string, codes: number[], what = line.split(' ')[0]) => {
+        socket.write(`${line}\r\n`);
+        return expect(codes, what);
+      };
+      try {
+        await expect([220], 'greeting');
+        const helo = config.heloName ?? 'facets';
+        let ehlo = await command(`EHLO ${helo}`, [250]);
+        if (!tlsActive && ehlo.lines.some((l) => /^STARTTLS\b/i.test(l))) {
+          await command('STARTTLS', [220]);
+          reader.detach();
+          // The TLS socket does not re-emit errors of the one it wraps: fail it, so the pending command rejects.
+          const plain = socket;
+          plain.on('error', (e) => socket.destroy(e));
+          socket = tls.connect({ socket: plain, servername: config.host });
+          reader = replyReader(socket);
+          tlsActive = true;
+          ehlo = await command(`EHLO ${helo}`, [250]);
+        }
+        if (config.user) {
+          if (!tlsActive) throw new Error('SMTP server does not offer STARTTLS; refusing to send credentials');
+          const token = Buffer.from(`\0${config.user}\0${config.pass ?? ''}`, 'utf8').toString('base64');
+          await command(`AUTH PLAIN ${token}`, [235], 'AUTH');
+        }
+        await command(`MAIL FROM:<${addressOf(message.from)}>`, [250], 'MAIL FROM');
+        await command(`RCPT TO:<${addressOf(message.to)}>`, [250, 251], 'RCPT TO');
+        await command('DATA', [354]);
+        socket.write(`${dotStuff(mime)}\r\n.\r\n`);
+        await expect([250], 'message');
+        await command('QUIT', [221]).catch(() => undefined);
+        return { id };
+      } finally {
+        reader.detach();
+        socket.destroy();
+      }
+    },
+  };
+}
+
+/** Writes each message to `<dir>/<time>-<recipient>.eml`; nothing leaves the machine. */
+export function fileTransport(dir: string): MailTransport {
+  return {
+    name: 'file',
+    send: async (message) => {
+      const { mime } = newMime(message);
+      await mkdir(dir, { recursive: true });
+      const safeTo = addressOf(message.to).replace(/[^a-z0-9@._-]/gi, '_');
+      const file = path.join(dir, `${Date.now()}-${randomUUID().slice(0, 8)}-${safeTo}.eml`);
+      await writeFile(file, mime, 'utf8');
+      return { id: file };
+    },
+  };
+}
+
+/**
+ * `MAIL_TRANSPORT=smtp` (default when `SMTP_HOST` is set) or `file` (`MAIL_FILE_DIR`, default
+ * `/tmp/facets-mail`). Returns null when nothing is configured, and digests are skipped.
+ */
+export function mailTransportFromEnv(env: Record<string, string | undefined> = process.env): MailTransport | null {
+  const name = env.MAIL_TRANSPORT?.trim().toLowerCase() || (env.SMTP_HOST?.trim() ? 'smtp' : '');
+  if (name === 'file') return fileTransport(env.MAIL_FILE_DIR?.trim() || '/tmp/facets-mail');
+  if (name !== 'smtp') return null;
+  const host = env.SMTP_HOST?.trim();
+  if (!host) throw new Error('MAIL_TRANSPORT=smtp needs SMTP_HOST');
+  const port = Number(env.SMTP_PORT?.trim() || 587);
+  if (!Number.isInteger(port) || port <= 0) throw new Error('SMTP_PORT must be a port number');
+  const secureRaw = env.SMTP_SECURE?.trim().toLowerCase();
+  return smtpTransport({
+    host,
+    port,
+    secure: secureRaw ? secureRaw === 'true' || secureRaw === '1' : port === 465,
+    user: env.SMTP_USER?.trim() || undefined,
+    pass: env.SMTP_PASS ?? undefined,
+  });
+}
+
+export function mailFromEnv(env: Record<string, string | undefined> = process.env): string {
+  return env.MAIL_FROM?.trim() || DEFAULT_MAIL_FROM;
+}
@@ -0,0 +1,71 @@
+/**
+ * Word-shingle MinHash for near-duplicate text. Signatures are fixed-length arrays of
+ * uint32 minima; the share of equal slots estimates the Jaccard similarity of the
+ * underlying shingle sets.
+ */
+
+export const MINHASH_SIZE = 64;
+const SHINGLE_WORDS = 3;
+
+export function normalizeForShingles(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKC')
+    .replace(/[^\p{L}\p{M}\p{N}\s]+/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+export function shingles(text: string, size = SHINGLE_WORDS): Set<string> {
+  const words = normalizeForShingles(text);
+  const out = new Set<string>();
+  if (words.length < size) {
+    if (words.length > 0) out.add(words.join(' '));
+    return out;
+  }
+  for (let i = 0; i + size <= words.length; i++) out.add(words.slice(i, i + size).join(' '));
+  return out;
+}
+
+function fnv1a(s: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** murmur3 finalizer over `x ^ seed`: a cheap independent-looking permutation per slot. */
+function mix(x: number, seed: number): number {
+  let h = (x ^ seed) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+const SEEDS = Array.from({ length: MINHASH_SIZE }, (_, i) => mix(i + 1, 0x9e3779b9));
+
+export function minhashSignature(set: Set<string>, size = MINHASH_SIZE): number[] {
+  const sig = new Array<number>(size).fill(0xffffffff);
+  for (const sh of set) {
+    const base = fnv1a(sh);
+    for (let i = 0; i < size; i++) {
+      const v = mix(base, SEEDS[i]);
+      if (v < sig[i]) sig[i] = v;
+    }
+  }
+  return sig;
+}
+
+export function minhashText(text: string): number[] {
+  return minhashSignature(shingles(text));
+}
+
+/** Estimated Jaccard of the shingle sets; 0 when the signatures are not comparable. */
+export function estimateJaccard(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let same = 0;
+  for (let i = 0; i < a.length; i++) if (a[i] === b[i]) same++;
+  return same / a.length;
+}
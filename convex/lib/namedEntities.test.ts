@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { extractEntityTokens } from './clusterEntities';
+import { extractNamedEntities } from './namedEntities';
+
+const names = (texts: string[], edition?: string) =>
+  extractNamedEntities(texts, edition).map((e) => `${e.slug}:${e.kind}`);
+
+describe('namedEntities', () => {
+  it('normalises aliases to one entity and counts mentions', () => {
+    const [modi] = extractNamedEntities([
+      'PM Modi meets Rahul Gandhi over Manipur violence',
+      'Prime Minister Narendra Modi on Tuesday met the Congress leader; Modi later left for Delhi.',
+    ]);
+    expect(modi).toMatchObject({ slug: 'narendra-modi', name: 'Narendra Modi', kind: 'person', mentions: 3 });
+  });
+
+  it('only matches short acronyms in capitals', () => {
+    expect(names(['ED raids businessman in Kolkata'])).toContain('enforcement-directorate:org');
+    expect(names(['Officials ed the report after police raided the office'])).not.toContain(
+      'enforcement-directorate:org',
+    );
+  });
+
+  it('picks up unknown names from sentence-case text', () => {
+    const found = names([
+      'Officials in Wayanad said Priya Sharma of the Kerala Police visited the Bharat Adivasi Party office on Monday.',
+    ]);
+    expect(found).toEqual(
+      expect.arrayContaining(['wayanad:place', 'priya-sharma:person', 'kerala-police:org', 'bharat-adivasi-party:party']),
+    );
+    expect(found.some((f) => f.startsWith('monday'))).toBe(false);
+  });
+
+  it('does not guess names from Title Case headlines', () => {
+    expect(names(['RBI Keeps Repo Rate Unchanged For Tenth Time As Inflation Eases'])).toEqual(['rbi:org']);
+  });
+
+  it('uses the edition gazetteer', () => {
+    expect(names(['Fadnavis and Shinde meet over BMC polls'], 'in-maharashtra')).toEqual(
+      expect.arrayContaining(['devendra-fadnavis:person', 'eknath-shinde:person', 'bmc:org']),
+    );
+    expect(names(['Senate Republicans block the bill'], 'us')).toEqual(
+      expect.arrayContaining(['us-senate:org', 'republican-party:party']),
+    );
+  });
+
+  it('gives aliases a shared clustering token', () => {
+    const a = extractEntityTokens('PM Modi inaugurates new terminal');
+    const b = extractEntityTokens('Narendra Modi inaugurates new terminal');
+    expect(a.has('narendra-modi') && b.has('narendra-modi')).toBe(true);
+  });
+});
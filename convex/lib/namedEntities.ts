@@ -0,0 +1,132 @@
+import { GAZETTEER, type EntityKind, type KnownEntity } from './entityGazetteer';
+import { editionOf } from './editions';
+import { slugify } from './slug';
+
+/**
+ * Rule-based named-entity extraction for headlines and summaries: gazetteer aliases first
+ * (normalised to one slug per entity), then capitalised phrases for names not in the list.
+ * No model calls, so it runs inside the ingest mutation.
+ */
+
+export type ExtractedEntity = { slug: string; name: string; kind: EntityKind; mentions: number };
+
+export const MAX_ENTITIES_PER_ARTICLE = 15;
+
+type AliasPattern = { entity: KnownEntity; re: RegExp };
+
+const patternCache = new Map<string, AliasPattern[]>();
+
+function escapeRe(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Longest aliases first so "narendra modi" wins over "modi". Short acronyms must be upper-case ("ED", not "ed"). */
+function aliasPatterns(edition: string): AliasPattern[] {
+  let cached = patternCache.get(edition);
+  if (cached) return cached;
+  const list = GAZETTEER[editionOf({ edition })];
+  cached = list
+    .flatMap((entity) => entity.aliases.map((alias) => ({ entity, alias })))
+    .sort((a, b) => b.alias.length - a.alias.length)
+    .map(({ entity, alias }) => {
+      const acronym = alias.length <= 3 && /^[a-z&]+$/.test(alias);
+      const body = acronym ? escapeRe(alias.toUpperCase()) : escapeRe(alias);
+      // \p{M} keeps Indic vowel signs inside the word: "मोदी" must not match inside "मोदीजी".
+      const re = `(?<![\\p{L}\\p{M}\\p{N}])${body}(?![\\p{L}\\p{M}\\p{N}])`;
+      return { entity, re: new RegExp(re, acronym ? 'gu' : 'giu') };
+    });
+  patternCache.set(edition, cached);
+  return cached;
+}
+
+/** Gazetteer matches, with matched spans blanked out of the returned text. */
+export function matchKnownEntities(text: string, edition?: string | null) {
+  const found = new Map<string, { entity: KnownEntity; mentions: number }>();
+  let rest = text;
+  for (const { entity, re } of aliasPatterns(editionOf({ edition }))) {
+    rest = rest.replace(re, (m) => {
+      const cur = found.get(entity.slug);
+      if (cur) cur.mentions++;
+      else found.set(entity.slug, { entity, mentions: 1 });
+      return ' '.repeat(m.length);
+    });
+  }
+  return { found: [...found.values()], rest };
+}
+
+const LEADING = new Set(
+  'the a an in on at of for from to and but as by with after before over amid why how what when who while mr mrs ms dr shri smt justice minister chief cm pm president governor prime home finance former ex union state'.split(
+    ' ',
+  ),
+);
+const CALENDAR = new Set(
+  'january february march april may june july august september october november december monday tuesday wednesday thursday friday saturday sunday'.split(
+    ' ',
+  ),
+);
+const PARTY_SUFFIX = new Set(['party', 'sena', 'dal', 'morcha', 'league']);
+const ORG_SUFFIX = new Set(
+  'ltd limited bank group court ministry commission council university corporation police board authority association institute agency company foundation department committee tribunal'.split(
+    ' ',
+  ),
+);
+const PLACE_PREPOSITION = /\b(?:in|at|from|near|across)\s+$/;
+
+const TITLE_CASE_LOWER = new Set(['with', 'from', 'over', 'into', 'onto', 'upon', 'than', 'that', 'after']);
+
+/**
+ * Headline-style Title Case carries no signal about which words are names. Sentence case
+ * almost always has some lower-case word of four letters or more; Title Case has none.
+ */
+function isTitleCase(text: string) {
+  const words = text.split(/\s+/).filter((w) => /^[A-Za-z]{4,}/.test(w));
+  if (words.length < 4) return false;
+  return !words.some((w) => /^[a-z]/.test(w) && !TITLE_CASE_LOWER.has(w.toLowerCase()));
+}
+
+function classify(words: string[], before: string): EntityKind | null {
+  const last = words[words.length - 1].toLowerCase();
+  if (PARTY_SUFFIX.has(last) && words.length > 1) return 'party';
+  if (ORG_SUFFIX.has(last) && words.length > 1) return 'org';
+  if (PLACE_PREPOSITION.test(before)) return 'place';
+  if (words.length >= 2 && words.length <= 3) return 'person';
+  return null;
+}
+
+/** Unknown names: runs of capitalised words, typed by suffix ("… Bank") or context ("in Wayanad"). */
+function capitalisedPhrases(text: string): { name: string; kind: EntityKind }[] {
+  const out: { name: string; kind: EntityKind }[] = [];
+  const re = /\b[A-Z][\p{L}'’-]+(?:\s+(?:of\s+)?[A-Z][\p{L}'’-]+)*/gu;
+  for (const m of text.matchAll(re)) {
+    let words = m[0].split(/\s+/);
+    let start = m.index ?? 0;
+    while (words.length && LEADING.has(words[0].toLowerCase())) {
+      start += words[0].length + 1;
+      words = words.slice(1);
+    }
+    words = words.filter((w) => !CALENDAR.has(w.toLowerCase()));
+    if (!words.length || words[words.length - 1] === 'of') continue;
+    const kind = classify(words, text.slice(0, start));
+    if (kind) out.push({ name: words.join(' '), kind });
+  }
+  return out;
+}
+
+export function extractNamedEntities(texts: string[], edition?: string | null): ExtractedEntity[] {
+  const byslug = new Map<string, ExtractedEntity>();
+  const add = (slug: string, name: string, kind: EntityKind, mentions = 1) => {
+    const cur = byslug.get(slug);
+    if (cur) cur.mentions += mentions;
+    else byslug.set(slug, { slug, name, kind, mentions });
+  };
+  for (const text of texts) {
+    if (!text?.trim()) continue;
+    const { found, rest } = matchKnownEntities(text, edition);
+    for (const { entity, mentions } of found) add(entity.slug, entity.name, entity.kind, mentions);
+    if (isTitleCase(text)) continue;
+    for (const p of capitalisedPhrases(rest)) add(slugify(p.name), p.name, p.kind);
+  }
+  return [...byslug.values()]
+    .sort((a, b) => b.mentions - a.mentions || a.slug.localeCompare(b.slug))
+    .slice(0, MAX_ENTITIES_PER_ARTICLE);
+}
@@ -0,0 +1,23 @@
+import type { Doc, Id } from '../_generated/dataModel';
+import type { MutationCtx } from '../_generated/server';
+import type { FieldChange } from './outletEdits';
+
+/** Append to an outlet's change history (`outletChanges`), shown on /admin/outlets. */
+export async function logChange(
+  ctx: MutationCtx,
+  outlet: Doc<'outlets'>,
+  op: Doc<'outletChanges'>['op'],
+  actorId: string,
+  changes: FieldChange[],
+  feedId?: Id<'feeds'>,
+) {
+  await ctx.db.insert('outletChanges', {
+    outletId: outlet._id,
+    outletName: outlet.name,
+    feedId,
+    op,
+    actorId,
+    changes,
+    createdAt: Date.now(),
+  });
+}
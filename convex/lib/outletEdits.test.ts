@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { clampPollInterval, diffFields, validateFeedUrl, validateOutlet } from './outletEdits';
+
+describe('outletEdits', () => {
+  it('normalizes and validates outlet fields', () => {
+    expect(
+      validateOutlet({
+        name: '  The Wire ',
+        domain: 'https://www.thewire.in/politics',
+        biasLabel: 'left',
+        factuality: 'high',
+        ownershipCategory: ' independent ',
+      }),
+    ).toEqual({
+      name: 'The Wire',
+      domain: 'thewire.in',
+      biasLabel: 'left',
+      factuality: 'high',
+      ownershipCategory: 'independent',
+      ratingSource: undefined,
+    });
+    expect(() =>
+      validateOutlet({ name: 'X', domain: 'x.com', biasLabel: 'far-left', factuality: 'high' }),
+    ).toThrow(/biasLabel/);
+    expect(() => validateOutlet({ name: 'X', domain: 'nope', biasLabel: 'left', factuality: 'high' })).toThrow(
+      /invalid domain/,
+    );
+  });
+
+  it('records only changed fields', () => {
+    expect(
+      diffFields(
+        { name: 'NDTV', biasLabel: 'center-left', ownershipCategory: undefined },
+        { name: 'NDTV', biasLabel: 'center', ownershipCategory: 'corporation' },
+      ),
+    ).toEqual([
+      { field: 'biasLabel', before: 'center-left', after: 'center' },
+      { field: 'ownershipCategory', before: undefined, after: 'corporation' },
+    ]);
+  });
+
+  it('checks feed URLs and clamps poll intervals', () => {
+    expect(validateFeedUrl(' https://scroll.in/feed ')).toBe('https://scroll.in/feed');
+    expect(() => validateFeedUrl('ftp://scroll.in/feed')).toThrow(/invalid feed URL/);
+    expect(clampPollInterval(30)).toBe(300);
+    expect(clampPollInterval(200_000)).toBe(86_400);
+  });
+});
@@ -0,0 +1,110 @@
+import { validateEdition } from './editions';
+import { normalizeDomain } from './outletFromUrl';
+import { validateOwnershipCategory } from './ownership';
+import { validateReachTier, type ReachTier } from './reach';
+import { slugify } from './slug';
+
+/** Validation and change diffs for admin outlet / feed edits. */
+
+export const BIAS_LABELS = ['left', 'center-left', 'center', 'center-right', 'right', 'unknown'] as const;
+export const FACTUALITY_TIERS = ['very-high', 'high', 'mixed', 'low', 'unknown'] as const;
+
+/** How a feed URL is parsed (`convex/lib/feedParsers.ts`); unset = `rss`. */
+export const FEED_KINDS = ['rss', 'atom', 'json-feed', 'sitemap', 'google-news-sitemap'] as const;
+export type FeedKind = (typeof FEED_KINDS)[number];
+
+export const MIN_POLL_INTERVAL_SEC = 300;
+export const MAX_POLL_INTERVAL_SEC = 86_400;
+
+export type OutletInput = {
+  name: string;
+  domain: string;
+  biasLabel: string;
+  factuality: string;
+  ownershipCategory?: string;
+  /** `owners` id; when set, `ownershipCategory` follows the owner chain. */
+  ownerId?: string;
+  reachTier?: string;
+  ratingSource?: string;
+  edition?: string;
+};
+
+export type FieldChange = { field: string; before?: string; after?: string };
+
+export function validateOutlet(input: OutletInput): OutletInput & { reachTier?: ReachTier } {
+  const name = input.name.trim();
+  if (!name) throw new Error('name is required');
+  const domain = normalizeDomain(input.domain);
+  if (!domain) throw new Error(`invalid domain: ${input.domain}`);
+  if (!(BIAS_LABELS as readonly string[]).includes(input.biasLabel)) {
+    throw new Error(`biasLabel must be one of ${BIAS_LABELS.join(', ')}`);
+  }
+  if (!(FACTUALITY_TIERS as readonly string[]).includes(input.factuality)) {
+    throw new Error(`factuality must be one of ${FACTUALITY_TIERS.join(', ')}`);
+  }
+  const ownershipCategory = validateOwnershipCategory(input.ownershipCategory);
+  return {
+    name,
+    domain,
+    biasLabel: input.biasLabel,
+    factuality: input.factuality,
+    ownershipCategory,
+    ownerId: input.ownerId?.trim() || undefined,
+    reachTier: validateReachTier(input.reachTier),
+    ratingSource: input.ratingSource?.trim() || undefined,
+    edition: validateEdition(input.edition),
+  };
+}
+
+export function outletExternalIdFromName(name: string): string {
+  return slugify(name);
+}
+
+export function validateHttpUrl(url: string, what: string): string {
+  const trimmed = url.trim();
+  try {
+    const u = new URL(trimmed);
+    if (u.protocol === 'http:' || u.protocol === 'https:') return u.toString();
+  } catch {
+    // fall through
+  }
+  throw new Error(`invalid ${what}: ${url}`);
+}
+
+export function validateFeedUrl(url: string): string {
+  return validateHttpUrl(url, 'feed URL');
+}
+
+/** Link to the rating organisation's page for an outlet. */
+export function validateRatingUrl(url: string): string {
+  return validateHttpUrl(url, 'rating URL');
+}
+
+/** Empty string means the default (`rss`). */
+export function validateFeedKind(kind?: string): FeedKind | undefined {
+  const k = kind?.trim();
+  if (!k) return undefined;
+  if (!(FEED_KINDS as readonly string[]).includes(k)) throw new Error(`kind must be one of ${FEED_KINDS.join(', ')}`);
+  return k as FeedKind;
+}
+
+export function clampPollInterval(sec: number): number {
+  return Math.round(Math.min(MAX_POLL_INTERVAL_SEC, Math.max(MIN_POLL_INTERVAL_SEC, sec)));
+}
+
+type Scalar = string | number | boolean | undefined | null;
+
+function show(v: Scalar): string | undefined {
+  return v === undefined || v === null ? undefined : String(v);
+}
+
+/** Fields whose value differs between `before` and `after` (only keys present in `after`). */
+export function diffFields(before: Record<string, Scalar>, after: Record<string, Scalar>): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const field of Object.keys(after)) {
+    const a = show(before[field]);
+    const b = show(after[field]);
+    if (a !== b) changes.push({ field, before: a, after: b });
+  }
+  return changes;
+}
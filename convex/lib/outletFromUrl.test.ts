@@ -1,11 +1,29 @@
 import { describe, expect, it } from 'vitest';
-import { outletExternalIdForUrl } from './outletFromUrl';
+import { OUTLET_SEED } from '../seedData';
+import { normalizeDomain, outletExternalIdForUrl } from './outletFromUrl';
+
+const SEEDED = OUTLET_SEED.map((o) => ({ externalId: o.id, domain: o.domain }));
 
 describe('outletFromUrl', () => {
   it('maps thehindu URLs', () => {
-    expect(outletExternalIdForUrl('https://www.thehindu.com/news/national/x/article123.e456')).toBe('the-hindu');
+    expect(outletExternalIdForUrl('https://www.thehindu.com/news/national/x/article123.e456', SEEDED)).toBe(
+      'the-hindu',
+    );
   });
   it('rejects unknown domains', () => {
-    expect(outletExternalIdForUrl('https://www.cnn.com/foo')).toBeNull();
+    expect(outletExternalIdForUrl('https://www.cnn.com/foo', SEEDED)).toBeNull();
+  });
+  it('prefers the longest matching domain', () => {
+    const outlets = [
+      { externalId: 'india-com', domain: 'india.com' },
+      { externalId: 'zee-news', domain: 'zeenews.india.com' },
+    ];
+    expect(outletExternalIdForUrl('https://zeenews.india.com/india/x', outlets)).toBe('zee-news');
+    expect(outletExternalIdForUrl('https://www.india.com/news/y', outlets)).toBe('india-com');
+  });
+  it('normalizes admin-entered domains', () => {
+    expect(normalizeDomain('https://www.TheWire.in/politics')).toBe('thewire.in');
+    expect(normalizeDomain('scroll.in')).toBe('scroll.in');
+    expect(normalizeDomain('not a domain')).toBeNull();
   });
-});
\ No newline at end of file
+});
@@ -1,4 +1,4 @@
-import { OUTLET_SEED } from '../seedData';
+export type OutletDomain = { externalId: string; domain: string };
 
 export function hostFromUrl(url: string): string | null {
   try {
@@ -8,13 +8,27 @@ export function hostFromUrl(url: string): string | null {
   }
 }
 
-/** Match article URL to seeded India outlet (external id). */
-export function outletExternalIdForUrl(url: string): string | null {
+/** `https://www.Example.com/path` or `example.com` → `example.com`; null when it is not a hostname. */
+export function normalizeDomain(input: string): string | null {
+  const raw = input.trim();
+  if (!raw) return null;
+  const host = hostFromUrl(/^[a-z]+:\/\//i.test(raw) ? raw : `https://${raw}`);
+  if (!host || !/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(host)) return null;
+  return host;
+}
+
+/**
+ * Match an article URL to an outlet (external id) from the `outlets` table. The longest
+ * matching domain wins, so `zeenews.india.com` beats a hypothetical `india.com`.
+ */
+export function outletExternalIdForUrl(url: string, outlets: OutletDomain[]): string | null {
   const host = hostFromUrl(url);
   if (!host) return null;
-  for (const o of OUTLET_SEED) {
+  let best: OutletDomain | null = null;
+  for (const o of outlets) {
     const d = o.domain.toLowerCase();
-    if (host === d || host.endsWith(`.${d}`)) return o.id;
+    if (host !== d && !host.endsWith(`.${d}`)) continue;
+    if (!best || d.length > best.domain.length) best = o;
   }
-  return null;
-}
\ No newline at end of file
+  return best?.externalId ?? null;
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { blindspotFrequency, isExclusiveCoverage, opposingSide } from './outletProfile';
+
+describe('outletProfile', () => {
+  it('pairs each side with the other and gives center outlets none', () => {
+    expect(opposingSide('center-left')).toBe('right');
+    expect(opposingSide('right')).toBe('left');
+    expect(opposingSide('center')).toBeNull();
+    expect(opposingSide('unknown')).toBeNull();
+  });
+
+  it('marks coverage exclusive when no opposite-side outlet reported the story', () => {
+    expect(isExclusiveCoverage('left', ['left', 'center-left', 'center', 'unknown'])).toBe(true);
+    expect(isExclusiveCoverage('left', ['left', 'center-right'])).toBe(false);
+    expect(isExclusiveCoverage('right', ['right'])).toBe(true);
+    expect(isExclusiveCoverage('center', ['center'])).toBe(false);
+  });
+
+  it('does not count stories no other outlet covered', () => {
+    expect(isExclusiveCoverage('left', [])).toBe(false);
+  });
+
+  it('counts left- and right-side blindspots', () => {
+    expect(blindspotFrequency(['left', undefined, 'right', 'left', 'none', null])).toEqual({
+      stories: 6,
+      left: 2,
+      right: 1,
+    });
+  });
+});
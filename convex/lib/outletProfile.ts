@@ -0,0 +1,32 @@
+import { sideOf } from './blindspotFormula';
+
+/** The side whose coverage means another camp also reported the story; center and unrated outlets have none. */
+export function opposingSide(biasLabel: string): 'left' | 'right' | null {
+  const side = sideOf(biasLabel);
+  if (side === 'left') return 'right';
+  if (side === 'right') return 'left';
+  return null;
+}
+
+/**
+ * True when a left- or right-leaning outlet covered a story that no outlet from the other side did.
+ * `otherLabels` are the labels of the other outlets on the story; a story nobody else covered is not counted.
+ */
+export function isExclusiveCoverage(biasLabel: string, otherLabels: string[]): boolean {
+  const opposing = opposingSide(biasLabel);
+  if (!opposing || otherLabels.length === 0) return false;
+  return !otherLabels.some((label) => sideOf(label) === opposing);
+}
+
+/** How many of an outlet's stories were flagged as left- or right-side blindspots. */
+export function blindspotFrequency(sides: (string | null | undefined)[]): {
+  stories: number;
+  left: number;
+  right: number;
+} {
+  return {
+    stories: sides.length,
+    left: sides.filter((s) => s === 'left').length,
+    right: sides.filter((s) => s === 'right').length,
+  };
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import {
+  chainCategory,
+  createsCycle,
+  MAX_CHAIN_DEPTH,
+  ownershipChain,
+  validateOwnershipCategory,
+  weightedOwnershipSpread,
+  type OwnerNode,
+} from './ownership';
+
+const owners = new Map<string, OwnerNode>(
+  [
+    { id: 'adani', name: 'Adani Group', category: 'corporation' },
+    { id: 'amg', name: 'AMG Media Networks', category: 'media_conglomerate', parentId: 'adani' },
+    { id: 'ndtv-owner', name: 'RRPR Holding', category: 'other', parentId: 'amg' },
+    { id: 'solo', name: 'Independent trust', category: 'independent' },
+  ].map((o) => [o.id, o]),
+);
+
+describe('ownership', () => {
+  it('walks the chain to the ultimate parent and takes its category', () => {
+    const chain = ownershipChain(owners, 'ndtv-owner');
+    expect(chain.map((o) => o.id)).toEqual(['ndtv-owner', 'amg', 'adani']);
+    expect(chainCategory(chain)).toBe('corporation');
+    expect(chainCategory(ownershipChain(owners, 'solo'))).toBe('independent');
+    expect(chainCategory(ownershipChain(owners, 'missing'))).toBeUndefined();
+  });
+
+  it('stops at cycles and at the depth limit', () => {
+    const loop = new Map<string, OwnerNode>([
+      ['a', { id: 'a', name: 'A', category: 'other', parentId: 'b' }],
+      ['b', { id: 'b', name: 'B', category: 'other', parentId: 'a' }],
+    ]);
+    expect(ownershipChain(loop, 'a').map((o) => o.id)).toEqual(['a', 'b']);
+
+    const long = new Map<string, OwnerNode>();
+    for (let i = 0; i < 20; i++) long.set(`o${i}`, { id: `o${i}`, name: `O${i}`, category: 'other', parentId: `o${i + 1}` });
+    expect(ownershipChain(long, 'o0')).toHaveLength(MAX_CHAIN_DEPTH);
+  });
+
+  it('detects a parent that would loop back', () => {
+    expect(createsCycle(owners, 'adani', 'ndtv-owner')).toBe(true);
+    expect(createsCycle(owners, 'amg', 'amg')).toBe(true);
+    expect(createsCycle(owners, 'solo', 'adani')).toBe(false);
+  });
+
+  it('validates categories', () => {
+    expect(validateOwnershipCategory(' telecom ')).toBe('telecom');
+    expect(validateOwnershipCategory('')).toBeUndefined();
+    expect(() => validateOwnershipCategory('state')).toThrow(/ownershipCategory must be one of/);
+  });
+
+  it('weights ownership coverage like the bias spread', () => {
+    const weights = new Map([
+      ['a2', 0.25],
+      ['a3', 0],
+    ]);
+    expect(
+      weightedOwnershipSpread(
+        [
+          { id: 'a1', category: 'corporation' },
+          { id: 'a2', category: 'corporation' },
+          { id: 'a3', category: 'government' },
+          { id: 'a4', category: null },
+        ],
+        weights,
+      ),
+    ).toEqual({ corporation: 1.25, unknown: 1 });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Outlet ownership: owner entities with a category and an optional parent company. An outlet is
+ * classified by the owner at the top of its chain (NDTV → AMG Media Networks → Adani Group is a
+ * `corporation`), so the category follows whoever ultimately controls it.
+ */
+
+export const OWNERSHIP_CATEGORIES = [
+  'independent',
+  'media_conglomerate',
+  'corporation',
+  'private_equity',
+  'individual',
+  'government',
+  'telecom',
+  'other',
+] as const;
+export type OwnershipCategory = (typeof OWNERSHIP_CATEGORIES)[number];
+
+export const OWNERSHIP_NAMES: Record<OwnershipCategory, string> = {
+  independent: 'Independent',
+  media_conglomerate: 'Media conglomerate',
+  corporation: 'Corporation',
+  private_equity: 'Private equity',
+  individual: 'Individual owner',
+  government: 'Government / public',
+  telecom: 'Telecom',
+  other: 'Other',
+};
+
+/** Chains longer than this are cut (and reported as such) rather than walked forever. */
+export const MAX_CHAIN_DEPTH = 8;
+
+export type OwnerNode = { id: string; name: string; category: string; parentId?: string | null };
+
+export function isOwnershipCategory(value: string | undefined | null): value is OwnershipCategory {
+  return Boolean(value && (OWNERSHIP_CATEGORIES as readonly string[]).includes(value));
+}
+
+export function validateOwnershipCategory(value: string | undefined): OwnershipCategory | undefined {
+  const v = value?.trim() || undefined;
+  if (v && !isOwnershipCategory(v)) {
+    throw new Error(`ownershipCategory must be one of ${OWNERSHIP_CATEGORIES.join(', ')}`);
+  }
+  return v as OwnershipCategory | undefined;
+}
+
+/** Owners from `startId` up to the ultimate parent; stops at a missing parent, a cycle or `MAX_CHAIN_DEPTH`. */
+export function ownershipChain(owners: Map<string, OwnerNode>, startId: string): OwnerNode[] {
+  const chain: OwnerNode[] = [];
+  const seen = new Set<string>();
+  let id: string | null | undefined = startId;
+  while (id && !seen.has(id) && chain.length < MAX_CHAIN_DEPTH) {
+    const owner = owners.get(id);
+    if (!owner) break;
+    seen.add(id);
+    chain.push(owner);
+    id = owner.parentId;
+  }
+  return chain;
+}
+
+/** Category of the top of the chain, or undefined for an empty chain. */
+export function chainCategory(chain: OwnerNode[]): OwnershipCategory | undefined {
+  const top = chain[chain.length - 1];
+  return top && isOwnershipCategory(top.category) ? top.category : undefined;
+}
+
+/** True when making `parentId` the parent of `ownerId` would loop back to `ownerId`. */
+export function createsCycle(owners: Map<string, OwnerNode>, ownerId: string, parentId: string): boolean {
+  if (ownerId === parentId) return true;
+  return ownershipChain(owners, parentId).some((o) => o.id === ownerId);
+}
+
+export type OwnershipCoverage = { id: string; category: string | null | undefined };
+
+/** Coverage per ownership category with the same syndication weights as the bias spread. */
+export function weightedOwnershipSpread(
+  articles: OwnershipCoverage[],
+  weights: Map<string, number>,
+): Partial<Record<OwnershipCategory | 'unknown', number>> {
+  const spread: Partial<Record<OwnershipCategory | 'unknown', number>> = {};
+  for (const a of articles) {
+    const w = weights.get(a.id) ?? 1;
+    if (w <= 0) continue;
+    const key = isOwnershipCategory(a.category) ? a.category : 'unknown';
+    spread[key] = (spread[key] ?? 0) + w;
+  }
+  return spread;
+}
@@ -0,0 +1,50 @@
+import type { Doc, Id } from '../_generated/dataModel';
+import type { MutationCtx, QueryCtx } from '../_generated/server';
+import { chainCategory, ownershipChain, type OwnerNode } from './ownership';
+
+/** Every owner by id (the table is small: one row per company / person / public body). */
+export async function loadOwners(ctx: QueryCtx | MutationCtx): Promise<Map<string, OwnerNode>> {
+  const rows = await ctx.db.query('owners').collect();
+  return new Map(rows.map((o) => [o._id as string, toNode(o)]));
+}
+
+export function toNode(o: Doc<'owners'>): OwnerNode {
+  return { id: o._id, name: o.name, category: o.category, parentId: o.parentId ?? null };
+}
+
+/** Set the outlet's `ownershipCategory` from its owner chain. Outlets without an owner keep their manual category. */
+export async function applyOutletOwnership(
+  ctx: MutationCtx,
+  outlet: Doc<'outlets'>,
+  owners?: Map<string, OwnerNode>,
+): Promise<boolean> {
+  if (!outlet.ownerId) return false;
+  const category = chainCategory(ownershipChain(owners ?? (await loadOwners(ctx)), outlet.ownerId));
+  if (!category || category === outlet.ownershipCategory) return false;
+  await ctx.db.patch(outlet._id, { ownershipCategory: category });
+  return true;
+}
+
+/** Re-derive the category of every outlet owned by `ownerId` or one of its subsidiaries. */
+export async function refreshOwnerOutlets(ctx: MutationCtx, ownerId: Id<'owners'>): Promise<number> {
+  const owners = await loadOwners(ctx);
+  const queue: Id<'owners'>[] = [ownerId];
+  const seen = new Set<string>();
+  let changed = 0;
+  while (queue.length) {
+    const id = queue.shift()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    const outlets = await ctx.db
+      .query('outlets')
+      .withIndex('by_owner', (q) => q.eq('ownerId', id))
+      .collect();
+    for (const outlet of outlets) if (await applyOutletOwnership(ctx, outlet, owners)) changed++;
+    const children = await ctx.db
+      .query('owners')
+      .withIndex('by_parent', (q) => q.eq('parentId', id))
+      .collect();
+    queue.push(...children.map((c) => c._id));
+  }
+  return changed;
+}
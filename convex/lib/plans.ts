@@ -2,11 +2,39 @@ export type PlanId = 'free' | 'plus' | 'pro';
 
 export const PLAN_LIMITS: Record<
   PlanId,
-  { verificationsPerMonth: number; customFeeds: number; blindspot: boolean; biasCompare: boolean; feedFilters: boolean }
+  {
+    verificationsPerMonth: number;
+    customFeeds: number;
+    blindspot: boolean;
+    biasCompare: boolean;
+    feedFilters: boolean;
+    readingAnalytics: boolean;
+  }
 > = {
-  free: { verificationsPerMonth: 5, customFeeds: 3, blindspot: false, biasCompare: false, feedFilters: false },
-  plus: { verificationsPerMonth: 50, customFeeds: 25, blindspot: true, biasCompare: true, feedFilters: true },
-  pro: { verificationsPerMonth: 500, customFeeds: 9999, blindspot: true, biasCompare: true, feedFilters: true },
+  free: {
+    verificationsPerMonth: 5,
+    customFeeds: 3,
+    blindspot: false,
+    biasCompare: false,
+    feedFilters: false,
+    readingAnalytics: false,
+  },
+  plus: {
+    verificationsPerMonth: 50,
+    customFeeds: 25,
+    blindspot: true,
+    biasCompare: true,
+    feedFilters: true,
+    readingAnalytics: true,
+  },
+  pro: {
+    verificationsPerMonth: 500,
+    customFeeds: 9999,
+    blindspot: true,
+    biasCompare: true,
+    feedFilters: true,
+    readingAnalytics: true,
+  },
 };
 
 export type PlanDisplay = {
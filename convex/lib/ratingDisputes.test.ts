@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_EVIDENCE_LINKS, validateDispute, validateRationale } from './ratingDisputes';
+
+const base = {
+  kind: 'bias' as const,
+  proposedValue: ' center ',
+  claim: '  Their editorials back both sides; the left label is out of date.  ',
+  evidenceUrls: ['https://example.org/study', '', 'https://example.org/study'],
+};
+
+describe('ratingDisputes', () => {
+  it('trims the claim and dedupes evidence links', () => {
+    expect(validateDispute(base, 'center-left')).toEqual({
+      kind: 'bias',
+      proposedValue: 'center',
+      claim: 'Their editorials back both sides; the left label is out of date.',
+      evidenceUrls: ['https://example.org/study'],
+    });
+  });
+
+  it('requires a different value on the Facets scale', () => {
+    expect(() => validateDispute(base, 'center')).toThrow(/already rated center/);
+    expect(() => validateDispute({ ...base, proposedValue: 'lean-left' }, 'center')).toThrow(/not a bias value/);
+    expect(() => validateDispute({ ...base, kind: 'factuality', proposedValue: 'very-high' }, 'high')).not.toThrow();
+  });
+
+  it('requires an explanation and between one and five evidence links', () => {
+    expect(() => validateDispute({ ...base, claim: 'wrong' }, 'left')).toThrow(/at least 20/);
+    expect(() => validateDispute({ ...base, evidenceUrls: [' '] }, 'left')).toThrow(/at least one evidence/);
+    expect(() => validateDispute({ ...base, evidenceUrls: ['javascript:alert(1)'] }, 'left')).toThrow(
+      /invalid evidence link/,
+    );
+    const many = Array.from({ length: MAX_EVIDENCE_LINKS + 1 }, (_, i) => `https://example.org/${i}`);
+    expect(() => validateDispute({ ...base, evidenceUrls: many }, 'left')).toThrow(/at most 5/);
+  });
+
+  it('requires a rationale to resolve', () => {
+    expect(validateRationale('  Confirmed by   two audits. ')).toBe('Confirmed by two audits.');
+    expect(() => validateRationale('ok')).toThrow(/rationale/);
+  });
+});
@@ -0,0 +1,42 @@
+import { validateHttpUrl } from './outletEdits';
+import { normalizeRating, type RatingKind } from './ratings';
+
+/**
+ * Reader disputes of an outlet's bias or factuality label. A dispute proposes a value on the
+ * Facets scale and cites evidence; an admin accepts or rejects it with a public rationale.
+ */
+
+export const MAX_EVIDENCE_LINKS = 5;
+export const CLAIM_MIN_CHARS = 20;
+export const CLAIM_MAX_CHARS = 2000;
+export const RATIONALE_MIN_CHARS = 10;
+/** Open disputes one reader may have across all outlets. */
+export const MAX_OPEN_PER_USER = 5;
+
+export type DisputeInput = {
+  kind: RatingKind;
+  proposedValue: string;
+  claim: string;
+  evidenceUrls: string[];
+};
+
+export function validateDispute(input: DisputeInput, currentValue: string): DisputeInput {
+  const proposedValue = input.proposedValue.trim();
+  normalizeRating('facets', input.kind, proposedValue);
+  if (proposedValue === currentValue) throw new Error(`the outlet is already rated ${currentValue}`);
+  const claim = input.claim.trim();
+  if (claim.length < CLAIM_MIN_CHARS) throw new Error(`explain the dispute in at least ${CLAIM_MIN_CHARS} characters`);
+  if (claim.length > CLAIM_MAX_CHARS) throw new Error(`keep the explanation under ${CLAIM_MAX_CHARS} characters`);
+  const links = input.evidenceUrls.filter((u) => u.trim()).map((u) => validateHttpUrl(u, 'evidence link'));
+  const evidenceUrls = [...new Set(links)];
+  if (!evidenceUrls.length) throw new Error('add at least one evidence link');
+  if (evidenceUrls.length > MAX_EVIDENCE_LINKS) throw new Error(`at most ${MAX_EVIDENCE_LINKS} evidence links`);
+  return { kind: input.kind, proposedValue, claim, evidenceUrls };
+}
+
+/** Rationales are published in the outlet changelog, so they are required either way. */
+export function validateRationale(rationale: string): string {
+  const r = rationale.replace(/\s+/g, ' ').trim();
+  if (r.length < RATIONALE_MIN_CHARS) throw new Error(`a rationale of at least ${RATIONALE_MIN_CHARS} characters is required`);
+  return r;
+}
@@ -0,0 +1,95 @@
+import type { Doc, Id } from '../_generated/dataModel';
+import type { MutationCtx, QueryCtx } from '../_generated/server';
+import {
+  aggregateRatings,
+  biasLabelForScore,
+  EDITORIAL_SOURCE,
+  factualityTierForScore,
+  normalizeRating,
+  ratingConfigFromEnv,
+  sourceKey,
+  type RatingAggregatorConfig,
+  type RatingKind,
+} from './ratings';
+
+export function ratingConfig(): RatingAggregatorConfig {
+  return ratingConfigFromEnv(
+    process.env.RATING_AGGREGATE,
+    process.env.RATING_BIAS_POINTS,
+    process.env.RATING_SOURCE_WEIGHTS,
+  );
+}
+
+export async function outletRatingRows(
+  ctx: QueryCtx | MutationCtx,
+  outletId: Id<'outlets'>,
+): Promise<Doc<'outletRatings'>[]> {
+  return ctx.db
+    .query('outletRatings')
+    .withIndex('by_outlet', (q) => q.eq('outletId', outletId))
+    .collect();
+}
+
+/**
+ * Record labels set by hand (seed or /admin/outlets) as the "Facets editorial" source. A new row is
+ * only added when the value changed, so the history shows each editorial re-rating. `unknown` is skipped.
+ */
+export async function recordEditorialRatings(
+  ctx: MutationCtx,
+  outletId: Id<'outlets'>,
+  labels: { biasLabel: string; factuality: string },
+  addedBy: string,
+  now: number,
+): Promise<number> {
+  const rows = await outletRatingRows(ctx, outletId);
+  const editorial = sourceKey(EDITORIAL_SOURCE);
+  let added = 0;
+  for (const [kind, rawValue] of [
+    ['bias', labels.biasLabel],
+    ['factuality', labels.factuality],
+  ] as [RatingKind, string][]) {
+    if (rawValue === 'unknown') continue;
+    const latest = rows
+      .filter((r) => r.kind === kind && sourceKey(r.source) === editorial)
+      .sort((a, b) => b.ratedAt - a.ratedAt)[0];
+    if (latest?.rawValue === rawValue) continue;
+    await ctx.db.insert('outletRatings', {
+      outletId,
+      source: EDITORIAL_SOURCE,
+      kind,
+      scale: 'facets',
+      rawValue,
+      score: normalizeRating('facets', kind, rawValue),
+      ratedAt: now,
+      addedBy,
+      createdAt: now,
+    });
+    added++;
+  }
+  return added;
+}
+
+/**
+ * Recompute the outlet's effective `biasLabel` / `factuality` from its rating rows. Kinds without
+ * any counted observation keep their current label. Returns whether the outlet changed.
+ */
+export async function applyOutletRatings(
+  ctx: MutationCtx,
+  outletId: Id<'outlets'>,
+  config: RatingAggregatorConfig = ratingConfig(),
+): Promise<boolean> {
+  const outlet = await ctx.db.get(outletId);
+  if (!outlet) return false;
+  const rows = await outletRatingRows(ctx, outletId);
+  const bias = aggregateRatings(rows, 'bias', config);
+  const factuality = aggregateRatings(rows, 'factuality', config);
+  const patch: Partial<Doc<'outlets'>> = {
+    biasScore: bias?.score,
+    factualityScore: factuality?.score,
+  };
+  if (bias) patch.biasLabel = biasLabelForScore(bias.score);
+  if (factuality) patch.factuality = factualityTierForScore(factuality.score);
+  const changed = (Object.keys(patch) as (keyof typeof patch)[]).some((k) => patch[k] !== outlet[k]);
+  if (changed) await ctx.db.patch(outletId, patch);
+  return changed;
+}
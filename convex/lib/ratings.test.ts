@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+  aggregateRatings,
+  biasLabelForScore,
+  factualityTierForScore,
+  normalizeRating,
+  ratingConfigFromEnv,
+  sevenPointLabel,
+  type RatingObservation,
+} from './ratings';
+
+const DAY = 86_400_000;
+const defaults = ratingConfigFromEnv(undefined, undefined, undefined);
+
+function obs(source: string, scale: string, raw: string, ratedAt = 0): RatingObservation {
+  return { source, kind: 'bias', score: normalizeRating(scale, 'bias', raw), ratedAt };
+}
+
+describe('ratings', () => {
+  it('normalises raw values per scale', () => {
+    expect(normalizeRating('allsides', 'bias', 'Lean Left')).toBe(-0.5);
+    expect(normalizeRating('mbfc', 'bias', 'Right-Center')).toBeCloseTo(1 / 3);
+    expect(normalizeRating('seven-point', 'bias', '-3')).toBe(-1);
+    expect(normalizeRating('seven-point', 'bias', 'lean right')).toBeCloseTo(1 / 3);
+    expect(normalizeRating('ad-fontes', 'bias', '-21')).toBe(-0.5);
+    expect(normalizeRating('mbfc', 'factuality', 'Mostly Factual')).toBe(0.65);
+    expect(normalizeRating('ad-fontes', 'factuality', '40')).toBe(0.75);
+  });
+
+  it('rejects unknown scales, kinds and values', () => {
+    expect(() => normalizeRating('newsguard', 'bias', '80')).toThrow(/scale must be one of/);
+    expect(() => normalizeRating('allsides', 'factuality', 'High')).toThrow(/has no factuality/);
+    expect(() => normalizeRating('facets', 'bias', 'unknown')).toThrow(/not a bias value/);
+    expect(() => normalizeRating('ad-fontes', 'bias', '50')).toThrow(/not a bias value/);
+  });
+
+  it('reads the aggregator config from env', () => {
+    expect(defaults).toEqual({ method: 'mean', biasPoints: 5, weights: {} });
+    expect(ratingConfigFromEnv(' Median ', '7', 'AllSides=2, Facets editorial=0.5,mbfc=x,=1')).toEqual({
+      method: 'median',
+      biasPoints: 7,
+      weights: { allsides: 2, 'facets-editorial': 0.5 },
+    });
+  });
+
+  it('averages the latest observation from each source', () => {
+    const rows = [
+      obs('Facets editorial', 'facets', 'center-left'),
+      obs('AllSides', 'allsides', 'Center', 0),
+      obs('AllSides', 'allsides', 'Left', 30 * DAY),
+      obs('MBFC', 'mbfc', 'Left-Center'),
+    ];
+    const mean = aggregateRatings(rows, 'bias', defaults)!;
+    expect(mean).toEqual({ score: -0.611, sources: 3 });
+    expect(biasLabelForScore(mean.score)).toBe('left');
+    const median = aggregateRatings(rows, 'bias', { ...defaults, method: 'median' })!;
+    expect(median.score).toBe(-0.5);
+    expect(biasLabelForScore(median.score)).toBe('center-left');
+    expect(aggregateRatings(rows, 'factuality', defaults)).toBeNull();
+  });
+
+  it('applies source weights, leaving zero-weight sources out', () => {
+    const rows = [obs('Facets editorial', 'facets', 'center'), obs('AllSides', 'allsides', 'Right')];
+    expect(aggregateRatings(rows, 'bias', { ...defaults, weights: { allsides: 3 } })!.score).toBe(0.75);
+    expect(aggregateRatings(rows, 'bias', { ...defaults, weights: { allsides: 0 } })).toEqual({ score: 0, sources: 1 });
+    expect(aggregateRatings(rows, 'bias', { ...defaults, weights: { allsides: 0, 'facets-editorial': 0 } })).toBeNull();
+    expect(aggregateRatings(rows, 'bias', { ...defaults, method: 'median' })!.score).toBe(0.5);
+  });
+
+  it('maps scores to 5-point, 7-point and factuality labels', () => {
+    expect([-1, -0.4, 0, 0.2, 0.61].map(biasLabelForScore)).toEqual([
+      'left',
+      'center-left',
+      'center',
+      'center',
+      'right',
+    ]);
+    expect([-1, -0.5, 0, 0.34, 1].map(sevenPointLabel)).toEqual(['far-left', 'lean-left', 'center', 'lean-right', 'far-right']);
+    expect([1, 0.8, 0.5, 0.2].map(factualityTierForScore)).toEqual(['very-high', 'high', 'mixed', 'low']);
+  });
+});
@@ -0,0 +1,215 @@
+import type { BiasLabel } from './aggregationTypes';
+import { slugify } from './slug';
+
+/**
+ * Outlet rating observations from several sources (Facets editorial, AllSides, MBFC, Ad Fontes, …)
+ * and the aggregator that turns them into an outlet's effective bias and factuality.
+ * Every raw value is first normalised: bias to -1 (left) … +1 (right), factuality to 0 … 1.
+ */
+
+export type RatingKind = 'bias' | 'factuality';
+
+export const SEVEN_POINT_LABELS = [
+  'far-left',
+  'left',
+  'lean-left',
+  'center',
+  'lean-right',
+  'right',
+  'far-right',
+] as const;
+export type SevenPointLabel = (typeof SEVEN_POINT_LABELS)[number];
+
+/** Source name recorded for labels set on /admin/outlets and in `convex/seedData.ts`. */
+export const EDITORIAL_SOURCE = 'Facets editorial';
+
+type Normalizer = (raw: string) => number | null;
+
+export type RatingScale = {
+  name: string;
+  bias?: Normalizer;
+  factuality?: Normalizer;
+};
+
+function key(raw: string): string {
+  return raw.trim().toLowerCase().replace(/[\s_]+/g, '-');
+}
+
+function lookup(table: Record<string, number>): Normalizer {
+  return (raw) => table[key(raw)] ?? null;
+}
+
+const clamp = (n: number) => Math.min(1, Math.max(-1, n));
+
+export const RATING_SCALES: Record<string, RatingScale> = {
+  facets: {
+    name: 'Facets 5-point',
+    bias: lookup({ left: -1, 'center-left': -0.5, center: 0, 'center-right': 0.5, right: 1 }),
+    factuality: lookup({ 'very-high': 1, high: 0.8, mixed: 0.5, low: 0.2 }),
+  },
+  'seven-point': {
+    name: '7-point (-3 … +3)',
+    bias: (raw) => {
+      const i = (SEVEN_POINT_LABELS as readonly string[]).indexOf(key(raw));
+      if (i >= 0) return (i - 3) / 3;
+      const n = Number(raw.trim());
+      return raw.trim() && Number.isInteger(n) && Math.abs(n) <= 3 ? n / 3 : null;
+    },
+  },
+  allsides: {
+    name: 'AllSides',
+    bias: lookup({ left: -1, 'lean-left': -0.5, center: 0, 'lean-right': 0.5, right: 1 }),
+  },
+  mbfc: {
+    name: 'Media Bias/Fact Check',
+    bias: lookup({
+      'extreme-left': -1,
+      left: -2 / 3,
+      'left-center': -1 / 3,
+      'least-biased': 0,
+      center: 0,
+      'right-center': 1 / 3,
+      right: 2 / 3,
+      'extreme-right': 1,
+    }),
+    factuality: lookup({
+      'very-high': 1,
+      high: 0.8,
+      'mostly-factual': 0.65,
+      mixed: 0.5,
+      low: 0.2,
+      'very-low': 0,
+    }),
+  },
+  'ad-fontes': {
+    name: 'Ad Fontes Media (bias -42 … 42, reliability 0 … 64)',
+    bias: (raw) => {
+      const n = Number(raw.trim());
+      return raw.trim() && Number.isFinite(n) && Math.abs(n) <= 42 ? clamp(n / 42) : null;
+    },
+    // Reliability 16 and below reads as low, 48 and above as very high.
+    factuality: (raw) => {
+      const n = Number(raw.trim());
+      if (!raw.trim() || !Number.isFinite(n) || n < 0 || n > 64) return null;
+      return Math.min(1, Math.max(0, (n - 16) / 32));
+    },
+  },
+};
+
+export const RATING_SCALE_IDS = Object.keys(RATING_SCALES);
+
+/** Normalised score for a raw value on `scale`; throws when the scale or value is not understood. */
+export function normalizeRating(scale: string, kind: RatingKind, rawValue: string): number {
+  const def = RATING_SCALES[scale];
+  if (!def) throw new Error(`scale must be one of ${RATING_SCALE_IDS.join(', ')}`);
+  const normalize = def[kind];
+  if (!normalize) throw new Error(`${def.name} has no ${kind} ratings`);
+  const score = normalize(rawValue);
+  if (score === null) throw new Error(`"${rawValue}" is not a ${kind} value on ${def.name}`);
+  return score;
+}
+
+/** Stable key for a source name, used for weights and to keep one current observation per source. */
+export function sourceKey(source: string): string {
+  return slugify(source);
+}
+
+export type RatingAggregatorConfig = {
+  method: 'mean' | 'median';
+  /** Effective bias wording on the methodology page; coverage bars always use the 5 buckets. */
+  biasPoints: 5 | 7;
+  /** Per-source weight by `sourceKey`; unlisted sources weigh 1 and 0 leaves a source out. */
+  weights: Record<string, number>;
+};
+
+/**
+ * `RATING_AGGREGATE` = mean (default) | median, `RATING_BIAS_POINTS` = 5 (default) | 7 and
+ * `RATING_SOURCE_WEIGHTS` as `allsides=1,mbfc=1,facets-editorial=0.5`.
+ */
+export function ratingConfigFromEnv(
+  methodRaw: string | undefined,
+  pointsRaw: string | undefined,
+  weightsRaw: string | undefined,
+): RatingAggregatorConfig {
+  const weights: Record<string, number> = {};
+  for (const pair of (weightsRaw ?? '').split(',')) {
+    const [name, value] = pair.split('=');
+    const w = Number(value?.trim());
+    if (name?.trim() && value?.trim() && Number.isFinite(w) && w >= 0) weights[sourceKey(name)] = w;
+  }
+  return {
+    method: methodRaw?.trim().toLowerCase() === 'median' ? 'median' : 'mean',
+    biasPoints: pointsRaw?.trim() === '7' ? 7 : 5,
+    weights,
+  };
+}
+
+export type RatingObservation = {
+  source: string;
+  kind: RatingKind;
+  score: number;
+  ratedAt: number;
+};
+
+export type AggregatedRating = {
+  score: number;
+  /** Sources that counted (non-zero weight). */
+  sources: number;
+};
+
+function weightedMedian(values: { score: number; weight: number }[]): number {
+  const sorted = [...values].sort((a, b) => a.score - b.score);
+  const half = sorted.reduce((s, v) => s + v.weight, 0) / 2;
+  let acc = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    acc += sorted[i].weight;
+    if (acc > half) return sorted[i].score;
+    // Exactly half the weight on each side: average the two middle values.
+    if (acc === half) return (sorted[i].score + sorted[i + 1].score) / 2;
+  }
+  return sorted[sorted.length - 1].score;
+}
+
+/** Combine the latest observation of `kind` from each source, or null when no source counts. */
+export function aggregateRatings(
+  observations: RatingObservation[],
+  kind: RatingKind,
+  config: RatingAggregatorConfig,
+): AggregatedRating | null {
+  const latest = new Map<string, RatingObservation>();
+  for (const o of observations) {
+    if (o.kind !== kind) continue;
+    const k = sourceKey(o.source);
+    const prev = latest.get(k);
+    if (!prev || o.ratedAt > prev.ratedAt) latest.set(k, o);
+  }
+  const values = [...latest.entries()]
+    .map(([k, o]) => ({ score: o.score, weight: config.weights[k] ?? 1 }))
+    .filter((v) => v.weight > 0);
+  if (!values.length) return null;
+  const total = values.reduce((s, v) => s + v.weight, 0);
+  const score =
+    config.method === 'median' ? weightedMedian(values) : values.reduce((s, v) => s + v.score * v.weight, 0) / total;
+  return { score: Math.round(score * 1000) / 1000, sources: values.length };
+}
+
+/** 5-bucket label used by coverage bars and blindspots. */
+export function biasLabelForScore(score: number): BiasLabel {
+  if (score < -0.6) return 'left';
+  if (score < -0.2) return 'center-left';
+  if (score <= 0.2) return 'center';
+  if (score <= 0.6) return 'center-right';
+  return 'right';
+}
+
+export function sevenPointLabel(score: number): SevenPointLabel {
+  return SEVEN_POINT_LABELS[Math.round(clamp(score) * 3) + 3];
+}
+
+/** Tier names match `FACTUALITY_TIERS` in `outletEdits.ts`. */
+export function factualityTierForScore(score: number): string {
+  if (score >= 0.9) return 'very-high';
+  if (score >= 0.7) return 'high';
+  if (score >= 0.4) return 'mixed';
+  return 'low';
+}
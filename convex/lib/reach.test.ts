@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { biasCenter } from './blindspot';
+import { countBySide } from './blindspotFormula';
+import { outletBiasSpread, reachWeight, reachWeightsFromEnv, validateReachTier, type OutletCoverage } from './reach';
+import { weightedBiasSpread } from './syndication';
+
+const weights = reachWeightsFromEnv(undefined);
+
+// One prolific niche outlet on the left, one national broadsheet on the right.
+const coverage: OutletCoverage[] = [
+  ...[1, 2, 3, 4].map((i) => ({ id: `blog-${i}`, outletId: 'blog', label: 'left' as const, reach: 0.5 })),
+  { id: 'paper-1', outletId: 'paper', label: 'right', reach: 4 },
+];
+
+describe('reach', () => {
+  it('parses tier weights and defaults unset tiers to standard', () => {
+    expect(reachWeightsFromEnv('national=10, niche=0,bogus=3,regional=-1')).toEqual({
+      national: 10,
+      regional: 2,
+      standard: 1,
+      niche: 0,
+    });
+    expect(reachWeight(undefined, weights)).toBe(1);
+    expect(reachWeight('national', weights)).toBe(4);
+    expect(validateReachTier(' regional ')).toBe('regional');
+    expect(() => validateReachTier('huge')).toThrow(/reachTier must be one of/);
+  });
+
+  it('counts articles, outlets and reach differently', () => {
+    const syndication = new Map<string, number>();
+    expect(weightedBiasSpread(coverage, syndication)).toEqual({ left: 4, right: 1 });
+    expect(outletBiasSpread(coverage, syndication, false)).toEqual({ left: 1, right: 1 });
+    expect(outletBiasSpread(coverage, syndication, true)).toEqual({ left: 0.5, right: 4 });
+  });
+
+  it('feeds weighted spreads into side counts and the bias center', () => {
+    const reach = outletBiasSpread(coverage, new Map(), true);
+    expect(countBySide(reach)).toEqual({ left: 0.5, right: 4, center: 0, total: 4.5 });
+    expect(biasCenter(reach)).toBeCloseTo((0.5 * -2 + 4 * 2) / 4.5);
+    expect(biasCenter(weightedBiasSpread(coverage, new Map()))).toBeCloseTo((4 * -2 + 2) / 5);
+  });
+
+  it('counts an outlet by its strongest article', () => {
+    const syndication = new Map([
+      ['paper-1', 0],
+      ['blog-1', 0.25],
+      ['blog-2', 0.25],
+    ]);
+    const copies = coverage.filter((a) => a.id !== 'blog-3' && a.id !== 'blog-4');
+    expect(outletBiasSpread(copies, syndication, false)).toEqual({ left: 0.25 });
+  });
+});
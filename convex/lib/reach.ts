@@ -0,0 +1,74 @@
+import type { BiasLabel } from './aggregationTypes';
+
+/**
+ * Outlet reach and the three ways a story's coverage can be counted: every article (after
+ * syndication weights), every outlet once, or every outlet once scaled by its reach tier.
+ * `countBySide` and `biasCenter` read whichever spread they are given, so each view also has
+ * its own side counts and center.
+ */
+
+export const REACH_TIERS = ['national', 'regional', 'standard', 'niche'] as const;
+export type ReachTier = (typeof REACH_TIERS)[number];
+
+export const COVERAGE_WEIGHTINGS = ['articles', 'outlets', 'reach'] as const;
+export type CoverageWeighting = (typeof COVERAGE_WEIGHTINGS)[number];
+
+/** Default weight per tier; outlets without a tier count as `standard`. */
+export const DEFAULT_REACH_WEIGHTS: Record<ReachTier, number> = {
+  national: 4,
+  regional: 2,
+  standard: 1,
+  niche: 0.5,
+};
+
+export function isReachTier(value: string | undefined | null): value is ReachTier {
+  return Boolean(value && (REACH_TIERS as readonly string[]).includes(value));
+}
+
+export function validateReachTier(value: string | undefined): ReachTier | undefined {
+  const v = value?.trim() || undefined;
+  if (v && !isReachTier(v)) throw new Error(`reachTier must be one of ${REACH_TIERS.join(', ')}`);
+  return v as ReachTier | undefined;
+}
+
+/** `REACH_TIER_WEIGHTS` as `national=4,regional=2,niche=0.5`; unlisted tiers keep their default. */
+export function reachWeightsFromEnv(raw: string | undefined): Record<ReachTier, number> {
+  const weights = { ...DEFAULT_REACH_WEIGHTS };
+  for (const pair of (raw ?? '').split(',')) {
+    const [name, value] = pair.split('=');
+    const tier = name?.trim().toLowerCase();
+    const w = Number(value?.trim());
+    if (isReachTier(tier) && value?.trim() && Number.isFinite(w) && w >= 0) weights[tier] = w;
+  }
+  return weights;
+}
+
+export function reachWeight(tier: string | undefined | null, weights: Record<ReachTier, number>): number {
+  return weights[isReachTier(tier) ? tier : 'standard'];
+}
+
+export type OutletCoverage = { id: string; outletId: string; label: BiasLabel; reach: number };
+
+/**
+ * One entry per outlet: its label weighted by its strongest article (so an outlet that only
+ * republished wire copy counts as much as that copy does) times `reach` when `byReach` is set.
+ */
+export function outletBiasSpread(
+  articles: OutletCoverage[],
+  weights: Map<string, number>,
+  byReach: boolean,
+): Partial<Record<BiasLabel, number>> {
+  const outlets = new Map<string, { label: BiasLabel; weight: number; reach: number }>();
+  for (const a of articles) {
+    const w = weights.get(a.id) ?? 1;
+    const prev = outlets.get(a.outletId);
+    if (!prev || w > prev.weight) outlets.set(a.outletId, { label: a.label, weight: w, reach: a.reach });
+  }
+  const spread: Partial<Record<BiasLabel, number>> = {};
+  for (const o of outlets.values()) {
+    const w = o.weight * (byReach ? o.reach : 1);
+    if (w <= 0) continue;
+    spread[o.label] = Math.round(((spread[o.label] ?? 0) + w) * 1000) / 1000;
+  }
+  return spread;
+}
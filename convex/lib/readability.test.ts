@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { decodeEntities, extractArticle } from './readability';
+
+const PAGE = `<!doctype html>
+<html><head>
+<meta property="og:image" content="/img/lead.jpg">
+<meta name="author" content="Desk Staff">
+<script type="application/ld+json">
+{"@context":"https://schema.org","@graph":[{"@type":"WebPage"},{"@type":"NewsArticle","headline":"RBI holds repo rate","author":[{"@type":"Person","name":"Asha Rao"}]}]}
+</script>
+<style>.x{color:red}</style>
+</head><body>
+<header><p>Top navigation paragraph that is long enough to count as prose text.</p></header>
+<nav><a href="/">Home</a></nav>
+<article>
+  <h1>RBI holds repo rate</h1>
+  <p>The Reserve Bank of India kept the repo rate unchanged at 6.5% on Friday, citing sticky food inflation.</p>
+  <p>Also read: <a href="/x">Markets rally after policy</a></p>
+  <p><a href="/a">Link one headline here</a> <a href="/b">Link two headline here</a> and more</p>
+  <p>Governor Das said the committee would &ldquo;remain watchful&rdquo; as monsoon rains recover.</p>
+  <figure><p>Photo caption that should never appear in the extracted body text.</p></figure>
+  <p>Short.</p>
+</article>
+<aside><p>Related stories sidebar paragraph with enough characters to pass.</p></aside>
+<footer><p>Copyright 2026 Example News. All rights reserved worldwide.</p></footer>
+</body></html>`;
+
+describe('readability', () => {
+  it('keeps article prose and drops boilerplate', () => {
+    const out = extractArticle(PAGE, 'https://example.com/business/rbi-repo');
+    expect(out.text).toBe(
+      'The Reserve Bank of India kept the repo rate unchanged at 6.5% on Friday, citing sticky food inflation.\n\n' +
+        'Governor Das said the committee would “remain watchful” as monsoon rains recover.',
+    );
+    expect(out.wordCount).toBe(30);
+  });
+
+  it('prefers JSON-LD author and resolves the lead image', () => {
+    const out = extractArticle(PAGE, 'https://example.com/business/rbi-repo');
+    expect(out.author).toBe('Asha Rao');
+    expect(out.leadImage).toBe('https://example.com/img/lead.jpg');
+  });
+
+  it('falls back to meta author and JSON-LD articleBody', () => {
+    const html = `<meta name="author" content="Ravi K">
+<script type="application/ld+json">{"@type":"Article","articleBody":"Body only in   structured data."}</script>
+<div>no paragraphs here</div>`;
+    const out = extractArticle(html, 'https://example.com/a');
+    expect(out.author).toBe('Ravi K');
+    expect(out.text).toBe('Body only in structured data.');
+    expect(out.leadImage).toBeUndefined();
+  });
+
+  it('decodes numeric and named entities', () => {
+    expect(decodeEntities('&#8377;500 &amp; &#x2014; &unknown;')).toBe('₹500 & — &unknown;');
+  });
+});
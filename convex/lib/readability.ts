@@ -0,0 +1,192 @@
+/**
+ * Readability-style body extraction without a DOM: drop boilerplate elements, scope to
+ * `<article>` when the page has one, then keep paragraphs that read like prose (enough
+ * text, few links, not a "Also read" / share prompt). Author and lead image come from
+ * JSON-LD first, then meta tags.
+ */
+
+export type ExtractedArticle = {
+  text: string;
+  author?: string;
+  leadImage?: string;
+  wordCount: number;
+};
+
+export const MAX_BODY_CHARS = 20_000;
+const MIN_PARAGRAPH_CHARS = 30;
+const MAX_LINK_DENSITY = 0.5;
+
+const BOILERPLATE_TAGS = [
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'svg',
+  'iframe',
+  'nav',
+  'header',
+  'footer',
+  'aside',
+  'form',
+  'figure',
+  'button',
+  'select',
+];
+
+const BOILERPLATE_PARAGRAPH =
+  /^(also read|read more|read also|advertisement|subscribe|sign up|follow us|click here|download the|share this|copyright|©|all rights reserved)/i;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  rupee: '₹',
+};
+
+export function decodeEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (whole, code: string) => {
+    if (code[0] === '#') {
+      const n = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(n) && n > 0 && n <= 0x10ffff ? String.fromCodePoint(n) : whole;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? whole;
+  });
+}
+
+function textOf(html: string): string {
+  return decodeEntities(html.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]+>/g, ' '))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function stripBoilerplate(html: string): string {
+  let out = html.replace(/<!--[\s\S]*?-->/g, ' ');
+  for (const tag of BOILERPLATE_TAGS) {
+    out = out.replace(new RegExp(`<${tag}\\b[\\s\\S]*?</${tag}\\s*>`, 'gi'), ' ');
+  }
+  return out;
+}
+
+/** The longest `<article>` block, else `<main>`, else `<body>`, else the whole page. */
+function contentScope(html: string): string {
+  for (const tag of ['article', 'main', 'body']) {
+    const blocks = [...html.matchAll(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}\\s*>`, 'gi'))].map((m) => m[1]);
+    const paragraphs = (b: string) => (b.match(/<p\b/gi) ?? []).length;
+    const best = blocks.sort((a, b) => paragraphs(b) - paragraphs(a))[0];
+    if (best && paragraphs(best) > 0) return best;
+  }
+  return html;
+}
+
+function paragraphs(scope: string): string[] {
+  const out: string[] = [];
+  for (const m of scope.matchAll(/<p\b[^>]*>([\s\S]*?)<\/p\s*>/gi)) {
+    const inner = m[1];
+    const text = textOf(inner);
+    if (text.length < MIN_PARAGRAPH_CHARS || BOILERPLATE_PARAGRAPH.test(text)) continue;
+    const linkText = [...inner.matchAll(/<a\b[^>]*>([\s\S]*?)<\/a\s*>/gi)].reduce((n, a) => n + textOf(a[1]).length, 0);
+    if (linkText / text.length > MAX_LINK_DENSITY) continue;
+    out.push(text);
+  }
+  return out;
+}
+
+function metaContent(html: string, key: string): string | undefined {
+  for (const m of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const tag = m[0];
+    const name = /\b(?:name|property|itemprop)\s*=\s*["']([^"']+)["']/i.exec(tag)?.[1];
+    if (name?.toLowerCase() !== key) continue;
+    const content = /\bcontent\s*=\s*["']([^"']*)["']/i.exec(tag)?.[1];
+    if (content?.trim()) return decodeEntities(content.trim());
+  }
+  return undefined;
+}
+
+type JsonLdNode = Record<string, unknown>;
+
+function jsonLdNodes(html: string): JsonLdNode[] {
+  const nodes: JsonLdNode[] = [];
+  const visit = (v: unknown) => {
+    if (Array.isArray(v)) v.forEach(visit);
+    else if (v && typeof v === 'object') {
+      nodes.push(v as JsonLdNode);
+      if ('@graph' in v) visit((v as JsonLdNode)['@graph']);
+    }
+  };
+  for (const m of html.matchAll(/<script\b[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script\s*>/gi)) {
+    try {
+      visit(JSON.parse(m[1]));
+    } catch {
+      // Malformed JSON-LD is common; fall back to meta tags.
+    }
+  }
+  return nodes;
+}
+
+function ldName(v: unknown): string | undefined {
+  if (typeof v === 'string') return v.trim() || undefined;
+  if (Array.isArray(v)) {
+    const names = v.map(ldName).filter((n): n is string => !!n);
+    return names.length > 0 ? names.join(', ') : undefined;
+  }
+  if (v && typeof v === 'object' && typeof (v as JsonLdNode).name === 'string') {
+    return ((v as JsonLdNode).name as string).trim() || undefined;
+  }
+  return undefined;
+}
+
+function ldImage(v: unknown): string | undefined {
+  if (typeof v === 'string') return v.trim() || undefined;
+  if (Array.isArray(v)) return ldImage(v[0]);
+  if (v && typeof v === 'object' && typeof (v as JsonLdNode).url === 'string') return (v as JsonLdNode).url as string;
+  return undefined;
+}
+
+const ARTICLE_TYPES = /^(NewsArticle|Article|ReportageNewsArticle|AnalysisNewsArticle|BlogPosting|OpinionNewsArticle)$/;
+
+function absoluteUrl(src: string | undefined, base: string): string | undefined {
+  if (!src) return undefined;
+  try {
+    const u = new URL(src, base);
+    return u.protocol === 'http:' || u.protocol === 'https:' ? u.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function extractArticle(html: string, url: string): ExtractedArticle {
+  const article = jsonLdNodes(html).find((n) => {
+    const t = n['@type'];
+    return (Array.isArray(t) ? t : [t]).some((x) => typeof x === 'string' && ARTICLE_TYPES.test(x));
+  });
+
+  // `article:author` is often a profile URL; only use it when it reads like a name.
+  const metaAuthor = metaContent(html, 'author') ?? metaContent(html, 'article:author');
+  const author =
+    ldName(article?.author) ?? (metaAuthor && !/^https?:\/\//i.test(metaAuthor) ? metaAuthor : undefined);
+  const leadImage = absoluteUrl(
+    ldImage(article?.image) ?? metaContent(html, 'og:image') ?? metaContent(html, 'twitter:image'),
+    url,
+  );
+
+  let text = paragraphs(contentScope(stripBoilerplate(html))).join('\n\n');
+  if (!text && typeof article?.articleBody === 'string') text = article.articleBody.replace(/\s+/g, ' ').trim();
+  text = text.slice(0, MAX_BODY_CHARS);
+
+  return {
+    text,
+    author: author?.slice(0, 200),
+    leadImage,
+    wordCount: text ? text.split(/\s+/).length : 0,
+  };
+}
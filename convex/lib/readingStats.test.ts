@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { readerSide, readingMix, topOutlets, weekStartMs, type ReadEvent } from './readingStats';
+
+const NOW = Date.UTC(2026, 2, 12, 15); // Thursday
+const DAY = 86_400_000;
+
+describe('readingStats', () => {
+  it('starts weeks on Monday UTC', () => {
+    expect(new Date(weekStartMs(NOW)).toISOString()).toBe('2026-03-09T00:00:00.000Z');
+    expect(weekStartMs(Date.UTC(2026, 2, 9))).toBe(Date.UTC(2026, 2, 9));
+    expect(weekStartMs(Date.UTC(2026, 2, 15, 23))).toBe(Date.UTC(2026, 2, 9));
+  });
+
+  it('buckets article reads by week and counts story opens separately', () => {
+    const events: ReadEvent[] = [
+      { at: NOW, storyId: 's1', outletId: 'o1', bias: 'left', factuality: 'high', ownership: 'corporation' },
+      { at: NOW - DAY, storyId: 's1' },
+      { at: NOW - 7 * DAY, storyId: 's2', outletId: 'o2', bias: 'right', factuality: 'mixed' },
+      { at: NOW - 70 * DAY, storyId: 's3', outletId: 'o1', bias: 'left', factuality: 'high' },
+    ];
+    const mix = readingMix(events, 3, NOW);
+    expect(mix.weeks.map((w) => new Date(w.start).toISOString().slice(0, 10))).toEqual([
+      '2026-02-23',
+      '2026-03-02',
+      '2026-03-09',
+    ]);
+    expect(mix.weeks.map((w) => [w.articles, w.stories])).toEqual([
+      [0, 0],
+      [1, 1],
+      [1, 1],
+    ]);
+    expect(mix.articles).toBe(2);
+    expect(mix.stories).toBe(2);
+    expect(mix.total).toEqual({
+      bias: { left: 1, right: 1 },
+      factuality: { high: 1, mixed: 1 },
+      ownership: { corporation: 1, unknown: 1 },
+    });
+  });
+
+  it('ranks outlets by article reads', () => {
+    const events: ReadEvent[] = [
+      { at: 1, storyId: 's1', outletId: 'a' },
+      { at: 2, storyId: 's2', outletId: 'b' },
+      { at: 3, storyId: 's3', outletId: 'b' },
+      { at: 4, storyId: 's4' },
+    ];
+    expect(topOutlets(events, 5)).toEqual([
+      { outletId: 'b', reads: 2 },
+      { outletId: 'a', reads: 1 },
+    ]);
+    expect(topOutlets(events, 1)).toHaveLength(1);
+  });
+
+  it('takes the reader side from reads, falling back to the self-reported lean', () => {
+    expect(readerSide({ left: 3, 'center-left': 2, center: 1 })).toBe('left');
+    expect(readerSide({ right: 1, center: 1 })).toBe('right');
+    expect(readerSide({ left: 1, right: 1 }, 'left')).toBeNull();
+    expect(readerSide({ unknown: 4 }, 'center-right')).toBe('right');
+    expect(readerSide({}, 'center')).toBeNull();
+    expect(readerSide({})).toBeNull();
+  });
+});
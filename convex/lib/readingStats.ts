@@ -0,0 +1,120 @@
+import type { BiasLabel } from './aggregationTypes';
+import { biasCenter } from './blindspot';
+import { sideOf } from './blindspotFormula';
+
+/**
+ * "My News Bias": what a signed-in reader actually clicked, as opposed to `stories.coverageDiet`
+ * (the outlets they follow). Article click-throughs carry the outlet's labels as they were when the
+ * article was read; story opens only count as stories read.
+ */
+
+export const READING_SOURCES = ['feed', 'story', 'blindspot'] as const;
+export type ReadingSource = (typeof READING_SOURCES)[number];
+
+/** A repeat click on the same story / article inside this window is not logged again. */
+export const READ_DEDUPE_MS = 30 * 60 * 1000;
+/** How far back the dashboard looks. */
+export const READING_WINDOW_WEEKS = 12;
+/** `biasCenter` of the reader's article mix beyond which they count as left- or right-leaning (-2 … +2 scale). */
+export const READER_LEAN_THRESHOLD = 0.5;
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type ReadEvent = {
+  at: number;
+  storyId: string;
+  outletId?: string | null;
+  bias?: string | null;
+  factuality?: string | null;
+  ownership?: string | null;
+};
+
+export type ReadingMix = {
+  bias: Record<string, number>;
+  factuality: Record<string, number>;
+  ownership: Record<string, number>;
+};
+
+export type ReadingWeek = ReadingMix & { start: number; articles: number; stories: number };
+
+/** Monday 00:00 UTC of the week containing `ms`. */
+export function weekStartMs(ms: number): number {
+  const d = new Date(ms);
+  const day = (d.getUTCDay() + 6) % 7;
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() - day);
+}
+
+function emptyMix(): ReadingMix {
+  return { bias: {}, factuality: {}, ownership: {} };
+}
+
+function addToMix(mix: ReadingMix, e: ReadEvent) {
+  const bias = e.bias || 'unknown';
+  const factuality = e.factuality || 'unknown';
+  const ownership = e.ownership || 'unknown';
+  mix.bias[bias] = (mix.bias[bias] ?? 0) + 1;
+  mix.factuality[factuality] = (mix.factuality[factuality] ?? 0) + 1;
+  mix.ownership[ownership] = (mix.ownership[ownership] ?? 0) + 1;
+}
+
+/**
+ * Bias / factuality / ownership mix of article reads, overall and per week (oldest first, `weeks`
+ * buckets ending with the week of `now`, empty weeks included so the chart keeps its scale).
+ */
+export function readingMix(
+  events: ReadEvent[],
+  weeks: number,
+  now: number,
+): { total: ReadingMix; weeks: ReadingWeek[]; articles: number; stories: number } {
+  const current = weekStartMs(now);
+  const buckets: ReadingWeek[] = [];
+  for (let i = weeks - 1; i >= 0; i--) {
+    buckets.push({ start: current - i * WEEK_MS, articles: 0, stories: 0, ...emptyMix() });
+  }
+  const total = emptyMix();
+  const storiesByWeek = buckets.map(() => new Set<string>());
+  const stories = new Set<string>();
+  let articles = 0;
+  for (const e of events) {
+    const idx = Math.round((weekStartMs(e.at) - buckets[0].start) / WEEK_MS);
+    if (idx < 0 || idx >= buckets.length) continue;
+    storiesByWeek[idx].add(e.storyId);
+    stories.add(e.storyId);
+    if (!e.outletId) continue;
+    addToMix(buckets[idx], e);
+    addToMix(total, e);
+    buckets[idx].articles++;
+    articles++;
+  }
+  buckets.forEach((b, i) => (b.stories = storiesByWeek[i].size));
+  return { total, weeks: buckets, articles, stories: stories.size };
+}
+
+/** Outlets by article reads, most-read first (ties keep input order). */
+export function topOutlets(events: ReadEvent[], limit: number): { outletId: string; reads: number }[] {
+  const counts = new Map<string, number>();
+  for (const e of events) if (e.outletId) counts.set(e.outletId, (counts.get(e.outletId) ?? 0) + 1);
+  return [...counts.entries()]
+    .map(([outletId, reads]) => ({ outletId, reads }))
+    .sort((a, b) => b.reads - a.reads)
+    .slice(0, limit);
+}
+
+/**
+ * The side the reader leans to: from the rated outlets they read, else their
+ * self-reported lean. Center / balanced readers have no side.
+ */
+export function readerSide(
+  biasMix: Record<string, number>,
+  selfReportedLean?: string | null,
+): 'left' | 'right' | null {
+  const rated = Object.entries(biasMix).filter(([label]) => label !== 'unknown');
+  if (rated.length) {
+    const center = biasCenter(Object.fromEntries(rated) as Partial<Record<BiasLabel, number>>);
+    if (center <= -READER_LEAN_THRESHOLD) return 'left';
+    if (center >= READER_LEAN_THRESHOLD) return 'right';
+    return null;
+  }
+  const side = selfReportedLean ? sideOf(selfReportedLean) : null;
+  return side === 'left' || side === 'right' ? side : null;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addRemoved,
+  COMPACT_SUMMARY_CHARS,
+  compactSummary,
+  keepReason,
+  matchesTopic,
+  retentionPolicyFromEnv,
+  type ArchiveCandidate,
+} from './retention';
+
+const single: ArchiveCandidate = {
+  outletIds: ['o1', 'o1'],
+  mergedInto: false,
+  verified: false,
+  audited: false,
+  inStoryline: false,
+  followedTopic: false,
+};
+
+describe('retention', () => {
+  it('reads the policy from env, with 0 turning a stage off', () => {
+    expect(retentionPolicyFromEnv(undefined, undefined)).toEqual({ archiveAfterDays: 30, compactAfterDays: 90 });
+    expect(retentionPolicyFromEnv('0', ' 45 ')).toEqual({ archiveAfterDays: 0, compactAfterDays: 45 });
+    expect(retentionPolicyFromEnv('-3', 'soon')).toEqual({ archiveAfterDays: 30, compactAfterDays: 90 });
+  });
+
+  it('archives only unreferenced single-source clusters', () => {
+    expect(keepReason(single)).toBeNull();
+    expect(keepReason({ ...single, outletIds: ['o1', 'o2'] })).toBe('multi-source');
+    expect(keepReason({ ...single, verified: true })).toBe('verified');
+    expect(keepReason({ ...single, followedTopic: true })).toBe('followed');
+    expect(keepReason({ ...single, audited: true })).toBe('audited');
+    expect(keepReason({ ...single, inStoryline: true })).toBe('storyline');
+    expect(keepReason({ ...single, outletIds: [], mergedInto: true })).toBe('merged');
+  });
+
+  it('archives clusters left without articles', () => {
+    expect(keepReason({ ...single, outletIds: [] })).toBeNull();
+    expect(keepReason({ ...single, outletIds: ['o1', 'o1'] })).toBeNull();
+  });
+
+  it('matches followed topics on whole words of the headline', () => {
+    expect(matchesTopic('Electoral bonds: SC reserves verdict', ['electoral bonds'])).toBe(true);
+    expect(matchesTopic('Manipurs new DGP takes charge', ['manipur'])).toBe(false);
+    expect(matchesTopic('Anything', [])).toBe(false);
+  });
+
+  it('cuts compacted summaries on a word boundary', () => {
+    const long = `${'word '.repeat(100)}end`;
+    const cut = compactSummary(long)!;
+    expect(cut.length).toBeLessThanOrEqual(COMPACT_SUMMARY_CHARS + 1);
+    expect(cut.endsWith('word…')).toBe(true);
+    expect(compactSummary('  short   summary ')).toBe('short summary');
+    expect(compactSummary(undefined)).toBeUndefined();
+  });
+
+  it('sums removed rows per table', () => {
+    expect(addRemoved({ articles: 1 }, { articles: 2, storyTerms: 5 })).toEqual({ articles: 3, storyTerms: 5 });
+  });
+});
@@ -0,0 +1,95 @@
+import { normalizeTitle } from './cluster';
+
+/**
+ * Retention policy: single-source clusters are archived after `archiveAfterDays`, and articles
+ * older than `compactAfterDays` keep only their headline, link and a short summary.
+ */
+
+export type RetentionPolicy = {
+  /** `0` turns archiving off. */
+  archiveAfterDays: number;
+  /** `0` turns compaction off. */
+  compactAfterDays: number;
+};
+
+export const DEFAULT_ARCHIVE_AFTER_DAYS = 30;
+export const DEFAULT_COMPACT_AFTER_DAYS = 90;
+/** Daily search usage rows kept for the admin summary. */
+export const SEARCH_USAGE_KEEP_DAYS = 90;
+/** Reading log rows (`readingEvents`) kept; "My News Bias" only looks back 12 weeks. */
+export const READING_EVENTS_KEEP_DAYS = 180;
+/** In-app notifications (topic alerts) kept. */
+export const NOTIFICATIONS_KEEP_DAYS = 30;
+/** Compacted summaries are cut to this many characters (on a word boundary). */
+export const COMPACT_SUMMARY_CHARS = 280;
+/** Archived slugs listed in a run report; counts are always complete. */
+export const REPORT_SLUGS = 50;
+
+const DAY_MS = 86_400_000;
+
+function days(raw: string | undefined, fallback: number): number {
+  const n = Number(raw?.trim());
+  return raw?.trim() && Number.isInteger(n) && n >= 0 ? n : fallback;
+}
+
+/** `RETENTION_ARCHIVE_DAYS` / `RETENTION_COMPACT_DAYS` on Convex. */
+export function retentionPolicyFromEnv(archive: string | undefined, compact: string | undefined): RetentionPolicy {
+  return {
+    archiveAfterDays: days(archive, DEFAULT_ARCHIVE_AFTER_DAYS),
+    compactAfterDays: days(compact, DEFAULT_COMPACT_AFTER_DAYS),
+  };
+}
+
+export function cutoff(now: number, afterDays: number): number {
+  return now - afterDays * DAY_MS;
+}
+
+export type ArchiveCandidate = {
+  outletIds: string[];
+  mergedInto: boolean;
+  verified: boolean;
+  audited: boolean;
+  inStoryline: boolean;
+  followedTopic: boolean;
+};
+
+/**
+ * Why a cluster past the archive age is kept, or null when it can go. Verified, followed and
+ * admin-edited clusters are preserved, and so are members of a storyline. Empty clusters go.
+ */
+export function keepReason(c: ArchiveCandidate): string | null {
+  if (c.mergedInto) return 'merged';
+  if (new Set(c.outletIds).size > 1) return 'multi-source';
+  if (c.verified) return 'verified';
+  if (c.followedTopic) return 'followed';
+  if (c.audited) return 'audited';
+  if (c.inStoryline) return 'storyline';
+  return null;
+}
+
+/** Followed topics are free text ("manipur", "electoral bonds"); a story matches when its headline contains one. */
+export function matchesTopic(title: string, topics: Iterable<string>): boolean {
+  const padded = ` ${normalizeTitle(title)} `;
+  for (const topic of topics) {
+    const t = normalizeTitle(topic);
+    if (t && padded.includes(` ${t} `)) return true;
+  }
+  return false;
+}
+
+export function compactSummary(summary: string | undefined): string | undefined {
+  const s = summary?.replace(/\s+/g, ' ').trim();
+  if (!s) return undefined;
+  if (s.length <= COMPACT_SUMMARY_CHARS) return s;
+  const cut = s.slice(0, COMPACT_SUMMARY_CHARS);
+  const space = cut.lastIndexOf(' ');
+  return `${(space > COMPACT_SUMMARY_CHARS / 2 ? cut.slice(0, space) : cut).replace(/[\s,;:.-]+$/, '')}…`;
+}
+
+/** Rows removed per table, accumulated over a run. */
+export type RemovedCounts = Record<string, number>;
+
+export function addRemoved(into: RemovedCounts, from: RemovedCounts): RemovedCounts {
+  for (const [table, n] of Object.entries(from)) into[table] = (into[table] ?? 0) + n;
+  return into;
+}
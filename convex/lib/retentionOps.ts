@@ -0,0 +1,169 @@
+import type { Doc, Id, TableNames } from '../_generated/dataModel';
+import type { MutationCtx } from '../_generated/server';
+import { removeArticleEntities } from './entityOps';
+import { compactSummary, keepReason, matchesTopic, type RemovedCounts } from './retention';
+
+async function deleteAll(ctx: MutationCtx, rows: { _id: Id<TableNames> }[]): Promise<number> {
+  for (const row of rows) await ctx.db.delete(row._id);
+  return rows.length;
+}
+
+async function deleteByArticle(
+  ctx: MutationCtx,
+  table: 'articleEmbeddings' | 'articleSignatures' | 'articleBodies',
+  articleId: Id<'articles'>,
+): Promise<number> {
+  const rows = await ctx.db
+    .query(table)
+    .withIndex('by_article', (q) => q.eq('articleId', articleId))
+    .collect();
+  return deleteAll(ctx, rows);
+}
+
+/** Why `story` (past the archive age) must stay, or null when it can be archived. */
+export async function storyKeepReason(
+  ctx: MutationCtx,
+  story: Doc<'storyClusters'>,
+  followedTopics: Set<string>,
+): Promise<string | null> {
+  const links = await ctx.db
+    .query('storyArticles')
+    .withIndex('by_story', (q) => q.eq('storyId', story._id))
+    .collect();
+  const outletIds: string[] = [];
+  for (const link of links) {
+    const art = await ctx.db.get(link.articleId);
+    if (art) outletIds.push(art.outletId);
+  }
+  // Verifications started from a story carry its id but may store the content hash as their slug.
+  const verified =
+    (await ctx.db
+      .query('verifications')
+      .withIndex('by_story', (q) => q.eq('storyId', story._id))
+      .first()) ??
+    (await ctx.db
+      .query('verifications')
+      .withIndex('by_slug', (q) => q.eq('slug', story.slug))
+      .first());
+  const audited =
+    (await ctx.db
+      .query('clusterAudit')
+      .withIndex('by_story', (q) => q.eq('storyId', story._id))
+      .first()) ??
+    (await ctx.db
+      .query('clusterAudit')
+      .withIndex('by_other', (q) => q.eq('otherStoryId', story._id))
+      .first());
+  return keepReason({
+    outletIds,
+    mergedInto: Boolean(story.mergedIntoId),
+    verified: Boolean(verified),
+    audited: Boolean(audited),
+    inStoryline: Boolean(story.storylineId),
+    followedTopic: matchesTopic(story.canonicalTitle, followedTopics),
+  });
+}
+
+/**
+ * Move a cluster to `archivedStories` (headline, slug, article links) and delete it with its
+ * index rows, timeline and entity totals. Its articles are deleted too unless another story links them.
+ */
+export async function archiveStory(
+  ctx: MutationCtx,
+  story: Doc<'storyClusters'>,
+  now: number,
+): Promise<RemovedCounts> {
+  const removed: RemovedCounts = {};
+  const links = await ctx.db
+    .query('storyArticles')
+    .withIndex('by_story', (q) => q.eq('storyId', story._id))
+    .collect();
+  const articles: Doc<'articles'>[] = [];
+  for (const link of links) {
+    const art = await ctx.db.get(link.articleId);
+    if (art) articles.push(art);
+  }
+  await ctx.db.insert('archivedStories', {
+    slug: story.slug,
+    canonicalTitle: story.canonicalTitle,
+    edition: story.edition,
+    firstSeenAt: story.firstSeenAt,
+    lastUpdatedAt: story.lastUpdatedAt,
+    articles: articles.map((a) => ({
+      outletId: a.outletId,
+      title: a.title,
+      url: a.url,
+      publishedAt: a.publishedAt,
+    })),
+    archivedAt: now,
+  });
+
+  removed.storyArticles = await deleteAll(ctx, links);
+  removed.storyEvents = await deleteAll(
+    ctx,
+    await ctx.db
+      .query('storyEvents')
+      .withIndex('by_story_at', (q) => q.eq('storyId', story._id))
+      .collect(),
+  );
+  removed.storyEntities = await deleteAll(
+    ctx,
+    await ctx.db
+      .query('storyEntities')
+      .withIndex('by_story', (q) => q.eq('storyId', story._id))
+      .collect(),
+  );
+  removed.storyTerms = await deleteAll(
+    ctx,
+    await ctx.db
+      .query('storyTerms')
+      .withIndex('by_story_term', (q) => q.eq('storyId', story._id))
+      .collect(),
+  );
+  for (const art of articles) {
+    const other = await ctx.db
+      .query('storyArticles')
+      .withIndex('by_article', (q) => q.eq('articleId', art._id))
+      .first();
+    if (other) continue;
+    for (const table of ['articleEmbeddings', 'articleSignatures', 'articleBodies'] as const) {
+      removed[table] = (removed[table] ?? 0) + (await deleteByArticle(ctx, table, art._id));
+    }
+    removed.articleEntities = (removed.articleEntities ?? 0) + (await removeArticleEntities(ctx, art._id));
+    await ctx.db.delete(art._id);
+    removed.articles = (removed.articles ?? 0) + 1;
+  }
+  await ctx.db.delete(story._id);
+  removed.storyClusters = 1;
+  return removed;
+}
+
+/**
+ * Reduce an old article to headline, link and a short summary: embeddings and MinHash signatures
+ * go (only used while the story is clustering), and the extracted body keeps its status but not its text.
+ */
+export async function compactArticle(
+  ctx: MutationCtx,
+  article: Doc<'articles'>,
+  now: number,
+): Promise<RemovedCounts> {
+  const removed: RemovedCounts = {
+    articleEmbeddings: await deleteByArticle(ctx, 'articleEmbeddings', article._id),
+    articleSignatures: await deleteByArticle(ctx, 'articleSignatures', article._id),
+  };
+  const body = await ctx.db
+    .query('articleBodies')
+    .withIndex('by_article', (q) => q.eq('articleId', article._id))
+    .first();
+  if (body?.text) {
+    await ctx.db.patch(body._id, { text: undefined });
+    removed.articleBodyText = 1;
+  }
+  await ctx.db.patch(article._id, {
+    summary: compactSummary(article.summary),
+    compactedAt: now,
+    extractState: 'done',
+    extractDueAt: undefined,
+  });
+  return removed;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { hostIntervalMs, isPathAllowed, parseRobots } from './robots';
+
+const ROBOTS = `
+# comments are ignored
+User-agent: *
+Disallow: /search
+Disallow: /*.pdf$
+Allow: /search/about
+Crawl-delay: 2
+
+User-agent: GPTBot
+User-agent: Facets
+Disallow: /premium/
+Crawl-delay: 10
+`;
+
+describe('robots', () => {
+  it('uses the named group over the wildcard group', () => {
+    const policy = parseRobots(ROBOTS, 'facets');
+    expect(isPathAllowed(policy, '/premium/story-1')).toBe(false);
+    expect(isPathAllowed(policy, '/search?q=x')).toBe(true);
+    expect(policy.crawlDelaySec).toBe(10);
+  });
+
+  it('applies longest-match with wildcards for other agents', () => {
+    const policy = parseRobots(ROBOTS, 'otherbot');
+    expect(isPathAllowed(policy, '/search?q=x')).toBe(false);
+    expect(isPathAllowed(policy, '/search/about')).toBe(true);
+    expect(isPathAllowed(policy, '/files/report.pdf')).toBe(false);
+    expect(isPathAllowed(policy, '/files/report.pdf?v=2')).toBe(true);
+    expect(isPathAllowed(policy, '/news/india/article-123.ece')).toBe(true);
+  });
+
+  it('treats empty Disallow and missing groups as allow-all', () => {
+    expect(isPathAllowed(parseRobots('User-agent: *\nDisallow:', 'facets'), '/anything')).toBe(true);
+    expect(isPathAllowed(parseRobots('', 'facets'), '/anything')).toBe(true);
+  });
+
+  it('spaces requests by the larger of our floor and Crawl-delay', () => {
+    expect(hostIntervalMs({ rules: [] }, 5_000)).toBe(5_000);
+    expect(hostIntervalMs({ rules: [], crawlDelaySec: 10 }, 5_000)).toBe(10_000);
+    expect(hostIntervalMs({ rules: [], crawlDelaySec: 3600 }, 5_000)).toBe(60_000);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Minimal robots.txt support for article fetching: the group for our agent (or `*`),
+ * longest-match Allow / Disallow with `*` and `$` wildcards, and `Crawl-delay`.
+ */
+
+export type RobotsRule = { allow: boolean; pattern: string };
+export type RobotsPolicy = { rules: RobotsRule[]; crawlDelaySec?: number };
+
+export const ALLOW_ALL: RobotsPolicy = { rules: [] };
+
+export function parseRobots(txt: string, agent: string): RobotsPolicy {
+  const want = agent.toLowerCase();
+  const groups: { agents: string[]; rules: RobotsRule[]; crawlDelaySec?: number }[] = [];
+  let current: (typeof groups)[number] | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of txt.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const sep = line.indexOf(':');
+    if (sep < 0) continue;
+    const key = line.slice(0, sep).trim().toLowerCase();
+    const value = line.slice(sep + 1).trim();
+
+    if (key === 'user-agent') {
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+    lastWasAgent = false;
+    if (!current) continue;
+    if (key === 'allow' || key === 'disallow') {
+      // An empty Disallow means "allow everything"; it adds no rule.
+      if (value) current.rules.push({ allow: key === 'allow', pattern: value });
+    } else if (key === 'crawl-delay') {
+      const n = Number(value);
+      if (Number.isFinite(n) && n >= 0) current.crawlDelaySec = n;
+    }
+  }
+
+  const named = groups.filter((g) => g.agents.some((a) => a !== '*' && want.includes(a)));
+  const picked = named.length > 0 ? named : groups.filter((g) => g.agents.includes('*'));
+  if (picked.length === 0) return ALLOW_ALL;
+  const delays = picked.map((g) => g.crawlDelaySec).filter((d): d is number => d !== undefined);
+  return {
+    rules: picked.flatMap((g) => g.rules),
+    crawlDelaySec: delays.length > 0 ? Math.max(...delays) : undefined,
+  };
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/** Longest matching rule wins; Allow wins a tie. No matching rule means allowed. */
+export function isPathAllowed(policy: RobotsPolicy, pathWithQuery: string): boolean {
+  let best: RobotsRule | null = null;
+  for (const rule of policy.rules) {
+    if (!patternToRegExp(rule.pattern).test(pathWithQuery)) continue;
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+  return best ? best.allow : true;
+}
+
+/** Spacing between requests to one host: our floor, or a longer `Crawl-delay` (capped at 60s). */
+export function hostIntervalMs(policy: RobotsPolicy, minIntervalMs: number): number {
+  const crawlDelayMs = Math.min((policy.crawlDelaySec ?? 0) * 1000, 60_000);
+  return Math.max(minIntervalMs, crawlDelayMs);
+}
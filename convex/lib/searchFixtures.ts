@@ -0,0 +1,41 @@
+import type { SearchHit } from './searchProviders';
+
+/** Canned results for `SEARCH_PROVIDERS=fixture` (offline dev) and the provider tests. */
+export type SearchFixture = { match: string; hits: SearchHit[] };
+
+export const DEFAULT_SEARCH_FIXTURES: SearchFixture[] = [
+  {
+    match: 'repo rate',
+    hits: [
+      {
+        title: 'RBI keeps repo rate unchanged at 6.5%, retains withdrawal of accommodation stance',
+        url: 'https://www.thehindu.com/business/Economy/rbi-keeps-repo-rate-unchanged/article00000001.ece',
+        text: 'The Reserve Bank of India kept the repo rate unchanged at 6.5 per cent for the tenth time in a row.',
+        publishedDate: '2026-10-09T05:00:00.000Z',
+      },
+      {
+        title: 'RBI policy: Repo rate unchanged, GDP forecast retained at 7.2%',
+        url: 'https://indianexpress.com/article/business/economy/rbi-policy-repo-rate-unchanged-00000002/',
+        text: 'The monetary policy committee voted to keep the repo rate unchanged and retained its growth forecast.',
+        publishedDate: '2026-10-09T05:30:00.000Z',
+      },
+      {
+        title: 'RBI holds repo rate steady as food inflation stays elevated',
+        url: 'https://www.republicworld.com/business/rbi-holds-repo-rate-steady-00000003',
+        text: 'Governor said food inflation remained a concern while keeping the policy rate on hold.',
+        publishedDate: '2026-10-09T06:00:00.000Z',
+      },
+    ],
+  },
+  {
+    match: '*',
+    hits: [
+      {
+        title: 'Fact check: viral claim about the new currency notes is false',
+        url: 'https://www.ndtv.com/india-news/fact-check-viral-currency-notes-claim-00000004',
+        text: 'No new currency notes have been announced; the viral message recirculates an old hoax.',
+        publishedDate: '2026-10-01T08:00:00.000Z',
+      },
+    ],
+  },
+];
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createSearchRouter,
+  fixtureProvider,
+  parseSearchQuotas,
+  SearchProviderError,
+  searchProvidersFromEnv,
+  type SearchProvider,
+} from './searchProviders';
+
+const HOUR = 3_600_000;
+
+function failing(name: SearchProvider['name'], status: number): SearchProvider {
+  return {
+    name,
+    search: async () => {
+      throw new SearchProviderError(name, status, `${name} ${status}`);
+    },
+  };
+}
+
+describe('searchProviders', () => {
+  it('serves fixtures offline and honours site: filters', async () => {
+    const p = fixtureProvider();
+    const all = await p.search('RBI repo rate decision', 10);
+    expect(all.length).toBeGreaterThan(1);
+    const hindu = await p.search('RBI repo rate decision site:thehindu.com', 10);
+    expect(hindu.map((h) => new URL(h.url!).hostname)).toEqual(['www.thehindu.com']);
+    expect(await p.search('repo rate site:example.org', 10)).toEqual([]);
+  });
+
+  it('builds providers from env in failover order, skipping missing keys', () => {
+    expect(searchProvidersFromEnv({}).map((p) => p.name)).toEqual([]);
+    expect(searchProvidersFromEnv({ EXA_API_KEY: 'x', TAVILY_API_KEY: 'y' }).map((p) => p.name)).toEqual([
+      'exa',
+      'tavily',
+    ]);
+    expect(
+      searchProvidersFromEnv({ SEARCH_PROVIDERS: 'tavily, fixture, bogus', TAVILY_API_KEY: 'y' }).map((p) => p.name),
+    ).toEqual(['tavily', 'fixture']);
+  });
+
+  it('parses daily quotas', () => {
+    expect(parseSearchQuotas('exa=1000, tavily=300, nope=5, fixture=x')).toEqual({ exa: 1000, tavily: 300 });
+    expect(parseSearchQuotas(undefined)).toEqual({});
+  });
+
+  it('fails over and pauses a rate-limited provider', async () => {
+    const now = 10 * HOUR;
+    const router = createSearchRouter([failing('exa', 429), fixtureProvider()], { now: () => now });
+    const first = await router.search('repo rate', 5);
+    expect(first.provider).toBe('fixture');
+    expect(router.available()).toEqual(['fixture']);
+    await router.search('repo rate', 5);
+    const exa = router.usage().find((u) => u.provider === 'exa');
+    expect(exa).toMatchObject({ calls: 1, failures: 1, exhaustedUntil: now + 15 * 60_000 });
+    expect(router.usage().find((u) => u.provider === 'fixture')?.calls).toBe(2);
+  });
+
+  it('skips providers over their daily quota, including calls made earlier today', async () => {
+    const router = createSearchRouter([fixtureProvider(), failing('tavily', 500)], {
+      quotas: { fixture: 3 },
+      state: { fixture: { calls: 2 } },
+    });
+    await router.search('repo rate', 5);
+    expect(router.available()).toEqual(['tavily']);
+    await expect(router.search('repo rate', 5)).rejects.toThrow(/tavily 500/);
+    await expect(router.search('repo rate', 5)).rejects.toThrow(/tavily 500/);
+    const out = createSearchRouter([failing('exa', 402)], { state: { exa: { calls: 0, exhaustedUntil: Date.now() + HOUR } } });
+    await expect(out.search('q', 1)).rejects.toThrow('no search provider available');
+  });
+});
@@ -0,0 +1,236 @@
+import { DEFAULT_SEARCH_FIXTURES, type SearchFixture } from './searchFixtures';
+import { nextUtcDayMs } from './time';
+
+/**
+ * Server-side web search behind one interface. Enrichment and verify go through a
+ * `SearchRouter`, which tries providers in `SEARCH_PROVIDERS` order, skips any that are over
+ * their daily quota or cooling down after a 429, and reports per-provider usage for
+ * `searchUsage.record`.
+ */
+
+export type SearchHit = {
+  title?: string;
+  url?: string;
+  text?: string;
+  summary?: string;
+  publishedDate?: string;
+};
+
+export const SEARCH_PROVIDER_NAMES = ['exa', 'tavily', 'fixture'] as const;
+export type SearchProviderName = (typeof SEARCH_PROVIDER_NAMES)[number];
+
+export interface SearchProvider {
+  readonly name: SearchProviderName;
+  search(query: string, numResults: number): Promise<SearchHit[]>;
+}
+
+export class SearchProviderError extends Error {
+  constructor(
+    readonly provider: SearchProviderName,
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'SearchProviderError';
+  }
+}
+
+/** A hung provider counts as a failure so the router moves on to the next one. */
+const SEARCH_TIMEOUT_MS = 20_000;
+
+/** Rate limited: retry after a short pause. */
+const RATE_LIMIT_COOLDOWN_MS = 15 * 60_000;
+
+/** 429 = rate limited; 402 / 432 (Tavily plan limit) = out of credit until the quota resets. */
+export function cooldownUntil(e: unknown, now: number): number | undefined {
+  if (!(e instanceof SearchProviderError)) return undefined;
+  if (e.status === 429) return now + RATE_LIMIT_COOLDOWN_MS;
+  if (e.status === 402 || e.status === 432) return nextUtcDayMs(now);
+  return undefined;
+}
+
+export function exaProvider(apiKey: string): SearchProvider {
+  return {
+    name: 'exa',
+    search: async (query, numResults) => {
+      const res = await fetch('https://api.exa.ai/search', {
+        method: 'POST',
+        headers: { 'x-api-key': apiKey, 'Content-Type': 'application/json' },
+        signal: AbortSignal.timeout(SEARCH_TIMEOUT_MS),
+        body: JSON.stringify({
+          query,
+          numResults,
+          type: 'auto',
+          contents: { text: { maxCharacters: 600 }, highlights: { maxCharacters: 300 } },
+        }),
+      });
+      if (!res.ok) throw new SearchProviderError('exa', res.status, `Exa ${res.status}: ${query.slice(0, 80)}`);
+      const data = (await res.json()) as { results?: SearchHit[] };
+      return data.results ?? [];
+    },
+  };
+}
+
+export function tavilyProvider(apiKey: string): SearchProvider {
+  return {
+    name: 'tavily',
+    search: async (query, numResults) => {
+      const res = await fetch('https://api.tavily.com/search', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+        signal: AbortSignal.timeout(SEARCH_TIMEOUT_MS),
+        body: JSON.stringify({
+          query,
+          max_results: Math.min(numResults, 20),
+          search_depth: 'basic',
+          topic: 'news',
+          include_answer: false,
+        }),
+      });
+      if (!res.ok) {
+        throw new SearchProviderError('tavily', res.status, `Tavily ${res.status}: ${query.slice(0, 80)}`);
+      }
+      const data = (await res.json()) as {
+        results?: { title?: string; url?: string; content?: string; published_date?: string }[];
+      };
+      return (data.results ?? []).map((r) => ({
+        title: r.title,
+        url: r.url,
+        text: r.content,
+        publishedDate: r.published_date,
+      }));
+    },
+  };
+}
+
+function hitDomain(url?: string) {
+  try {
+    return url ? new URL(url).hostname.replace(/^www\./, '') : '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Offline provider for dev and tests: returns fixture hits whose `match` words all appear in
+ * the query (`*` matches anything), honouring a `site:` filter.
+ */
+export function fixtureProvider(fixtures: SearchFixture[] = DEFAULT_SEARCH_FIXTURES): SearchProvider {
+  return {
+    name: 'fixture',
+    search: async (query, numResults) => {
+      const q = query.toLowerCase();
+      const site = /\bsite:(\S+)/.exec(q)?.[1];
+      const hits: SearchHit[] = [];
+      for (const f of fixtures) {
+        const words = f.match.toLowerCase().split(/\s+/).filter(Boolean);
+        if (f.match !== '*' && !words.every((w) => q.includes(w))) continue;
+        for (const h of f.hits) {
+          const domain = hitDomain(h.url);
+          if (site && domain !== site && !domain.endsWith(`.${site}`)) continue;
+          hits.push(h);
+        }
+      }
+      return hits.slice(0, numResults);
+    },
+  };
+}
+
+function isProviderName(name: string): name is SearchProviderName {
+  return (SEARCH_PROVIDER_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * `SEARCH_PROVIDERS=exa,tavily` (default) sets the failover order; providers without a key
+ * (`EXA_API_KEY`, `TAVILY_API_KEY`) are left out. `fixture` needs no key.
+ */
+export function searchProvidersFromEnv(env: Record<string, string | undefined> = process.env): SearchProvider[] {
+  const order = (env.SEARCH_PROVIDERS?.trim() || 'exa,tavily')
+    .split(',')
+    .map((s) => s.trim().toLowerCase())
+    .filter(isProviderName);
+  const out: SearchProvider[] = [];
+  for (const name of new Set(order)) {
+    if (name === 'exa' && env.EXA_API_KEY?.trim()) out.push(exaProvider(env.EXA_API_KEY.trim()));
+    if (name === 'tavily' && env.TAVILY_API_KEY?.trim()) out.push(tavilyProvider(env.TAVILY_API_KEY.trim()));
+    if (name === 'fixture') out.push(fixtureProvider());
+  }
+  return out;
+}
+
+export type SearchQuotas = Partial<Record<SearchProviderName, number>>;
+
+/** `SEARCH_DAILY_QUOTA=exa=1000,tavily=300`; providers not listed are unlimited. */
+export function parseSearchQuotas(raw: string | undefined): SearchQuotas {
+  const quotas: SearchQuotas = {};
+  for (const part of (raw ?? '').split(',')) {
+    const [name, value] = part.split('=').map((s) => s.trim().toLowerCase());
+    const n = Number(value);
+    if (name && isProviderName(name) && Number.isFinite(n) && n >= 0) quotas[name] = Math.floor(n);
+  }
+  return quotas;
+}
+
+/** Today's persisted usage per provider (from `searchUsage.today`). */
+export type SearchUsageState = Partial<Record<SearchProviderName, { calls: number; exhaustedUntil?: number }>>;
+
+export type SearchUsageDelta = {
+  provider: SearchProviderName;
+  calls: number;
+  failures: number;
+  lastError?: string;
+  exhaustedUntil?: number;
+};
+
+export type SearchRouter = {
+  /** Names of providers still usable in this run, in failover order. */
+  available(): SearchProviderName[];
+  search(query: string, numResults: number): Promise<{ provider: SearchProviderName; hits: SearchHit[] }>;
+  /** Calls made during this run, for `searchUsage.record`. */
+  usage(): SearchUsageDelta[];
+};
+
+export function createSearchRouter(
+  providers: SearchProvider[],
+  opts: { quotas?: SearchQuotas; state?: SearchUsageState; now?: () => number } = {},
+): SearchRouter {
+  const now = opts.now ?? Date.now;
+  const deltas = new Map<SearchProviderName, SearchUsageDelta>();
+  const delta = (name: SearchProviderName) => {
+    let d = deltas.get(name);
+    if (!d) deltas.set(name, (d = { provider: name, calls: 0, failures: 0 }));
+    return d;
+  };
+  const usable = (name: SearchProviderName) => {
+    const saved = opts.state?.[name];
+    const d = deltas.get(name);
+    const until = Math.max(saved?.exhaustedUntil ?? 0, d?.exhaustedUntil ?? 0);
+    if (until > now()) return false;
+    const quota = opts.quotas?.[name];
+    return quota === undefined || (saved?.calls ?? 0) + (d?.calls ?? 0) < quota;
+  };
+
+  return {
+    available: () => providers.map((p) => p.name).filter(usable),
+    search: async (query, numResults) => {
+      const errors: string[] = [];
+      for (const p of providers) {
+        if (!usable(p.name)) continue;
+        const d = delta(p.name);
+        d.calls++;
+        try {
+          return { provider: p.name, hits: await p.search(query, numResults) };
+        } catch (e) {
+          const message = e instanceof Error ? e.message : String(e);
+          d.failures++;
+          d.lastError = message.slice(0, 300);
+          const until = cooldownUntil(e, now());
+          if (until) d.exhaustedUntil = until;
+          errors.push(message);
+        }
+      }
+      throw new Error(errors.length ? `search failed: ${errors.join('; ')}` : 'no search provider available');
+    },
+    usage: () => [...deltas.values()],
+  };
+}
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { slugify } from './slug';
+
+describe('slugify', () => {
+  it('lowercases and dashes Latin headlines', () => {
+    expect(slugify('RBI keeps repo rate unchanged at 6.5%')).toBe('rbi-keeps-repo-rate-unchanged-at-6-5');
+    expect(slugify('  —  ')).toBe('story');
+  });
+
+  it('keeps Devanagari letters and vowel signs', () => {
+    expect(slugify('मुंबई में भारी बारिश, स्कूल बंद')).toBe('मुंबई-में-भारी-बारिश-स्कूल-बंद');
+  });
+
+  it('normalises compatibility forms and caps the length without a trailing dash', () => {
+    expect(slugify('ＲＢＩ ﬁnance')).toBe('rbi-finance');
+    const slug = slugify(`${'a'.repeat(79)} b`);
+    expect(slug).toBe('a'.repeat(79));
+  });
+});
@@ -1,8 +1,17 @@
+/**
+ * URL slug: lowercase letters (any script, with their combining marks so Devanagari vowel signs
+ * survive), digits and dashes, at most 80 characters.
+ */
 export function slugify(title: string): string {
-  const base = title
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, '-')
-    .replace(/^-|-$/g, '')
-    .slice(0, 80);
+  const base = [
+    ...title
+      .normalize('NFKC')
+      .toLowerCase()
+      .replace(/[^\p{L}\p{M}\p{N}]+/gu, '-')
+      .replace(/^-|-$/g, ''),
+  ]
+    .slice(0, 80)
+    .join('')
+    .replace(/-$/, '');
   return base || 'story';
 }
\ No newline at end of file
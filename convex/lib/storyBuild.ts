@@ -1,11 +1,14 @@
 import type { Doc, Id } from '../_generated/dataModel';
 import type { QueryCtx } from '../_generated/server';
 import type { ArticleDto, BiasLabel, OutletDto, StoryDto } from './aggregationTypes';
-import { biasSpreadFromLabels } from './bias';
 import { blindspotFromSpread } from './blindspot';
+import { editionOf } from './editions';
 import { entitlementsForPlan, normalizePlan } from './entitlements';
+import { weightedOwnershipSpread } from './ownership';
+import { outletBiasSpread, reachWeight, reachWeightsFromEnv, type OutletCoverage } from './reach';
+import { coverageWeights, syndicationConfig, weightedBiasSpread, type CoverageArticle } from './syndication';
 
-function mapOutlet(row: Doc<'outlets'>): OutletDto {
+export function mapOutlet(row: Doc<'outlets'>): OutletDto {
   return {
     id: row.externalId,
     name: row.name,
@@ -13,6 +16,8 @@ function mapOutlet(row: Doc<'outlets'>): OutletDto {
     biasLabel: row.biasLabel as BiasLabel,
     factuality: row.factuality as OutletDto['factuality'],
     ownershipCategory: row.ownershipCategory ?? null,
+    reachTier: row.reachTier ?? null,
+    edition: editionOf(row),
   };
 }
 
@@ -27,7 +32,8 @@ export async function buildStoryDto(
     .collect();
 
   const articleRows: ArticleDto[] = [];
-  const biasLabels: BiasLabel[] = [];
+  const coverage: (CoverageArticle & OutletCoverage)[] = [];
+  const reachWeights = reachWeightsFromEnv(process.env.REACH_TIER_WEIGHTS);
 
   for (const link of links) {
     const article = await ctx.db.get(link.articleId);
@@ -35,7 +41,14 @@ export async function buildStoryDto(
     const outlet = await ctx.db.get(article.outletId);
     if (!outlet) continue;
     const o = mapOutlet(outlet);
-    biasLabels.push(o.biasLabel);
+    coverage.push({
+      id: article._id,
+      outletId: outlet._id,
+      label: o.biasLabel,
+      reach: reachWeight(outlet.reachTier, reachWeights),
+      syndicatedFromId: article.syndicatedFromId ?? null,
+      publishedAt: article.publishedAt ?? article.fetchedAt,
+    });
     articleRows.push({
       id: article._id,
       outletId: outlet.externalId,
@@ -45,10 +58,27 @@ export async function buildStoryDto(
       publishedAt: article.publishedAt ? new Date(article.publishedAt).toISOString() : null,
       fetchedAt: new Date(article.fetchedAt).toISOString(),
       outlet: o,
+      syndicatedFromId: article.syndicatedFromId ?? null,
+      wireSource: article.wireSource ?? null,
+      language: article.language ?? null,
     });
   }
 
-  const biasSpread = biasSpreadFromLabels(biasLabels);
+  // Wire copy republished by several outlets is one piece of reporting, not independent coverage.
+  const syndication = syndicationConfig(process.env.SYNDICATION_MODE, process.env.SYNDICATION_WEIGHT);
+  const weights = coverageWeights(coverage, syndication);
+  const biasSpread = weightedBiasSpread(coverage, weights);
+  const biasSpreadBy = {
+    articles: biasSpread,
+    outlets: outletBiasSpread(coverage, weights, false),
+    reach: outletBiasSpread(coverage, weights, true),
+  };
+  const ownershipSpread = weightedOwnershipSpread(
+    articleRows.map((a) => ({ id: a.id, category: a.outlet?.ownershipCategory })),
+    weights,
+  );
+  const independent = new Set(coverage.map((a) => a.syndicatedFromId ?? a.id)).size;
+  const syndicatedCount = coverage.filter((a) => a.syndicatedFromId).length;
   let blindspot: StoryDto['blindspot'] = null;
 
   if (userId) {
@@ -85,13 +115,18 @@ export async function buildStoryDto(
     id: story._id,
     canonicalTitle: story.canonicalTitle,
     slug: story.slug,
+    edition: editionOf(story),
     lastUpdatedAt: new Date(story.lastUpdatedAt).toISOString(),
-    sourceCount: articleRows.length,
+    sourceCount: syndication.mode === 'off' ? articleRows.length : independent,
+    syndicatedCount,
     biasSpread,
+    biasSpreadBy,
+    ownershipSpread,
     articles: articleRows,
     blindspot,
     blindspotSide: (story.blindspotSide as 'left' | 'right' | undefined) ?? null,
     blindspotReason: story.blindspotReason ?? null,
+    blindspotFormula: story.blindspotFormula ?? null,
     biasCompareSummary: story.biasCompareSummary ?? null,
   };
 }
@@ -0,0 +1,40 @@
+import type { Doc } from '../_generated/dataModel';
+import type { QueryCtx } from '../_generated/server';
+
+/**
+ * Position in `storyClusters.by_lastUpdated` for passes that walk it across runs (retention,
+ * topic alerts). Update times are not unique, so the creation time breaks ties.
+ */
+export type StoryCursor = { at: number; createdAt: number };
+
+export const START_CURSOR: StoryCursor = { at: 0, createdAt: 0 };
+
+/** Up to `limit` stories after `cursor` in update order, only those updated before `before`. */
+export async function storiesAfter(
+  ctx: Pick<QueryCtx, 'db'>,
+  cursor: StoryCursor,
+  limit: number,
+  before = Infinity,
+): Promise<Doc<'storyClusters'>[]> {
+  const rows =
+    cursor.at < before
+      ? await ctx.db
+          .query('storyClusters')
+          .withIndex('by_lastUpdated', (q) => q.eq('lastUpdatedAt', cursor.at).gt('_creationTime', cursor.createdAt))
+          .take(limit)
+      : [];
+  if (rows.length < limit) {
+    const later = await ctx.db
+      .query('storyClusters')
+      .withIndex('by_lastUpdated', (q) => q.gt('lastUpdatedAt', cursor.at).lt('lastUpdatedAt', before))
+      .take(limit - rows.length);
+    rows.push(...later);
+  }
+  return rows;
+}
+
+/** Where the next pass resumes: after the last story read, or `cursor` again when none were. */
+export function cursorAfter(stories: Doc<'storyClusters'>[], cursor: StoryCursor): StoryCursor {
+  const last = stories[stories.length - 1];
+  return last ? { at: last.lastUpdatedAt, createdAt: last._creationTime } : cursor;
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { articleEmbeddingText, hashEmbed, LOCAL_MODEL, localEmbedder } from './embeddings';
+import { embeddingBackend, jaccardBackend, type SimilarityDoc } from './storySimilarity';
+
+const HOUR = 3_600_000;
+const t0 = 1_700_000_000_000;
+
+function doc(title: string, publishedAt: number | null, summary?: string): SimilarityDoc {
+  return { title, publishedAt, embedding: { model: LOCAL_MODEL, vector: hashEmbed(articleEmbeddingText(title, summary)) } };
+}
+
+describe('storySimilarity', () => {
+  it('local embedder is deterministic', async () => {
+    const [a] = await localEmbedder().embed(['Rajya Sabha passes data protection bill']);
+    expect(a).toEqual(hashEmbed('Rajya Sabha passes data protection bill'));
+  });
+
+  it('matches paraphrased headlines by cosine and rejects unrelated ones', () => {
+    const backend = embeddingBackend();
+    const a = doc('Rajya Sabha passes data protection bill', t0);
+    expect(backend.score(a, doc('Data protection bill cleared in Rajya Sabha', t0 + HOUR))).not.toBeNull();
+    expect(backend.score(a, doc('RBI keeps repo rate unchanged at 6.5%', t0))).toBeNull();
+  });
+
+  it('ignores matches outside the time window', () => {
+    const backend = embeddingBackend({ windowMs: 24 * HOUR });
+    const a = doc('Rajya Sabha passes data protection bill', t0);
+    expect(backend.score(a, doc('Data protection bill cleared in Rajya Sabha', t0 + 48 * HOUR))).toBeNull();
+  });
+
+  it('falls back to Jaccard when a side has no embedding', () => {
+    const backend = embeddingBackend();
+    const a = doc('Rajya Sabha passes data protection bill', t0);
+    const b = { title: 'Rajya Sabha passes data protection bill amid protests', publishedAt: t0 };
+    expect(backend.score(a, b)).toBe(jaccardBackend.score(a, b));
+    expect(backend.score(a, b)).not.toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+import { crossLanguageMatch, jaccard, titlesMatch, titleTokens } from './cluster';
+import { entityOverlap } from './clusterEntities';
+import { cosine, type ArticleEmbedding } from './embeddings';
+import { detectLanguage } from './language';
+
+/** Pluggable "same event?" check used when attaching articles to story clusters. */
+
+export type SimilarityDoc = {
+  title: string;
+  publishedAt: number | null;
+  embedding?: ArticleEmbedding | null;
+  /** Picks the entity dictionary; see `convex/lib/editions.ts`. */
+  edition?: string | null;
+};
+
+export interface SimilarityBackend {
+  readonly name: 'jaccard' | 'embedding';
+  readonly usesEmbeddings: boolean;
+  /** Score in (0, 1] when both articles describe the same event, otherwise null. */
+  score(a: SimilarityDoc, b: SimilarityDoc): number | null;
+}
+
+export const jaccardBackend: SimilarityBackend = {
+  name: 'jaccard',
+  usesEmbeddings: false,
+  score(a, b) {
+    const edition = a.edition ?? b.edition;
+    if (detectLanguage(a.title) !== detectLanguage(b.title)) {
+      const overlap = crossLanguageMatch(a.title, b.title, a.publishedAt, b.publishedAt, edition);
+      return overlap === null ? null : Math.max(overlap, 0.01);
+    }
+    if (!titlesMatch(a.title, b.title, a.publishedAt, b.publishedAt, edition)) return null;
+    return Math.max(
+      jaccard(titleTokens(a.title), titleTokens(b.title)),
+      entityOverlap(a.title, b.title, edition),
+      0.01,
+    );
+  },
+};
+
+const DEFAULT_WINDOW_MS = 36 * 3_600_000;
+
+/** Hash vectors are lexical, so they need a looser cut than semantic models. */
+export function defaultCosineThreshold(model: string): number {
+  return model.startsWith('local-') ? 0.55 : 0.82;
+}
+
+export function embeddingBackend(opts: {
+  threshold?: number;
+  windowMs?: number;
+  fallback?: SimilarityBackend;
+} = {}): SimilarityBackend {
+  const windowMs = opts.windowMs ?? DEFAULT_WINDOW_MS;
+  const fallback = opts.fallback ?? jaccardBackend;
+  return {
+    name: 'embedding',
+    usesEmbeddings: true,
+    score(a, b) {
+      const ea = a.embedding;
+      const eb = b.embedding;
+      if (!ea || !eb || ea.model !== eb.model) return fallback.score(a, b);
+      // Hash vectors share no words across scripts; remote multilingual models handle this themselves.
+      if (ea.model.startsWith('local-') && detectLanguage(a.title) !== detectLanguage(b.title)) {
+        return fallback.score(a, b);
+      }
+      if (a.publishedAt && b.publishedAt && Math.abs(a.publishedAt - b.publishedAt) > windowMs) return null;
+      const sim = cosine(ea.vector, eb.vector);
+      return sim >= (opts.threshold ?? defaultCosineThreshold(ea.model)) ? sim : null;
+    },
+  };
+}
+
+/**
+ * `CLUSTER_SIMILARITY=jaccard|embedding` picks explicitly; otherwise embeddings are used
+ * whenever an embedder is configured (`EMBEDDINGS_API_KEY` or `EMBEDDINGS_PROVIDER=local`).
+ */
+export function similarityBackendFromEnv(): SimilarityBackend {
+  const mode = process.env.CLUSTER_SIMILARITY?.trim();
+  if (mode === 'jaccard') return jaccardBackend;
+  const configured = Boolean(process.env.EMBEDDINGS_API_KEY?.trim()) || process.env.EMBEDDINGS_PROVIDER?.trim() === 'local';
+  if (mode !== 'embedding' && !configured) return jaccardBackend;
+  const threshold = Number(process.env.EMBEDDINGS_MATCH_THRESHOLD);
+  const windowHours = Number(process.env.CLUSTER_WINDOW_HOURS);
+  return embeddingBackend({
+    threshold: threshold > 0 ? threshold : undefined,
+    windowMs: windowHours > 0 ? windowHours * 3_600_000 : undefined,
+  });
+}
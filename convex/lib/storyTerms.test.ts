@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import {
+  candidateStories,
+  indexTerms,
+  MAX_CANDIDATE_STORIES,
+  MAX_TERMS_PER_ARTICLE,
+  TERMS_PER_TERM_LIMIT,
+  type TermIndexReader,
+  type TermPosting,
+} from './storyTerms';
+
+const HOUR = 3_600_000;
+const WINDOW = 72 * HOUR;
+const ARTICLES_PER_DAY = 500;
+
+function mulberry32(seed: number) {
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** In-memory stand-in for the `storyTerms` index that counts rows read like Convex does. */
+class MemoryTermIndex implements TermIndexReader {
+  private byTerm = new Map<string, TermPosting[]>();
+  reads = 0;
+
+  add(storyId: string, terms: string[], seenAt: number) {
+    for (const term of terms) {
+      const list = this.byTerm.get(term) ?? [];
+      const existing = list.findIndex((p) => p.storyId === storyId);
+      if (existing >= 0) list.splice(existing, 1);
+      list.push({ storyId, seenAt });
+      this.byTerm.set(term, list);
+    }
+  }
+
+  async postings(term: string, since: number, limit: number) {
+    const list = this.byTerm.get(term) ?? [];
+    const out: TermPosting[] = [];
+    for (let i = list.length - 1; i >= 0 && out.length < limit; i--) {
+      if (list[i].seenAt < since) break;
+      out.push(list[i]);
+    }
+    this.reads += out.length;
+    return out;
+  }
+}
+
+function makeCorpus(seed: number) {
+  const rand = mulberry32(seed);
+  const syllables = ['ka', 'ri', 'mo', 'den', 'sha', 'vo', 'lin', 'tar', 'pu', 'gel', 'nor', 'bi'];
+  const word = () =>
+    Array.from({ length: 2 + Math.floor(rand() * 2) }, () => syllables[Math.floor(rand() * syllables.length)]).join('');
+  const vocab = Array.from({ length: 6000 }, word);
+  const common = ['india', 'delhi', 'modi', 'government', 'police'];
+  const pick = () => vocab[Math.floor(rand() * vocab.length)];
+  const topic = () => [pick(), pick(), pick(), pick(), pick(), common[Math.floor(rand() * common.length)]];
+  const headline = (t: string[]) =>
+    [...t.filter(() => rand() > 0.15), pick()].sort(() => rand() - 0.5).join(' ');
+  return { rand, topic, headline };
+}
+
+/** Grow a store at a steady daily rate, then measure index reads for probe inserts. */
+async function measure(totalArticles: number) {
+  const { rand, topic, headline } = makeCorpus(42);
+  const index = new MemoryTermIndex();
+  const stories: { id: string; topic: string[]; lastAt: number }[] = [];
+  const stepMs = (24 * HOUR) / ARTICLES_PER_DAY;
+  let now = 0;
+  let nextId = 0;
+  for (let i = 0; i < totalArticles; i++) {
+    now += stepMs;
+    const recent = stories.filter((s) => now - s.lastAt < 24 * HOUR);
+    const story =
+      recent.length > 0 && rand() < 0.7 ? recent[Math.floor(rand() * recent.length)] : null;
+    if (story) {
+      story.lastAt = now;
+      index.add(story.id, indexTerms(headline(story.topic)), now);
+    } else {
+      const s = { id: `s${nextId++}`, topic: topic(), lastAt: now };
+      stories.push(s);
+      index.add(s.id, indexTerms(headline(s.topic)), now);
+    }
+    if (stories.length > 400) stories.splice(0, stories.length - 400);
+  }
+
+  const probes = stories.slice(-50);
+  let found = 0;
+  let maxReads = 0;
+  let maxCandidates = 0;
+  index.reads = 0;
+  for (const s of probes) {
+    const before = index.reads;
+    const candidates = await candidateStories(index, indexTerms(headline(s.topic)), now - WINDOW);
+    maxReads = Math.max(maxReads, index.reads - before);
+    maxCandidates = Math.max(maxCandidates, candidates.length);
+    if (candidates.includes(s.id)) found++;
+  }
+  return { avgReads: index.reads / probes.length, maxReads, maxCandidates, recall: found / probes.length };
+}
+
+describe('storyTerms', () => {
+  it('indexes tokens and multi-word entities', () => {
+    const terms = indexTerms('Supreme Court stays Delhi demolition drive');
+    expect(terms).toContain('supreme court');
+    expect(terms).toContain('demolition');
+    expect(terms).not.toContain('the');
+  });
+
+  it('ranks stories by shared terms', async () => {
+    const index = new MemoryTermIndex();
+    index.add('a', ['rajya', 'sabha', 'data', 'bill'], 10);
+    index.add('b', ['rbi', 'repo', 'rate'], 20);
+    index.add('c', ['data', 'leak'], 30);
+    expect(await candidateStories(index, ['rajya', 'sabha', 'data'], 0)).toEqual(['a', 'c']);
+    expect(await candidateStories(index, ['rajya', 'sabha', 'data'], 15)).toEqual(['c']);
+  });
+
+  it('keeps per-insert index reads flat as the store grows to tens of thousands of articles', async () => {
+    const small = await measure(2_000);
+    const medium = await measure(10_000);
+    const large = await measure(30_000);
+
+    for (const r of [small, medium, large]) {
+      expect(r.maxReads).toBeLessThanOrEqual(MAX_TERMS_PER_ARTICLE * TERMS_PER_TERM_LIMIT);
+      expect(r.maxCandidates).toBeLessThanOrEqual(MAX_CANDIDATE_STORIES);
+      expect(r.recall).toBeGreaterThanOrEqual(0.95);
+    }
+    // 15x more stored articles, same active window: cost must not follow store size.
+    expect(large.avgReads).toBeLessThanOrEqual(medium.avgReads * 1.25);
+    expect(large.avgReads).toBeLessThanOrEqual(small.avgReads * 1.5);
+  }, 60_000);
+});
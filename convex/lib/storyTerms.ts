@@ -0,0 +1,65 @@
+import { titleTokens } from './cluster';
+import { extractEntityTokens } from './clusterEntities';
+import { DEFAULT_EDITION, editionOf } from './editions';
+
+/**
+ * Inverted index of headline tokens + entities per story. New articles only score
+ * against clusters that share a term, so ingest cost tracks the active window
+ * instead of the whole store.
+ */
+
+export type TermPosting<S extends string = string> = { storyId: S; seenAt: number };
+
+export interface TermIndexReader<S extends string = string> {
+  /** Postings for `term` with `seenAt >= since`, newest first, at most `limit` rows. */
+  postings(term: string, since: number, limit: number): Promise<TermPosting<S>[]>;
+}
+
+export const TERMS_PER_TERM_LIMIT = 40;
+export const MAX_CANDIDATE_STORIES = 24;
+/** Per-article cap so long headlines cannot fan out into hundreds of lookups. */
+export const MAX_TERMS_PER_ARTICLE = 24;
+
+/**
+ * Terms are scoped per edition (`us:senate`) so regional clusters never surface as candidates
+ * for another edition; the default edition keeps bare terms.
+ */
+export function scopeTerm(term: string, edition?: string | null): string {
+  const id = editionOf({ edition });
+  return id === DEFAULT_EDITION ? term : `${id}:${term}`;
+}
+
+export function indexTerms(title: string, edition?: string | null): string[] {
+  const id = editionOf({ edition });
+  const terms = new Set<string>([...titleTokens(title), ...extractEntityTokens(title, id)]);
+  return [...terms]
+    .sort((a, b) => b.length - a.length || a.localeCompare(b))
+    .slice(0, MAX_TERMS_PER_ARTICLE)
+    .map((t) => scopeTerm(t, id));
+}
+
+/** Stories ranked by how many terms they share with the article, then by recency. */
+export async function candidateStories<S extends string>(
+  reader: TermIndexReader<S>,
+  terms: string[],
+  since: number,
+  opts: { perTerm?: number; maxCandidates?: number } = {},
+): Promise<S[]> {
+  const perTerm = opts.perTerm ?? TERMS_PER_TERM_LIMIT;
+  const hits = new Map<S, { shared: number; seenAt: number }>();
+  for (const term of terms) {
+    for (const p of await reader.postings(term, since, perTerm)) {
+      const cur = hits.get(p.storyId);
+      if (cur) {
+        cur.shared++;
+        cur.seenAt = Math.max(cur.seenAt, p.seenAt);
+      } else {
+        hits.set(p.storyId, { shared: 1, seenAt: p.seenAt });
+      }
+    }
+  }
+  return [...hits.entries()]
+    .sort((a, b) => b[1].shared - a[1].shared || b[1].seenAt - a[1].seenAt)
+    .slice(0, opts.maxCandidates ?? MAX_CANDIDATE_STORIES)
+    .map(([storyId]) => storyId);
+}
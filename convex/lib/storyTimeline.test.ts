@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { milestonesCrossed, summarizeUnfolding } from './storyTimeline';
+
+const H = 3_600_000;
+
+describe('storyTimeline', () => {
+  it('reports each milestone once, when it is crossed', () => {
+    expect(milestonesCrossed(0, 1)).toEqual([]);
+    expect(milestonesCrossed(2, 3)).toEqual([3]);
+    expect(milestonesCrossed(3, 4)).toEqual([]);
+    expect(milestonesCrossed(4, 11)).toEqual([5, 10]);
+  });
+
+  it('finds which side broke the story and how long the other took', () => {
+    const s = summarizeUnfolding([
+      { bias: 'center-right', at: 7 * H, outletName: 'Republic' },
+      { bias: 'left', at: 1 * H, outletName: 'The Wire' },
+      { bias: 'center', at: 2 * H, outletName: 'The Hindu' },
+      { bias: 'right', at: 9 * H, outletName: 'OpIndia' },
+    ]);
+    expect(s.brokeFirst).toBe('left');
+    expect(s.otherSideLagHours).toBe(6);
+    expect(s.firstBySide.right?.outletName).toBe('Republic');
+    expect(s.firstBySide.center?.at).toBe(2 * H);
+  });
+
+  it('leaves the lag open until the other side covers it', () => {
+    const s = summarizeUnfolding([
+      { bias: 'center', at: 0 },
+      { bias: 'right', at: 3 * H },
+      { bias: 'unknown', at: H },
+    ]);
+    expect(s).toMatchObject({ brokeFirst: 'right', otherSideLagHours: null });
+    expect(summarizeUnfolding([{ bias: 'center', at: 0 }]).brokeFirst).toBeNull();
+  });
+});
@@ -0,0 +1,54 @@
+import { sideOf } from './blindspotFormula';
+
+/**
+ * Story timeline ("how coverage unfolded"). `storyEvents` rows are written as a cluster
+ * changes; this module holds the pure parts: which outlet counts trigger a milestone and the
+ * left/right pickup summary shown above the timeline.
+ */
+
+export type StoryEventKind = 'outlet_joined' | 'title_changed' | 'blindspot_changed' | 'milestone';
+
+/** Distinct-outlet counts worth a timeline entry. */
+export const COVERAGE_MILESTONES = [3, 5, 10, 20, 50] as const;
+
+/** Milestones passed when a story goes from `before` to `after` distinct outlets. */
+export function milestonesCrossed(before: number, after: number): number[] {
+  return COVERAGE_MILESTONES.filter((m) => before < m && after >= m);
+}
+
+export type Side = 'left' | 'center' | 'right';
+
+export type OutletJoin = {
+  /** Outlet bias label at the time it joined. */
+  bias: string;
+  /** When the outlet's first article in the story was published (or fetched). */
+  at: number;
+  outletName?: string;
+};
+
+export type SideFirst = { at: number; outletName?: string };
+
+export type CoverageUnfolding = {
+  firstBySide: Partial<Record<Side, SideFirst>>;
+  /** Which partisan side had the story first; null until either side covers it. */
+  brokeFirst: 'left' | 'right' | null;
+  /** Hours until the other side picked it up; null while it has not. */
+  otherSideLagHours: number | null;
+};
+
+export function summarizeUnfolding(joins: OutletJoin[]): CoverageUnfolding {
+  const firstBySide: Partial<Record<Side, SideFirst>> = {};
+  for (const j of [...joins].sort((a, b) => a.at - b.at)) {
+    const side = sideOf(j.bias);
+    if (side && !firstBySide[side]) firstBySide[side] = { at: j.at, outletName: j.outletName };
+  }
+  const { left, right } = firstBySide;
+  if (!left && !right) return { firstBySide, brokeFirst: null, otherSideLagHours: null };
+  const brokeFirst = left && (!right || left.at <= right.at) ? 'left' : 'right';
+  const lag = left && right ? Math.abs(right.at - left.at) / 3_600_000 : null;
+  return {
+    firstBySide,
+    brokeFirst,
+    otherSideLagHours: lag === null ? null : Math.round(lag * 10) / 10,
+  };
+}
@@ -0,0 +1,135 @@
+import type { Id } from '../_generated/dataModel';
+import type { MutationCtx } from '../_generated/server';
+import { milestonesCrossed } from './storyTimeline';
+
+/**
+ * Record an `outlet_joined` event for every outlet in the story that has none yet, plus any
+ * coverage milestones that pushes the story past. Safe to call after every attach, merge or
+ * split. `backfill` dates each join by its article's fetch time instead of now.
+ */
+export async function recordOutletJoins(
+  ctx: MutationCtx,
+  storyId: Id<'storyClusters'>,
+  now: number,
+  opts: { backfill?: boolean } = {},
+) {
+  const known = await ctx.db
+    .query('storyEvents')
+    .withIndex('by_story_kind', (q) => q.eq('storyId', storyId).eq('kind', 'outlet_joined'))
+    .collect();
+  const seen = new Set(known.map((e) => e.outletId));
+
+  const links = await ctx.db
+    .query('storyArticles')
+    .withIndex('by_story', (q) => q.eq('storyId', storyId))
+    .collect();
+  const fresh = new Map<
+    Id<'outlets'>,
+    { articleId: Id<'articles'>; publishedAt: number; fetchedAt: number }
+  >();
+  for (const link of links) {
+    const art = await ctx.db.get(link.articleId);
+    if (!art || seen.has(art.outletId)) continue;
+    const publishedAt = art.publishedAt ?? art.fetchedAt;
+    const prev = fresh.get(art.outletId);
+    if (!prev || publishedAt < prev.publishedAt) {
+      fresh.set(art.outletId, { articleId: art._id, publishedAt, fetchedAt: art.fetchedAt });
+    }
+  }
+  if (fresh.size === 0) return;
+
+  const joins = [...fresh.entries()]
+    .map(([outletId, a]) => ({ outletId, ...a, at: opts.backfill ? a.fetchedAt : now }))
+    .sort((a, b) => a.at - b.at);
+  await insertJoins(ctx, storyId, joins, seen.size);
+}
+
+/**
+ * Attach path: record the article's outlet if the story has no `outlet_joined` event for it yet.
+ * One index lookup per attach instead of re-reading every article in the story.
+ */
+export async function recordArticleJoin(
+  ctx: MutationCtx,
+  storyId: Id<'storyClusters'>,
+  articleId: Id<'articles'>,
+  now: number,
+) {
+  const art = await ctx.db.get(articleId);
+  if (!art) return;
+  const joined = await ctx.db
+    .query('storyEvents')
+    .withIndex('by_story_outlet', (q) => q.eq('storyId', storyId).eq('outletId', art.outletId))
+    .first();
+  if (joined) return;
+  const known = await ctx.db
+    .query('storyEvents')
+    .withIndex('by_story_kind', (q) => q.eq('storyId', storyId).eq('kind', 'outlet_joined'))
+    .collect();
+  const publishedAt = art.publishedAt ?? art.fetchedAt;
+  await insertJoins(ctx, storyId, [{ outletId: art.outletId, articleId, publishedAt, at: now }], known.length);
+}
+
+async function insertJoins(
+  ctx: MutationCtx,
+  storyId: Id<'storyClusters'>,
+  joins: { outletId: Id<'outlets'>; articleId: Id<'articles'>; publishedAt: number; at: number }[],
+  known: number,
+) {
+  let count = known;
+  for (const j of joins) {
+    const outlet = await ctx.db.get(j.outletId);
+    await ctx.db.insert('storyEvents', {
+      storyId,
+      kind: 'outlet_joined',
+      at: j.at,
+      outletId: j.outletId,
+      articleId: j.articleId,
+      bias: outlet?.biasLabel,
+      publishedAt: j.publishedAt,
+    });
+    for (const m of milestonesCrossed(count, count + 1)) {
+      await ctx.db.insert('storyEvents', { storyId, kind: 'milestone', at: j.at, count: m });
+    }
+    count++;
+  }
+}
+
+/**
+ * After articles move out (split, merge revert): drop `outlet_joined` events for outlets the story
+ * no longer has, and point the rest at the outlet's earliest remaining article.
+ */
+export async function pruneOutletJoins(ctx: MutationCtx, storyId: Id<'storyClusters'>) {
+  const links = await ctx.db
+    .query('storyArticles')
+    .withIndex('by_story', (q) => q.eq('storyId', storyId))
+    .collect();
+  const earliest = new Map<Id<'outlets'>, { articleId: Id<'articles'>; publishedAt: number }>();
+  for (const link of links) {
+    const art = await ctx.db.get(link.articleId);
+    if (!art) continue;
+    const publishedAt = art.publishedAt ?? art.fetchedAt;
+    const prev = earliest.get(art.outletId);
+    if (!prev || publishedAt < prev.publishedAt) earliest.set(art.outletId, { articleId: art._id, publishedAt });
+  }
+  const joins = await ctx.db
+    .query('storyEvents')
+    .withIndex('by_story_kind', (q) => q.eq('storyId', storyId).eq('kind', 'outlet_joined'))
+    .collect();
+  for (const e of joins) {
+    const still = e.outletId && earliest.get(e.outletId);
+    if (!still) await ctx.db.delete(e._id);
+    else if (e.articleId !== still.articleId) await ctx.db.patch(e._id, still);
+  }
+}
+
+export async function recordStoryChange(
+  ctx: MutationCtx,
+  storyId: Id<'storyClusters'>,
+  kind: 'title_changed' | 'blindspot_changed',
+  from: string | undefined,
+  to: string | undefined,
+  now: number,
+) {
+  if ((from ?? '') === (to ?? '')) return;
+  await ctx.db.insert('storyEvents', { storyId, kind, at: now, from, to });
+}
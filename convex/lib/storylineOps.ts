@@ -0,0 +1,106 @@
+import type { Doc, Id } from '../_generated/dataModel';
+import type { MutationCtx, QueryCtx } from '../_generated/server';
+import { editionOf } from './editions';
+import { slugify } from './slug';
+import {
+  COMMON_TERM_POSTINGS,
+  MIN_SHARED_ENTITIES,
+  STORYLINE_WINDOW_DAYS,
+  storyEntities,
+  storylineMatch,
+  storylineTitle,
+} from './storylines';
+import { scopeTerm } from './storyTerms';
+
+/** Headlines read per cluster when extracting its entities. */
+const TITLES_PER_STORY = 30;
+/** Candidate clusters scored per linking attempt. */
+const MAX_CANDIDATES = 12;
+
+async function clusterEntities(ctx: Pick<QueryCtx, 'db'>, story: Doc<'storyClusters'>) {
+  const links = await ctx.db
+    .query('storyArticles')
+    .withIndex('by_story', (q) => q.eq('storyId', story._id))
+    .order('desc')
+    .take(TITLES_PER_STORY);
+  const titles = [story.canonicalTitle];
+  for (const link of links) {
+    const art = await ctx.db.get(link.articleId);
+    if (art) titles.push(art.title);
+  }
+  return storyEntities(titles, story.edition);
+}
+
+async function allocateStorylineSlug(ctx: MutationCtx, title: string, now: number) {
+  const slug = slugify(title);
+  const clash = await ctx.db
+    .query('storylines')
+    .withIndex('by_slug', (q) => q.eq('slug', slug))
+    .first();
+  return clash ? `${slug}-${now.toString(36)}` : slug;
+}
+
+/**
+ * Attach a cluster to the storyline of an earlier cluster sharing its rare entities, or start
+ * a new storyline with it. Looks back `STORYLINE_WINDOW_DAYS` through the term index.
+ */
+export async function linkStoryline(ctx: MutationCtx, storyId: Id<'storyClusters'>, now: number) {
+  const story = await ctx.db.get(storyId);
+  if (!story || story.mergedIntoId || story.storylineId) return null;
+  const edition = editionOf(story);
+  const entities = await clusterEntities(ctx, story);
+  const since = now - STORYLINE_WINDOW_DAYS * 86_400_000;
+
+  const common = new Set<string>();
+  const shared = new Map<Id<'storyClusters'>, number>();
+  for (const entity of entities) {
+    const postings = await ctx.db
+      .query('storyTerms')
+      .withIndex('by_term_seen', (q) => q.eq('term', scopeTerm(entity, edition)).gte('seenAt', since))
+      .take(COMMON_TERM_POSTINGS);
+    if (postings.length >= COMMON_TERM_POSTINGS) {
+      common.add(entity);
+      continue;
+    }
+    for (const p of postings) {
+      if (p.storyId !== storyId) shared.set(p.storyId, (shared.get(p.storyId) ?? 0) + 1);
+    }
+  }
+
+  const candidates = [...shared.entries()]
+    .filter(([, n]) => n >= MIN_SHARED_ENTITIES)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_CANDIDATES);
+  let best: { story: Doc<'storyClusters'>; shared: string[] } | null = null;
+  for (const [candidateId] of candidates) {
+    const other = await ctx.db.get(candidateId);
+    if (!other || other.mergedIntoId || editionOf(other) !== edition) continue;
+    const match = storylineMatch(entities, await clusterEntities(ctx, other), common);
+    if (match && (!best || match.length > best.shared.length)) best = { story: other, shared: match };
+  }
+  if (!best) return null;
+
+  let storylineId = best.story.storylineId;
+  if (storylineId) {
+    const line = await ctx.db.get(storylineId);
+    if (line) {
+      await ctx.db.patch(storylineId, {
+        lastUpdatedAt: now,
+        firstSeenAt: Math.min(line.firstSeenAt, story.firstSeenAt),
+      });
+    }
+  } else {
+    const title = storylineTitle(best.shared);
+    storylineId = await ctx.db.insert('storylines', {
+      title,
+      slug: await allocateStorylineSlug(ctx, title, now),
+      entities: best.shared,
+      edition,
+      firstSeenAt: Math.min(best.story.firstSeenAt, story.firstSeenAt),
+      lastUpdatedAt: now,
+    });
+    await ctx.db.patch(best.story._id, { storylineId, lastUpdatedAt: best.story.lastUpdatedAt });
+  }
+  await ctx.db.patch(storyId, { storylineId, lastUpdatedAt: story.lastUpdatedAt });
+  return storylineId;
+}
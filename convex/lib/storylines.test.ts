@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { storyEntities, storylineMatch, storylineTitle } from './storylines';
+
+describe('storylines', () => {
+  it('ranks entities by how many headlines mention them and drops generic words', () => {
+    const entities = storyEntities([
+      'Supreme Court reserves verdict in Adani Hindenburg case',
+      'Adani Hindenburg row: SEBI tells Supreme Court probe nearly complete',
+      'Government minister responds to Adani questions',
+    ]);
+    expect(entities.slice(0, 3)).toEqual(['adani-group', 'supreme-court', 'hindenburg']);
+    expect(entities).not.toContain('government');
+    expect(entities).not.toContain('minister');
+  });
+
+  it('links clusters weeks apart that share rare entities', () => {
+    const verdict = storyEntities(['Supreme Court reserves verdict in Adani Hindenburg case']);
+    const hearing = storyEntities(['Adani Hindenburg hearing: court asks SEBI for status report']);
+    expect(storylineMatch(verdict, hearing)).toEqual(expect.arrayContaining(['adani-group', 'hindenburg']));
+  });
+
+  it('ignores entities that are common across the window', () => {
+    const a = storyEntities(['Modi addresses BJP workers in Varanasi rally']);
+    const b = storyEntities(['Modi meets BJP chief ministers on flood relief']);
+    expect(storylineMatch(a, b, new Set(['narendra-modi', 'bjp']))).toBeNull();
+    expect(storylineMatch(['adani'], ['adani'])).toBeNull();
+  });
+
+  it('titles a storyline from its shared entities', () => {
+    expect(storylineTitle(['adani-group', 'hindenburg', 'bjp', 'sebi'])).toBe('Adani Group · Hindenburg · BJP');
+    expect(storylineTitle(['supreme court'])).toBe('Supreme Court');
+  });
+});
@@ -0,0 +1,71 @@
+import { titleTokens } from './cluster';
+import { extractEntityTokens } from './clusterEntities';
+import { getEdition } from './editions';
+import { matchKnownEntities } from './namedEntities';
+
+/**
+ * Storylines link clusters about one ongoing event (an election, a court case) across the
+ * weeks that per-event clustering cannot span. Two clusters join a storyline when they share
+ * enough entities that are rare in the term index — "modi" alone links nothing.
+ */
+
+export const STORYLINE_WINDOW_DAYS = 30;
+/** Entities kept per cluster, most frequent across its headlines first. */
+export const STORYLINE_ENTITIES = 12;
+/** A term with this many live postings in the window is too common to link clusters. */
+export const COMMON_TERM_POSTINGS = 30;
+export const MIN_SHARED_ENTITIES = 2;
+/** Shared entities over the smaller entity set. */
+export const MIN_STORYLINE_OVERLAP = 0.25;
+
+const GENERIC = new Set(
+  'government minister ministry police people report reports against between official officials country national states statement announced announces latest update updates'.split(
+    ' ',
+  ),
+);
+
+/** A cluster's entities: edition dictionary names and names / long words, ranked by headline frequency. */
+export function storyEntities(titles: string[], edition?: string | null): string[] {
+  const dictionary = new Set(getEdition(edition).entities);
+  const counts = new Map<string, number>();
+  for (const title of titles) {
+    // Known names collapse to their slug ("pm modi" → narendra-modi) so one entity counts once.
+    const { found, rest } = matchKnownEntities(title, edition);
+    const terms = new Set([...found.map((f) => f.entity.slug), ...extractEntityTokens(rest, edition)]);
+    for (const t of titleTokens(rest)) if (t.length >= 5) terms.add(t);
+    for (const e of terms) {
+      if (GENERIC.has(e)) continue;
+      counts.set(e, (counts.get(e) ?? 0) + 1);
+    }
+  }
+  return [...counts.entries()]
+    .sort(
+      (a, b) =>
+        b[1] - a[1] ||
+        Number(dictionary.has(b[0])) - Number(dictionary.has(a[0])) ||
+        b[0].length - a[0].length ||
+        a[0].localeCompare(b[0]),
+    )
+    .slice(0, STORYLINE_ENTITIES)
+    .map(([e]) => e);
+}
+
+/** Shared entities (ignoring `common` ones) when two clusters belong to one storyline, else null. */
+export function storylineMatch(a: string[], b: string[], common: ReadonlySet<string> = new Set()): string[] | null {
+  const ra = a.filter((e) => !common.has(e));
+  const rb = b.filter((e) => !common.has(e));
+  const inB = new Set(rb);
+  const shared = ra.filter((e) => inB.has(e));
+  if (shared.length < MIN_SHARED_ENTITIES) return null;
+  const smaller = Math.min(ra.length, rb.length);
+  return smaller > 0 && shared.length / smaller >= MIN_STORYLINE_OVERLAP ? shared : null;
+}
+
+/** "Adani · Hindenburg · BJP"-style label from the first shared entities. */
+export function storylineTitle(entities: string[]): string {
+  return entities
+    .slice(0, 3)
+    .map((e) => e.replace(/-/g, ' '))
+    .map((e) => (e.length <= 3 ? e.toUpperCase() : e.replace(/\b[a-z]/g, (c) => c.toUpperCase())))
+    .join(' · ');
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { estimateJaccard, minhashText, shingles } from './minhash';
+import {
+  coverageWeights,
+  detectWireSource,
+  SYNDICATION_MIN_JACCARD,
+  syndicationConfig,
+  weightedBiasSpread,
+  type CoverageArticle,
+} from './syndication';
+
+const WIRE =
+  'New Delhi, Oct 12 (PTI) The Reserve Bank of India on Friday kept the repo rate unchanged at 6.5 per cent for the tenth consecutive time, citing persistent food inflation and global uncertainty, Governor Shaktikanta Das said after the monetary policy committee meeting.';
+
+describe('minhash', () => {
+  it('builds word 3-shingles from normalized text', () => {
+    expect([...shingles('The RBI, on Friday!')]).toEqual(['the rbi on', 'rbi on friday']);
+    expect([...shingles('Two words')]).toEqual(['two words']);
+  });
+
+  it('scores republished wire copy as near-duplicate and unrelated copy as distinct', () => {
+    const republished = `RBI keeps repo rate unchanged. ${WIRE} (With inputs from agencies)`;
+    const unrelated =
+      'Mumbai Indians beat Chennai Super Kings by five wickets at Wankhede as Rohit Sharma struck a quick half-century on Sunday night.';
+    const sig = minhashText(WIRE);
+    expect(estimateJaccard(sig, minhashText(republished))).toBeGreaterThanOrEqual(SYNDICATION_MIN_JACCARD);
+    expect(estimateJaccard(sig, minhashText(unrelated))).toBeLessThan(0.2);
+    expect(estimateJaccard(sig, sig)).toBe(1);
+    expect(estimateJaccard(sig, [])).toBe(0);
+  });
+});
+
+describe('syndication', () => {
+  it('detects wire credits', () => {
+    expect(detectWireSource(WIRE)).toBe('PTI');
+    expect(detectWireSource('Officials said the talks would resume. With inputs from ANI')).toBe('ANI');
+    expect(detectWireSource('WASHINGTON (AP) — Lawmakers agreed')).toBe('AP');
+    expect(detectWireSource('Our correspondent reports from the capital.')).toBeNull();
+  });
+
+  it('reads mode and weight with safe defaults', () => {
+    expect(syndicationConfig(undefined, undefined)).toEqual({ mode: 'off', weight: 0.25 });
+    expect(syndicationConfig(' Weight ', '0.5')).toEqual({ mode: 'weight', weight: 0.5 });
+    expect(syndicationConfig('ONCE', undefined)).toEqual({ mode: 'once', weight: 0.25 });
+    expect(syndicationConfig('bogus', '3')).toEqual({ mode: 'off', weight: 0.25 });
+  });
+
+  it('picks the earliest published copy whatever the article order', () => {
+    const articles: CoverageArticle[] = [
+      { id: 'late', label: 'right', syndicatedFromId: 'orig', publishedAt: 300 },
+      { id: 'undated', label: 'center', syndicatedFromId: 'orig' },
+      { id: 'b', label: 'left', syndicatedFromId: 'orig', publishedAt: 100 },
+      { id: 'a', label: 'right', syndicatedFromId: 'orig', publishedAt: 100 },
+    ];
+    const forward = coverageWeights(articles, { mode: 'once', weight: 0.25 });
+    const reversed = coverageWeights([...articles].reverse(), { mode: 'once', weight: 0.25 });
+    expect([...forward.entries()].filter(([, w]) => w === 1)).toEqual([['a', 1]]);
+    expect(new Map([...reversed].sort())).toEqual(new Map([...forward].sort()));
+  });
+
+  it('counts each group of copies once or weighted down', () => {
+    const articles: CoverageArticle[] = [
+      { id: 'a', label: 'left' },
+      { id: 'b', label: 'right', syndicatedFromId: 'a' },
+      { id: 'c', label: 'right', syndicatedFromId: 'a' },
+      { id: 'd', label: 'center' },
+      // Original lives in another story: the first copy here stands in for it.
+      { id: 'e', label: 'right', syndicatedFromId: 'x' },
+    ];
+    const once = coverageWeights(articles, { mode: 'once', weight: 0.25 });
+    expect(weightedBiasSpread(articles, once)).toEqual({ left: 1, center: 1, right: 1 });
+    const weighted = coverageWeights(articles, { mode: 'weight', weight: 0.25 });
+    expect(weightedBiasSpread(articles, weighted)).toEqual({ left: 1, center: 1, right: 1.5 });
+    const off = coverageWeights(articles, { mode: 'off', weight: 0.25 });
+    expect(weightedBiasSpread(articles, off)).toEqual({ left: 1, center: 1, right: 3 });
+  });
+});
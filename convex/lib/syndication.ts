@@ -0,0 +1,79 @@
+import type { BiasLabel } from './aggregationTypes';
+
+/**
+ * Wire-copy detection and how syndicated articles count toward a story's coverage.
+ * Near-duplicates (MinHash, `convex/lib/minhash.ts`) point at the earliest copy in the
+ * story via `syndicatedFromId`; every copy of one original forms a group.
+ */
+
+/** Estimated shingle Jaccard at or above which two articles are treated as the same copy. */
+export const SYNDICATION_MIN_JACCARD = 0.5;
+
+export type SyndicationMode = 'once' | 'weight' | 'off';
+
+export type SyndicationConfig = { mode: SyndicationMode; weight: number };
+
+const WIRE_PATTERNS: [string, RegExp][] = [
+  ['PTI', /\bPTI\b|Press Trust of India/],
+  ['ANI', /\bANI\b|Asian News International/],
+  ['IANS', /\bIANS\b|Indo-Asian News Service/],
+  ['UNI', /\bUNI\b|United News of India/],
+  ['Reuters', /\bReuters\b/],
+  ['AFP', /\bAFP\b|Agence France-Presse/],
+  ['AP', /\(AP\)|\bAssociated Press\b/],
+];
+
+/** Wire agency credited in the text ("(PTI)", "With inputs from ANI", …), if any. */
+export function detectWireSource(text: string): string | null {
+  for (const [name, re] of WIRE_PATTERNS) if (re.test(text)) return name;
+  return null;
+}
+
+/** `SYNDICATION_MODE` = off (default) | once | weight; `SYNDICATION_WEIGHT` (default 0.25) for weight mode. */
+export function syndicationConfig(modeRaw: string | undefined, weightRaw: string | undefined): SyndicationConfig {
+  const raw = modeRaw?.trim().toLowerCase();
+  const mode: SyndicationMode = raw === 'once' || raw === 'weight' ? raw : 'off';
+  const w = weightRaw === undefined || weightRaw.trim() === '' ? NaN : Number(weightRaw);
+  return { mode, weight: Number.isFinite(w) && w >= 0 && w <= 1 ? w : 0.25 };
+}
+
+export type CoverageArticle = {
+  id: string;
+  label: BiasLabel;
+  syndicatedFromId?: string | null;
+  publishedAt?: number | null;
+};
+
+/**
+ * Weight per article: the first article of each syndication group counts 1; later copies
+ * count 0 (`once`), `config.weight` (`weight`), or 1 (`off`). The earliest published copy
+ * (then lowest id; undated last) represents the group, whatever order the articles come in.
+ */
+export function coverageWeights(articles: CoverageArticle[], config: SyndicationConfig): Map<string, number> {
+  const weights = new Map<string, number>();
+  const seenGroups = new Set<string>();
+  const ordered = [...articles].sort(
+    (a, b) =>
+      (a.publishedAt ?? Infinity) - (b.publishedAt ?? Infinity) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0),
+  );
+  for (const a of ordered) {
+    const group = a.syndicatedFromId ?? a.id;
+    const first = !seenGroups.has(group);
+    seenGroups.add(group);
+    weights.set(a.id, first || config.mode === 'off' ? 1 : config.mode === 'weight' ? config.weight : 0);
+  }
+  return weights;
+}
+
+export function weightedBiasSpread(
+  articles: CoverageArticle[],
+  weights: Map<string, number>,
+): Partial<Record<BiasLabel, number>> {
+  const spread: Partial<Record<BiasLabel, number>> = {};
+  for (const a of articles) {
+    const w = weights.get(a.id) ?? 1;
+    if (w <= 0) continue;
+    spread[a.label] = (spread[a.label] ?? 0) + w;
+  }
+  return spread;
+}
@@ -0,0 +1,70 @@
+import type { Doc, Id } from '../_generated/dataModel';
+import type { MutationCtx } from '../_generated/server';
+import { estimateJaccard, minhashText } from './minhash';
+import { detectWireSource, SYNDICATION_MIN_JACCARD } from './syndication';
+
+/** Story siblings compared per article; wire copy lands within hours, so the newest members suffice. */
+const SIBLINGS_COMPARED = 40;
+
+function articleTime(a: Doc<'articles'>) {
+  return a.publishedAt ?? a.fetchedAt;
+}
+
+async function signatureRow(ctx: MutationCtx, articleId: Id<'articles'>) {
+  return ctx.db
+    .query('articleSignatures')
+    .withIndex('by_article', (q) => q.eq('articleId', articleId))
+    .first();
+}
+
+/**
+ * (Re)compute an article's MinHash signature — from the extracted body when one is stored,
+ * otherwise title + summary — and link it to the earliest near-duplicate in its story.
+ * Called on ingest and again once the full text arrives.
+ */
+export async function detectSyndication(ctx: MutationCtx, articleId: Id<'articles'>) {
+  const article = await ctx.db.get(articleId);
+  if (!article) return;
+  const body = await ctx.db
+    .query('articleBodies')
+    .withIndex('by_article', (q) => q.eq('articleId', articleId))
+    .first();
+  const bodyText = body?.status === 'ok' ? body.text : undefined;
+  const text = [article.title, bodyText ?? article.summary ?? ''].join('\n');
+  const signature = minhashText(text);
+  const source = bodyText ? ('body' as const) : ('title_summary' as const);
+
+  const existing = await signatureRow(ctx, articleId);
+  if (existing) await ctx.db.patch(existing._id, { signature, source, createdAt: Date.now() });
+  else await ctx.db.insert('articleSignatures', { articleId, signature, source, createdAt: Date.now() });
+
+  const link = await ctx.db
+    .query('storyArticles')
+    .withIndex('by_article', (q) => q.eq('articleId', articleId))
+    .first();
+  let original: Doc<'articles'> | null = null;
+  if (link) {
+    const siblings = await ctx.db
+      .query('storyArticles')
+      .withIndex('by_story', (q) => q.eq('storyId', link.storyId))
+      .order('desc')
+      .take(SIBLINGS_COMPARED);
+    for (const s of siblings) {
+      if (s.articleId === articleId) continue;
+      const other = await ctx.db.get(s.articleId);
+      // Only earlier copies can be the source; ties fall back to insertion order.
+      if (!other || articleTime(other) > articleTime(article)) continue;
+      if (articleTime(other) === articleTime(article) && other._creationTime > article._creationTime) continue;
+      const sig = await signatureRow(ctx, other._id);
+      if (!sig || estimateJaccard(signature, sig.signature) < SYNDICATION_MIN_JACCARD) continue;
+      if (!original || articleTime(other) < articleTime(original)) original = other;
+    }
+  }
+
+  const root = original ? (original.syndicatedFromId ?? original._id) : undefined;
+  const wireSource =
+    detectWireSource(`${article.title}\n${article.summary ?? ''}\n${bodyText ?? ''}`) ?? original?.wireSource;
+  if (root !== article.syndicatedFromId || wireSource !== article.wireSource) {
+    await ctx.db.patch(articleId, { syndicatedFromId: root, wireSource });
+  }
+}
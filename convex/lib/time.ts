@@ -4,4 +4,18 @@ export function monthStartMs() {
   start.setDate(1);
   start.setHours(0, 0, 0, 0);
   return start.getTime();
-}
\ No newline at end of file
+}
+
+export function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+/** UTC calendar day (`2026-03-01`) used as the bucket for daily quotas. */
+export function utcDay(ms: number) {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+export function nextUtcDayMs(ms: number) {
+  const d = new Date(ms);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() + 1);
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import {
+  matchedTopics,
+  normalizeTopic,
+  planAlerts,
+  topicAlertNote,
+  topicEntitySlugs,
+  type AlertCandidate,
+} from './topicAlerts';
+
+describe('topicAlerts', () => {
+  it('matches topics as phrases in the headline, searchText or entity names', () => {
+    const text = {
+      title: 'Monsoon session: Parliament passes data bill',
+      searchText: 'monsoon session: parliament passes data bill the hindu ndtv',
+      entities: ['Narendra Modi', 'Lok Sabha'],
+    };
+    expect(matchedTopics(['parliament', 'ndtv', 'modi', 'lok sabha', 'data protection', 'soon'], text)).toEqual([
+      'parliament',
+      'ndtv',
+      'modi',
+      'lok sabha',
+    ]);
+    expect(matchedTopics(['rbi'], { title: 'RBI holds repo rate', entities: [] })).toEqual(['rbi']);
+  });
+
+  it('resolves topics to entities through gazetteer aliases', () => {
+    expect(topicEntitySlugs('pm modi')).toEqual(['narendra-modi', 'pm-modi']);
+    expect(topicEntitySlugs('modi')).toEqual(['narendra-modi', 'modi']);
+    expect(topicEntitySlugs('narendra modi')).toEqual(['narendra-modi']);
+    expect(topicEntitySlugs('मोदी')).toContain('narendra-modi');
+    expect(topicEntitySlugs('data protection')).toEqual(['data-protection']);
+  });
+
+  it('normalises topics like topics.follow', () => {
+    expect(normalizeTopic('  Lok   Sabha ')).toBe('lok sabha');
+    expect(normalizeTopic('x'.repeat(100))).toHaveLength(80);
+  });
+
+  it('sends one alert per user and story and throttles per user', () => {
+    const c = (userId: string, storyId: string): AlertCandidate => ({ userId, storyId, topics: ['rbi'] });
+    const plan = planAlerts(
+      [c('u1', 's1'), c('u1', 's1'), c('u1', 's2'), c('u1', 's3'), c('u2', 's1'), c('u2', 's4')],
+      new Set(['u2:s4']),
+      new Map([['u1', 3]]),
+      5,
+    );
+    expect(plan.send.map((a) => `${a.userId}:${a.storyId}`)).toEqual(['u1:s1', 'u1:s2', 'u2:s1']);
+    expect(plan.duplicates).toBe(2);
+    expect(plan.throttled).toBe(1);
+  });
+
+  it('describes the matched topics', () => {
+    expect(topicAlertNote(['rbi'])).toBe('Matches your topic “rbi”');
+    expect(topicAlertNote(['rbi', 'repo rate'])).toBe('Matches your topics “rbi”, “repo rate”');
+  });
+});
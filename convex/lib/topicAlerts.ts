@@ -0,0 +1,94 @@
+import { GAZETTEER } from './entityGazetteer';
+import { matchesTopic } from './retention';
+import { slugify } from './slug';
+
+/**
+ * Topic follows → "Your topics" feed and alerts. A topic matches a story when it appears as a phrase in
+ * the headline, the story's `searchText` (headline + outlet names) or the name of an entity in the story.
+ */
+
+/** Alerts only go out for stories first seen this recently; older clusters that pick up a new article stay quiet. */
+export const TOPIC_ALERT_WINDOW_MS = 24 * 3_600_000;
+/** Alerts one user can get per hour; further matches in that hour are dropped (the topic feed still lists them). */
+export const TOPIC_ALERT_HOURLY_LIMIT = 5;
+/** Stories checked per alert run (oldest update first, resuming from the previous run). */
+export const TOPIC_ALERT_SCAN = 200;
+/** Topics one user can follow. */
+export const MAX_TOPICS_PER_USER = 30;
+/** Distinct followed topics read per pass (topic alerts, retention keep check). */
+export const FOLLOWED_TOPICS_SCAN = 2000;
+
+export type TopicText = { title: string; searchText?: string | null; entities: string[] };
+
+/** Same normalisation as `topics.follow`. */
+export function normalizeTopic(raw: string): string {
+  return raw.trim().toLowerCase().replace(/\s+/g, ' ').slice(0, 80);
+}
+
+/** Followed topics that match the story, in the order given. */
+export function matchedTopics(topics: Iterable<string>, text: TopicText): string[] {
+  const out: string[] = [];
+  for (const topic of topics) {
+    if (
+      matchesTopic(text.title, [topic]) ||
+      (text.searchText && matchesTopic(text.searchText, [topic])) ||
+      text.entities.some((name) => matchesTopic(name, [topic]))
+    ) {
+      out.push(topic);
+    }
+  }
+  return out;
+}
+
+/**
+ * Entity slugs a followed topic names: every gazetteer entity listing it as an alias (any edition), so
+ * "modi" and "pm modi" reach Narendra Modi, plus the topic's own slug for entities outside the gazetteer.
+ */
+export function topicEntitySlugs(topic: string): string[] {
+  const slugs = new Set<string>();
+  for (const list of Object.values(GAZETTEER)) {
+    for (const entity of list) if (entity.aliases.includes(topic)) slugs.add(entity.slug);
+  }
+  const own = slugify(topic);
+  if (own) slugs.add(own);
+  return [...slugs];
+}
+
+export type AlertCandidate = { userId: string; storyId: string; topics: string[] };
+
+/**
+ * Which candidates become notifications: one per user and story (`alerted` holds `userId:storyId`
+ * keys already sent), and at most `limit` per user counting `sentLastHour`.
+ */
+export function planAlerts(
+  candidates: AlertCandidate[],
+  alerted: Set<string>,
+  sentLastHour: Map<string, number>,
+  limit: number = TOPIC_ALERT_HOURLY_LIMIT,
+): { send: AlertCandidate[]; duplicates: number; throttled: number } {
+  const send: AlertCandidate[] = [];
+  const seen = new Set(alerted);
+  const sent = new Map(sentLastHour);
+  let duplicates = 0;
+  let throttled = 0;
+  for (const c of candidates) {
+    const key = `${c.userId}:${c.storyId}`;
+    if (seen.has(key)) {
+      duplicates++;
+      continue;
+    }
+    seen.add(key);
+    const n = sent.get(c.userId) ?? 0;
+    if (n >= limit) {
+      throttled++;
+      continue;
+    }
+    sent.set(c.userId, n + 1);
+    send.push(c);
+  }
+  return { send, duplicates, throttled };
+}
+
+export function topicAlertNote(topics: string[]): string {
+  return `Matches your topic${topics.length === 1 ? '' : 's'} ${topics.map((t) => `“${t}”`).join(', ')}`;
+}
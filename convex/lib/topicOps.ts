@@ -0,0 +1,64 @@
+import type { Doc, Id } from '../_generated/dataModel';
+import type { QueryCtx } from '../_generated/server';
+import { FOLLOWED_TOPICS_SCAN, matchedTopics, topicEntitySlugs } from './topicAlerts';
+
+/** Entity rows read per story when matching topics. */
+const ENTITIES_PER_STORY = 40;
+
+/** Topics followed by anyone, one index read per distinct topic (retention keep check, topic alerts). */
+export async function followedTopics(ctx: Pick<QueryCtx, 'db'>, limit = FOLLOWED_TOPICS_SCAN): Promise<string[]> {
+  const topics: string[] = [];
+  let prev = '';
+  while (topics.length < limit) {
+    const next = await ctx.db
+      .query('userTopicFollows')
+      .withIndex('by_topic', (q) => q.gt('topic', prev))
+      .first();
+    if (!next) return topics;
+    topics.push(next.topic);
+    prev = next.topic;
+  }
+  console.warn(`followedTopics: stopped at ${limit} distinct topics`);
+  return topics;
+}
+
+/** Topics keyed by the id of each entity they name (`topicEntitySlugs` via `by_slug`); built once per pass. */
+export type TopicEntities = Map<Id<'entities'>, string[]>;
+
+export async function topicEntities(ctx: Pick<QueryCtx, 'db'>, topics: string[]): Promise<TopicEntities> {
+  const out: TopicEntities = new Map();
+  for (const topic of topics) {
+    for (const slug of topicEntitySlugs(topic)) {
+      const entity = await ctx.db
+        .query('entities')
+        .withIndex('by_slug', (q) => q.eq('slug', slug))
+        .first();
+      if (entity) out.set(entity._id, [...(out.get(entity._id) ?? []), topic]);
+    }
+  }
+  return out;
+}
+
+/**
+ * Followed topics matching the cluster's headline or `searchText`, or naming one of its entities
+ * (`topicEntities`); entity links are only read when the text did not match, and entity rows never are.
+ */
+export async function storyTopics(
+  ctx: Pick<QueryCtx, 'db'>,
+  story: Doc<'storyClusters'>,
+  topics: string[],
+  entities: TopicEntities,
+): Promise<string[]> {
+  const quick = matchedTopics(topics, { title: story.canonicalTitle, searchText: story.searchText, entities: [] });
+  const rest = new Set(topics.filter((t) => !quick.includes(t)));
+  const candidates = [...entities].filter(([, named]) => named.some((t) => rest.has(t)));
+  if (!candidates.length) return quick;
+
+  const rows = await ctx.db
+    .query('storyEntities')
+    .withIndex('by_story', (q) => q.eq('storyId', story._id))
+    .take(ENTITIES_PER_STORY);
+  const present = new Set(rows.map((r) => r.entityId));
+  const viaEntities = new Set(candidates.filter(([id]) => present.has(id)).flatMap(([, named]) => named));
+  return topics.filter((t) => quick.includes(t) || (rest.has(t) && viaEntities.has(t)));
+}
@@ -0,0 +1,56 @@
+import { v } from 'convex/values';
+import { mutation, query } from './_generated/server';
+
+/** The signed-in user's latest notifications (topic alerts) and how many are unread. */
+export const list = query({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return { notifications: [], unread: 0 };
+    const rows = await ctx.db
+      .query('notifications')
+      .withIndex('by_user_created', (q) => q.eq('userId', identity.subject))
+      .order('desc')
+      .take(Math.min(args.limit ?? 20, 50));
+    return {
+      notifications: rows.map((n) => ({
+        id: n._id,
+        kind: n.kind,
+        slug: n.slug,
+        title: n.title,
+        topics: n.topics,
+        createdAt: n.createdAt,
+        read: n.readAt !== undefined,
+      })),
+      unread: rows.filter((n) => n.readAt === undefined).length,
+    };
+  },
+});
+
+/** Mark one notification read, or all of the user's unread ones when `id` is omitted. */
+export const markRead = mutation({
+  args: { id: v.optional(v.id('notifications')) },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error('Not authenticated');
+    const now = Date.now();
+    if (args.id) {
+      const row = await ctx.db.get(args.id);
+      if (!row || row.userId !== identity.subject) throw new Error('notification not found');
+      if (row.readAt === undefined) await ctx.db.patch(row._id, { readAt: now });
+      return { marked: 1 };
+    }
+    const rows = await ctx.db
+      .query('notifications')
+      .withIndex('by_user_created', (q) => q.eq('userId', identity.subject))
+      .order('desc')
+      .take(200);
+    let marked = 0;
+    for (const row of rows) {
+      if (row.readAt !== undefined) continue;
+      await ctx.db.patch(row._id, { readAt: now });
+      marked++;
+    }
+    return { marked };
+  },
+});
@@ -0,0 +1,467 @@
+import { v } from 'convex/values';
+import { mutation, query, type MutationCtx } from './_generated/server';
+import type { Doc, Id } from './_generated/dataModel';
+import { requireAdmin } from './lib/admin';
+import type { FeedHealthDto } from './lib/aggregationTypes';
+import { editionOf, validateEdition } from './lib/editions';
+import { feedHealthStatus, summarizePolls } from './lib/feedHealth';
+import {
+  clampPollInterval,
+  diffFields,
+  outletExternalIdFromName,
+  validateFeedKind,
+  validateFeedUrl,
+  validateOutlet,
+  validateRatingUrl,
+  type OutletInput,
+} from './lib/outletEdits';
+import { logChange } from './lib/outletChanges';
+import { applyOutletOwnership } from './lib/ownershipOps';
+import { applyOutletRatings, recordEditorialRatings } from './lib/ratingOps';
+import { normalizeRating } from './lib/ratings';
+
+/** Recent polls per feed behind the health rollup (~1 day at a 15m interval). */
+const HEALTH_POLL_SAMPLE = 96;
+
+const outletFields = {
+  name: v.string(),
+  domain: v.string(),
+  biasLabel: v.string(),
+  factuality: v.string(),
+  ownershipCategory: v.optional(v.string()),
+  ownerId: v.optional(v.string()),
+  reachTier: v.optional(v.string()),
+  ratingSource: v.optional(v.string()),
+  edition: v.optional(v.string()),
+};
+
+/** A deleted feed's poll history (`feedPolls`) goes with it. */
+async function deleteFeedPolls(ctx: MutationCtx, feedId: Id<'feeds'>) {
+  const polls = await ctx.db
+    .query('feedPolls')
+    .withIndex('by_feed_at', (q) => q.eq('feedId', feedId))
+    .collect();
+  for (const p of polls) await ctx.db.delete(p._id);
+}
+
+async function getOutlet(ctx: MutationCtx, id: Id<'outlets'>) {
+  const outlet = await ctx.db.get(id);
+  if (!outlet) throw new Error('outlet not found');
+  return outlet;
+}
+
+/** `validateOutlet` plus the owner lookup; an unknown owner id is an error, an empty one clears it. */
+async function outletFieldsFrom(ctx: MutationCtx, input: OutletInput) {
+  const fields = validateOutlet(input);
+  const ownerId = fields.ownerId ? ctx.db.normalizeId('owners', fields.ownerId) : null;
+  if (fields.ownerId && (!ownerId || !(await ctx.db.get(ownerId)))) throw new Error('owner not found');
+  return { ...fields, ownerId: ownerId ?? undefined };
+}
+
+async function assertDomainFree(ctx: MutationCtx, domain: string, except?: Id<'outlets'>) {
+  const clash = await ctx.db
+    .query('outlets')
+    .withIndex('by_domain', (q) => q.eq('domain', domain))
+    .first();
+  if (clash && clash._id !== except) throw new Error(`${domain} already belongs to ${clash.name}`);
+}
+
+async function feedExternalId(ctx: MutationCtx, outletExternalId: string, now: number) {
+  const base = `feed-${outletExternalId}`;
+  const clash = await ctx.db
+    .query('feeds')
+    .withIndex('by_externalId', (q) => q.eq('externalId', base))
+    .first();
+  return clash ? `${base}-${now.toString(36)}` : base;
+}
+
+/** Every outlet (including disabled) with its feeds and poll health. */
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    await requireAdmin(ctx);
+    const outlets = await ctx.db.query('outlets').collect();
+    const out = [];
+    for (const o of outlets.sort((a, b) => a.name.localeCompare(b.name))) {
+      const feeds = await ctx.db
+        .query('feeds')
+        .withIndex('by_outlet', (q) => q.eq('outletId', o._id))
+        .collect();
+      out.push({
+        id: o._id,
+        externalId: o.externalId,
+        name: o.name,
+        domain: o.domain,
+        biasLabel: o.biasLabel,
+        factuality: o.factuality,
+        ownershipCategory: o.ownershipCategory ?? null,
+        ownerId: o.ownerId ?? null,
+        reachTier: o.reachTier ?? null,
+        ratingSource: o.ratingSource ?? null,
+        enabled: o.enabled !== false,
+        origin: o.origin ?? 'seed',
+        edition: editionOf(o),
+        feeds: feeds.map((f) => ({
+          id: f._id,
+          url: f.url,
+          kind: f.kind ?? 'rss',
+          edition: f.edition ?? null,
+          pollIntervalSec: f.pollIntervalSec,
+          enabled: f.enabled,
+          lastFetchedAt: f.lastFetchedAt ?? null,
+          lastError: f.lastError ?? null,
+          errorStreak: f.errorStreak ?? 0,
+          disabledReason: f.disabledReason ?? null,
+        })),
+      });
+    }
+    return { outlets: out };
+  },
+});
+
+/** Every feed with last success, error streak, items per poll and duplicate rate over the last 7 days of polls. */
+export const feedHealth = query({
+  args: {},
+  handler: async (ctx): Promise<{ feeds: FeedHealthDto[] }> => {
+    await requireAdmin(ctx);
+    const now = Date.now();
+    const feeds = await ctx.db.query('feeds').collect();
+    const out: FeedHealthDto[] = [];
+    for (const f of feeds) {
+      const outlet = await ctx.db.get(f.outletId);
+      const polls = await ctx.db
+        .query('feedPolls')
+        .withIndex('by_feed_at', (q) => q.eq('feedId', f._id))
+        .order('desc')
+        .take(HEALTH_POLL_SAMPLE);
+      const outletOff = outlet?.enabled === false;
+      const iso = (ms?: number) => (ms ? new Date(ms).toISOString() : null);
+      out.push({
+        feedId: f._id,
+        outletName: outlet?.name ?? 'Unknown outlet',
+        url: f.url,
+        enabled: f.enabled,
+        status: feedHealthStatus({ ...f, enabled: f.enabled && !outletOff }, now),
+        lastFetchedAt: iso(f.lastFetchedAt),
+        lastSuccessAt: iso(f.lastSuccessAt),
+        nextPollAt: iso(f.nextPollAt),
+        lastError: f.lastError ?? null,
+        errorStreak: f.errorStreak ?? 0,
+        disabledReason: f.disabledReason ?? (outletOff ? 'Outlet disabled' : null),
+        ...summarizePolls(polls),
+      });
+    }
+    const rank = { failing: 0, stale: 1, disabled: 2, ok: 3 } as const;
+    out.sort((a, b) => rank[a.status] - rank[b.status] || b.errorStreak - a.errorStreak);
+    return { feeds: out };
+  },
+});
+
+export const history = query({
+  args: { outletId: v.optional(v.id('outlets')), limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    const limit = Math.min(args.limit ?? 50, 200);
+    const rows = args.outletId
+      ? await ctx.db
+          .query('outletChanges')
+          .withIndex('by_outlet', (q) => q.eq('outletId', args.outletId!))
+          .order('desc')
+          .take(limit)
+      : await ctx.db.query('outletChanges').withIndex('by_created').order('desc').take(limit);
+    return {
+      entries: rows.map((r) => ({
+        id: r._id,
+        outletId: r.outletId,
+        outletName: r.outletName,
+        op: r.op,
+        actorId: r.actorId,
+        changes: r.changes,
+        note: r.note ?? null,
+        createdAt: r.createdAt,
+      })),
+    };
+  },
+});
+
+export const createOutlet = mutation({
+  args: { ...outletFields, feedUrl: v.optional(v.string()), feedKind: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const actorId = await requireAdmin(ctx);
+    const fields = await outletFieldsFrom(ctx, args);
+    await assertDomainFree(ctx, fields.domain);
+    const externalId = outletExternalIdFromName(fields.name);
+    const taken = await ctx.db
+      .query('outlets')
+      .withIndex('by_externalId', (q) => q.eq('externalId', externalId))
+      .first();
+    if (taken) throw new Error(`an outlet with id ${externalId} already exists`);
+
+    const now = Date.now();
+    const outletId = await ctx.db.insert('outlets', {
+      externalId,
+      ...fields,
+      ratingSource: fields.ratingSource ?? 'admin',
+      enabled: true,
+      origin: 'admin',
+      updatedAt: now,
+    });
+    await recordEditorialRatings(ctx, outletId, fields, actorId, now);
+    await applyOutletRatings(ctx, outletId);
+    await applyOutletOwnership(ctx, await getOutlet(ctx, outletId));
+    const outlet = await getOutlet(ctx, outletId);
+    await logChange(ctx, outlet, 'create', actorId, diffFields({}, fields));
+    if (args.feedUrl?.trim()) {
+      const url = validateFeedUrl(args.feedUrl);
+      const kind = validateFeedKind(args.feedKind);
+      const feedId = await ctx.db.insert('feeds', {
+        externalId: await feedExternalId(ctx, externalId, now),
+        outletId,
+        url,
+        pollIntervalSec: 900,
+        enabled: true,
+        kind,
+      });
+      await logChange(ctx, outlet, 'feed-add', actorId, diffFields({}, { url, kind }), feedId);
+    }
+    return { outletId, externalId };
+  },
+});
+
+export const updateOutlet = mutation({
+  args: { outletId: v.id('outlets'), ...outletFields },
+  handler: async (ctx, args) => {
+    const actorId = await requireAdmin(ctx);
+    const outlet = await getOutlet(ctx, args.outletId);
+    const fields = await outletFieldsFrom(ctx, args);
+    if (fields.domain !== outlet.domain) await assertDomainFree(ctx, fields.domain, outlet._id);
+    const changes = diffFields(outlet, fields);
+    if (changes.length === 0) return { changed: 0 };
+    const now = Date.now();
+    await ctx.db.patch(outlet._id, { ...fields, updatedAt: now });
+    // A hand-set label is the editorial rating; with other sources on file the effective label is re-aggregated.
+    if (changes.some((c) => c.field === 'biasLabel' || c.field === 'factuality')) {
+      await recordEditorialRatings(ctx, outlet._id, fields, actorId, now);
+      await applyOutletRatings(ctx, outlet._id);
+    }
+    await applyOutletOwnership(ctx, await getOutlet(ctx, outlet._id));
+    await logChange(ctx, { ...outlet, name: fields.name }, 'update', actorId, changes);
+    return { changed: changes.length };
+  },
+});
+
+/** Add a rating observation (AllSides, MBFC, Ad Fontes, …) and re-aggregate the outlet's labels. */
+export const addRating = mutation({
+  args: {
+    outletId: v.id('outlets'),
+    source: v.string(),
+    kind: v.union(v.literal('bias'), v.literal('factuality')),
+    scale: v.string(),
+    rawValue: v.string(),
+    ratedAt: v.optional(v.number()),
+    url: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const actorId = await requireAdmin(ctx);
+    const outlet = await getOutlet(ctx, args.outletId);
+    const source = args.source.trim();
+    if (!source) throw new Error('source is required');
+    const rawValue = args.rawValue.trim();
+    const score = normalizeRating(args.scale, args.kind, rawValue);
+    const url = args.url?.trim() ? validateRatingUrl(args.url) : undefined;
+    const now = Date.now();
+    const ratingId = await ctx.db.insert('outletRatings', {
+      outletId: outlet._id,
+      source,
+      kind: args.kind,
+      scale: args.scale,
+      rawValue,
+      score,
+      ratedAt: args.ratedAt ?? now,
+      url,
+      addedBy: actorId,
+      createdAt: now,
+    });
+    await applyOutletRatings(ctx, outlet._id);
+    await logChange(ctx, outlet, 'rating-add', actorId, [
+      { field: `${args.kind}:${source}`, after: `${rawValue} (${args.scale})` },
+    ]);
+    return { ratingId };
+  },
+});
+
+export const removeRating = mutation({
+  args: { ratingId: v.id('outletRatings') },
+  handler: async (ctx, args) => {
+    const actorId = await requireAdmin(ctx);
+    const rating = await ctx.db.get(args.ratingId);
+    if (!rating) throw new Error('rating not found');
+    const outlet = await getOutlet(ctx, rating.outletId);
+    await ctx.db.delete(rating._id);
+    await applyOutletRatings(ctx, outlet._id);
+    await logChange(ctx, outlet, 'rating-remove', actorId, [
+      { field: `${rating.kind}:${rating.source}`, before: `${rating.rawValue} (${rating.scale})` },
+    ]);
+    return { removed: true };
+  },
+});
+
+/** Disabled outlets stop polling and URL matching; their existing articles stay in stories. */
+export const setOutletEnabled = mutation({
+  args: { outletId: v.id('outlets'), enabled: v.boolean() },
+  handler: async (ctx, args) => {
+    const actorId = await requireAdmin(ctx);
+    const outlet = await getOutlet(ctx, args.outletId);
+    if ((outlet.enabled !== false) === args.enabled) return { changed: false };
+    await ctx.db.patch(outlet._id, { enabled: args.enabled, updatedAt: Date.now() });
+    await logChange(ctx, outlet, args.enabled ? 'enable' : 'disable', actorId, [
+      { field: 'enabled', before: String(!args.enabled), after: String(args.enabled) },
+    ]);
+    return { changed: true };
+  },
+});
+
+/**
+ * Only outlets with no stored articles can be deleted; disable the rest. Feeds and their poll history,
+ * follows, rating observations and disputes are deleted with the outlet.
+ */
+export const deleteOutlet = mutation({
+  args: { outletId: v.id('outlets') },
+  handler: async (ctx, args) => {
+    const actorId = await requireAdmin(ctx);
+    const outlet = await getOutlet(ctx, args.outletId);
+    const article = await ctx.db
+      .query('articles')
+      .withIndex('by_outlet', (q) => q.eq('outletId', outlet._id))
+      .first();
+    if (article) throw new Error(`${outlet.name} has articles; disable it instead`);
+    const feeds = await ctx.db
+      .query('feeds')
+      .withIndex('by_outlet', (q) => q.eq('outletId', outlet._id))
+      .collect();
+    for (const f of feeds) {
+      await deleteFeedPolls(ctx, f._id);
+      await ctx.db.delete(f._id);
+    }
+    const follows = await ctx.db
+      .query('userFollows')
+      .withIndex('by_outlet', (q) => q.eq('outletId', outlet._id))
+      .collect();
+    for (const f of follows) await ctx.db.delete(f._id);
+    const disputes = await ctx.db
+      .query('ratingDisputes')
+      .withIndex('by_outlet', (q) => q.eq('outletId', outlet._id))
+      .collect();
+    for (const d of disputes) await ctx.db.delete(d._id);
+    const ratings = await ctx.db
+      .query('outletRatings')
+      .withIndex('by_outlet', (q) => q.eq('outletId', outlet._id))
+      .collect();
+    for (const r of ratings) await ctx.db.delete(r._id);
+    await logChange(ctx, outlet, 'delete', actorId, [{ field: 'domain', before: outlet.domain }]);
+    await ctx.db.delete(outlet._id);
+    return { deletedFeeds: feeds.length };
+  },
+});
+
+export const addFeed = mutation({
+  args: {
+    outletId: v.id('outlets'),
+    url: v.string(),
+    pollIntervalSec: v.optional(v.number()),
+    edition: v.optional(v.string()),
+    kind: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const actorId = await requireAdmin(ctx);
+    const outlet = await getOutlet(ctx, args.outletId);
+    const url = validateFeedUrl(args.url);
+    const edition = validateEdition(args.edition);
+    const kind = validateFeedKind(args.kind);
+    const dupe = await ctx.db
+      .query('feeds')
+      .withIndex('by_url', (q) => q.eq('url', url))
+      .first();
+    if (dupe) throw new Error('feed URL already exists');
+    const pollIntervalSec = clampPollInterval(args.pollIntervalSec ?? 900);
+    const feedId = await ctx.db.insert('feeds', {
+      externalId: await feedExternalId(ctx, outlet.externalId, Date.now()),
+      outletId: outlet._id,
+      url,
+      pollIntervalSec,
+      enabled: true,
+      edition,
+      kind,
+    });
+    await ctx.db.patch(outlet._id, { updatedAt: Date.now() });
+    await logChange(ctx, outlet, 'feed-add', actorId, diffFields({}, { url, pollIntervalSec, edition, kind }), feedId);
+    return { feedId };
+  },
+});
+
+export const updateFeed = mutation({
+  args: {
+    feedId: v.id('feeds'),
+    url: v.optional(v.string()),
+    pollIntervalSec: v.optional(v.number()),
+    enabled: v.optional(v.boolean()),
+    /** Empty string clears the override so the feed follows its outlet. */
+    edition: v.optional(v.string()),
+    /** Empty string resets to `rss`. */
+    kind: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const actorId = await requireAdmin(ctx);
+    const feed = await ctx.db.get(args.feedId);
+    if (!feed) throw new Error('feed not found');
+    const outlet = await getOutlet(ctx, feed.outletId);
+    const next: Partial<Pick<Doc<'feeds'>, 'url' | 'pollIntervalSec' | 'enabled' | 'edition' | 'kind'>> = {};
+    if (args.url !== undefined) next.url = validateFeedUrl(args.url);
+    if (args.pollIntervalSec !== undefined) next.pollIntervalSec = clampPollInterval(args.pollIntervalSec);
+    if (args.enabled !== undefined) next.enabled = args.enabled;
+    if (args.edition !== undefined) next.edition = validateEdition(args.edition);
+    if (args.kind !== undefined) next.kind = validateFeedKind(args.kind);
+    const changes = diffFields(feed, next);
+    if (changes.length === 0) return { changed: 0 };
+
+    const patch: Partial<Doc<'feeds'>> = { ...next };
+    if (next.enabled && !feed.enabled) {
+      // Re-enabling clears an auto-disable and its backoff so the feed is polled on the next run.
+      Object.assign(patch, { disabledReason: undefined, disabledAt: undefined, errorStreak: 0, nextPollAt: undefined });
+    }
+    if ((next.url && next.url !== feed.url) || ('kind' in next && next.kind !== feed.kind)) {
+      // New URL or parser: drop validators and backoff so the next poll is a fresh fetch.
+      Object.assign(patch, {
+        lastEtag: undefined,
+        lastModified: undefined,
+        lastError: undefined,
+        errorStreak: 0,
+        nextPollAt: undefined,
+      });
+    }
+    await ctx.db.patch(feed._id, patch);
+    await ctx.db.patch(outlet._id, { updatedAt: Date.now() });
+    await logChange(ctx, outlet, 'feed-update', actorId, changes, feed._id);
+    return { changed: changes.length };
+  },
+});
+
+/** Feeds that already produced articles are kept (disable them instead). */
+export const deleteFeed = mutation({
+  args: { feedId: v.id('feeds') },
+  handler: async (ctx, args) => {
+    const actorId = await requireAdmin(ctx);
+    const feed = await ctx.db.get(args.feedId);
+    if (!feed) throw new Error('feed not found');
+    const outlet = await getOutlet(ctx, feed.outletId);
+    const article = await ctx.db
+      .query('articles')
+      .withIndex('by_feed_guid', (q) => q.eq('feedId', feed._id))
+      .first();
+    if (article) throw new Error('feed has articles; disable it instead');
+    await deleteFeedPolls(ctx, feed._id);
+    await ctx.db.delete(feed._id);
+    await logChange(ctx, outlet, 'feed-delete', actorId, [{ field: 'url', before: feed.url }], feed._id);
+    return { ok: true };
+  },
+});
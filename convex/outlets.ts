@@ -1,19 +1,120 @@
-import { query } from './_generated/server';
-import type { BiasLabel } from './lib/aggregationTypes';
+import { v } from 'convex/values';
+import { internalQuery, query } from './_generated/server';
+import type { Doc } from './_generated/dataModel';
+import type { BiasLabel, OutletProfileDto, StoryDto } from './lib/aggregationTypes';
+import { editionOf } from './lib/editions';
+import { blindspotFrequency, isExclusiveCoverage } from './lib/outletProfile';
+import { ownershipChain } from './lib/ownership';
+import { loadOwners } from './lib/ownershipOps';
+import { buildStoryDto, mapOutlet } from './lib/storyBuild';
+
+/** Newest articles scanned for an outlet profile; their stories feed the blindspot counts. */
+const PROFILE_ARTICLES = 300;
+/** Stories built in full (coverage needed) when looking for exclusives. */
+const PROFILE_STORIES = 40;
 
 export const list = query({
-  args: {},
-  handler: async (ctx) => {
+  args: { edition: v.optional(v.string()) },
+  handler: async (ctx, args) => {
     const rows = await ctx.db.query('outlets').collect();
     return {
-      outlets: rows.map((row) => ({
-        id: row.externalId,
-        name: row.name,
-        domain: row.domain,
-        biasLabel: row.biasLabel as BiasLabel,
-        factuality: row.factuality,
-        ownershipCategory: row.ownershipCategory ?? null,
+      outlets: rows
+        .filter((row) => row.enabled !== false)
+        .filter((row) => !args.edition || editionOf(row) === editionOf(args))
+        .map((row) => ({
+          id: row.externalId,
+          name: row.name,
+          domain: row.domain,
+          biasLabel: row.biasLabel as BiasLabel,
+          factuality: row.factuality,
+          ownershipCategory: row.ownershipCategory ?? null,
+          edition: editionOf(row),
+        })),
+    };
+  },
+});
+
+/** Outlet profile (`/outlet/<id>`): owners, feeds, recent stories, exclusives and blindspot frequency. */
+export const profile = query({
+  args: { outletId: v.string(), limit: v.optional(v.number()) },
+  handler: async (ctx, args): Promise<OutletProfileDto | null> => {
+    const outlet = await ctx.db
+      .query('outlets')
+      .withIndex('by_externalId', (q) => q.eq('externalId', args.outletId))
+      .first();
+    if (!outlet) return null;
+    const userId = (await ctx.auth.getUserIdentity())?.subject;
+    const limit = Math.min(args.limit ?? 12, 30);
+
+    const articles = await ctx.db
+      .query('articles')
+      .withIndex('by_outlet', (q) => q.eq('outletId', outlet._id))
+      .order('desc')
+      .take(PROFILE_ARTICLES);
+    const seen = new Set<string>();
+    const clusters: Doc<'storyClusters'>[] = [];
+    for (const article of articles) {
+      const link = await ctx.db
+        .query('storyArticles')
+        .withIndex('by_article', (q) => q.eq('articleId', article._id))
+        .first();
+      if (!link || seen.has(link.storyId)) continue;
+      seen.add(link.storyId);
+      const story = await ctx.db.get(link.storyId);
+      if (story && !story.mergedIntoId) clusters.push(story);
+    }
+
+    const stories: StoryDto[] = [];
+    const exclusives: StoryDto[] = [];
+    for (const story of clusters.slice(0, PROFILE_STORIES)) {
+      const dto = await buildStoryDto(ctx, story, userId);
+      if (!dto) continue;
+      if (stories.length < limit) stories.push(dto);
+      const others = dto.articles
+        .filter((a) => a.outletId !== outlet.externalId)
+        .map((a) => a.outlet?.biasLabel ?? 'unknown');
+      if (exclusives.length < limit && isExclusiveCoverage(outlet.biasLabel, others)) exclusives.push(dto);
+    }
+
+    const feeds = await ctx.db
+      .query('feeds')
+      .withIndex('by_outlet', (q) => q.eq('outletId', outlet._id))
+      .collect();
+    const follow = userId
+      ? await ctx.db
+          .query('userFollows')
+          .withIndex('by_user_outlet', (q) => q.eq('userId', userId).eq('outletId', outlet._id))
+          .first()
+      : null;
+
+    return {
+      outlet: mapOutlet(outlet),
+      owners: outlet.ownerId
+        ? ownershipChain(await loadOwners(ctx), outlet.ownerId).map((o) => ({
+            id: o.id,
+            name: o.name,
+            category: o.category,
+          }))
+        : [],
+      feeds: feeds.map((f) => ({
+        url: f.url,
+        kind: f.kind ?? 'rss',
+        enabled: f.enabled,
+        lastSuccessAt: f.lastSuccessAt ? new Date(f.lastSuccessAt).toISOString() : null,
       })),
+      following: userId ? Boolean(follow) : null,
+      stories,
+      exclusives,
+      blindspots: blindspotFrequency(clusters.map((s) => s.blindspotSide)),
     };
   },
-});
\ No newline at end of file
+});
+
+/** Domains of enabled outlets, for `outletExternalIdForUrl` in actions (load once per run). */
+export const domainIndex = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    const rows = await ctx.db.query('outlets').collect();
+    return rows.filter((o) => o.enabled !== false).map((o) => ({ externalId: o.externalId, domain: o.domain }));
+  },
+});
@@ -0,0 +1,116 @@
+import { v } from 'convex/values';
+import { mutation, query, type MutationCtx } from './_generated/server';
+import type { Id } from './_generated/dataModel';
+import { requireAdmin } from './lib/admin';
+import { validateHttpUrl } from './lib/outletEdits';
+import { createsCycle, ownershipChain, validateOwnershipCategory } from './lib/ownership';
+import { loadOwners, refreshOwnerOutlets } from './lib/ownershipOps';
+import { slugify } from './lib/slug';
+
+const ownerFields = {
+  name: v.string(),
+  category: v.string(),
+  parentId: v.optional(v.id('owners')),
+  url: v.optional(v.string()),
+};
+
+type OwnerArgs = { name: string; category: string; parentId?: Id<'owners'>; url?: string };
+
+async function validateOwner(ctx: MutationCtx, args: OwnerArgs, ownerId?: Id<'owners'>) {
+  const name = args.name.trim();
+  if (!name) throw new Error('name is required');
+  const category = validateOwnershipCategory(args.category);
+  if (!category) throw new Error('category is required');
+  if (args.parentId) {
+    if (!(await ctx.db.get(args.parentId))) throw new Error('parent owner not found');
+    if (ownerId && createsCycle(await loadOwners(ctx), ownerId, args.parentId)) {
+      throw new Error(`${name} cannot be owned by one of its own subsidiaries`);
+    }
+  }
+  return {
+    name,
+    category,
+    parentId: args.parentId,
+    url: args.url?.trim() ? validateHttpUrl(args.url, 'owner URL') : undefined,
+  };
+}
+
+/** Owners with their parent chain and the outlets they own directly. */
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const owners = await loadOwners(ctx);
+    const rows = await ctx.db.query('owners').collect();
+    const out = [];
+    for (const o of rows.sort((a, b) => a.name.localeCompare(b.name))) {
+      const outlets = await ctx.db
+        .query('outlets')
+        .withIndex('by_owner', (q) => q.eq('ownerId', o._id))
+        .collect();
+      out.push({
+        id: o._id,
+        slug: o.slug,
+        name: o.name,
+        category: o.category,
+        parentId: o.parentId ?? null,
+        url: o.url ?? null,
+        chain: ownershipChain(owners, o._id)
+          .slice(1)
+          .map((p) => ({ id: p.id, name: p.name, category: p.category })),
+        outlets: outlets.map((x) => ({ id: x.externalId, name: x.name })),
+      });
+    }
+    return { owners: out };
+  },
+});
+
+export const createOwner = mutation({
+  args: ownerFields,
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    const fields = await validateOwner(ctx, args);
+    const slug = slugify(fields.name);
+    const taken = await ctx.db
+      .query('owners')
+      .withIndex('by_slug', (q) => q.eq('slug', slug))
+      .first();
+    if (taken) throw new Error(`an owner with id ${slug} already exists`);
+    const ownerId = await ctx.db.insert('owners', { slug, ...fields, origin: 'admin', updatedAt: Date.now() });
+    return { ownerId };
+  },
+});
+
+/** Edits cascade: every outlet owned by this owner or its subsidiaries is re-categorised. */
+export const updateOwner = mutation({
+  args: { ownerId: v.id('owners'), ...ownerFields },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    const owner = await ctx.db.get(args.ownerId);
+    if (!owner) throw new Error('owner not found');
+    const fields = await validateOwner(ctx, args, owner._id);
+    await ctx.db.patch(owner._id, { ...fields, updatedAt: Date.now() });
+    return { outletsChanged: await refreshOwnerOutlets(ctx, owner._id) };
+  },
+});
+
+/** Owners without outlets or subsidiaries can be deleted. */
+export const deleteOwner = mutation({
+  args: { ownerId: v.id('owners') },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    const owner = await ctx.db.get(args.ownerId);
+    if (!owner) throw new Error('owner not found');
+    const outlet = await ctx.db
+      .query('outlets')
+      .withIndex('by_owner', (q) => q.eq('ownerId', owner._id))
+      .first();
+    if (outlet) throw new Error(`${owner.name} still owns ${outlet.name}`);
+    const child = await ctx.db
+      .query('owners')
+      .withIndex('by_parent', (q) => q.eq('parentId', owner._id))
+      .first();
+    if (child) throw new Error(`${owner.name} is the parent of ${child.name}`);
+    await ctx.db.delete(owner._id);
+    return { deleted: true };
+  },
+});
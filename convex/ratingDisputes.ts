@@ -0,0 +1,181 @@
+import { v } from 'convex/values';
+import { mutation, query, type QueryCtx } from './_generated/server';
+import type { Doc } from './_generated/dataModel';
+import { requireAdmin } from './lib/admin';
+import type { AdminRatingDisputeDto, RatingDisputeDto } from './lib/aggregationTypes';
+import { logChange } from './lib/outletChanges';
+import { MAX_OPEN_PER_USER, validateDispute, validateRationale } from './lib/ratingDisputes';
+import { applyOutletRatings } from './lib/ratingOps';
+import { EDITORIAL_SOURCE, normalizeRating } from './lib/ratings';
+
+const kind = v.union(v.literal('bias'), v.literal('factuality'));
+/** Resolved disputes shown in an outlet's public changelog. */
+const CHANGELOG_LIMIT = 100;
+
+function mapDispute(row: Doc<'ratingDisputes'>): RatingDisputeDto {
+  return {
+    id: row._id,
+    kind: row.kind,
+    currentValue: row.currentValue,
+    proposedValue: row.proposedValue,
+    evidenceUrls: row.evidenceUrls,
+    status: row.status,
+    rationale: row.rationale ?? null,
+    createdAt: new Date(row.createdAt).toISOString(),
+    resolvedAt: row.resolvedAt ? new Date(row.resolvedAt).toISOString() : null,
+  };
+}
+
+async function outletByExternalId(ctx: QueryCtx, externalId: string) {
+  const outlet = await ctx.db
+    .query('outlets')
+    .withIndex('by_externalId', (q) => q.eq('externalId', externalId))
+    .first();
+  if (!outlet) throw new Error('outlet not found');
+  return outlet;
+}
+
+/** Signed-in readers dispute an outlet's bias or factuality label with evidence links. */
+export const submit = mutation({
+  args: {
+    outletId: v.string(),
+    kind,
+    proposedValue: v.string(),
+    claim: v.string(),
+    evidenceUrls: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error('Not authenticated');
+    const outlet = await outletByExternalId(ctx, args.outletId);
+    const currentValue = args.kind === 'bias' ? outlet.biasLabel : outlet.factuality;
+    const input = validateDispute(args, currentValue);
+    const open = await ctx.db
+      .query('ratingDisputes')
+      .withIndex('by_user', (q) => q.eq('userId', identity.subject).eq('status', 'open'))
+      .collect();
+    if (open.some((d) => d.outletId === outlet._id && d.kind === args.kind)) {
+      throw new Error(`you already have an open ${args.kind} dispute for ${outlet.name}`);
+    }
+    if (open.length >= MAX_OPEN_PER_USER) throw new Error(`at most ${MAX_OPEN_PER_USER} open disputes at a time`);
+    const disputeId = await ctx.db.insert('ratingDisputes', {
+      outletId: outlet._id,
+      userId: identity.subject,
+      ...input,
+      currentValue,
+      status: 'open',
+      createdAt: Date.now(),
+    });
+    return { disputeId };
+  },
+});
+
+/** Public changelog of resolved disputes for an outlet, plus the viewer's own open ones. */
+export const forOutlet = query({
+  args: { outletId: v.string() },
+  handler: async (ctx, args): Promise<{ resolved: RatingDisputeDto[]; mine: RatingDisputeDto[] }> => {
+    const outlet = await ctx.db
+      .query('outlets')
+      .withIndex('by_externalId', (q) => q.eq('externalId', args.outletId))
+      .first();
+    if (!outlet) return { resolved: [], mine: [] };
+    const identity = await ctx.auth.getUserIdentity();
+    // Read by status so a backlog of open disputes cannot push resolved ones out of the changelog.
+    const resolved: Doc<'ratingDisputes'>[] = [];
+    for (const status of ['accepted', 'rejected'] as const) {
+      const rows = await ctx.db
+        .query('ratingDisputes')
+        .withIndex('by_outlet_status', (q) => q.eq('outletId', outlet._id).eq('status', status))
+        .order('desc')
+        .take(CHANGELOG_LIMIT);
+      resolved.push(...rows);
+    }
+    const userId = identity?.subject;
+    const open = userId
+      ? await ctx.db
+          .query('ratingDisputes')
+          .withIndex('by_user', (q) => q.eq('userId', userId).eq('status', 'open'))
+          .collect()
+      : [];
+    return {
+      resolved: resolved
+        .sort((a, b) => (b.resolvedAt ?? 0) - (a.resolvedAt ?? 0))
+        .slice(0, CHANGELOG_LIMIT)
+        .map(mapDispute),
+      mine: open.filter((d) => d.outletId === outlet._id).map(mapDispute),
+    };
+  },
+});
+
+/** Admin review queue: open disputes, oldest first. */
+export const queue = query({
+  args: {},
+  handler: async (ctx): Promise<{ disputes: AdminRatingDisputeDto[] }> => {
+    await requireAdmin(ctx);
+    const rows = await ctx.db
+      .query('ratingDisputes')
+      .withIndex('by_status', (q) => q.eq('status', 'open'))
+      .take(100);
+    const disputes: AdminRatingDisputeDto[] = [];
+    for (const row of rows) {
+      const outlet = await ctx.db.get(row.outletId);
+      if (!outlet) continue;
+      disputes.push({
+        ...mapDispute(row),
+        outletId: outlet.externalId,
+        outletName: outlet.name,
+        claim: row.claim,
+        userId: row.userId,
+      });
+    }
+    return { disputes };
+  },
+});
+
+/**
+ * Accept or reject an open dispute with a public rationale. Accepting records the value (the
+ * proposed one unless `value` overrides it) as a new editorial rating and re-aggregates the outlet.
+ */
+export const resolve = mutation({
+  args: {
+    disputeId: v.id('ratingDisputes'),
+    decision: v.union(v.literal('accept'), v.literal('reject')),
+    rationale: v.string(),
+    value: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const actorId = await requireAdmin(ctx);
+    const dispute = await ctx.db.get(args.disputeId);
+    if (!dispute) throw new Error('dispute not found');
+    if (dispute.status !== 'open') throw new Error(`dispute is already ${dispute.status}`);
+    const outlet = await ctx.db.get(dispute.outletId);
+    if (!outlet) throw new Error('outlet not found');
+    const rationale = validateRationale(args.rationale);
+    const now = Date.now();
+
+    if (args.decision === 'reject') {
+      await ctx.db.patch(dispute._id, { status: 'rejected', rationale, reviewerId: actorId, resolvedAt: now });
+      return { status: 'rejected' as const };
+    }
+
+    const rawValue = args.value?.trim() || dispute.proposedValue;
+    const ratingId = await ctx.db.insert('outletRatings', {
+      outletId: outlet._id,
+      source: EDITORIAL_SOURCE,
+      kind: dispute.kind,
+      scale: 'facets',
+      rawValue,
+      score: normalizeRating('facets', dispute.kind, rawValue),
+      ratedAt: now,
+      url: dispute.evidenceUrls[0],
+      addedBy: actorId,
+      createdAt: now,
+    });
+    await applyOutletRatings(ctx, outlet._id);
+    await ctx.db.patch(dispute._id, { status: 'accepted', rationale, reviewerId: actorId, resolvedAt: now, ratingId });
+    await logChange(ctx, outlet, 'rating-add', actorId, [
+      { field: `${dispute.kind}:${EDITORIAL_SOURCE}`, before: dispute.currentValue, after: `${rawValue} (dispute)` },
+    ]);
+    return { status: 'accepted' as const, ratingId };
+  },
+});
@@ -0,0 +1,104 @@
+import { v } from 'convex/values';
+import { internalMutation, query } from './_generated/server';
+import type { Doc } from './_generated/dataModel';
+import type { BiasLabel, OutletRatingBreakdownDto } from './lib/aggregationTypes';
+import { applyOutletRatings, outletRatingRows, ratingConfig, recordEditorialRatings } from './lib/ratingOps';
+import { RATING_SCALES, sevenPointLabel, sourceKey, type RatingAggregatorConfig } from './lib/ratings';
+
+function toBreakdown(
+  o: Doc<'outlets'>,
+  rows: Doc<'outletRatings'>[],
+  config: RatingAggregatorConfig,
+): OutletRatingBreakdownDto {
+  const seen = new Set<string>();
+  return {
+    outletId: o.externalId,
+    name: o.name,
+    domain: o.domain,
+    biasLabel: o.biasLabel as BiasLabel,
+    biasScaleLabel: config.biasPoints === 7 && o.biasScore !== undefined ? sevenPointLabel(o.biasScore) : o.biasLabel,
+    biasScore: o.biasScore ?? null,
+    factuality: o.factuality,
+    factualityScore: o.factualityScore ?? null,
+    ratings: [...rows]
+      .sort((a, b) => b.ratedAt - a.ratedAt)
+      .map((r) => {
+        const k = `${r.kind}:${sourceKey(r.source)}`;
+        const current = !seen.has(k);
+        seen.add(k);
+        return {
+          id: r._id,
+          source: r.source,
+          kind: r.kind,
+          scale: r.scale,
+          scaleName: RATING_SCALES[r.scale]?.name ?? r.scale,
+          rawValue: r.rawValue,
+          score: r.score,
+          ratedAt: new Date(r.ratedAt).toISOString(),
+          url: r.url ?? null,
+          current,
+          weight: config.weights[sourceKey(r.source)] ?? 1,
+        };
+      }),
+  };
+}
+
+/** Rating breakdown for every enabled outlet, shown on /methodology. */
+export const breakdown = query({
+  args: {},
+  handler: async (
+    ctx,
+  ): Promise<{ method: 'mean' | 'median'; biasPoints: 5 | 7; outlets: OutletRatingBreakdownDto[] }> => {
+    const config = ratingConfig();
+    const outlets = (await ctx.db.query('outlets').collect())
+      .filter((o) => o.enabled !== false)
+      .sort((a, b) => a.name.localeCompare(b.name));
+    const out: OutletRatingBreakdownDto[] = [];
+    for (const o of outlets) out.push(toBreakdown(o, await outletRatingRows(ctx, o._id), config));
+    return { method: config.method, biasPoints: config.biasPoints, outlets: out };
+  },
+});
+
+/** One outlet's breakdown (by `externalId`) for the outlet page. */
+export const forOutlet = query({
+  args: { outletId: v.string() },
+  handler: async (ctx, args): Promise<OutletRatingBreakdownDto | null> => {
+    const outlet = await ctx.db
+      .query('outlets')
+      .withIndex('by_externalId', (q) => q.eq('externalId', args.outletId))
+      .first();
+    if (!outlet) return null;
+    return toBreakdown(outlet, await outletRatingRows(ctx, outlet._id), ratingConfig());
+  },
+});
+
+/**
+ * One-off after deploy: record each outlet's current labels as its editorial rating when it has
+ * no ratings yet. `npx convex run ratings:backfillEditorial`
+ */
+export const backfillEditorial = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    let outlets = 0;
+    for (const o of await ctx.db.query('outlets').collect()) {
+      if ((await outletRatingRows(ctx, o._id)).length) continue;
+      if (await recordEditorialRatings(ctx, o._id, o, o.origin === 'admin' ? 'admin' : 'seed', now)) outlets++;
+      await applyOutletRatings(ctx, o._id);
+    }
+    return { outlets };
+  },
+});
+
+/** Re-aggregate every outlet, e.g. after changing `RATING_AGGREGATE` or `RATING_SOURCE_WEIGHTS`. */
+export const recomputeAll = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const config = ratingConfig();
+    let changed = 0;
+    for (const o of await ctx.db.query('outlets').collect()) {
+      if (await applyOutletRatings(ctx, o._id, config)) changed++;
+    }
+    return { changed };
+  },
+});
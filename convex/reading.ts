@@ -0,0 +1,168 @@
+import { v } from 'convex/values';
+import { mutation, query } from './_generated/server';
+import type { Id } from './_generated/dataModel';
+import { resolveMergedStory } from './lib/clusterOps';
+import { entitlementsForPlan, normalizePlan } from './lib/entitlements';
+import {
+  READ_DEDUPE_MS,
+  READING_WINDOW_WEEKS,
+  readerSide,
+  readingMix,
+  topOutlets,
+  weekStartMs,
+} from './lib/readingStats';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+/** Reads scanned per dashboard load (newest first). */
+const MAX_EVENTS = 3000;
+const TOP_OUTLETS = 10;
+const MISSED_BLINDSPOTS = 10;
+
+/**
+ * Log a story open or an article click-through from the feed, a story page or the blindspot list.
+ * Signed-out readers and stories that have been archived since the page loaded are ignored.
+ */
+export const record = mutation({
+  args: {
+    slug: v.string(),
+    articleId: v.optional(v.string()),
+    source: v.union(v.literal('feed'), v.literal('story'), v.literal('blindspot')),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return { recorded: false };
+    const userId = identity.subject;
+    const row = await ctx.db
+      .query('storyClusters')
+      .withIndex('by_slug', (q) => q.eq('slug', args.slug))
+      .first();
+    if (!row) return { recorded: false };
+    const story = await resolveMergedStory(ctx, row);
+
+    let articleId: Id<'articles'> | undefined;
+    if (args.articleId) {
+      const id = ctx.db.normalizeId('articles', args.articleId);
+      const link = id
+        ? await ctx.db
+            .query('storyArticles')
+            .withIndex('by_article', (q) => q.eq('articleId', id))
+            .collect()
+        : [];
+      if (!id || !link.some((l) => l.storyId === story._id || l.storyId === row._id)) {
+        throw new Error('article is not part of this story');
+      }
+      articleId = id;
+    }
+
+    const now = Date.now();
+    const recent = await ctx.db
+      .query('readingEvents')
+      .withIndex('by_user_story', (q) =>
+        q.eq('userId', userId).eq('storyId', story._id).gte('at', now - READ_DEDUPE_MS),
+      )
+      .collect();
+    if (recent.some((e) => e.articleId === articleId)) return { recorded: false };
+
+    const article = articleId ? await ctx.db.get(articleId) : null;
+    const outlet = article ? await ctx.db.get(article.outletId) : null;
+    await ctx.db.insert('readingEvents', {
+      userId,
+      storyId: story._id,
+      articleId,
+      outletId: outlet?._id,
+      source: args.source,
+      bias: outlet?.biasLabel,
+      factuality: outlet?.factuality,
+      ownership: outlet?.ownershipCategory,
+      at: now,
+    });
+    return { recorded: true };
+  },
+});
+
+/**
+ * "My News Bias" (Plus / Pro): bias, factuality and ownership mix of the articles the reader opened,
+ * week by week, their most-read outlets, and recent blindspots for their side that they never opened.
+ */
+export const myNewsBias = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return { allowed: false, error: 'Sign in required', report: null };
+    const userId = identity.subject;
+    const sub = await ctx.db
+      .query('subscriptions')
+      .withIndex('by_user', (q) => q.eq('userId', userId))
+      .first();
+    const { limits } = entitlementsForPlan(normalizePlan(sub?.status === 'active' ? sub.plan : 'free'));
+    if (!limits.readingAnalytics) {
+      return { allowed: false, error: 'Plus or Pro required for My News Bias', report: null };
+    }
+
+    const now = Date.now();
+    const since = weekStartMs(now) - (READING_WINDOW_WEEKS - 1) * WEEK_MS;
+    const events = await ctx.db
+      .query('readingEvents')
+      .withIndex('by_user_at', (q) => q.eq('userId', userId).gte('at', since))
+      .order('desc')
+      .take(MAX_EVENTS);
+    const mix = readingMix(events, READING_WINDOW_WEEKS, now);
+
+    const outlets = [];
+    for (const top of topOutlets(events, TOP_OUTLETS)) {
+      const outlet = await ctx.db.get(top.outletId as Id<'outlets'>);
+      if (!outlet) continue;
+      outlets.push({
+        outletId: outlet.externalId,
+        name: outlet.name,
+        biasLabel: outlet.biasLabel,
+        factuality: outlet.factuality,
+        reads: top.reads,
+      });
+    }
+
+    const profile = await ctx.db
+      .query('userBiasProfile')
+      .withIndex('by_user', (q) => q.eq('userId', userId))
+      .first();
+    const side = readerSide(mix.total.bias, profile?.selfReportedLean);
+    const leanFromReading = Object.keys(mix.total.bias).some((label) => label !== 'unknown');
+    const missed = [];
+    if (side) {
+      const read = new Set<string>(events.map((e) => e.storyId));
+      const candidates = await ctx.db
+        .query('storyClusters')
+        .withIndex('by_blindspot', (q) => q.eq('blindspotSide', side).gte('lastUpdatedAt', since))
+        .order('desc')
+        .take(MISSED_BLINDSPOTS * 4);
+      for (const s of candidates) {
+        if (s.mergedIntoId || read.has(s._id)) continue;
+        missed.push({
+          id: s._id,
+          slug: s.slug,
+          canonicalTitle: s.canonicalTitle,
+          blindspotReason: s.blindspotReason ?? null,
+          lastUpdatedAt: new Date(s.lastUpdatedAt).toISOString(),
+        });
+        if (missed.length >= MISSED_BLINDSPOTS) break;
+      }
+    }
+
+    return {
+      allowed: true,
+      error: null,
+      report: {
+        since: new Date(since).toISOString(),
+        articles: mix.articles,
+        stories: mix.stories,
+        total: mix.total,
+        weeks: mix.weeks.map((w) => ({ ...w, start: new Date(w.start).toISOString() })),
+        topOutlets: outlets,
+        side,
+        sideFrom: side ? (leanFromReading ? ('reading' as const) : ('profile' as const)) : null,
+        missedBlindspots: missed,
+        truncated: events.length === MAX_EVENTS,
+      },
+    };
+  },
+});
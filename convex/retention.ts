@@ -0,0 +1,126 @@
+import { v } from 'convex/values';
+import { internalMutation, internalQuery } from './_generated/server';
+import {
+  addRemoved,
+  cutoff,
+  NOTIFICATIONS_KEEP_DAYS,
+  READING_EVENTS_KEEP_DAYS,
+  REPORT_SLUGS,
+  retentionPolicyFromEnv,
+  SEARCH_USAGE_KEEP_DAYS,
+  type RemovedCounts,
+} from './lib/retention';
+import { archiveStory, compactArticle, storyKeepReason } from './lib/retentionOps';
+import { cursorAfter, START_CURSOR, storiesAfter } from './lib/storyCursor';
+import { followedTopics } from './lib/topicOps';
+import { utcDay } from './lib/time';
+
+const STORY_BATCH = 100;
+const ARTICLE_BATCH = 200;
+
+/**
+ * Daily retention pass (cron): archive old single-source clusters, compact old articles and prune
+ * search usage, the reading log and old notifications. Writes a `retentionRuns` report.
+ *
+ * Stories are walked oldest update first from the previous report's cursor, which only moves
+ * forward: a kept story is not re-read until an update moves it past the cursor. Articles are
+ * picked through `by_compacted_fetched`, so compacted ones drop out of the scan on their own.
+ */
+export const run = internalMutation({
+  args: { storyLimit: v.optional(v.number()), articleLimit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const startedAt = Date.now();
+    const policy = retentionPolicyFromEnv(process.env.RETENTION_ARCHIVE_DAYS, process.env.RETENTION_COMPACT_DAYS);
+    const last = await ctx.db.query('retentionRuns').withIndex('by_started').order('desc').first();
+    const removed: RemovedCounts = {};
+    const kept: Record<string, number> = {};
+    const archivedSlugs: string[] = [];
+    let storiesScanned = 0;
+    let storiesArchived = 0;
+    let cursor =
+      last?.storyCursor === undefined
+        ? START_CURSOR
+        : { at: last.storyCursor, createdAt: last.storyCursorCreatedAt ?? Infinity };
+
+    if (policy.archiveAfterDays > 0) {
+      const before = cutoff(startedAt, policy.archiveAfterDays);
+      const stories = await storiesAfter(ctx, cursor, args.storyLimit ?? STORY_BATCH, before);
+      const topics = new Set(await followedTopics(ctx));
+      for (const story of stories) {
+        storiesScanned++;
+        const reason = await storyKeepReason(ctx, story, topics);
+        if (reason) {
+          kept[reason] = (kept[reason] ?? 0) + 1;
+          continue;
+        }
+        addRemoved(removed, await archiveStory(ctx, story, startedAt));
+        storiesArchived++;
+        if (archivedSlugs.length < REPORT_SLUGS) archivedSlugs.push(story.slug);
+      }
+      cursor = cursorAfter(stories, cursor);
+    }
+
+    let articlesCompacted = 0;
+    if (policy.compactAfterDays > 0) {
+      const before = cutoff(startedAt, policy.compactAfterDays);
+      const articles = await ctx.db
+        .query('articles')
+        .withIndex('by_compacted_fetched', (q) => q.eq('compactedAt', undefined).lt('fetchedAt', before))
+        .take(args.articleLimit ?? ARTICLE_BATCH);
+      for (const article of articles) {
+        addRemoved(removed, await compactArticle(ctx, article, startedAt));
+        articlesCompacted++;
+      }
+    }
+
+    const usage = await ctx.db
+      .query('searchUsage')
+      .withIndex('by_day', (q) => q.lt('day', utcDay(cutoff(startedAt, SEARCH_USAGE_KEEP_DAYS))))
+      .take(200);
+    for (const row of usage) await ctx.db.delete(row._id);
+    if (usage.length) removed.searchUsage = usage.length;
+
+    const reads = await ctx.db
+      .query('readingEvents')
+      .withIndex('by_at', (q) => q.lt('at', cutoff(startedAt, READING_EVENTS_KEEP_DAYS)))
+      .take(500);
+    for (const row of reads) await ctx.db.delete(row._id);
+    if (reads.length) removed.readingEvents = reads.length;
+
+    const notices = await ctx.db
+      .query('notifications')
+      .withIndex('by_created', (q) => q.lt('createdAt', cutoff(startedAt, NOTIFICATIONS_KEEP_DAYS)))
+      .take(500);
+    for (const row of notices) await ctx.db.delete(row._id);
+    if (notices.length) removed.notifications = notices.length;
+
+    const report = {
+      startedAt,
+      finishedAt: Date.now(),
+      archiveAfterDays: policy.archiveAfterDays,
+      compactAfterDays: policy.compactAfterDays,
+      storiesScanned,
+      storiesArchived,
+      kept,
+      articlesCompacted,
+      removed,
+      archivedSlugs,
+      storyCursor: cursor.at,
+      storyCursorCreatedAt: cursor.createdAt,
+    };
+    await ctx.db.insert('retentionRuns', report);
+    return report;
+  },
+});
+
+/** Latest retention reports: `npx convex run retention:recentRuns`. */
+export const recentRuns = internalQuery({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    return ctx.db
+      .query('retentionRuns')
+      .withIndex('by_started')
+      .order('desc')
+      .take(Math.min(args.limit ?? 10, 50));
+  },
+});
@@ -1,49 +1,111 @@
 'use node';
 
+import { v } from 'convex/values';
 import { internalAction } from './_generated/server';
 import { internal } from './_generated/api';
-import Parser from 'rss-parser';
+import type { Doc } from './_generated/dataModel';
 import { createHash } from 'crypto';
-import { cleanHeadline, isLikelyNewsHeadline } from './lib/headline';
+import { articleEmbeddingText, embedderFromEnv, embedForIngest } from './lib/embeddings';
+import { ACCEPT_BY_KIND, parseFeed, type FeedItem } from './lib/feedParsers';
 
-const parser = new Parser({
-  timeout: 20_000,
-  headers: { 'User-Agent': 'Facets/0.1 (+https://github.com/Aditya190803/Facets)' },
-});
+const USER_AGENT = 'Facets/0.1 (+https://github.com/Aditya190803/Facets)';
+const FETCH_TIMEOUT_MS = 20_000;
+/** A sitemap index is followed into its newest children only. */
+const MAX_CHILD_SITEMAPS = 2;
 
 function hashContent(title: string, url: string): string {
   return createHash('sha256').update(`${title}|${url}`).digest('hex').slice(0, 32);
 }
 
+type FeedFetch =
+  | { status: 'not-modified' }
+  | { status: 'ok'; body: string; etag?: string; lastModified?: string };
+
+/** Conditional GET: send stored validators so unchanged feeds cost a 304, not a parse. */
+async function fetchFeed(feed: Doc<'feeds'>): Promise<FeedFetch> {
+  const headers: Record<string, string> = {
+    'User-Agent': USER_AGENT,
+    Accept: ACCEPT_BY_KIND[feed.kind ?? 'rss'],
+  };
+  if (feed.lastEtag) headers['If-None-Match'] = feed.lastEtag;
+  if (feed.lastModified) headers['If-Modified-Since'] = feed.lastModified;
+
+  const res = await fetch(feed.url, { headers, signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  if (res.status === 304) return { status: 'not-modified' };
+  if (!res.ok) throw new Error(`Status code ${res.status}`);
+  return {
+    status: 'ok',
+    body: await res.text(),
+    etag: res.headers.get('etag') ?? undefined,
+    lastModified: res.headers.get('last-modified') ?? undefined,
+  };
+}
+
+/** Parse by feed kind; a sitemap index contributes the items of its newest child sitemaps. */
+async function feedItems(feed: Doc<'feeds'>, body: string): Promise<FeedItem[]> {
+  const parsed = await parseFeed(feed.kind, body);
+  const items = [...parsed.items];
+  for (const url of parsed.sitemaps.slice(0, MAX_CHILD_SITEMAPS)) {
+    const res = await fetch(url, {
+      headers: { 'User-Agent': USER_AGENT, Accept: ACCEPT_BY_KIND[feed.kind ?? 'rss'] },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+    if (!res.ok) throw new Error(`Status code ${res.status} (${url})`);
+    items.push(...(await parseFeed(feed.kind, await res.text())).items);
+  }
+  return items;
+}
+
+type PollResult = { inserted: number; feeds: number; polled: number; notModified: number };
+
 export const pollAll = internalAction({
-  args: {},
-  handler: async (ctx): Promise<{ inserted: number; feeds: number }> => {
-    const feeds = await ctx.runQuery(internal.rssQueries.listEnabledFeeds, {});
+  args: { force: v.optional(v.boolean()) },
+  handler: async (ctx, args): Promise<PollResult> => {
+    const feeds = args.force
+      ? await ctx.runQuery(internal.rssQueries.listEnabledFeeds, {})
+      : await ctx.runQuery(internal.rssQueries.listDueFeeds, { now: Date.now() });
+    const embedder = embedderFromEnv();
     let total = 0;
+    let notModified = 0;
     for (const feed of feeds) {
       try {
-        const parsed = await parser.parseURL(feed.url);
-        for (const item of parsed.items ?? []) {
-          const raw = item.title?.trim();
-          const link = item.link?.trim();
-          if (!raw || !link) continue;
-          const t = cleanHeadline(raw);
-          if (!isLikelyNewsHeadline(t)) continue;
-          const guid = String(item.guid || item.id || link);
-          const pub = item.pubDate ? new Date(item.pubDate).getTime() : undefined;
+        const fetched = await fetchFeed(feed);
+        if (fetched.status === 'not-modified') {
+          notModified++;
+          await ctx.runMutation(internal.rssMutations.patchFeedOk, { feedId: feed._id });
+          continue;
+        }
+        const items = await feedItems(feed, fetched.body);
+        const fresh = new Set(
+          await ctx.runQuery(internal.rssQueries.newGuids, { feedId: feed._id, guids: items.map((i) => i.guid) }),
+        );
+        const toInsert = items.filter((i) => fresh.has(i.guid));
+        const embeddings = await embedForIngest(
+          embedder,
+          toInsert.map((i) => articleEmbeddingText(i.title, i.summary)),
+        );
+        for (const [idx, item] of toInsert.entries()) {
           const res = await ctx.runMutation(internal.rssMutations.insertArticle, {
             feedId: feed._id,
             outletId: feed.outletId,
-            guid,
-            url: link,
-            title: t,
-            summary: item.contentSnippet?.slice(0, 2000) ?? item.summary ?? undefined,
-            publishedAt: pub,
-            contentHash: hashContent(t, link),
+            guid: item.guid,
+            url: item.link,
+            title: item.title,
+            summary: item.summary,
+            publishedAt: item.publishedAt,
+            contentHash: hashContent(item.title, item.link),
+            embedding: embeddings[idx]?.vector,
+            embeddingModel: embeddings[idx]?.model,
           });
           if (res.inserted) total++;
         }
-        await ctx.runMutation(internal.rssMutations.patchFeedOk, { feedId: feed._id });
+        await ctx.runMutation(internal.rssMutations.patchFeedOk, {
+          feedId: feed._id,
+          etag: fetched.etag,
+          lastModified: fetched.lastModified,
+          items: items.length,
+          fresh: toInsert.length,
+        });
       } catch (e) {
         await ctx.runMutation(internal.rssMutations.patchFeedError, {
           feedId: feed._id,
@@ -51,6 +113,6 @@ export const pollAll = internalAction({
         });
       }
     }
-    return { inserted: total, feeds: feeds.length };
+    return { inserted: total, feeds: feeds.length, polled: feeds.length - notModified, notModified };
   },
-});
\ No newline at end of file
+});
@@ -1,78 +1,105 @@
 import { v } from 'convex/values';
 import { internalMutation } from './_generated/server';
-import type { Id } from './_generated/dataModel';
+import type { Doc, Id } from './_generated/dataModel';
 import type { MutationCtx } from './_generated/server';
-import { titlesMatch } from './lib/cluster';
+import {
+  allocateStorySlug,
+  indexStoryTerms,
+  refreshCanonicalTitle,
+  reindexStory,
+  termIndexReader,
+} from './lib/clusterOps';
+import { editionOf, feedEdition, type EditionId } from './lib/editions';
+import type { ArticleEmbedding } from './lib/embeddings';
+import { rebuildStoryEntities, recordArticleEntities } from './lib/entityOps';
+import { autoDisableThreshold, FEED_POLL_RETENTION_MS, shouldAutoDisable } from './lib/feedHealth';
+import { nextPollAfter } from './lib/feedSchedule';
 import { cleanHeadline, pickCanonicalTitle } from './lib/headline';
-import { slugify } from './lib/slug';
-
-async function refreshCanonicalTitle(ctx: MutationCtx, storyId: Id<'storyClusters'>) {
-  const links = await ctx.db
-    .query('storyArticles')
-    .withIndex('by_story', (q) => q.eq('storyId', storyId))
-    .collect();
-  const titles: string[] = [];
-  for (const link of links) {
-    const art = await ctx.db.get(link.articleId);
-    if (art?.title) titles.push(art.title);
-  }
-  if (titles.length === 0) return;
-  const canonicalTitle = pickCanonicalTitle(titles);
-  await ctx.db.patch(storyId, { canonicalTitle, lastUpdatedAt: Date.now() });
+import { detectLanguage } from './lib/language';
+import { detectSyndication } from './lib/syndicationOps';
+import { similarityBackendFromEnv, type SimilarityDoc } from './lib/storySimilarity';
+import { candidateStories, indexTerms } from './lib/storyTerms';
+import { recordArticleJoin } from './lib/storyTimelineOps';
+
+async function articleEmbedding(ctx: MutationCtx, articleId: Id<'articles'>): Promise<ArticleEmbedding | null> {
+  const row = await ctx.db
+    .query('articleEmbeddings')
+    .withIndex('by_article', (q) => q.eq('articleId', articleId))
+    .first();
+  return row ? { model: row.model, vector: row.vector } : null;
 }
 
+/** Articles compared per candidate cluster; large clusters are represented by their newest members. */
+const ARTICLES_PER_CANDIDATE = 30;
+
 async function attachArticleToStory(
   ctx: MutationCtx,
   articleId: Id<'articles'>,
   title: string,
   publishedAt: number | null,
+  edition: EditionId,
+  embedding?: ArticleEmbedding,
 ) {
   title = cleanHeadline(title);
-  const since = Date.now() - 72 * 3_600_000;
-  const stories = await ctx.db
-    .query('storyClusters')
-    .withIndex('by_lastUpdated')
-    .order('desc')
-    .take(200);
-
-  for (const story of stories) {
-    if (story.lastUpdatedAt < since) continue;
+  const backend = similarityBackendFromEnv();
+  const incoming: SimilarityDoc = { title, publishedAt, embedding, edition };
+  const now = Date.now();
+  const since = now - 72 * 3_600_000;
+  const terms = indexTerms(title, edition);
+  const candidates = await candidateStories(termIndexReader(ctx), terms, since);
+
+  // Best-scoring cluster wins, so a paraphrase joins the closest event rather than the newest.
+  let best: { storyId: Id<'storyClusters'>; score: number } | null = null;
+  for (const storyId of candidates) {
+    const story = await ctx.db.get(storyId);
+    if (!story || story.lastUpdatedAt < since || story.mergedIntoId || editionOf(story) !== edition) continue;
     const links = await ctx.db
       .query('storyArticles')
-      .withIndex('by_story', (q) => q.eq('storyId', story._id))
-      .collect();
+      .withIndex('by_story', (q) => q.eq('storyId', storyId))
+      .order('desc')
+      .take(ARTICLES_PER_CANDIDATE);
     for (const link of links) {
       const art = await ctx.db.get(link.articleId);
       if (!art) continue;
-      if (titlesMatch(title, art.title, publishedAt, art.publishedAt ?? null)) {
-        if (!links.some((l) => l.articleId === articleId)) {
-          await ctx.db.insert('storyArticles', {
-            storyId: story._id,
-            articleId,
-            relevanceScore: 95,
-          });
-        }
-        await refreshCanonicalTitle(ctx, story._id);
-        return story._id;
-      }
+      const score = backend.score(incoming, {
+        title: art.title,
+        publishedAt: art.publishedAt ?? null,
+        edition,
+        embedding: backend.usesEmbeddings && embedding ? await articleEmbedding(ctx, art._id) : null,
+      });
+      if (score !== null && (!best || score > best.score)) best = { storyId, score };
     }
   }
 
-  const now = Date.now();
-  let slug = slugify(title);
-  const clash = await ctx.db
-    .query('storyClusters')
-    .withIndex('by_slug', (q) => q.eq('slug', slug))
-    .first();
-  if (clash) slug = `${slug}-${now.toString(36)}`;
+  if (best) {
+    const linked = await ctx.db
+      .query('storyArticles')
+      .withIndex('by_article', (q) => q.eq('articleId', articleId))
+      .collect();
+    if (!linked.some((l) => l.storyId === best.storyId)) {
+      await ctx.db.insert('storyArticles', {
+        storyId: best.storyId,
+        articleId,
+        relevanceScore: Math.round(best.score * 100),
+      });
+    }
+    await refreshCanonicalTitle(ctx, best.storyId);
+    await indexStoryTerms(ctx, best.storyId, terms, now);
+    await recordArticleJoin(ctx, best.storyId, articleId, now);
+    return best.storyId;
+  }
 
+  const slug = await allocateStorySlug(ctx, title, now);
   const storyId = await ctx.db.insert('storyClusters', {
     canonicalTitle: pickCanonicalTitle([title]),
     slug,
     firstSeenAt: now,
     lastUpdatedAt: now,
+    edition,
   });
   await ctx.db.insert('storyArticles', { storyId, articleId, relevanceScore: 100 });
+  await indexStoryTerms(ctx, storyId, terms, now);
+  await recordArticleJoin(ctx, storyId, articleId, now);
   return storyId;
 }
 
@@ -86,6 +113,10 @@ export const insertArticle = internalMutation({
     summary: v.optional(v.string()),
     publishedAt: v.optional(v.number()),
     contentHash: v.string(),
+    embedding: v.optional(v.array(v.float64())),
+    embeddingModel: v.optional(v.string()),
+    /** Cluster within this edition instead of the feed's (Exa hits widening a regional story). */
+    edition: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const existing = await ctx.db
@@ -95,6 +126,7 @@ export const insertArticle = internalMutation({
     if (existing) return { articleId: existing._id, inserted: false };
 
     const now = Date.now();
+    const language = detectLanguage(`${args.title} ${args.summary ?? ''}`);
     const articleId = await ctx.db.insert('articles', {
       feedId: args.feedId,
       outletId: args.outletId,
@@ -105,24 +137,119 @@ export const insertArticle = internalMutation({
       publishedAt: args.publishedAt,
       fetchedAt: now,
       contentHash: args.contentHash,
+      language: language === 'en' ? undefined : language,
     });
 
-    await attachArticleToStory(ctx, articleId, args.title, args.publishedAt ?? null);
+    let embedding: ArticleEmbedding | undefined;
+    if (args.embedding && args.embeddingModel) {
+      embedding = { model: args.embeddingModel, vector: args.embedding };
+      await ctx.db.insert('articleEmbeddings', {
+        articleId,
+        model: embedding.model,
+        vector: embedding.vector,
+        createdAt: now,
+      });
+    }
+
+    const feed = await ctx.db.get(args.feedId);
+    const outlet = await ctx.db.get(args.outletId);
+    const edition = args.edition ? editionOf(args) : feedEdition(feed ?? {}, outlet ?? {});
+    await recordArticleEntities(ctx, articleId, [args.title, args.summary ?? ''], edition, now);
+    const storyId = await attachArticleToStory(
+      ctx,
+      articleId,
+      args.title,
+      args.publishedAt ?? null,
+      edition,
+      embedding,
+    );
+    await rebuildStoryEntities(ctx, storyId);
+    await detectSyndication(ctx, articleId);
     return { articleId, inserted: true };
   },
 });
 
+async function recordPoll(
+  ctx: MutationCtx,
+  feedId: Id<'feeds'>,
+  now: number,
+  poll: { status: Doc<'feedPolls'>['status']; items?: number; fresh?: number; error?: string },
+) {
+  await ctx.db.insert('feedPolls', { feedId, at: now, ...poll });
+  const expired = await ctx.db
+    .query('feedPolls')
+    .withIndex('by_feed_at', (q) => q.eq('feedId', feedId).lt('at', now - FEED_POLL_RETENTION_MS))
+    .take(50);
+  for (const row of expired) await ctx.db.delete(row._id);
+}
+
 export const patchFeedOk = internalMutation({
-  args: { feedId: v.id('feeds') },
+  args: {
+    feedId: v.id('feeds'),
+    etag: v.optional(v.string()),
+    lastModified: v.optional(v.string()),
+    /** Parsed items and how many were new; omitted for 304 responses. */
+    items: v.optional(v.number()),
+    fresh: v.optional(v.number()),
+  },
   handler: async (ctx, args) => {
-    await ctx.db.patch(args.feedId, { lastFetchedAt: Date.now(), lastError: undefined });
+    const feed = await ctx.db.get(args.feedId);
+    if (!feed) return;
+    const now = Date.now();
+    await ctx.db.patch(args.feedId, {
+      lastFetchedAt: now,
+      lastSuccessAt: now,
+      lastError: undefined,
+      errorStreak: 0,
+      nextPollAt: nextPollAfter(now, feed.pollIntervalSec, 0),
+      // 304 responses omit validators, so keep ours; a 200 replaces them (clearing any the server dropped).
+      ...(args.items === undefined
+        ? { lastEtag: args.etag ?? feed.lastEtag, lastModified: args.lastModified ?? feed.lastModified }
+        : { lastEtag: args.etag, lastModified: args.lastModified }),
+    });
+    await recordPoll(
+      ctx,
+      feed._id,
+      now,
+      args.items === undefined
+        ? { status: 'not-modified' }
+        : { status: 'ok', items: args.items, fresh: args.fresh ?? 0 },
+    );
   },
 });
 
 export const patchFeedError = internalMutation({
   args: { feedId: v.id('feeds'), error: v.string() },
   handler: async (ctx, args) => {
-    await ctx.db.patch(args.feedId, { lastFetchedAt: Date.now(), lastError: args.error });
+    const feed = await ctx.db.get(args.feedId);
+    if (!feed) return;
+    const now = Date.now();
+    const errorStreak = (feed.errorStreak ?? 0) + 1;
+    await ctx.db.patch(args.feedId, {
+      lastFetchedAt: now,
+      lastError: args.error,
+      errorStreak,
+      nextPollAt: nextPollAfter(now, feed.pollIntervalSec, errorStreak),
+    });
+    await recordPoll(ctx, feed._id, now, { status: 'error', error: args.error.slice(0, 300) });
+
+    if (feed.enabled && shouldAutoDisable(errorStreak, autoDisableThreshold(process.env.FEED_AUTO_DISABLE_AFTER))) {
+      const reason = `Auto-disabled after ${errorStreak} consecutive failures: ${args.error}`.slice(0, 300);
+      await ctx.db.patch(args.feedId, { enabled: false, disabledReason: reason, disabledAt: now });
+      const outlet = await ctx.db.get(feed.outletId);
+      if (outlet) {
+        await ctx.db.insert('outletChanges', {
+          outletId: outlet._id,
+          outletName: outlet.name,
+          feedId: feed._id,
+          op: 'feed-update',
+          actorId: 'system',
+          changes: [{ field: 'enabled', before: 'true', after: 'false' }],
+          note: reason,
+          createdAt: now,
+        });
+      }
+    }
   },
 });
 
@@ -136,4 +263,36 @@ export const recomputeCanonicalTitles = internalMutation({
     }
     return { stories: rows.length };
   },
-});
\ No newline at end of file
+});
+
+/** Backfill / repair the story term index: `npx convex run rssMutations:rebuildStoryTerms`. */
+export const rebuildStoryTerms = internalMutation({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const rows = await ctx.db.query('storyClusters').withIndex('by_lastUpdated').order('desc').take(args.limit ?? 300);
+    for (const s of rows) {
+      await reindexStory(ctx, s._id);
+    }
+    return { stories: rows.length };
+  },
+});
+
+/** Backfill syndication links for recent stories: `npx convex run rssMutations:rebuildSyndication`. */
+export const rebuildSyndication = internalMutation({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const rows = await ctx.db.query('storyClusters').withIndex('by_lastUpdated').order('desc').take(args.limit ?? 100);
+    let articles = 0;
+    for (const s of rows) {
+      const links = await ctx.db
+        .query('storyArticles')
+        .withIndex('by_story', (q) => q.eq('storyId', s._id))
+        .collect();
+      for (const link of links) {
+        await detectSyndication(ctx, link.articleId);
+        articles++;
+      }
+    }
+    return { stories: rows.length, articles };
+  },
+});
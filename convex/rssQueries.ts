@@ -1,9 +1,42 @@
-import { internalQuery } from './_generated/server';
+import { v } from 'convex/values';
+import { internalQuery, type QueryCtx } from './_generated/server';
+import { isFeedDue } from './lib/feedSchedule';
+
+/** Enabled feeds of outlets that are not disabled. */
+async function activeFeeds(ctx: QueryCtx) {
+  const disabledOutlets = new Set(
+    (await ctx.db.query('outlets').collect()).filter((o) => o.enabled === false).map((o) => o._id),
+  );
+  const all = await ctx.db.query('feeds').collect();
+  return all.filter((f) => f.enabled && !disabledOutlets.has(f.outletId));
+}
 
 export const listEnabledFeeds = internalQuery({
   args: {},
-  handler: async (ctx) => {
-    const all = await ctx.db.query('feeds').collect();
-    return all.filter((f) => f.enabled);
+  handler: async (ctx) => activeFeeds(ctx),
+});
+
+/** Enabled feeds whose `nextPollAt` (interval + error backoff) has passed. */
+export const listDueFeeds = internalQuery({
+  args: { now: v.number() },
+  handler: async (ctx, args) => {
+    const all = await activeFeeds(ctx);
+    return all.filter((f) => isFeedDue(f, args.now));
+  },
+});
+
+/** GUIDs from a fetched batch that are not stored yet (skip embedding known items). */
+export const newGuids = internalQuery({
+  args: { feedId: v.id('feeds'), guids: v.array(v.string()) },
+  handler: async (ctx, args) => {
+    const fresh: string[] = [];
+    for (const guid of args.guids) {
+      const existing = await ctx.db
+        .query('articles')
+        .withIndex('by_feed_guid', (q) => q.eq('feedId', args.feedId).eq('guid', guid))
+        .first();
+      if (!existing) fresh.push(guid);
+    }
+    return fresh;
   },
-});
\ No newline at end of file
+});
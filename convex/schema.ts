@@ -9,8 +9,123 @@ export default defineSchema({
     biasLabel: v.string(),
     factuality: v.string(),
     ratingSource: v.optional(v.string()),
+    /** `OWNERSHIP_CATEGORIES` (`convex/lib/ownership.ts`); derived from the owner chain when `ownerId` is set. */
     ownershipCategory: v.optional(v.string()),
-  }).index('by_externalId', ['externalId']),
+    ownerId: v.optional(v.id('owners')),
+    /** Circulation / traffic tier for reach-weighted coverage (`convex/lib/reach.ts`); unset = `standard`. */
+    reachTier: v.optional(
+      v.union(v.literal('national'), v.literal('regional'), v.literal('standard'), v.literal('niche')),
+    ),
+    /** `false` stops polling and URL matching; existing articles stay. */
+    enabled: v.optional(v.boolean()),
+    /** `admin` rows are left alone by `seed:seedOutlets`. */
+    origin: v.optional(v.union(v.literal('seed'), v.literal('admin'))),
+    /** Last admin edit; seed no longer overwrites fields once set. */
+    updatedAt: v.optional(v.number()),
+    /** Regional edition (`convex/lib/editions.ts`); unset = `in-national`. */
+    edition: v.optional(v.string()),
+    /** Publishing language (ISO 639-1); unset = English. Articles still carry their own detected language. */
+    language: v.optional(v.string()),
+    /** Aggregated `outletRatings` (`convex/lib/ratings.ts`): bias -1 … +1, factuality 0 … 1. */
+    biasScore: v.optional(v.number()),
+    factualityScore: v.optional(v.number()),
+  })
+    .index('by_externalId', ['externalId'])
+    .index('by_domain', ['domain'])
+    .index('by_owner', ['ownerId']),
+
+  /** Companies, people and public bodies that own outlets, with an optional parent (ownership chains). */
+  owners: defineTable({
+    slug: v.string(),
+    name: v.string(),
+    category: v.union(
+      v.literal('independent'),
+      v.literal('media_conglomerate'),
+      v.literal('corporation'),
+      v.literal('private_equity'),
+      v.literal('individual'),
+      v.literal('government'),
+      v.literal('telecom'),
+      v.literal('other'),
+    ),
+    parentId: v.optional(v.id('owners')),
+    url: v.optional(v.string()),
+    /** `admin` rows and admin-edited seed rows are left alone by `seed:seedOutlets`. */
+    origin: v.optional(v.union(v.literal('seed'), v.literal('admin'))),
+    updatedAt: v.optional(v.number()),
+  })
+    .index('by_slug', ['slug'])
+    .index('by_parent', ['parentId']),
+
+  /** Change history for admin outlet / feed edits. */
+  outletChanges: defineTable({
+    outletId: v.id('outlets'),
+    outletName: v.string(),
+    feedId: v.optional(v.id('feeds')),
+    op: v.union(
+      v.literal('create'),
+      v.literal('update'),
+      v.literal('enable'),
+      v.literal('disable'),
+      v.literal('delete'),
+      v.literal('feed-add'),
+      v.literal('feed-update'),
+      v.literal('feed-delete'),
+      v.literal('rating-add'),
+      v.literal('rating-remove'),
+    ),
+    actorId: v.string(),
+    changes: v.array(v.object({ field: v.string(), before: v.optional(v.string()), after: v.optional(v.string()) })),
+    note: v.optional(v.string()),
+    createdAt: v.number(),
+  })
+    .index('by_outlet', ['outletId', 'createdAt'])
+    .index('by_created', ['createdAt']),
+
+  /**
+   * Rating observations per outlet, one row per source and date. The latest row from each source
+   * feeds the aggregated `biasLabel` / `factuality` on the outlet (`convex/lib/ratingOps.ts`).
+   */
+  outletRatings: defineTable({
+    outletId: v.id('outlets'),
+    /** Display name, e.g. "AllSides" or "Facets editorial". */
+    source: v.string(),
+    kind: v.union(v.literal('bias'), v.literal('factuality')),
+    /** Scale id in `RATING_SCALES`. */
+    scale: v.string(),
+    rawValue: v.string(),
+    /** Normalised value: bias -1 … +1, factuality 0 … 1. */
+    score: v.number(),
+    ratedAt: v.number(),
+    url: v.optional(v.string()),
+    /** `seed` or the admin's user id. */
+    addedBy: v.string(),
+    createdAt: v.number(),
+  }).index('by_outlet', ['outletId', 'kind']),
+
+  /** Reader disputes of an outlet label, reviewed on /admin/disputes; resolved ones are public on the outlet page. */
+  ratingDisputes: defineTable({
+    outletId: v.id('outlets'),
+    userId: v.string(),
+    kind: v.union(v.literal('bias'), v.literal('factuality')),
+    /** Effective label when the dispute was filed. */
+    currentValue: v.string(),
+    /** Value on the `facets` scale. */
+    proposedValue: v.string(),
+    claim: v.string(),
+    evidenceUrls: v.array(v.string()),
+    status: v.union(v.literal('open'), v.literal('accepted'), v.literal('rejected')),
+    rationale: v.optional(v.string()),
+    reviewerId: v.optional(v.string()),
+    resolvedAt: v.optional(v.number()),
+    /** Observation created when accepted. */
+    ratingId: v.optional(v.id('outletRatings')),
+    createdAt: v.number(),
+  })
+    .index('by_status', ['status', 'createdAt'])
+    .index('by_outlet', ['outletId', 'createdAt'])
+    .index('by_outlet_status', ['outletId', 'status', 'resolvedAt'])
+    .index('by_user', ['userId', 'status']),
 
   feeds: defineTable({
     externalId: v.string(),
@@ -21,10 +136,39 @@ export default defineSchema({
     lastModified: v.optional(v.string()),
     lastFetchedAt: v.optional(v.number()),
     lastError: v.optional(v.string()),
+    errorStreak: v.optional(v.number()),
+    nextPollAt: v.optional(v.number()),
+    lastSuccessAt: v.optional(v.number()),
     enabled: v.boolean(),
+    /** Set when the feed was switched off automatically (see `FEED_AUTO_DISABLE_AFTER`). */
+    disabledReason: v.optional(v.string()),
+    disabledAt: v.optional(v.number()),
+    /** Overrides the outlet's edition for this feed (e.g. a national outlet's city feed). */
+    edition: v.optional(v.string()),
+    /** Parser for the URL (`convex/lib/feedParsers.ts`); unset = `rss`. */
+    kind: v.optional(
+      v.union(
+        v.literal('rss'),
+        v.literal('atom'),
+        v.literal('json-feed'),
+        v.literal('sitemap'),
+        v.literal('google-news-sitemap'),
+      ),
+    ),
   })
     .index('by_externalId', ['externalId'])
-    .index('by_url', ['url']),
+    .index('by_url', ['url'])
+    .index('by_outlet', ['outletId']),
+
+  /** One row per poll attempt (pruned after 7 days) for the feed health dashboard. */
+  feedPolls: defineTable({
+    feedId: v.id('feeds'),
+    at: v.number(),
+    status: v.union(v.literal('ok'), v.literal('not-modified'), v.literal('error')),
+    items: v.optional(v.number()),
+    fresh: v.optional(v.number()),
+    error: v.optional(v.string()),
+  }).index('by_feed_at', ['feedId', 'at']),
 
   articles: defineTable({
     feedId: v.id('feeds'),
@@ -36,9 +180,102 @@ export default defineSchema({
     publishedAt: v.optional(v.number()),
     fetchedAt: v.number(),
     contentHash: v.string(),
+    /** Earliest near-duplicate in the same story when this article is syndicated copy. */
+    syndicatedFromId: v.optional(v.id('articles')),
+    /** Wire agency credited in the copy (PTI, ANI, IANS, Reuters, …). */
+    wireSource: v.optional(v.string()),
+    /** Detected from title and summary on ingest (`convex/lib/language.ts`); absent means English. */
+    language: v.optional(v.string()),
+    /** Set by retention once embeddings, signatures and body text were dropped (`convex/retention.ts`). */
+    compactedAt: v.optional(v.number()),
+    /** Body extraction (`articleTextMutations.nextJobs`): unset = not tried, `retry` = due again at `extractDueAt`. */
+    extractState: v.optional(v.union(v.literal('retry'), v.literal('done'))),
+    extractDueAt: v.optional(v.number()),
   })
     .index('by_feed_guid', ['feedId', 'guid'])
-    .index('by_published', ['publishedAt']),
+    .index('by_published', ['publishedAt'])
+    .index('by_outlet', ['outletId', 'publishedAt'])
+    .index('by_compacted_fetched', ['compactedAt', 'fetchedAt'])
+    .index('by_extract', ['extractState', 'extractDueAt']),
+
+  articleEmbeddings: defineTable({
+    articleId: v.id('articles'),
+    model: v.string(),
+    vector: v.array(v.float64()),
+    createdAt: v.number(),
+  }).index('by_article', ['articleId']),
+
+  /** Daily call / failure counts per server search provider (quota accounting + failover). */
+  searchUsage: defineTable({
+    provider: v.string(),
+    day: v.string(),
+    calls: v.number(),
+    failures: v.number(),
+    lastError: v.optional(v.string()),
+    /** Skip this provider until then (rate limited or out of credit). */
+    exhaustedUntil: v.optional(v.number()),
+    updatedAt: v.number(),
+  })
+    .index('by_provider_day', ['provider', 'day'])
+    .index('by_day', ['day']),
+
+  /** MinHash of word shingles used for near-duplicate (syndication) detection. */
+  articleSignatures: defineTable({
+    articleId: v.id('articles'),
+    signature: v.array(v.float64()),
+    source: v.union(v.literal('title_summary'), v.literal('body')),
+    createdAt: v.number(),
+  }).index('by_article', ['articleId']),
+
+  /** People, organisations, places and parties; one row per normalised name (`convex/lib/namedEntities.ts`). */
+  entities: defineTable({
+    slug: v.string(),
+    name: v.string(),
+    kind: v.union(v.literal('person'), v.literal('org'), v.literal('place'), v.literal('party')),
+    articleCount: v.number(),
+    firstSeenAt: v.number(),
+    lastSeenAt: v.number(),
+  }).index('by_slug', ['slug']),
+
+  articleEntities: defineTable({
+    articleId: v.id('articles'),
+    entityId: v.id('entities'),
+    mentions: v.number(),
+  })
+    .index('by_article', ['articleId'])
+    .index('by_entity', ['entityId']),
+
+  /** Per-story entity totals, rebuilt whenever the story's articles change. */
+  storyEntities: defineTable({
+    storyId: v.id('storyClusters'),
+    entityId: v.id('entities'),
+    mentions: v.number(),
+    articleCount: v.number(),
+    lastSeenAt: v.number(),
+  })
+    .index('by_story', ['storyId'])
+    .index('by_entity_seen', ['entityId', 'lastSeenAt']),
+
+  /** Cleaned full text fetched from the article URL (one row per attempted article). */
+  articleBodies: defineTable({
+    articleId: v.id('articles'),
+    status: v.union(v.literal('ok'), v.literal('empty'), v.literal('blocked'), v.literal('failed')),
+    text: v.optional(v.string()),
+    author: v.optional(v.string()),
+    leadImage: v.optional(v.string()),
+    wordCount: v.number(),
+    attempts: v.number(),
+    error: v.optional(v.string()),
+    extractedAt: v.number(),
+  }).index('by_article', ['articleId']),
+
+  /** Per-host robots.txt cache and politeness clock for article fetching. */
+  crawlHosts: defineTable({
+    host: v.string(),
+    robotsTxt: v.optional(v.string()),
+    robotsFetchedAt: v.optional(v.number()),
+    nextFetchAt: v.number(),
+  }).index('by_host', ['host']),
 
   storyClusters: defineTable({
     canonicalTitle: v.string(),
@@ -47,14 +284,148 @@ export default defineSchema({
     lastUpdatedAt: v.number(),
     blindspotSide: v.optional(v.string()),
     blindspotReason: v.optional(v.string()),
+    /** `name@version` of the blindspot formula that set `blindspotSide` (`blindspotFormulas`). */
+    blindspotFormula: v.optional(v.string()),
     biasCompareSummary: v.optional(v.string()),
     biasCompareAt: v.optional(v.number()),
     searchText: v.optional(v.string()),
+    mergedIntoId: v.optional(v.id('storyClusters')),
+    /** Edition of the feed that started the cluster; unset = `in-national`. */
+    edition: v.optional(v.string()),
+    /** Ongoing storyline this cluster belongs to (linked by `storylines.linkRecent`). */
+    storylineId: v.optional(v.id('storylines')),
   })
     .index('by_slug', ['slug'])
+    .index('by_storyline', ['storylineId', 'firstSeenAt'])
     .index('by_lastUpdated', ['lastUpdatedAt'])
+    .index('by_edition_updated', ['edition', 'lastUpdatedAt'])
     .index('by_blindspot', ['blindspotSide', 'lastUpdatedAt']),
 
+  /** Named, versioned blindspot thresholds (`convex/lib/blindspotFormula.ts`); at most one row is active. */
+  blindspotFormulas: defineTable({
+    name: v.string(),
+    version: v.number(),
+    params: v.object({
+      minSources: v.number(),
+      maxLowFactualityShare: v.number(),
+      missingSideMaxSources: v.number(),
+      heavySideMinPct: v.number(),
+      missingSideSlope: v.number(),
+      fallbackHeavyPct: v.number(),
+      fallbackMissingMaxSources: v.number(),
+      /** Which coverage count the thresholds apply to; unset = `articles`. */
+      weighting: v.optional(v.union(v.literal('articles'), v.literal('outlets'), v.literal('reach'))),
+    }),
+    note: v.optional(v.string()),
+    active: v.boolean(),
+    createdAt: v.number(),
+    activatedAt: v.optional(v.number()),
+  })
+    .index('by_name_version', ['name', 'version'])
+    .index('by_active', ['active']),
+
+  /** Story timeline: outlets joining, headline changes, blindspot flips, coverage milestones. */
+  storyEvents: defineTable({
+    storyId: v.id('storyClusters'),
+    kind: v.union(
+      v.literal('outlet_joined'),
+      v.literal('title_changed'),
+      v.literal('blindspot_changed'),
+      v.literal('milestone'),
+    ),
+    at: v.number(),
+    outletId: v.optional(v.id('outlets')),
+    articleId: v.optional(v.id('articles')),
+    /** Outlet bias label when it joined. */
+    bias: v.optional(v.string()),
+    /** First article's publish time, for "who broke it first". */
+    publishedAt: v.optional(v.number()),
+    from: v.optional(v.string()),
+    to: v.optional(v.string()),
+    /** Distinct outlets, for milestones. */
+    count: v.optional(v.number()),
+  })
+    .index('by_story_at', ['storyId', 'at'])
+    .index('by_story_kind', ['storyId', 'kind'])
+    .index('by_story_outlet', ['storyId', 'outletId']),
+
+  /** Clusters about one ongoing event, linked by shared rare entities across weeks. */
+  storylines: defineTable({
+    title: v.string(),
+    slug: v.string(),
+    /** Entities that linked its clusters. */
+    entities: v.array(v.string()),
+    edition: v.optional(v.string()),
+    firstSeenAt: v.number(),
+    lastUpdatedAt: v.number(),
+  })
+    .index('by_slug', ['slug'])
+    .index('by_lastUpdated', ['lastUpdatedAt']),
+
+  storyTerms: defineTable({
+    term: v.string(),
+    storyId: v.id('storyClusters'),
+    seenAt: v.number(),
+  })
+    .index('by_term_seen', ['term', 'seenAt'])
+    .index('by_story_term', ['storyId', 'term']),
+
+  clusterAudit: defineTable({
+    op: v.union(v.literal('merge'), v.literal('split')),
+    actorId: v.string(),
+    storyId: v.id('storyClusters'),
+    otherStoryId: v.id('storyClusters'),
+    articleIds: v.array(v.id('articles')),
+    /** Merge only: articles both stories had, whose link from the dropped story was deleted; a revert restores it. */
+    sharedArticleIds: v.optional(v.array(v.id('articles'))),
+    note: v.optional(v.string()),
+    createdAt: v.number(),
+    revertedAt: v.optional(v.number()),
+    revertedBy: v.optional(v.string()),
+  })
+    .index('by_created', ['createdAt'])
+    .index('by_story', ['storyId'])
+    .index('by_other', ['otherStoryId']),
+
+  /** Single-source clusters removed by retention: enough to answer an old link or export. */
+  archivedStories: defineTable({
+    slug: v.string(),
+    canonicalTitle: v.string(),
+    edition: v.optional(v.string()),
+    firstSeenAt: v.number(),
+    lastUpdatedAt: v.number(),
+    articles: v.array(
+      v.object({
+        outletId: v.id('outlets'),
+        title: v.string(),
+        url: v.string(),
+        publishedAt: v.optional(v.number()),
+      }),
+    ),
+    archivedAt: v.number(),
+  }).index('by_slug', ['slug']),
+
+  /** One report per retention run: what was archived, compacted and removed. */
+  retentionRuns: defineTable({
+    startedAt: v.number(),
+    finishedAt: v.number(),
+    archiveAfterDays: v.number(),
+    compactAfterDays: v.number(),
+    storiesScanned: v.number(),
+    storiesArchived: v.number(),
+    /** Clusters past the archive age that were kept, by reason (verified, followed, multi-source, …). */
+    kept: v.record(v.string(), v.number()),
+    articlesCompacted: v.number(),
+    /** Rows deleted per table. */
+    removed: v.record(v.string(), v.number()),
+    archivedSlugs: v.array(v.string()),
+    /** Where the next run resumes in `storyClusters.by_lastUpdated`; unset = start from the oldest story. */
+    storyCursor: v.optional(v.number()),
+    storyCursorCreatedAt: v.optional(v.number()),
+    /** Older runs only: compaction now selects articles through `by_compacted_fetched`. */
+    articleCursor: v.optional(v.number()),
+  }).index('by_started', ['startedAt']),
+
   storyArticles: defineTable({
     storyId: v.id('storyClusters'),
     articleId: v.id('articles'),
@@ -68,7 +439,8 @@ export default defineSchema({
     outletId: v.id('outlets'),
   })
     .index('by_user', ['userId'])
-    .index('by_user_outlet', ['userId', 'outletId']),
+    .index('by_user_outlet', ['userId', 'outletId'])
+    .index('by_outlet', ['outletId']),
 
   userBiasProfile: defineTable({
     userId: v.string(),
@@ -76,13 +448,96 @@ export default defineSchema({
     updatedAt: v.number(),
   }).index('by_user', ['userId']),
 
+  /**
+   * Story opens and article click-throughs per signed-in reader (`convex/reading.ts`). Article reads
+   * keep the outlet's labels as they were at read time so the "My News Bias" history does not shift
+   * when an outlet is re-rated.
+   */
+  readingEvents: defineTable({
+    userId: v.string(),
+    storyId: v.id('storyClusters'),
+    articleId: v.optional(v.id('articles')),
+    outletId: v.optional(v.id('outlets')),
+    source: v.union(v.literal('feed'), v.literal('story'), v.literal('blindspot')),
+    bias: v.optional(v.string()),
+    factuality: v.optional(v.string()),
+    ownership: v.optional(v.string()),
+    at: v.number(),
+  })
+    .index('by_user_at', ['userId', 'at'])
+    .index('by_user_story', ['userId', 'storyId', 'at'])
+    .index('by_at', ['at']),
+
   userTopicFollows: defineTable({
     userId: v.string(),
     topic: v.string(),
     createdAt: v.number(),
   })
     .index('by_user', ['userId'])
-    .index('by_user_topic', ['userId', 'topic']),
+    .index('by_user_topic', ['userId', 'topic'])
+    .index('by_topic', ['topic', 'userId']),
+
+  /** Blindspot digest email preferences (`convex/digests.ts`); one row per user. */
+  digestSubscriptions: defineTable({
+    userId: v.string(),
+    email: v.string(),
+    frequency: v.union(v.literal('daily'), v.literal('weekly'), v.literal('off')),
+    /** Secret in unsubscribe links; works without signing in. */
+    unsubscribeToken: v.string(),
+    lastSentAt: v.optional(v.number()),
+    /** Also email topic alerts to this address (`topicAlerts`). */
+    topicAlertEmail: v.optional(v.boolean()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index('by_user', ['userId'])
+    .index('by_token', ['unsubscribeToken'])
+    .index('by_frequency', ['frequency', 'lastSentAt']),
+
+  /** One report per digest send (`digestActions.send`). */
+  digestRuns: defineTable({
+    frequency: v.union(v.literal('daily'), v.literal('weekly')),
+    transport: v.string(),
+    startedAt: v.number(),
+    finishedAt: v.number(),
+    sent: v.number(),
+    /** Subscribers whose digest would have been empty. */
+    skipped: v.number(),
+    failed: v.number(),
+    /** The first few send errors. */
+    errors: v.array(v.string()),
+    /** Set while later pages are still scheduled; `finishedAt` is then the latest page's. */
+    running: v.optional(v.boolean()),
+  }).index('by_started', ['startedAt']),
+
+  /** In-app notifications; today only topic alerts (`convex/topicAlerts.ts`). */
+  notifications: defineTable({
+    userId: v.string(),
+    kind: v.literal('topic'),
+    storyId: v.id('storyClusters'),
+    slug: v.string(),
+    title: v.string(),
+    /** Followed topics the story matched. */
+    topics: v.array(v.string()),
+    createdAt: v.number(),
+    readAt: v.optional(v.number()),
+  })
+    .index('by_user_created', ['userId', 'createdAt'])
+    .index('by_user_story', ['userId', 'storyId'])
+    .index('by_created', ['createdAt']),
+
+  /** One report per topic alert pass (after each feed ingest); `storyCursor` is where the next pass resumes. */
+  topicAlertRuns: defineTable({
+    startedAt: v.number(),
+    storyCursor: v.number(),
+    storyCursorCreatedAt: v.optional(v.number()),
+    storiesScanned: v.number(),
+    notified: v.number(),
+    duplicates: v.number(),
+    throttled: v.number(),
+    emailed: v.number(),
+    emailErrors: v.array(v.string()),
+  }).index('by_started', ['startedAt']),
 
   subscriptions: defineTable({
     userId: v.string(),
@@ -113,5 +568,6 @@ export default defineSchema({
     .index('by_user', ['userId'])
     .index('by_user_created', ['userId', 'createdAt'])
     .index('by_contentHash', ['contentHash'])
-    .index('by_slug', ['slug']),
+    .index('by_slug', ['slug'])
+    .index('by_story', ['storyId']),
 });
\ No newline at end of file
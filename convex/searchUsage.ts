@@ -0,0 +1,90 @@
+import { v } from 'convex/values';
+import { internalMutation, internalQuery, query } from './_generated/server';
+import { requireAdmin } from './lib/admin';
+import { parseSearchQuotas, SEARCH_PROVIDER_NAMES, type SearchUsageState } from './lib/searchProviders';
+import { utcDay } from './lib/time';
+
+/** Today's calls and cooldowns per provider, loaded once at the start of a search run. */
+export const today = internalQuery({
+  args: {},
+  handler: async (ctx): Promise<SearchUsageState> => {
+    const rows = await ctx.db
+      .query('searchUsage')
+      .withIndex('by_day', (q) => q.eq('day', utcDay(Date.now())))
+      .collect();
+    const state: SearchUsageState = {};
+    for (const r of rows) {
+      if ((SEARCH_PROVIDER_NAMES as readonly string[]).includes(r.provider)) {
+        state[r.provider as keyof SearchUsageState] = { calls: r.calls, exhaustedUntil: r.exhaustedUntil };
+      }
+    }
+    return state;
+  },
+});
+
+export const record = internalMutation({
+  args: {
+    entries: v.array(
+      v.object({
+        provider: v.string(),
+        calls: v.number(),
+        failures: v.number(),
+        lastError: v.optional(v.string()),
+        exhaustedUntil: v.optional(v.number()),
+      }),
+    ),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const day = utcDay(now);
+    for (const e of args.entries) {
+      if (e.calls === 0 && e.failures === 0) continue;
+      const row = await ctx.db
+        .query('searchUsage')
+        .withIndex('by_provider_day', (q) => q.eq('provider', e.provider).eq('day', day))
+        .first();
+      if (!row) {
+        await ctx.db.insert('searchUsage', { ...e, day, updatedAt: now });
+        continue;
+      }
+      await ctx.db.patch(row._id, {
+        calls: row.calls + e.calls,
+        failures: row.failures + e.failures,
+        lastError: e.lastError ?? row.lastError,
+        exhaustedUntil: Math.max(row.exhaustedUntil ?? 0, e.exhaustedUntil ?? 0) || undefined,
+        updatedAt: now,
+      });
+    }
+  },
+});
+
+/** Per-provider usage for the last few days against `SEARCH_DAILY_QUOTA` (admin). */
+export const summary = query({
+  args: { days: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    const quotas = parseSearchQuotas(process.env.SEARCH_DAILY_QUOTA);
+    const days = Math.min(args.days ?? 7, 31);
+    const now = Date.now();
+    const out = [];
+    for (let i = 0; i < days; i++) {
+      const day = utcDay(now - i * 86_400_000);
+      const rows = await ctx.db
+        .query('searchUsage')
+        .withIndex('by_day', (q) => q.eq('day', day))
+        .collect();
+      for (const r of rows) {
+        out.push({
+          provider: r.provider,
+          day,
+          calls: r.calls,
+          failures: r.failures,
+          quota: quotas[r.provider as keyof typeof quotas] ?? null,
+          lastError: r.lastError ?? null,
+          exhaustedUntil: r.exhaustedUntil && r.exhaustedUntil > now ? r.exhaustedUntil : null,
+        });
+      }
+    }
+    return { usage: out };
+  },
+});
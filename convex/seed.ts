@@ -1,10 +1,36 @@
 import { internalMutation } from './_generated/server';
-import { OUTLET_IDS, OUTLET_SEED } from './seedData';
+import type { Id } from './_generated/dataModel';
+import { validateOwnershipCategory } from './lib/ownership';
+import { applyOutletOwnership, loadOwners } from './lib/ownershipOps';
+import { applyOutletRatings, ratingConfig, recordEditorialRatings } from './lib/ratingOps';
+import { OUTLET_IDS, OUTLET_SEED, OWNER_SEED } from './seedData';
 
 export const seedOutlets = internalMutation({
   args: {},
   handler: async (ctx) => {
     let n = 0;
+    const now = Date.now();
+    const config = ratingConfig();
+    const ownerIds = new Map<string, Id<'owners'>>();
+    for (const row of OWNER_SEED) {
+      const existing = await ctx.db
+        .query('owners')
+        .withIndex('by_slug', (q) => q.eq('slug', row.slug))
+        .first();
+      const fields = {
+        name: row.name,
+        category: validateOwnershipCategory(row.category)!,
+        parentId: row.parent ? ownerIds.get(row.parent) : undefined,
+      };
+      if (!existing) {
+        ownerIds.set(row.slug, await ctx.db.insert('owners', { slug: row.slug, ...fields, origin: 'seed' }));
+      } else {
+        ownerIds.set(row.slug, existing._id);
+        // Owners edited on /admin/outlets keep their admin values.
+        if (!existing.updatedAt) await ctx.db.patch(existing._id, fields);
+      }
+    }
+    const owners = await loadOwners(ctx);
     for (const row of OUTLET_SEED) {
       const existing = await ctx.db
         .query('outlets')
@@ -20,9 +46,14 @@ export const seedOutlets = internalMutation({
           factuality: row.factuality,
           ratingSource: row.ratingSource,
           ownershipCategory: row.ownershipCategory,
+          ownerId: row.owner ? ownerIds.get(row.owner) : undefined,
+          reachTier: row.reachTier,
+          language: row.language,
+          origin: 'seed',
         });
         n++;
-      } else {
+      } else if (!existing?.updatedAt) {
+        // Outlets edited on /admin/outlets keep their admin values.
         await ctx.db.patch(outletId, {
           name: row.name,
           domain: row.domain,
@@ -30,8 +61,16 @@ export const seedOutlets = internalMutation({
           factuality: row.factuality,
           ratingSource: row.ratingSource,
           ownershipCategory: row.ownershipCategory,
+          ownerId: row.owner ? ownerIds.get(row.owner) : undefined,
+          reachTier: row.reachTier,
+          language: row.language,
         });
       }
+      // Seed labels are the editorial rating; outlets with other rating sources keep their aggregate.
+      if (!existing?.updatedAt) await recordEditorialRatings(ctx, outletId, row, 'seed', now);
+      await applyOutletRatings(ctx, outletId, config);
+      const outlet = await ctx.db.get(outletId);
+      if (outlet) await applyOutletOwnership(ctx, outlet, owners);
       const feedExt = `feed-${row.id}`;
       const feedExisting = await ctx.db
         .query('feeds')
@@ -45,15 +84,22 @@ export const seedOutlets = internalMutation({
           pollIntervalSec: 900,
           enabled: true,
         });
-      } else {
+      } else if (!existing?.updatedAt) {
         await ctx.db.patch(feedExisting._id, { url: row.feedUrl, enabled: true });
       }
     }
+    // Seed rows dropped from OUTLET_SEED stop polling and leave the feed; admin-created outlets are untouched.
+    const retired = new Set<string>();
+    for (const outlet of await ctx.db.query('outlets').collect()) {
+      if (outlet.origin === 'admin' || OUTLET_IDS.has(outlet.externalId)) continue;
+      retired.add(outlet._id);
+      if (outlet.enabled !== false) await ctx.db.patch(outlet._id, { enabled: false });
+    }
     let disabled = 0;
     const feeds = await ctx.db.query('feeds').collect();
     for (const feed of feeds) {
       const outlet = await ctx.db.get(feed.outletId);
-      if (!outlet || !OUTLET_IDS.has(outlet.externalId)) {
+      if (!outlet || retired.has(outlet._id)) {
         if (feed.enabled) {
           await ctx.db.patch(feed._id, { enabled: false });
           disabled++;
@@ -1,3 +1,5 @@
+import type { ReachTier } from './lib/reach';
+
 export type OutletSeedRow = {
   id: string;
   name: string;
@@ -7,6 +9,12 @@ export type OutletSeedRow = {
   ratingSource: string;
   feedUrl: string;
   ownershipCategory?: string;
+  /** `OWNER_SEED` slug; the outlet's ownership category then follows the owner chain. */
+  owner?: string;
+  /** Publishing language (ISO 639-1) for non-English outlets. */
+  language?: string;
+  /** Circulation / traffic tier; unset = `standard`. */
+  reachTier?: ReachTier;
 };
 
 /** India-focused outlets (national RSS; bias labels are manual seed). */
@@ -19,6 +27,7 @@ export const OUTLET_SEED: OutletSeedRow[] = [
     factuality: 'high',
     ratingSource: 'manual-seed',
     feedUrl: 'https://www.thehindu.com/news/national/feeder/default.rss',
+    reachTier: 'national',
   },
   {
     id: 'indian-express',
@@ -28,6 +37,7 @@ export const OUTLET_SEED: OutletSeedRow[] = [
     factuality: 'high',
     ratingSource: 'manual-seed',
     feedUrl: 'https://indianexpress.com/section/india/feed/',
+    reachTier: 'national',
   },
   {
     id: 'ndtv',
@@ -37,6 +47,8 @@ export const OUTLET_SEED: OutletSeedRow[] = [
     factuality: 'high',
     ratingSource: 'manual-seed',
     feedUrl: 'https://feeds.feedburner.com/ndtvnews-india-news',
+    owner: 'amg-media-networks',
+    reachTier: 'national',
   },
   {
     id: 'toi',
@@ -46,6 +58,8 @@ export const OUTLET_SEED: OutletSeedRow[] = [
     factuality: 'mixed',
     ratingSource: 'manual-seed',
     feedUrl: 'https://timesofindia.indiatimes.com/rssfeeds/1226516.cms',
+    owner: 'bennett-coleman',
+    reachTier: 'national',
   },
   {
     id: 'ht',
@@ -55,6 +69,8 @@ export const OUTLET_SEED: OutletSeedRow[] = [
     factuality: 'high',
     ratingSource: 'manual-seed',
     feedUrl: 'https://www.hindustantimes.com/feeds/rss/india-news/rssfeed.xml',
+    owner: 'ht-media',
+    reachTier: 'national',
   },
   {
     id: 'india-today',
@@ -64,6 +80,8 @@ export const OUTLET_SEED: OutletSeedRow[] = [
     factuality: 'mixed',
     ratingSource: 'manual-seed',
     feedUrl: 'https://www.indiatoday.in/rss/1206578',
+    owner: 'living-media',
+    reachTier: 'national',
   },
   {
     id: 'wire',
@@ -102,26 +120,55 @@ export const OUTLET_SEED: OutletSeedRow[] = [
     feedUrl: 'https://www.republicworld.com/india.rss',
     ownershipCategory: 'corporation',
   },
-  { id: 'news18', name: 'News18', domain: 'news18.com', biasLabel: 'center', factuality: 'mixed', ratingSource: 'manual-seed', feedUrl: 'https://www.news18.com/rss/india.xml', ownershipCategory: 'media_conglomerate' },
-  { id: 'firstpost', name: 'Firstpost', domain: 'firstpost.com', biasLabel: 'center-left', factuality: 'mixed', ratingSource: 'manual-seed', feedUrl: 'https://www.firstpost.com/rss/india.xml', ownershipCategory: 'media_conglomerate' },
-  { id: 'livemint', name: 'Mint', domain: 'livemint.com', biasLabel: 'center-left', factuality: 'high', ratingSource: 'manual-seed', feedUrl: 'https://www.livemint.com/rss/news', ownershipCategory: 'media_conglomerate' },
-  { id: 'deccan-herald', name: 'Deccan Herald', domain: 'deccanherald.com', biasLabel: 'center-left', factuality: 'high', ratingSource: 'manual-seed', feedUrl: 'https://www.deccanherald.com/rss-feed', ownershipCategory: 'independent' },
-  { id: 'tribune', name: 'The Tribune', domain: 'tribuneindia.com', biasLabel: 'center', factuality: 'high', ratingSource: 'manual-seed', feedUrl: 'https://www.tribuneindia.com/rss/feed', ownershipCategory: 'independent' },
-  { id: 'zee-news', name: 'Zee News', domain: 'zeenews.india.com', biasLabel: 'right', factuality: 'mixed', ratingSource: 'manual-seed', feedUrl: 'https://zeenews.india.com/rss/india-national.xml', ownershipCategory: 'media_conglomerate' },
-  { id: 'abp-live', name: 'ABP Live', domain: 'abplive.com', biasLabel: 'center-right', factuality: 'mixed', ratingSource: 'manual-seed', feedUrl: 'https://news.abplive.com/rss/india.xml', ownershipCategory: 'media_conglomerate' },
-  { id: 'economic-times', name: 'Economic Times', domain: 'economictimes.indiatimes.com', biasLabel: 'center', factuality: 'high', ratingSource: 'manual-seed', feedUrl: 'https://economictimes.indiatimes.com/rssfeeds/1715249553.cms', ownershipCategory: 'media_conglomerate' },
+  { id: 'news18', name: 'News18', domain: 'news18.com', biasLabel: 'center', factuality: 'mixed', ratingSource: 'manual-seed', feedUrl: 'https://www.news18.com/rss/india.xml', ownershipCategory: 'media_conglomerate', owner: 'network18', reachTier: 'national' },
+  { id: 'firstpost', name: 'Firstpost', domain: 'firstpost.com', biasLabel: 'center-left', factuality: 'mixed', ratingSource: 'manual-seed', feedUrl: 'https://www.firstpost.com/rss/india.xml', ownershipCategory: 'media_conglomerate', owner: 'network18' },
+  { id: 'livemint', name: 'Mint', domain: 'livemint.com', biasLabel: 'center-left', factuality: 'high', ratingSource: 'manual-seed', feedUrl: 'https://www.livemint.com/rss/news', ownershipCategory: 'media_conglomerate', owner: 'ht-media' },
+  { id: 'deccan-herald', name: 'Deccan Herald', domain: 'deccanherald.com', biasLabel: 'center-left', factuality: 'high', ratingSource: 'manual-seed', feedUrl: 'https://www.deccanherald.com/rss-feed', ownershipCategory: 'independent', reachTier: 'regional' },
+  { id: 'tribune', name: 'The Tribune', domain: 'tribuneindia.com', biasLabel: 'center', factuality: 'high', ratingSource: 'manual-seed', feedUrl: 'https://www.tribuneindia.com/rss/feed', ownershipCategory: 'independent', reachTier: 'regional' },
+  { id: 'zee-news', name: 'Zee News', domain: 'zeenews.india.com', biasLabel: 'right', factuality: 'mixed', ratingSource: 'manual-seed', feedUrl: 'https://zeenews.india.com/rss/india-national.xml', ownershipCategory: 'media_conglomerate', owner: 'zee-media' },
+  { id: 'abp-live', name: 'ABP Live', domain: 'abplive.com', biasLabel: 'center-right', factuality: 'mixed', ratingSource: 'manual-seed', feedUrl: 'https://news.abplive.com/rss/india.xml', ownershipCategory: 'media_conglomerate', owner: 'abp-group' },
+  { id: 'economic-times', name: 'Economic Times', domain: 'economictimes.indiatimes.com', biasLabel: 'center', factuality: 'high', ratingSource: 'manual-seed', feedUrl: 'https://economictimes.indiatimes.com/rssfeeds/1715249553.cms', ownershipCategory: 'media_conglomerate', owner: 'bennett-coleman' },
   { id: 'business-standard', name: 'Business Standard', domain: 'business-standard.com', biasLabel: 'center', factuality: 'high', ratingSource: 'manual-seed', feedUrl: 'https://www.business-standard.com/rss/home_page_top_stories.rss', ownershipCategory: 'independent' },
   { id: 'outlook', name: 'Outlook India', domain: 'outlookindia.com', biasLabel: 'center-left', factuality: 'mixed', ratingSource: 'manual-seed', feedUrl: 'https://www.outlookindia.com/rss/main/feed', ownershipCategory: 'independent' },
   { id: 'the-quint', name: 'The Quint', domain: 'thequint.com', biasLabel: 'center-left', factuality: 'mixed', ratingSource: 'manual-seed', feedUrl: 'https://www.thequint.com/feed', ownershipCategory: 'independent' },
-  { id: 'newslaundry', name: 'Newslaundry', domain: 'newslaundry.com', biasLabel: 'left', factuality: 'high', ratingSource: 'manual-seed', feedUrl: 'https://www.newslaundry.com/feed', ownershipCategory: 'independent' },
+  { id: 'newslaundry', name: 'Newslaundry', domain: 'newslaundry.com', biasLabel: 'left', factuality: 'high', ratingSource: 'manual-seed', feedUrl: 'https://www.newslaundry.com/feed', ownershipCategory: 'independent', reachTier: 'niche' },
   { id: 'dnaindia', name: 'DNA India', domain: 'dnaindia.com', biasLabel: 'center', factuality: 'mixed', ratingSource: 'manual-seed', feedUrl: 'https://www.dnaindia.com/feeds/india.xml', ownershipCategory: 'media_conglomerate' },
-  { id: 'fpj', name: 'Free Press Journal', domain: 'freepressjournal.in', biasLabel: 'center', factuality: 'mixed', ratingSource: 'manual-seed', feedUrl: 'https://www.freepressjournal.in/rss/feed', ownershipCategory: 'independent' },
-  { id: 'bbc-news', name: 'BBC News', domain: 'bbc.com', biasLabel: 'center-left', factuality: 'high', ratingSource: 'manual-seed', feedUrl: 'https://feeds.bbci.co.uk/news/world/asia/india/rss.xml', ownershipCategory: 'government' },
-  { id: 'reuters', name: 'Reuters', domain: 'reuters.com', biasLabel: 'center', factuality: 'very-high', ratingSource: 'manual-seed', feedUrl: 'https://www.reutersagency.com/feed/?taxonomy=best-topics&post_type=best', ownershipCategory: 'corporation' },
+  { id: 'fpj', name: 'Free Press Journal', domain: 'freepressjournal.in', biasLabel: 'center', factuality: 'mixed', ratingSource: 'manual-seed', feedUrl: 'https://www.freepressjournal.in/rss/feed', ownershipCategory: 'independent', reachTier: 'regional' },
+  { id: 'bbc-news', name: 'BBC News', domain: 'bbc.com', biasLabel: 'center-left', factuality: 'high', ratingSource: 'manual-seed', feedUrl: 'https://feeds.bbci.co.uk/news/world/asia/india/rss.xml', ownershipCategory: 'government', reachTier: 'national' },
+  { id: 'reuters', name: 'Reuters', domain: 'reuters.com', biasLabel: 'center', factuality: 'very-high', ratingSource: 'manual-seed', feedUrl: 'https://www.reutersagency.com/feed/?taxonomy=best-topics&post_type=best', ownershipCategory: 'corporation', owner: 'thomson-reuters' },
   { id: 'al-jazeera', name: 'Al Jazeera', domain: 'aljazeera.com', biasLabel: 'center-left', factuality: 'mixed', ratingSource: 'manual-seed', feedUrl: 'https://www.aljazeera.com/xml/rss/all.xml', ownershipCategory: 'government' },
-  { id: 'opindia', name: 'OpIndia', domain: 'opindia.com', biasLabel: 'right', factuality: 'low', ratingSource: 'manual-seed', feedUrl: 'https://www.opindia.com/feed/', ownershipCategory: 'independent' },
-  { id: 'swarajya', name: 'Swarajya', domain: 'swarajyamag.com', biasLabel: 'right', factuality: 'mixed', ratingSource: 'manual-seed', feedUrl: 'https://swarajyamag.com/feed', ownershipCategory: 'independent' },
+  { id: 'opindia', name: 'OpIndia', domain: 'opindia.com', biasLabel: 'right', factuality: 'low', ratingSource: 'manual-seed', feedUrl: 'https://www.opindia.com/feed/', ownershipCategory: 'independent', reachTier: 'niche' },
+  { id: 'swarajya', name: 'Swarajya', domain: 'swarajyamag.com', biasLabel: 'right', factuality: 'mixed', ratingSource: 'manual-seed', feedUrl: 'https://swarajyamag.com/feed', ownershipCategory: 'independent', reachTier: 'niche' },
   { id: 'print', name: 'The Print', domain: 'theprint.in', biasLabel: 'center-left', factuality: 'high', ratingSource: 'manual-seed', feedUrl: 'https://theprint.in/feed/', ownershipCategory: 'independent' },
+  { id: 'dainik-jagran', name: 'Dainik Jagran', domain: 'jagran.com', biasLabel: 'center-right', factuality: 'mixed', ratingSource: 'manual-seed', feedUrl: 'https://www.jagran.com/rss/news/national.xml', ownershipCategory: 'media_conglomerate', language: 'hi', owner: 'jagran-prakashan', reachTier: 'national' },
+  { id: 'amar-ujala', name: 'Amar Ujala', domain: 'amarujala.com', biasLabel: 'center', factuality: 'mixed', ratingSource: 'manual-seed', feedUrl: 'https://www.amarujala.com/rss/india-news.xml', ownershipCategory: 'corporation', language: 'hi', reachTier: 'national' },
+  { id: 'dainik-bhaskar', name: 'Dainik Bhaskar', domain: 'bhaskar.com', biasLabel: 'center', factuality: 'mixed', ratingSource: 'manual-seed', feedUrl: 'https://www.bhaskar.com/rss-v1--category-1061.xml', ownershipCategory: 'media_conglomerate', language: 'hi', owner: 'db-corp', reachTier: 'national' },
+  { id: 'lokmat', name: 'Lokmat', domain: 'lokmat.com', biasLabel: 'center', factuality: 'mixed', ratingSource: 'manual-seed', feedUrl: 'https://www.lokmat.com/rss/national/', ownershipCategory: 'media_conglomerate', language: 'mr', owner: 'lokmat-media', reachTier: 'regional' },
+];
+
+export type OwnerSeedRow = {
+  slug: string;
+  name: string;
+  category: string;
+  /** Parent owner slug (listed earlier). */
+  parent?: string;
+};
+
+/** Owners of seeded outlets; parents come before their subsidiaries. */
+export const OWNER_SEED: OwnerSeedRow[] = [
+  { slug: 'bennett-coleman', name: 'Bennett, Coleman & Co.', category: 'media_conglomerate' },
+  { slug: 'ht-media', name: 'HT Media', category: 'media_conglomerate' },
+  { slug: 'reliance-industries', name: 'Reliance Industries', category: 'corporation' },
+  { slug: 'network18', name: 'Network18 Media & Investments', category: 'media_conglomerate', parent: 'reliance-industries' },
+  { slug: 'adani-group', name: 'Adani Group', category: 'corporation' },
+  { slug: 'amg-media-networks', name: 'AMG Media Networks', category: 'media_conglomerate', parent: 'adani-group' },
+  { slug: 'living-media', name: 'Living Media India', category: 'media_conglomerate' },
+  { slug: 'zee-media', name: 'Zee Media Corporation', category: 'media_conglomerate' },
+  { slug: 'abp-group', name: 'ABP Group', category: 'media_conglomerate' },
+  { slug: 'thomson-reuters', name: 'Thomson Reuters', category: 'corporation' },
+  { slug: 'jagran-prakashan', name: 'Jagran Prakashan', category: 'media_conglomerate' },
+  { slug: 'db-corp', name: 'DB Corp', category: 'media_conglomerate' },
+  { slug: 'lokmat-media', name: 'Lokmat Media', category: 'media_conglomerate' },
 ];
 
 export const OUTLET_IDS = new Set<string>(OUTLET_SEED.map((o) => o.id));
\ No newline at end of file
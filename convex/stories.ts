@@ -1,8 +1,10 @@
 import { v } from 'convex/values';
-import { query } from './_generated/server';
+import { query, type QueryCtx } from './_generated/server';
+import { resolveMergedStory } from './lib/clusterOps';
+import { DEFAULT_EDITION, editionOf } from './lib/editions';
 import { buildStoryDto, rankStories } from './lib/storyBuild';
-import type { StoryDto } from './lib/aggregationTypes';
-import { OUTLET_IDS } from './seedData';
+import { storyTopics, topicEntities } from './lib/topicOps';
+import type { ArchivedStoryDto, StoryDto } from './lib/aggregationTypes';
 
 function coverageScore(s: StoryDto) {
   const outlets = new Set(s.articles.map((x) => x.outletId)).size;
@@ -13,6 +15,9 @@ function coverageScore(s: StoryDto) {
 const LEFT_LABELS = new Set(['left', 'center-left']);
 const RIGHT_LABELS = new Set(['right', 'center-right']);
 
+/** Topic scan depth: matches are sparse, so read further back than the main feed. */
+const TOPIC_FEED_SCAN = 300;
+
 function storyMatchesFilters(
   dto: StoryDto,
   args: {
@@ -48,29 +53,62 @@ async function collectStories(
     userId?: string;
     blindspotSide?: string;
     searchQ?: string;
+    edition?: string;
     filters?: Parameters<typeof storyMatchesFilters>[1];
+    /** Keep only stories matching one of these followed topics; matches are recorded per story id. */
+    topics?: { followed: string[]; matches: Record<string, string[]> };
+    /** Rows read before filtering (default `limit * 4`). */
+    scan?: number;
   },
 ) {
+  const scan = opts.scan ?? opts.limit * 4;
+  const edition = opts.edition ? editionOf(opts) : undefined;
   let rows;
   if (opts.blindspotSide && opts.blindspotSide !== 'all') {
     rows = await ctx.db
       .query('storyClusters')
       .withIndex('by_blindspot', (q) => q.eq('blindspotSide', opts.blindspotSide!))
       .order('desc')
-      .take(opts.limit * 4);
+      .take(scan);
+  } else if (edition) {
+    const byEdition = (value: string | undefined) =>
+      ctx.db
+        .query('storyClusters')
+        .withIndex('by_edition_updated', (q) => q.eq('edition', value))
+        .order('desc')
+        .take(scan);
+    rows = await byEdition(edition);
+    // Clusters from before editions existed have no tag and belong to the default edition.
+    if (edition === DEFAULT_EDITION) {
+      rows = [...rows, ...(await byEdition(undefined))]
+        .sort((a, b) => b.lastUpdatedAt - a.lastUpdatedAt)
+        .slice(0, scan);
+    }
   } else {
-    rows = await ctx.db.query('storyClusters').withIndex('by_lastUpdated').order('desc').take(opts.limit * 4);
+    rows = await ctx.db.query('storyClusters').withIndex('by_lastUpdated').order('desc').take(scan);
   }
 
+  const listed = new Set(
+    (await ctx.db.query('outlets').collect()).filter((o) => o.enabled !== false).map((o) => o.externalId),
+  );
   const dtos: StoryDto[] = [];
   const q = opts.searchQ?.trim().toLowerCase();
+  const entities = opts.topics ? await topicEntities(ctx, opts.topics.followed) : new Map();
   for (const s of rows) {
+    if (s.mergedIntoId) continue;
+    if (edition && editionOf(s) !== edition) continue;
     if (q && s.searchText && !s.searchText.includes(q) && !s.canonicalTitle.toLowerCase().includes(q)) continue;
+    let matched: string[] = [];
+    if (opts.topics) {
+      matched = await storyTopics(ctx, s, opts.topics.followed, entities);
+      if (!matched.length) continue;
+    }
     const dto = await buildStoryDto(ctx, s, opts.userId);
     if (!dto) continue;
-    if (!dto.articles.some((a) => OUTLET_IDS.has(a.outletId))) continue;
+    if (!dto.articles.some((a) => listed.has(a.outletId))) continue;
     if (opts.filters && !storyMatchesFilters(dto, opts.filters)) continue;
     if (opts.blindspotSide === 'all' && !dto.blindspotSide) continue;
+    if (opts.topics) opts.topics.matches[dto.id] = matched;
     dtos.push(dto);
     if (dtos.length >= opts.limit) break;
   }
@@ -86,6 +124,7 @@ export const list = query({
     factualityMin: v.optional(v.string()),
     ownership: v.optional(v.string()),
     searchQ: v.optional(v.string()),
+    edition: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const limit = Math.min(args.limit ?? 40, 100);
@@ -95,6 +134,7 @@ export const list = query({
       limit,
       userId,
       searchQ: args.searchQ,
+      edition: args.edition,
       filters: {
         minOutlets: args.minOutlets,
         minLeft: args.minLeft,
@@ -115,6 +155,7 @@ export const blindspotList = query({
   args: {
     side: v.optional(v.string()),
     limit: v.optional(v.number()),
+    edition: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const limit = Math.min(args.limit ?? 30, 80);
@@ -125,20 +166,73 @@ export const blindspotList = query({
       limit,
       userId,
       blindspotSide: side === 'all' ? 'all' : side,
+      edition: args.edition,
     });
     return { stories: dtos };
   },
 });
 
+/** "Your topics" feed: recent stories matching a topic the user follows (headline, `searchText` or entities). */
+export const topicFeed = query({
+  args: { limit: v.optional(v.number()), edition: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return { stories: [], topics: [], matches: {} };
+    const follows = await ctx.db
+      .query('userTopicFollows')
+      .withIndex('by_user', (q) => q.eq('userId', identity.subject))
+      .collect();
+    const topics = follows.map((f) => f.topic);
+    if (!topics.length) return { stories: [], topics, matches: {} };
+    const matches: Record<string, string[]> = {};
+    const stories = await collectStories(ctx, {
+      limit: Math.min(args.limit ?? 40, 100),
+      userId: identity.subject,
+      edition: args.edition,
+      topics: { followed: topics, matches },
+      scan: TOPIC_FEED_SCAN,
+    });
+    return { stories, topics, matches };
+  },
+});
+
 export const search = query({
-  args: { q: v.string(), limit: v.optional(v.number()) },
+  args: { q: v.string(), limit: v.optional(v.number()), edition: v.optional(v.string()) },
   handler: async (ctx, args) => {
     const limit = Math.min(args.limit ?? 25, 50);
-    const dtos = await collectStories(ctx, { limit, searchQ: args.q });
+    const dtos = await collectStories(ctx, { limit, searchQ: args.q, edition: args.edition });
     return { stories: dtos };
   },
 });
 
+/** Old links to clusters removed by retention resolve to the archived headline and article links. */
+async function archivedStory(ctx: QueryCtx, slug: string): Promise<ArchivedStoryDto | null> {
+  const row = await ctx.db
+    .query('archivedStories')
+    .withIndex('by_slug', (q) => q.eq('slug', slug))
+    .first();
+  if (!row) return null;
+  const articles: ArchivedStoryDto['articles'] = [];
+  for (const a of row.articles) {
+    const outlet = await ctx.db.get(a.outletId);
+    articles.push({
+      title: a.title,
+      url: a.url,
+      publishedAt: a.publishedAt ? new Date(a.publishedAt).toISOString() : null,
+      outlet: outlet ? { id: outlet.externalId, name: outlet.name, biasLabel: outlet.biasLabel } : null,
+    });
+  }
+  return {
+    slug: row.slug,
+    canonicalTitle: row.canonicalTitle,
+    edition: editionOf(row),
+    firstSeenAt: new Date(row.firstSeenAt).toISOString(),
+    lastUpdatedAt: new Date(row.lastUpdatedAt).toISOString(),
+    archivedAt: new Date(row.archivedAt).toISOString(),
+    articles,
+  };
+}
+
 export const getBySlug = query({
   args: { slug: v.string() },
   handler: async (ctx, args) => {
@@ -148,9 +242,11 @@ export const getBySlug = query({
       .query('storyClusters')
       .withIndex('by_slug', (q) => q.eq('slug', args.slug))
       .first();
-    if (!story) return { story: null };
-    const dto = await buildStoryDto(ctx, story, userId);
-    return { story: dto };
+    if (!story) return { story: null, archived: await archivedStory(ctx, args.slug) };
+    // Merged-away slugs keep working: the DTO carries the surviving slug for a client redirect.
+    const live = await resolveMergedStory(ctx, story);
+    const dto = await buildStoryDto(ctx, live, userId);
+    return { story: dto, archived: null };
   },
 });
 
@@ -0,0 +1,108 @@
+import { v } from 'convex/values';
+import { internalMutation, mutation, query } from './_generated/server';
+import { requireAdmin } from './lib/admin';
+import { mergeClusters, revertClusterOp, splitArticles } from './lib/clusterOps';
+
+/** Recent live clusters with their articles, for picking merge / split targets. */
+export const clusters = query({
+  args: { q: v.optional(v.string()), limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    const limit = Math.min(args.limit ?? 40, 100);
+    const q = args.q?.trim().toLowerCase();
+    const rows = await ctx.db.query('storyClusters').withIndex('by_lastUpdated').order('desc').take(limit * 5);
+    const out = [];
+    for (const s of rows) {
+      if (s.mergedIntoId) continue;
+      if (q && !s.canonicalTitle.toLowerCase().includes(q) && !s.slug.includes(q)) continue;
+      const links = await ctx.db
+        .query('storyArticles')
+        .withIndex('by_story', (qb) => qb.eq('storyId', s._id))
+        .collect();
+      const articles = [];
+      for (const link of links) {
+        const art = await ctx.db.get(link.articleId);
+        if (!art) continue;
+        const outlet = await ctx.db.get(art.outletId);
+        articles.push({ id: art._id, title: art.title, url: art.url, outletName: outlet?.name ?? 'Source' });
+      }
+      out.push({
+        id: s._id,
+        slug: s.slug,
+        canonicalTitle: s.canonicalTitle,
+        firstSeenAt: s.firstSeenAt,
+        lastUpdatedAt: s.lastUpdatedAt,
+        articles,
+      });
+      if (out.length >= limit) break;
+    }
+    return { clusters: out };
+  },
+});
+
+export const audit = query({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    const rows = await ctx.db.query('clusterAudit').withIndex('by_created').order('desc').take(args.limit ?? 50);
+    const entries = [];
+    for (const r of rows) {
+      const story = await ctx.db.get(r.storyId);
+      const other = await ctx.db.get(r.otherStoryId);
+      entries.push({
+        id: r._id,
+        op: r.op,
+        actorId: r.actorId,
+        storySlug: story?.slug ?? null,
+        storyTitle: story?.canonicalTitle ?? null,
+        otherSlug: other?.slug ?? null,
+        otherTitle: other?.canonicalTitle ?? null,
+        articleCount: r.articleIds.length,
+        note: r.note ?? null,
+        createdAt: r.createdAt,
+        revertedAt: r.revertedAt ?? null,
+      });
+    }
+    return { entries };
+  },
+});
+
+export const merge = mutation({
+  args: { storyA: v.id('storyClusters'), storyB: v.id('storyClusters'), note: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const actorId = await requireAdmin(ctx);
+    return mergeClusters(ctx, args.storyA, args.storyB, actorId, args.note);
+  },
+});
+
+export const split = mutation({
+  args: { storyId: v.id('storyClusters'), articleIds: v.array(v.id('articles')), note: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const actorId = await requireAdmin(ctx);
+    return splitArticles(ctx, args.storyId, args.articleIds, actorId, args.note);
+  },
+});
+
+export const revert = mutation({
+  args: { auditId: v.id('clusterAudit') },
+  handler: async (ctx, args) => {
+    const actorId = await requireAdmin(ctx);
+    return revertClusterOp(ctx, args.auditId, actorId);
+  },
+});
+
+/** `npx convex run storyAdmin:mergeInternal '{"storyA": "…", "storyB": "…"}'` */
+export const mergeInternal = internalMutation({
+  args: { storyA: v.id('storyClusters'), storyB: v.id('storyClusters'), note: v.optional(v.string()) },
+  handler: async (ctx, args) => mergeClusters(ctx, args.storyA, args.storyB, 'internal', args.note),
+});
+
+export const splitInternal = internalMutation({
+  args: { storyId: v.id('storyClusters'), articleIds: v.array(v.id('articles')), note: v.optional(v.string()) },
+  handler: async (ctx, args) => splitArticles(ctx, args.storyId, args.articleIds, 'internal', args.note),
+});
+
+export const revertInternal = internalMutation({
+  args: { auditId: v.id('clusterAudit') },
+  handler: async (ctx, args) => revertClusterOp(ctx, args.auditId, 'internal'),
+});
@@ -3,12 +3,14 @@
 import { v } from 'convex/values';
 import { action } from './_generated/server';
 import { api, internal } from './_generated/api';
+import type { Id } from './_generated/dataModel';
 import { chatJson } from './lib/bigPickle';
 import { entitlementsForPlan, normalizePlan } from './lib/entitlements';
-import type { StoryDto } from './lib/aggregationTypes';
+import type { ArticleDto, StoryDto } from './lib/aggregationTypes';
 
 const LEFT = new Set(['left', 'center-left']);
 const RIGHT = new Set(['right', 'center-right']);
+const EXCERPT_CHARS = 400;
 
 type CompareResult = { summary: string | null; cached?: boolean; error?: string };
 
@@ -32,21 +34,24 @@ export const generateBiasCompare = action({
       return { summary: story.biasCompareSummary, cached: true };
     }
 
-    const leftLines = story.articles
-      .filter((a) => a.outlet && LEFT.has(a.outlet.biasLabel))
-      .map((a) => `- ${a.outlet!.name}: "${a.title}"`)
-      .slice(0, 6);
-    const rightLines = story.articles
-      .filter((a) => a.outlet && RIGHT.has(a.outlet.biasLabel))
-      .map((a) => `- ${a.outlet!.name}: "${a.title}"`)
-      .slice(0, 6);
+    const left = story.articles.filter((a) => a.outlet && LEFT.has(a.outlet.biasLabel)).slice(0, 6);
+    const right = story.articles.filter((a) => a.outlet && RIGHT.has(a.outlet.biasLabel)).slice(0, 6);
+    // Extracted body text (when the article-text stage has run) gives the model framing beyond the headline.
+    const bodies = await ctx.runQuery(internal.articleTextQueries.excerpts, {
+      articleIds: [...left, ...right].map((a) => a.id as Id<'articles'>),
+      maxChars: EXCERPT_CHARS,
+    });
+    const line = (a: ArticleDto) =>
+      bodies[a.id] ? `- ${a.outlet!.name}: "${a.title}"\n  ${bodies[a.id]}` : `- ${a.outlet!.name}: "${a.title}"`;
+    const leftLines = left.map(line);
+    const rightLines = right.map(line);
 
     const prompt = `Story: ${story.canonicalTitle}
 
-Left-leaning headlines:
+Left-leaning coverage:
 ${leftLines.join('\n') || '(none)'}
 
-Right-leaning headlines:
+Right-leaning coverage:
 ${rightLines.join('\n') || '(none)'}
 
 In 3-4 sentences, compare how left vs right outlets frame this story. Neutral tone. No truth verdict.`;
@@ -0,0 +1,84 @@
+import { v } from 'convex/values';
+import { internalMutation, query } from './_generated/server';
+import type { StoryEventDto, StoryTimelineDto } from './lib/aggregationTypes';
+import { resolveMergedStory } from './lib/clusterOps';
+import { summarizeUnfolding, type OutletJoin } from './lib/storyTimeline';
+import { recordOutletJoins } from './lib/storyTimelineOps';
+
+const iso = (ms: number | undefined) => (ms === undefined ? null : new Date(ms).toISOString());
+
+/** "How coverage unfolded" for the story page; merged-away slugs read the surviving story. */
+export const forStory = query({
+  args: { slug: v.string(), limit: v.optional(v.number()) },
+  handler: async (ctx, args): Promise<{ timeline: StoryTimelineDto | null }> => {
+    const story = await ctx.db
+      .query('storyClusters')
+      .withIndex('by_slug', (q) => q.eq('slug', args.slug))
+      .first();
+    if (!story) return { timeline: null };
+    const live = await resolveMergedStory(ctx, story);
+    const rows = await ctx.db
+      .query('storyEvents')
+      .withIndex('by_story_at', (q) => q.eq('storyId', live._id))
+      .order('asc')
+      .take(Math.min(args.limit ?? 200, 500));
+
+    const events: StoryEventDto[] = [];
+    const joins: OutletJoin[] = [];
+    for (const e of rows) {
+      const outlet = e.outletId ? await ctx.db.get(e.outletId) : null;
+      if (e.kind === 'outlet_joined' && e.bias) {
+        joins.push({ bias: e.bias, at: e.publishedAt ?? e.at, outletName: outlet?.name });
+      }
+      events.push({
+        kind: e.kind,
+        at: new Date(e.at).toISOString(),
+        outlet: outlet ? { id: outlet.externalId, name: outlet.name, biasLabel: e.bias ?? outlet.biasLabel } : null,
+        publishedAt: iso(e.publishedAt),
+        from: e.from ?? null,
+        to: e.to ?? null,
+        count: e.count ?? null,
+      });
+    }
+
+    const summary = summarizeUnfolding(joins);
+    const firstBySide: StoryTimelineDto['firstBySide'] = {};
+    for (const [side, first] of Object.entries(summary.firstBySide)) {
+      firstBySide[side as keyof typeof firstBySide] = {
+        at: new Date(first.at).toISOString(),
+        outletName: first.outletName ?? null,
+      };
+    }
+    return {
+      timeline: {
+        events,
+        firstBySide,
+        brokeFirst: summary.brokeFirst,
+        otherSideLagHours: summary.otherSideLagHours,
+      },
+    };
+  },
+});
+
+/**
+ * Seed `outlet_joined` events for clusters created before the timeline, dated by article
+ * fetch time: `npx convex run storyTimeline:backfill`. Stories that already have events are
+ * only topped up with missing outlets.
+ */
+export const backfill = internalMutation({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const rows = await ctx.db
+      .query('storyClusters')
+      .withIndex('by_lastUpdated')
+      .order('desc')
+      .take(args.limit ?? 200);
+    let stories = 0;
+    for (const story of rows) {
+      if (story.mergedIntoId) continue;
+      await recordOutletJoins(ctx, story._id, Date.now(), { backfill: true });
+      stories++;
+    }
+    return { stories };
+  },
+});
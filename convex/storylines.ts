@@ -0,0 +1,94 @@
+import { v } from 'convex/values';
+import { internalMutation, query } from './_generated/server';
+import type { Doc, Id } from './_generated/dataModel';
+import type { QueryCtx } from './_generated/server';
+import type { StorylineDto } from './lib/aggregationTypes';
+import { resolveMergedStory } from './lib/clusterOps';
+import { editionOf } from './lib/editions';
+import { linkStoryline } from './lib/storylineOps';
+
+/** Clusters listed per storyline, oldest first. */
+const MAX_STORYLINE_CLUSTERS = 100;
+
+async function buildStorylineDto(ctx: QueryCtx, line: Doc<'storylines'>): Promise<StorylineDto> {
+  const rows = await ctx.db
+    .query('storyClusters')
+    .withIndex('by_storyline', (q) => q.eq('storylineId', line._id))
+    .order('asc')
+    .take(MAX_STORYLINE_CLUSTERS);
+  const stories: StorylineDto['stories'] = [];
+  for (const s of rows) {
+    if (s.mergedIntoId) continue;
+    const links = await ctx.db
+      .query('storyArticles')
+      .withIndex('by_story', (q) => q.eq('storyId', s._id))
+      .collect();
+    stories.push({
+      id: s._id,
+      slug: s.slug,
+      canonicalTitle: s.canonicalTitle,
+      firstSeenAt: new Date(s.firstSeenAt).toISOString(),
+      lastUpdatedAt: new Date(s.lastUpdatedAt).toISOString(),
+      articleCount: links.length,
+    });
+  }
+  return {
+    id: line._id,
+    slug: line.slug,
+    title: line.title,
+    entities: line.entities,
+    edition: editionOf(line),
+    firstSeenAt: new Date(line.firstSeenAt).toISOString(),
+    lastUpdatedAt: new Date(line.lastUpdatedAt).toISOString(),
+    stories,
+  };
+}
+
+export const get = query({
+  args: { slug: v.string() },
+  handler: async (ctx, args): Promise<{ storyline: StorylineDto | null }> => {
+    const line = await ctx.db
+      .query('storylines')
+      .withIndex('by_slug', (q) => q.eq('slug', args.slug))
+      .first();
+    return { storyline: line ? await buildStorylineDto(ctx, line) : null };
+  },
+});
+
+/** Storyline of a story (by story slug), for "Part of an ongoing storyline". */
+export const forStory = query({
+  args: { slug: v.string() },
+  handler: async (ctx, args): Promise<{ storyline: StorylineDto | null }> => {
+    const story = await ctx.db
+      .query('storyClusters')
+      .withIndex('by_slug', (q) => q.eq('slug', args.slug))
+      .first();
+    if (!story) return { storyline: null };
+    const live = await resolveMergedStory(ctx, story);
+    const line = live.storylineId ? await ctx.db.get(live.storylineId) : null;
+    return { storyline: line ? await buildStorylineDto(ctx, line) : null };
+  },
+});
+
+/**
+ * Link recently updated clusters into storylines (hourly cron). Widen `sinceHours` to backfill:
+ * `npx convex run storylines:linkRecent '{"sinceHours": 720, "limit": 300}'`.
+ */
+export const linkRecent = internalMutation({
+  args: { sinceHours: v.optional(v.number()), limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const since = now - (args.sinceHours ?? 6) * 3_600_000;
+    const rows = await ctx.db
+      .query('storyClusters')
+      .withIndex('by_lastUpdated', (q) => q.gte('lastUpdatedAt', since))
+      .order('desc')
+      .take(args.limit ?? 60);
+    const linked: Id<'storylines'>[] = [];
+    for (const story of rows) {
+      const id = await linkStoryline(ctx, story._id, now);
+      if (id) linked.push(id);
+    }
+    return { scanned: rows.length, linked: linked.length, storylines: new Set(linked).size };
+  },
+});
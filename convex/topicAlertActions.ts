@@ -0,0 +1,67 @@
+'use node';
+
+import { internalAction } from './_generated/server';
+import { internal } from './_generated/api';
+import { siteUrlFromEnv } from './lib/digest';
+import { renderTopicAlertEmail } from './lib/digestTemplates';
+import { mailFromEnv, mailTransportFromEnv } from './lib/mailTransport';
+
+const MAX_REPORTED_ERRORS = 20;
+
+/**
+ * Topic alert pass, run after every feed ingest: write in-app notifications (`topicAlerts.collect`),
+ * then email them to users who turned alert emails on. Without a mail transport only the in-app
+ * notifications are written. `npx convex run topicAlertActions:run`
+ */
+export const run = internalAction({
+  args: {},
+  handler: async (ctx): Promise<{ notified: number; emailed: number; errors: string[] }> => {
+    let collected;
+    try {
+      collected = await ctx.runMutation(internal.topicAlerts.collect, {});
+    } catch (e) {
+      // Same as a bad mail config below: alerts are best effort and must not fail the ingest run.
+      return { notified: 0, emailed: 0, errors: [e instanceof Error ? e.message : String(e)] };
+    }
+    const { runId, notified, emails } = collected;
+    let emailed = 0;
+    const errors: string[] = [];
+    let transport: ReturnType<typeof mailTransportFromEnv> = null;
+    try {
+      transport = emails.length ? mailTransportFromEnv() : null;
+    } catch (e) {
+      // A bad mail config must not fail the ingest run this is part of; in-app alerts are already written.
+      errors.push(e instanceof Error ? e.message : String(e));
+    }
+    const site = siteUrlFromEnv(process.env.SITE_URL);
+    const from = mailFromEnv();
+    for (const alert of transport ? emails : []) {
+      const token = encodeURIComponent(alert.unsubscribeToken);
+      const email = renderTopicAlertEmail({
+        siteUrl: site,
+        now: Date.now(),
+        stories: alert.stories,
+        unsubscribeUrl: `${site}/unsubscribe?token=${token}`,
+        preferencesUrl: `${site}/settings`,
+      });
+      try {
+        await transport!.send({
+          from,
+          to: alert.email,
+          ...email,
+          headers: {
+            'List-Unsubscribe': `<${site}/api/digest/unsubscribe?token=${token}>`,
+            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+          },
+        });
+        emailed++;
+      } catch (e) {
+        if (errors.length < MAX_REPORTED_ERRORS) {
+          errors.push(`${alert.email}: ${e instanceof Error ? e.message : String(e)}`.slice(0, 300));
+        }
+      }
+    }
+    if (emails.length) await ctx.runMutation(internal.topicAlerts.recordEmails, { runId, emailed, errors });
+    return { notified, emailed, errors };
+  },
+});
@@ -0,0 +1,152 @@
+import { v } from 'convex/values';
+import { internalMutation, internalQuery } from './_generated/server';
+import type { Doc, Id } from './_generated/dataModel';
+import { digestStory, type DigestStory } from './lib/digest';
+import { buildStoryDto } from './lib/storyBuild';
+import { cursorAfter, storiesAfter, type StoryCursor } from './lib/storyCursor';
+import {
+  TOPIC_ALERT_HOURLY_LIMIT,
+  TOPIC_ALERT_SCAN,
+  TOPIC_ALERT_WINDOW_MS,
+  planAlerts,
+  topicAlertNote,
+  type AlertCandidate,
+} from './lib/topicAlerts';
+import { followedTopics, storyTopics, topicEntities } from './lib/topicOps';
+
+const HOUR_MS = 3_600_000;
+/** Followers read per matched topic. */
+const FOLLOWERS_PER_TOPIC = 5000;
+
+type AlertEmail = { email: string; unsubscribeToken: string; stories: DigestStory[] };
+
+/**
+ * Match stories updated since the last pass against every followed topic and write in-app
+ * notifications, one per user and story and at most `TOPIC_ALERT_HOURLY_LIMIT` per user per hour.
+ * Returns the alerts to email for users who opted in; `topicAlertActions.run` sends them.
+ */
+export const collect = internalMutation({
+  args: {},
+  handler: async (ctx): Promise<{ runId: Id<'topicAlertRuns'>; notified: number; emails: AlertEmail[] }> => {
+    const startedAt = Date.now();
+    const last = await ctx.db.query('topicAlertRuns').withIndex('by_started').order('desc').first();
+    const freshSince = startedAt - TOPIC_ALERT_WINDOW_MS;
+    const fresh: StoryCursor = { at: freshSince, createdAt: 0 };
+    const resumed: StoryCursor | null = last
+      ? { at: last.storyCursor, createdAt: last.storyCursorCreatedAt ?? Infinity }
+      : null;
+    const from = resumed && resumed.at >= fresh.at ? resumed : fresh;
+    const stories = await storiesAfter(ctx, from, TOPIC_ALERT_SCAN);
+    const cursor = cursorAfter(stories, from);
+
+    const topics = await followedTopics(ctx);
+    const entities = await topicEntities(ctx, topics);
+    const followers = new Map<string, string[]>();
+    const followersOf = async (topic: string) => {
+      let userIds = followers.get(topic);
+      if (!userIds) {
+        const rows = await ctx.db
+          .query('userTopicFollows')
+          .withIndex('by_topic', (q) => q.eq('topic', topic))
+          .take(FOLLOWERS_PER_TOPIC);
+        if (rows.length === FOLLOWERS_PER_TOPIC) console.warn(`topicAlerts: "${topic}" capped at ${rows.length}`);
+        userIds = rows.map((r) => r.userId);
+        followers.set(topic, userIds);
+      }
+      return userIds;
+    };
+
+    const candidates: AlertCandidate[] = [];
+    const byId = new Map<string, Doc<'storyClusters'>>();
+    for (const story of topics.length ? stories : []) {
+      if (story.mergedIntoId || story.firstSeenAt < freshSince) continue;
+      const matched = await storyTopics(ctx, story, topics, entities);
+      if (!matched.length) continue;
+      byId.set(story._id, story);
+      const perUser = new Map<string, string[]>();
+      for (const topic of matched) {
+        for (const userId of await followersOf(topic)) perUser.set(userId, [...(perUser.get(userId) ?? []), topic]);
+      }
+      for (const [userId, userTopics] of perUser) candidates.push({ userId, storyId: story._id, topics: userTopics });
+    }
+
+    const alerted = new Set<string>();
+    const sentLastHour = new Map<string, number>();
+    for (const c of candidates) {
+      if (!sentLastHour.has(c.userId)) {
+        const recent = await ctx.db
+          .query('notifications')
+          .withIndex('by_user_created', (q) => q.eq('userId', c.userId).gte('createdAt', startedAt - HOUR_MS))
+          .take(TOPIC_ALERT_HOURLY_LIMIT);
+        sentLastHour.set(c.userId, recent.length);
+      }
+      const existing = await ctx.db
+        .query('notifications')
+        .withIndex('by_user_story', (q) => q.eq('userId', c.userId).eq('storyId', byId.get(c.storyId)!._id))
+        .first();
+      if (existing) alerted.add(`${c.userId}:${c.storyId}`);
+    }
+    const plan = planAlerts(candidates, alerted, sentLastHour);
+
+    const emails = new Map<string, AlertEmail>();
+    for (const alert of plan.send) {
+      const story = byId.get(alert.storyId)!;
+      await ctx.db.insert('notifications', {
+        userId: alert.userId,
+        kind: 'topic',
+        storyId: story._id,
+        slug: story.slug,
+        title: story.canonicalTitle,
+        topics: alert.topics,
+        createdAt: startedAt,
+      });
+      const sub = await ctx.db
+        .query('digestSubscriptions')
+        .withIndex('by_user', (q) => q.eq('userId', alert.userId))
+        .first();
+      if (!sub?.topicAlertEmail) continue;
+      const dto = await buildStoryDto(ctx, story);
+      if (!dto) continue;
+      const entry = emails.get(alert.userId) ?? {
+        email: sub.email,
+        unsubscribeToken: sub.unsubscribeToken,
+        stories: [],
+      };
+      entry.stories.push(digestStory(dto, topicAlertNote(alert.topics)));
+      emails.set(alert.userId, entry);
+    }
+
+    const runId = await ctx.db.insert('topicAlertRuns', {
+      startedAt,
+      storyCursor: cursor.at,
+      storyCursorCreatedAt: cursor.createdAt,
+      storiesScanned: stories.length,
+      notified: plan.send.length,
+      duplicates: plan.duplicates,
+      throttled: plan.throttled,
+      emailed: 0,
+      emailErrors: [],
+    });
+    return { runId, notified: plan.send.length, emails: [...emails.values()] };
+  },
+});
+
+/** Email results for a pass (`topicAlertActions.run`). */
+export const recordEmails = internalMutation({
+  args: { runId: v.id('topicAlertRuns'), emailed: v.number(), errors: v.array(v.string()) },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.runId, { emailed: args.emailed, emailErrors: args.errors });
+  },
+});
+
+/** Latest alert passes: `npx convex run topicAlerts:recentRuns`. */
+export const recentRuns = internalQuery({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    return ctx.db
+      .query('topicAlertRuns')
+      .withIndex('by_started')
+      .order('desc')
+      .take(Math.min(args.limit ?? 10, 50));
+  },
+});
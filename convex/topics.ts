@@ -1,5 +1,6 @@
 import { v } from 'convex/values';
 import { mutation, query } from './_generated/server';
+import { MAX_TOPICS_PER_USER, normalizeTopic } from './lib/topicAlerts';
 
 export const list = query({
   args: {},
@@ -19,13 +20,20 @@ export const follow = mutation({
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
     if (!identity) throw new Error('Not authenticated');
-    const topic = args.topic.trim().toLowerCase().slice(0, 80);
+    const topic = normalizeTopic(args.topic);
     if (!topic) throw new Error('topic required');
     const existing = await ctx.db
       .query('userTopicFollows')
       .withIndex('by_user_topic', (q) => q.eq('userId', identity.subject).eq('topic', topic))
       .first();
     if (existing) return { ok: true };
+    const count = (
+      await ctx.db
+        .query('userTopicFollows')
+        .withIndex('by_user', (q) => q.eq('userId', identity.subject))
+        .take(MAX_TOPICS_PER_USER)
+    ).length;
+    if (count >= MAX_TOPICS_PER_USER) throw new Error(`You can follow up to ${MAX_TOPICS_PER_USER} topics`);
     await ctx.db.insert('userTopicFollows', { userId: identity.subject, topic, createdAt: Date.now() });
     return { ok: true };
   },
@@ -36,7 +44,7 @@ export const unfollow = mutation({
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
     if (!identity) throw new Error('Not authenticated');
-    const topic = args.topic.trim().toLowerCase();
+    const topic = normalizeTopic(args.topic);
     const row = await ctx.db
       .query('userTopicFollows')
       .withIndex('by_user_topic', (q) => q.eq('userId', identity.subject).eq('topic', topic))
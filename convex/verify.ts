@@ -60,6 +60,7 @@ export const run = action({
   args: {
     content: v.string(),
     articleUrl: v.optional(v.string()),
+    edition: v.optional(v.string()),
     searchResults: v.optional(
       v.array(
         v.object({
@@ -81,7 +82,10 @@ export const run = action({
     const clientSearch = (args.searchResults ?? []) as SearchResponse[];
     let searchResults = clientSearch;
     try {
-      const exa = await ctx.runAction(internal.verifyEnrich.searchCoverageForVerify, { content });
+      const exa = await ctx.runAction(internal.verifyEnrich.searchCoverageForVerify, {
+        content,
+        edition: args.edition,
+      });
       const merged = new Map<string, SearchResponse>();
       for (const r of clientSearch) {
         if (r.url) merged.set(r.url, r);
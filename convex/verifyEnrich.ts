@@ -2,36 +2,40 @@
 
 import { v } from 'convex/values';
 import { internalAction } from './_generated/server';
-import { exaSearch } from './lib/exaClient';
+import { internal } from './_generated/api';
+import { getEdition } from './lib/editions';
 import { outletExternalIdForUrl } from './lib/outletFromUrl';
+import { createSearchRouter, parseSearchQuotas, searchProvidersFromEnv } from './lib/searchProviders';
 
-const DOMAIN_QUERIES = ['thehindu.com', 'indianexpress.com', 'ndtv.com', 'republicworld.com', 'thewire.in'];
-
-function exaApiKey(): string | undefined {
-  return process.env.EXA_API_KEY?.trim() || undefined;
-}
-
-/** Server-side Exa: how multiple outlets cover the same claim (verify context). */
+/** Server-side search (Exa → Tavily failover): how multiple outlets cover the same claim (verify context). */
 export const searchCoverageForVerify = internalAction({
-  args: { content: v.string(), maxResults: v.optional(v.number()) },
-  handler: async (_ctx, args) => {
-    const apiKey = exaApiKey();
-    if (!apiKey) return { results: [] as { title: string; url: string; snippet: string; outletId: string | null }[] };
+  args: { content: v.string(), maxResults: v.optional(v.number()), edition: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const providers = searchProvidersFromEnv();
+    if (providers.length === 0) {
+      return { results: [] as { title: string; url: string; snippet: string; outletId: string | null }[] };
+    }
+    const router = createSearchRouter(providers, {
+      quotas: parseSearchQuotas(process.env.SEARCH_DAILY_QUOTA),
+      state: await ctx.runQuery(internal.searchUsage.today, {}),
+    });
+    const outlets = await ctx.runQuery(internal.outlets.domainIndex, {});
 
     const claim = args.content.trim().slice(0, 280);
     const perQuery = Math.min(args.maxResults ?? 6, 8);
     const seen = new Set<string>();
     const results: { title: string; url: string; snippet: string; outletId: string | null }[] = [];
 
+    const edition = getEdition(args.edition);
     const queries = [
-      `${claim} India fact check news`,
-      `${claim} India`,
-      ...DOMAIN_QUERIES.map((d) => `${claim} site:${d}`),
+      `${claim} ${edition.searchRegion} fact check news`,
+      `${claim} ${edition.searchRegion}`,
+      ...edition.verifyDomains.map((d) => `${claim} site:${d}`),
     ];
 
     for (const q of queries) {
       try {
-        const hits = await exaSearch(apiKey, q, perQuery);
+        const { hits } = await router.search(q, perQuery);
         for (const h of hits) {
           const url = h.url?.trim();
           if (!url || seen.has(url)) continue;
@@ -40,15 +44,16 @@ export const searchCoverageForVerify = internalAction({
             title: h.title?.trim() || url,
             url,
             snippet: (h.summary || h.text || '').slice(0, 500),
-            outletId: outletExternalIdForUrl(url),
+            outletId: outletExternalIdForUrl(url, outlets),
           });
         }
       } catch (e) {
-        console.warn('verify enrich exa:', e instanceof Error ? e.message : e);
+        console.warn('verify enrich search:', e instanceof Error ? e.message : e);
       }
-      if (results.length >= 24) break;
+      if (results.length >= 24 || router.available().length === 0) break;
     }
 
+    await ctx.runMutation(internal.searchUsage.record, { entries: router.usage() });
     return { results: results.slice(0, 24) };
   },
 });
\ No newline at end of file
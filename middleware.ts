@@ -13,6 +13,8 @@ const isPublicRoute = createRouteMatcher([
   '/sign-up(.*)',
   '/login(.*)',
   '/api/webhooks(.*)',
+  '/api/digest(.*)',
+  '/unsubscribe(.*)',
   '/search-results(.*)',
   '/result(.*)',
 ]);
@@ -16,6 +16,7 @@ export interface OutletDto {
   domain: string;
   biasLabel: BiasLabel;
   factuality: FactualityTier;
+  edition?: string;
 }
 
 export interface ArticleDto {
@@ -27,6 +28,9 @@ export interface ArticleDto {
   publishedAt: string | null;
   fetchedAt: string;
   outlet?: OutletDto;
+  /** Earliest near-duplicate this article copies, when detected as syndicated. */
+  syndicatedFromId?: string | null;
+  wireSource?: string | null;
 }
 
 /** One story cluster; Phase 0 may have a single source per story. */
@@ -39,18 +43,39 @@ export interface StoryDto {
   id: string;
   canonicalTitle: string;
   slug: string;
+  edition?: string;
   lastUpdatedAt: string;
+  /** Articles in the story; with SYNDICATION_MODE once or weight, copies of one original count once. */
   sourceCount: number;
+  /** Articles detected as copies of another article in the story. */
+  syndicatedCount?: number;
   biasSpread: Partial<Record<BiasLabel, number>>;
   articles: ArticleDto[];
   blindspot?: BlindspotDto | null;
 }
 
+export interface EditionDto {
+  id: string;
+  name: string;
+  locales: string[];
+  biasScale: { label: BiasLabel; name: string }[];
+}
+
 export interface FeedHealthDto {
   feedId: string;
   outletName: string;
   url: string;
   enabled: boolean;
+  status: 'ok' | 'failing' | 'stale' | 'disabled';
   lastFetchedAt: string | null;
+  lastSuccessAt: string | null;
+  nextPollAt: string | null;
   lastError: string | null;
+  errorStreak: number;
+  disabledReason: string | null;
+  polls: number;
+  errors: number;
+  notModified: number;
+  itemsPerPoll: number | null;
+  duplicateRate: number | null;
 }
\ No newline at end of file
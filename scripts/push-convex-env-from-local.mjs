@@ -16,6 +16,35 @@ const KEYS = [
   'RAZORPAY_PRICE_PLUS_INR',
   'RAZORPAY_PRICE_PRO_INR',
   'CONVEX_WEBHOOK_SHARED_SECRET',
+  'ADMIN_USER_IDS',
+  'EMBEDDINGS_API_KEY',
+  'EMBEDDINGS_BASE_URL',
+  'EMBEDDINGS_MODEL',
+  'EMBEDDINGS_PROVIDER',
+  'CLUSTER_SIMILARITY',
+  'EMBEDDINGS_MATCH_THRESHOLD',
+  'CLUSTER_WINDOW_HOURS',
+  'FEED_AUTO_DISABLE_AFTER',
+  'SYNDICATION_MODE',
+  'SYNDICATION_WEIGHT',
+  'TAVILY_API_KEY',
+  'SEARCH_PROVIDERS',
+  'SEARCH_DAILY_QUOTA',
+  'RETENTION_ARCHIVE_DAYS',
+  'RETENTION_COMPACT_DAYS',
+  'RATING_AGGREGATE',
+  'RATING_BIAS_POINTS',
+  'RATING_SOURCE_WEIGHTS',
+  'REACH_TIER_WEIGHTS',
+  'SITE_URL',
+  'MAIL_TRANSPORT',
+  'MAIL_FROM',
+  'MAIL_FILE_DIR',
+  'SMTP_HOST',
+  'SMTP_PORT',
+  'SMTP_SECURE',
+  'SMTP_USER',
+  'SMTP_PASS',
 ];
 
 const path = resolve(process.cwd(), '.env.local');
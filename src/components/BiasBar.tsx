@@ -21,7 +21,7 @@ export function BiasBar({ spread, className }: { spread: Record<string, number>;
             key={label}
             className={BIAS_COLOR[label] ?? 'bg-muted'}
             style={{ width: `${(n / total) * 100}%` }}
-            title={`${label}: ${n}`}
+            title={`${label}: ${Math.round(n * 100) / 100}`}
           />
         );
       })}
@@ -29,15 +29,61 @@ export function BiasBar({ spread, className }: { spread: Record<string, number>;
   );
 }
 
-export function BiasLegend() {
+/** `scale` is the edition's wording for each label (e.g. "Lean left"); defaults to the raw labels. */
+export function BiasLegend({ scale }: { scale?: { label: string; name: string }[] }) {
+  const names = new Map(scale?.map((s) => [s.label, s.name]));
   return (
     <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
       {BIAS_ORDER.filter((l) => l !== 'unknown').map((label) => (
         <span key={label} className="flex items-center gap-1">
           <span className={`inline-block h-2 w-2 rounded-full ${BIAS_COLOR[label]}`} />
-          {label}
+          {names.get(label) ?? label}
         </span>
       ))}
     </div>
   );
-}
\ No newline at end of file
+}
+
+export type CoverageWeighting = 'articles' | 'outlets' | 'reach';
+
+const WEIGHTING_NAMES: Record<CoverageWeighting, string> = {
+  articles: 'Articles',
+  outlets: 'Outlets',
+  reach: 'Weighted reach',
+};
+
+/** The story's spread for `weighting`; stories built before per-outlet spreads fall back to articles. */
+export function spreadFor(
+  story: { biasSpread: Record<string, number>; biasSpreadBy?: Record<CoverageWeighting, Record<string, number>> },
+  weighting: CoverageWeighting,
+): Record<string, number> {
+  return story.biasSpreadBy?.[weighting] ?? story.biasSpread;
+}
+
+/** Switch a `BiasBar` between counting articles, outlets and reach-weighted outlets. */
+export function CoverageWeightingSwitch({
+  value,
+  onChange,
+}: {
+  value: CoverageWeighting;
+  onChange: (next: CoverageWeighting) => void;
+}) {
+  return (
+    <div className="flex gap-1 text-xs" role="tablist" aria-label="Count coverage by">
+      {(Object.keys(WEIGHTING_NAMES) as CoverageWeighting[]).map((w) => (
+        <button
+          key={w}
+          type="button"
+          role="tab"
+          aria-selected={value === w}
+          onClick={() => onChange(w)}
+          className={`rounded-full border px-2.5 py-0.5 transition-colors ${
+            value === w ? 'border-primary text-foreground' : 'border-border text-muted-foreground hover:text-foreground'
+          }`}
+        >
+          {WEIGHTING_NAMES[w]}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { Mail } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import {
+  fetchDigestPreferences,
+  isConvexBackend,
+  setDigestPreferences,
+  type DigestFrequency,
+} from '@/services/aggregation';
+
+const FREQUENCIES: { value: DigestFrequency; label: string }[] = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'off', label: 'Off' },
+];
+
+/**
+ * Blindspot digest and topic alert emails: frequency, alerts on / off and the address, stored on Convex
+ * (not in localStorage like the rest of Settings).
+ */
+export function DigestPreferences() {
+  const { toast } = useToast();
+  const [frequency, setFrequency] = useState<DigestFrequency>('off');
+  const [email, setEmail] = useState('');
+  const [topicAlerts, setTopicAlerts] = useState(false);
+  const [lastSentAt, setLastSentAt] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isConvexBackend()) {
+      setLoading(false);
+      return;
+    }
+    fetchDigestPreferences()
+      .then(({ subscription, accountEmail }) => {
+        setFrequency(subscription?.frequency ?? 'off');
+        setEmail(subscription?.email ?? accountEmail ?? '');
+        setTopicAlerts(subscription?.topicAlertEmail ?? false);
+        setLastSentAt(subscription?.lastSentAt ?? null);
+      })
+      .catch(() => {})
+      .finally(() => setLoading(false));
+  }, []);
+
+  if (!isConvexBackend()) return null;
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await setDigestPreferences(frequency, email.trim() || undefined, topicAlerts);
+      const off = frequency === 'off' && !topicAlerts;
+      toast({
+        title: off ? 'Emails turned off' : 'Email settings updated',
+        description: off ? 'You will not get digest or alert emails.' : `Sending to ${email.trim()}.`,
+      });
+    } catch (e) {
+      toast({
+        title: 'Could not update email settings',
+        description: e instanceof Error ? e.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className={loading || saving ? 'opacity-50 pointer-events-none' : ''}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="h-5 w-5" />
+          Email
+        </CardTitle>
+        <CardDescription>
+          A blindspot digest with the stories the left and the right each missed, plus picks from the outlets and
+          topics you follow
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-3">
+          <p className="font-medium">Blindspot digest</p>
+          <div className="flex gap-3">
+            {FREQUENCIES.map((option) => (
+              <Button
+                key={option.value}
+                variant={frequency === option.value ? 'default' : 'outline'}
+                onClick={() => setFrequency(option.value)}
+                className="flex-1"
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="font-medium">Topic alerts</p>
+            <p className="text-sm text-muted-foreground">Email me when a new story matches a topic I follow</p>
+          </div>
+          <Switch checked={topicAlerts} onCheckedChange={setTopicAlerts} />
+        </div>
+        <div className="space-y-2">
+          <label htmlFor="digest-email" className="text-sm font-medium">
+            Send to
+          </label>
+          <Input
+            id="digest-email"
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="you@example.com"
+            disabled={frequency === 'off' && !topicAlerts}
+          />
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            {lastSentAt ? `Last digest ${new Date(lastSentAt).toLocaleDateString()}` : 'No digest sent yet'}
+          </p>
+          <Button onClick={save} disabled={saving}>
+            Save email settings
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
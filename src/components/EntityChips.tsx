@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { fetchStoryEntities, type ApiEntity } from '@/services/aggregation';
+
+/** People, organisations, places and parties in a story, each linking to its entity page. */
+export function EntityChips({ slug }: { slug: string }) {
+  const [entities, setEntities] = useState<ApiEntity[]>([]);
+
+  useEffect(() => {
+    let live = true;
+    fetchStoryEntities(slug)
+      .then((e) => {
+        if (live) setEntities(e);
+      })
+      .catch(() => {
+        if (live) setEntities([]);
+      });
+    return () => {
+      live = false;
+    };
+  }, [slug]);
+
+  if (!entities.length) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1.5 mb-4">
+      {entities.map((e) => (
+        <Link
+          key={e.slug}
+          to={`/entity/${e.slug}`}
+          className="text-xs rounded-full border border-border px-2.5 py-0.5 text-muted-foreground hover:text-foreground hover:border-foreground/40"
+        >
+          {e.name}
+        </Link>
+      ))}
+    </div>
+  );
+}
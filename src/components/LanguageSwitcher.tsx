@@ -7,15 +7,18 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { useEdition } from '@/hooks/useEdition';
 
 export const LanguageSwitcher = () => {
   const { i18n } = useTranslation();
+  const { edition } = useEdition();
 
+  // Offer the current edition's locales (plus whatever is active, so the select never goes blank).
   const languages = [
     { code: 'en', name: 'English' },
     { code: 'hi', name: 'हिंदी (Hindi)' },
     { code: 'mr', name: 'मराठी (Marathi)' },
-  ];
+  ].filter((lang) => !edition || edition.locales.includes(lang.code) || lang.code === i18n.language);
 
   const handleLanguageChange = (lang: string) => {
     i18n.changeLanguage(lang);
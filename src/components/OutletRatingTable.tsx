@@ -0,0 +1,45 @@
+import type { ApiOutletRating } from '@/services/aggregation';
+
+export function formatRatingScore(score: number | null, signed: boolean) {
+  if (score === null) return '—';
+  return signed && score > 0 ? `+${score.toFixed(2)}` : score.toFixed(2);
+}
+
+/** Rating observations, newest first; superseded or zero-weight rows are struck out. */
+export function OutletRatingTable({ ratings }: { ratings: ApiOutletRating[] }) {
+  if (!ratings.length) return <p className="text-xs text-muted-foreground">No ratings on file.</p>;
+  return (
+    <table className="w-full text-xs">
+      <thead className="text-muted-foreground text-left">
+        <tr>
+          <th className="font-normal py-1">Source</th>
+          <th className="font-normal">Rating</th>
+          <th className="font-normal">Scale</th>
+          <th className="font-normal">Score</th>
+          <th className="font-normal">Rated</th>
+        </tr>
+      </thead>
+      <tbody>
+        {ratings.map((r) => (
+          <tr key={r.id} className={r.current && r.weight > 0 ? '' : 'text-muted-foreground line-through'}>
+            <td className="py-1">
+              {r.url ? (
+                <a href={r.url} target="_blank" rel="noreferrer" className="underline">
+                  {r.source}
+                </a>
+              ) : (
+                r.source
+              )}
+            </td>
+            <td>
+              {r.kind}: {r.rawValue}
+            </td>
+            <td>{r.scaleName}</td>
+            <td>{formatRatingScore(r.score, r.kind === 'bias')}</td>
+            <td>{r.ratedAt.slice(0, 10)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,69 @@
+export const OWNERSHIP_ORDER = [
+  'independent',
+  'individual',
+  'media_conglomerate',
+  'corporation',
+  'telecom',
+  'private_equity',
+  'government',
+  'other',
+  'unknown',
+] as const;
+
+export const OWNERSHIP_NAMES: Record<string, string> = {
+  independent: 'Independent',
+  media_conglomerate: 'Media conglomerate',
+  corporation: 'Corporation',
+  private_equity: 'Private equity',
+  individual: 'Individual owner',
+  government: 'Government / public',
+  telecom: 'Telecom',
+  other: 'Other',
+  unknown: 'Unknown',
+};
+
+const OWNERSHIP_COLOR: Record<string, string> = {
+  independent: 'bg-emerald-500',
+  individual: 'bg-teal-400',
+  media_conglomerate: 'bg-violet-500',
+  corporation: 'bg-amber-500',
+  telecom: 'bg-cyan-500',
+  private_equity: 'bg-rose-400',
+  government: 'bg-slate-600',
+  other: 'bg-stone-400',
+  unknown: 'bg-muted-foreground',
+};
+
+/** Coverage by ownership type, drawn like `BiasBar`. */
+export function OwnershipBar({ spread, className }: { spread: Record<string, number>; className?: string }) {
+  const total = Object.values(spread).reduce((a, b) => a + b, 0) || 1;
+  return (
+    <div className={`flex h-2 w-full overflow-hidden rounded-full bg-muted ${className ?? ''}`}>
+      {OWNERSHIP_ORDER.map((category) => {
+        const n = spread[category] ?? 0;
+        if (!n) return null;
+        return (
+          <div
+            key={category}
+            className={OWNERSHIP_COLOR[category] ?? 'bg-muted'}
+            style={{ width: `${(n / total) * 100}%` }}
+            title={`${OWNERSHIP_NAMES[category]}: ${Math.round(n * 100) / 100}`}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+export function OwnershipLegend() {
+  return (
+    <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+      {OWNERSHIP_ORDER.filter((c) => c !== 'unknown').map((category) => (
+        <span key={category} className="flex items-center gap-1">
+          <span className={`inline-block h-2 w-2 rounded-full ${OWNERSHIP_COLOR[category]}`} />
+          {OWNERSHIP_NAMES[category]}
+        </span>
+      ))}
+    </div>
+  );
+}
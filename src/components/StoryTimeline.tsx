@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react';
+import { fetchStoryTimeline, type ApiStoryEvent, type ApiStoryTimeline } from '@/services/aggregation';
+import { cn } from '@/lib/utils';
+
+const SIDE_NAME = { left: 'Left-leaning', center: 'Centre', right: 'Right-leaning' } as const;
+
+function formatLag(hours: number) {
+  if (hours < 1) return `${Math.max(1, Math.round(hours * 60))} min`;
+  if (hours < 48) return `${Math.round(hours)}h`;
+  return `${Math.round(hours / 24)} days`;
+}
+
+function formatTime(iso: string) {
+  return new Date(iso).toLocaleString(undefined, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+}
+
+function headline(t: ApiStoryTimeline) {
+  if (!t.brokeFirst) return null;
+  const first = t.firstBySide[t.brokeFirst];
+  const other = t.brokeFirst === 'left' ? 'right' : 'left';
+  const by = first?.outletName ? ` (${first.outletName})` : '';
+  if (t.otherSideLagHours === null) {
+    return `${SIDE_NAME[t.brokeFirst]} outlets broke this story${by}; no ${SIDE_NAME[other].toLowerCase()} outlet has picked it up yet.`;
+  }
+  if (t.otherSideLagHours < 1) return `Both sides picked this story up within the hour.`;
+  return `${SIDE_NAME[t.brokeFirst]} outlets broke this story${by}; ${SIDE_NAME[other].toLowerCase()} outlets picked it up ${formatLag(t.otherSideLagHours)} later.`;
+}
+
+function describe(e: ApiStoryEvent) {
+  switch (e.kind) {
+    case 'outlet_joined':
+      return `${e.outlet?.name ?? 'An outlet'} covered it`;
+    case 'title_changed':
+      return `Headline changed to “${e.to ?? ''}”`;
+    case 'blindspot_changed':
+      return e.to ? `Became a blindspot for ${e.to}-leaning readers` : 'No longer a blindspot';
+    case 'milestone':
+      return `${e.count} outlets covering`;
+  }
+}
+
+const DOT: Record<string, string> = {
+  left: 'bg-blue-500',
+  center: 'bg-muted-foreground',
+  right: 'bg-red-500',
+};
+
+function dotClass(e: ApiStoryEvent) {
+  if (e.kind !== 'outlet_joined') return 'bg-primary';
+  const label = e.outlet?.biasLabel ?? '';
+  return DOT[label.replace(/^center-/, '')] ?? 'bg-border';
+}
+
+/** "How coverage unfolded": outlets joining, headline changes, blindspot flips, milestones. */
+export function StoryTimeline({ slug }: { slug: string }) {
+  const [timeline, setTimeline] = useState<ApiStoryTimeline | null>(null);
+
+  useEffect(() => {
+    let live = true;
+    fetchStoryTimeline(slug)
+      .then((t) => {
+        if (live) setTimeline(t);
+      })
+      .catch(() => {
+        if (live) setTimeline(null);
+      });
+    return () => {
+      live = false;
+    };
+  }, [slug]);
+
+  if (!timeline || timeline.events.length === 0) return null;
+  const summary = headline(timeline);
+
+  return (
+    <section className="mt-8">
+      <h2 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-2">How coverage unfolded</h2>
+      {summary && <p className="text-sm mb-3">{summary}</p>}
+      <ol className="border-l border-border ml-1.5 space-y-2">
+        {timeline.events.map((e, i) => (
+          <li key={`${e.kind}-${e.at}-${i}`} className="relative pl-4 text-sm">
+            <span className={cn('absolute -left-[5px] top-1.5 h-2.5 w-2.5 rounded-full', dotClass(e))} />
+            <span className="text-xs text-muted-foreground mr-2">{formatTime(e.at)}</span>
+            <span className={cn(e.kind !== 'outlet_joined' && 'font-medium')}>{describe(e)}</span>
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+}
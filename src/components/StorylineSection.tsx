@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { fetchStorylineForStory, type ApiStoryline } from '@/services/aggregation';
+
+function formatDay(iso: string) {
+  return new Date(iso).toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+}
+
+/** "Part of an ongoing storyline": the other clusters linked to this story, oldest first. */
+export function StorylineSection({ slug }: { slug: string }) {
+  const [storyline, setStoryline] = useState<ApiStoryline | null>(null);
+
+  useEffect(() => {
+    let live = true;
+    fetchStorylineForStory(slug)
+      .then((s) => {
+        if (live) setStoryline(s);
+      })
+      .catch(() => {
+        if (live) setStoryline(null);
+      });
+    return () => {
+      live = false;
+    };
+  }, [slug]);
+
+  if (!storyline || storyline.stories.length < 2) return null;
+
+  return (
+    <section className="mt-8 rounded-lg border p-4">
+      <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Part of an ongoing storyline</p>
+      <h2 className="font-medium mt-1">{storyline.title}</h2>
+      <p className="text-xs text-muted-foreground mb-3">
+        {storyline.stories.length} stories since {formatDay(storyline.firstSeenAt)}
+      </p>
+      <ol className="space-y-2">
+        {storyline.stories.map((s) => (
+          <li key={s.id} className="flex gap-3 text-sm">
+            <span className="text-xs text-muted-foreground w-14 shrink-0 pt-0.5">{formatDay(s.firstSeenAt)}</span>
+            {s.slug === slug ? (
+              <span className="font-medium">{s.canonicalTitle}</span>
+            ) : (
+              <Link to={`/story/${s.slug}`} className="hover:underline">
+                {s.canonicalTitle}
+              </Link>
+            )}
+            <span className="text-xs text-muted-foreground ml-auto shrink-0 pt-0.5">
+              {s.articleCount} article{s.articleCount === 1 ? '' : 's'}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+}
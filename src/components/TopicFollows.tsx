@@ -0,0 +1,153 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { Link } from 'react-router-dom';
+import { Bell, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import {
+  fetchNotifications,
+  followTopic,
+  markNotificationsRead,
+  unfollowTopic,
+  type ApiNotification,
+} from '@/services/aggregation';
+import { cn } from '@/lib/utils';
+
+/** Followed topics (add / remove) and the latest topic alerts, above the "Your topics" feed. */
+export function TopicFollows({ topics, onChange }: { topics: string[]; onChange: () => void }) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [alerts, setAlerts] = useState<ApiNotification[]>([]);
+  const [unread, setUnread] = useState(0);
+
+  useEffect(() => {
+    fetchNotifications(10)
+      .then(({ notifications, unread }) => {
+        setAlerts(notifications);
+        setUnread(unread);
+      })
+      .catch(() => {});
+  }, [topics]);
+
+  const run = async (op: () => Promise<unknown>) => {
+    setBusy(true);
+    try {
+      await op();
+      onChange();
+    } catch (e) {
+      toast({
+        title: 'Could not update topics',
+        description: e instanceof Error ? e.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const add = (e: FormEvent) => {
+    e.preventDefault();
+    const topic = draft.trim();
+    if (!topic) return;
+    void run(async () => {
+      await followTopic(topic);
+      setDraft('');
+    });
+  };
+
+  const markAllRead = () => {
+    markNotificationsRead()
+      .then(() => {
+        setAlerts((prev) => prev.map((n) => ({ ...n, read: true })));
+        setUnread(0);
+      })
+      .catch(() => {});
+  };
+
+  return (
+    <div className="mb-6 space-y-4 rounded-lg border border-border/80 bg-card p-4 sm:p-5">
+      <div>
+        <p className="text-sm font-medium text-foreground">Topics you follow</p>
+        <p className="text-xs text-muted-foreground mt-0.5">
+          Matched against headlines, outlets and the people, places and organisations in each story. New matches
+          also show up as alerts below (and by email if you turn it on in{' '}
+          <Link to="/settings" className="underline">
+            Settings
+          </Link>
+          ).
+        </p>
+        <div className="mt-3 flex flex-wrap gap-1.5">
+          {topics.map((t) => (
+            <span
+              key={t}
+              className="inline-flex items-center gap-1 rounded-full border border-border bg-background px-2.5 py-0.5 text-xs"
+            >
+              {t}
+              <button
+                type="button"
+                onClick={() => void run(() => unfollowTopic(t))}
+                disabled={busy}
+                className="text-muted-foreground hover:text-foreground"
+                aria-label={`Unfollow ${t}`}
+              >
+                <X className="h-3 w-3" aria-hidden />
+              </button>
+            </span>
+          ))}
+          {!topics.length && <span className="text-xs text-muted-foreground">None yet.</span>}
+        </div>
+        <form onSubmit={add} className="mt-3 flex gap-2">
+          <Input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="Follow a topic, e.g. monsoon or RBI"
+            className="max-w-xs h-9"
+            maxLength={80}
+          />
+          <Button type="submit" size="sm" variant="outline" disabled={busy || !draft.trim()}>
+            <Plus className="h-3.5 w-3.5 mr-1" aria-hidden />
+            Follow
+          </Button>
+        </form>
+      </div>
+
+      {alerts.length > 0 && (
+        <div className="border-t border-border/60 pt-4">
+          <div className="flex items-center justify-between gap-3">
+            <p className="flex items-center gap-1.5 text-sm font-medium text-foreground">
+              <Bell className="h-4 w-4" aria-hidden />
+              Alerts
+              {unread > 0 && (
+                <span className="rounded-full bg-primary px-1.5 text-[10px] text-primary-foreground tabular-nums">
+                  {unread}
+                </span>
+              )}
+            </p>
+            {unread > 0 && (
+              <Button type="button" size="sm" variant="ghost" onClick={markAllRead}>
+                Mark all read
+              </Button>
+            )}
+          </div>
+          <ul className="mt-2 space-y-1.5">
+            {alerts.map((n) => (
+              <li key={n.id} className="text-sm">
+                <Link
+                  to={`/story/${n.slug}`}
+                  onClick={() => !n.read && markNotificationsRead(n.id).catch(() => {})}
+                  className={cn('hover:text-primary', n.read ? 'text-muted-foreground' : 'font-medium text-foreground')}
+                >
+                  {n.title}
+                </Link>
+                <span className="ml-2 text-xs text-muted-foreground">
+                  {n.topics.join(', ')} · {new Date(n.createdAt).toLocaleString()}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -16,3 +16,5 @@ export { useKeyboardShortcuts } from './useKeyboardShortcuts';
 export { useSearch } from './useSearch';
 export { useVerification } from './useVerification';
 export { useDashboardData } from './useDashboardData';
+export { useEdition } from './useEdition';
+export { useReadingLog } from './useReadingLog';
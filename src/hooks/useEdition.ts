@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useState } from 'react';
+import { fetchEditions, isConvexBackend, type ApiEdition } from '@/services/aggregation';
+
+const STORAGE_KEY = 'edition';
+const CHANGE_EVENT = 'facets:edition';
+export const DEFAULT_EDITION_ID = 'in-national';
+
+let editionsPromise: Promise<ApiEdition[]> | null = null;
+
+function loadEditions(): Promise<ApiEdition[]> {
+  editionsPromise ??= fetchEditions()
+    .then((r) => r.editions)
+    .catch(() => {
+      editionsPromise = null;
+      return [];
+    });
+  return editionsPromise;
+}
+
+function storedEdition(): string {
+  if (typeof window === 'undefined') return DEFAULT_EDITION_ID;
+  return window.localStorage.getItem(STORAGE_KEY) || DEFAULT_EDITION_ID;
+}
+
+/**
+ * Selected regional edition, shared across views (Feed, Blindspot, language switcher) and
+ * persisted in localStorage. `edition` is null until the edition list has loaded.
+ */
+export function useEdition() {
+  const [editionId, setEditionId] = useState(storedEdition);
+  const [editions, setEditions] = useState<ApiEdition[]>([]);
+
+  useEffect(() => {
+    if (!isConvexBackend()) return;
+    let live = true;
+    void loadEditions().then((list) => {
+      if (live) setEditions(list);
+    });
+    const sync = () => setEditionId(storedEdition());
+    window.addEventListener(CHANGE_EVENT, sync);
+    window.addEventListener('storage', sync);
+    return () => {
+      live = false;
+      window.removeEventListener(CHANGE_EVENT, sync);
+      window.removeEventListener('storage', sync);
+    };
+  }, []);
+
+  const setEdition = useCallback((id: string) => {
+    window.localStorage.setItem(STORAGE_KEY, id);
+    setEditionId(id);
+    window.dispatchEvent(new Event(CHANGE_EVENT));
+  }, []);
+
+  const edition = editions.find((e) => e.id === editionId) ?? null;
+  return { editionId, edition, editions, setEdition };
+}
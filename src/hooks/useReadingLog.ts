@@ -0,0 +1,17 @@
+import { useCallback } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { recordReading, type ReadingSource } from '@/services/aggregation';
+
+/**
+ * Click tracking for "My News Bias": returns a `track(slug, articleId?)` that logs a story open or an
+ * article click-through for signed-in readers and does nothing for everyone else.
+ */
+export function useReadingLog(source: ReadingSource) {
+  const { currentUser } = useAuth();
+  return useCallback(
+    (slug: string, articleId?: string) => {
+      if (currentUser) recordReading(slug, source, articleId);
+    },
+    [currentUser, source],
+  );
+}
@@ -1,10 +1,37 @@
 import type { VerificationResult } from '@/types/news';
+import type { Id } from '../../../convex/_generated/dataModel';
 import { getConvexHttpClient, api } from '@/services/convexClient';
 import type {
+  ApiAdminCluster,
+  ApiAdminOutlet,
+  ApiAdminRatingDispute,
+  ApiArchivedStory,
+  ApiClusterAuditEntry,
+  ApiDigestPreferences,
+  ApiEdition,
+  ApiEntity,
+  ApiEntityPage,
+  ApiFeedHealth,
+  ApiMyNewsBias,
+  ApiNotification,
   ApiOutlet,
+  ApiOutletChange,
+  ApiOutletProfile,
+  ApiOutletInput,
+  ApiOutletRatingBreakdown,
+  ApiOwner,
+  ApiOwnerInput,
+  ApiRatingBreakdown,
+  ApiRatingDispute,
+  ApiSearchUsage,
   ApiStory,
+  ApiStoryline,
+  ApiStoryTimeline,
+  ApiTopicFeed,
   BillingPlansResponse,
+  DigestFrequency,
   RazorpayOrderResponse,
+  ReadingSource,
 } from './types';
 function isAuthError(err: unknown) {
   const msg = err instanceof Error ? err.message : String(err);
@@ -30,33 +57,133 @@ export async function convexFetchStories(
     minRight?: number;
     factualityMin?: string;
     ownership?: string;
+    edition?: string;
   },
 ): Promise<ApiStory[]> {
   const data = await client().query(api.stories.list, { limit, ...opts });
   return (data.stories ?? []) as ApiStory[];
 }
 
-export async function convexFetchBlindspot(side: string, limit: number): Promise<ApiStory[]> {
-  const data = await client().query(api.stories.blindspotList, { side, limit });
+export async function convexFetchBlindspot(side: string, limit: number, edition?: string): Promise<ApiStory[]> {
+  const data = await client().query(api.stories.blindspotList, { side, limit, edition });
   return (data.stories ?? []) as ApiStory[];
 }
 
-export async function convexSearchStories(q: string, limit: number): Promise<ApiStory[]> {
-  const data = await client().query(api.stories.search, { q, limit });
+export async function convexSearchStories(q: string, limit: number, edition?: string): Promise<ApiStory[]> {
+  const data = await client().query(api.stories.search, { q, limit, edition });
   return (data.stories ?? []) as ApiStory[];
 }
 
+export async function convexFetchEditions(): Promise<{ editions: ApiEdition[]; defaultEdition: string }> {
+  return client().query(api.editions.list, {});
+}
+
 export async function convexCoverageDiet() {
   return client().query(api.stories.coverageDiet, {});
 }
 
+export async function convexRecordReading(slug: string, source: ReadingSource, articleId?: string) {
+  return client().mutation(api.reading.record, { slug, source, articleId });
+}
+
+export async function convexFetchMyNewsBias(): Promise<ApiMyNewsBias> {
+  return (await client().query(api.reading.myNewsBias, {})) as ApiMyNewsBias;
+}
+
+export async function convexFetchDigestPreferences(): Promise<ApiDigestPreferences> {
+  return client().query(api.digests.preferences, {});
+}
+
+export async function convexSetDigestPreferences(frequency: DigestFrequency, email?: string, topicAlerts?: boolean) {
+  return client().mutation(api.digests.setPreferences, { frequency, email, topicAlerts });
+}
+
+export async function convexUnsubscribeDigest(token: string) {
+  return client().mutation(api.digests.unsubscribe, { token });
+}
+
+export async function convexFetchTopicFeed(limit: number, edition?: string): Promise<ApiTopicFeed> {
+  return (await client().query(api.stories.topicFeed, { limit, edition })) as ApiTopicFeed;
+}
+
+export async function convexFollowTopic(topic: string) {
+  return client().mutation(api.topics.follow, { topic });
+}
+
+export async function convexUnfollowTopic(topic: string) {
+  return client().mutation(api.topics.unfollow, { topic });
+}
+
+export async function convexFetchNotifications(
+  limit = 20,
+): Promise<{ notifications: ApiNotification[]; unread: number }> {
+  return client().query(api.notifications.list, { limit });
+}
+
+export async function convexMarkNotificationsRead(id?: string) {
+  return client().mutation(api.notifications.markRead, { id: id as Id<'notifications'> | undefined });
+}
+
 export async function convexGenerateBiasCompare(slug: string) {
   return client().action(api.storyCompare.generateBiasCompare, { slug });
 }
 
-export async function convexFetchStory(idOrSlug: string): Promise<ApiStory | null> {
+/** The live story, or for a slug retention archived, its archived stub. */
+export async function convexFetchStory(
+  idOrSlug: string,
+): Promise<{ story: ApiStory | null; archived: ApiArchivedStory | null }> {
   const data = await client().query(api.stories.getBySlug, { slug: idOrSlug });
-  return (data.story ?? null) as ApiStory | null;
+  return {
+    story: (data.story ?? null) as ApiStory | null,
+    archived: (data.archived ?? null) as ApiArchivedStory | null,
+  };
+}
+
+export async function convexFetchStoryTimeline(slug: string): Promise<ApiStoryTimeline | null> {
+  const data = await client().query(api.storyTimeline.forStory, { slug });
+  return (data.timeline ?? null) as ApiStoryTimeline | null;
+}
+
+export async function convexFetchStorylineForStory(slug: string): Promise<ApiStoryline | null> {
+  const data = await client().query(api.storylines.forStory, { slug });
+  return (data.storyline ?? null) as ApiStoryline | null;
+}
+
+export async function convexFetchEntity(slug: string): Promise<ApiEntityPage> {
+  return (await client().query(api.entities.get, { slug })) as ApiEntityPage;
+}
+
+export async function convexFetchRatingBreakdown(): Promise<ApiRatingBreakdown> {
+  return (await client().query(api.ratings.breakdown, {})) as ApiRatingBreakdown;
+}
+
+export async function convexFetchOutletRatings(outletId: string): Promise<ApiOutletRatingBreakdown | null> {
+  return (await client().query(api.ratings.forOutlet, { outletId })) as ApiOutletRatingBreakdown | null;
+}
+
+export async function convexFetchOutletProfile(outletId: string): Promise<ApiOutletProfile | null> {
+  return (await client().query(api.outlets.profile, { outletId })) as ApiOutletProfile | null;
+}
+
+export async function convexFetchOutletDisputes(
+  outletId: string,
+): Promise<{ resolved: ApiRatingDispute[]; mine: ApiRatingDispute[] }> {
+  return client().query(api.ratingDisputes.forOutlet, { outletId });
+}
+
+export async function convexSubmitRatingDispute(input: {
+  outletId: string;
+  kind: 'bias' | 'factuality';
+  proposedValue: string;
+  claim: string;
+  evidenceUrls: string[];
+}) {
+  return client().mutation(api.ratingDisputes.submit, input);
+}
+
+export async function convexFetchStoryEntities(slug: string): Promise<ApiEntity[]> {
+  const data = await client().query(api.entities.forStory, { slug });
+  return data.entities as ApiEntity[];
 }
 
 export async function convexFetchOutlets(): Promise<ApiOutlet[]> {
@@ -123,4 +250,136 @@ export async function convexFetchVerificationBySlug(slug: string) {
 
 export async function convexFetchUserVerifications(limit = 100) {
   return client().query(api.verifications.listForUser, { limit });
-}
\ No newline at end of file
+}
+export async function convexFetchAdminStatus() {
+  try {
+    return await client().query(api.admin.me, {});
+  } catch (e) {
+    if (isAuthError(e)) return { isAdmin: false };
+    throw e;
+  }
+}
+
+export async function convexFetchAdminClusters(q?: string, limit = 40): Promise<ApiAdminCluster[]> {
+  const data = await client().query(api.storyAdmin.clusters, { q, limit });
+  return data.clusters as ApiAdminCluster[];
+}
+
+export async function convexFetchClusterAudit(limit = 50): Promise<ApiClusterAuditEntry[]> {
+  const data = await client().query(api.storyAdmin.audit, { limit });
+  return data.entries as ApiClusterAuditEntry[];
+}
+
+export async function convexMergeStories(storyA: string, storyB: string, note?: string) {
+  return client().mutation(api.storyAdmin.merge, {
+    storyA: storyA as Id<'storyClusters'>,
+    storyB: storyB as Id<'storyClusters'>,
+    note,
+  });
+}
+
+export async function convexSplitStory(storyId: string, articleIds: string[], note?: string) {
+  return client().mutation(api.storyAdmin.split, {
+    storyId: storyId as Id<'storyClusters'>,
+    articleIds: articleIds as Id<'articles'>[],
+    note,
+  });
+}
+
+export async function convexRevertClusterOp(auditId: string) {
+  return client().mutation(api.storyAdmin.revert, { auditId: auditId as Id<'clusterAudit'> });
+}
+
+export async function convexFetchAdminOutlets(): Promise<ApiAdminOutlet[]> {
+  const data = await client().query(api.outletAdmin.list, {});
+  return data.outlets as ApiAdminOutlet[];
+}
+
+export async function convexFetchOutletHistory(outletId?: string, limit = 50): Promise<ApiOutletChange[]> {
+  const data = await client().query(api.outletAdmin.history, {
+    outletId: outletId as Id<'outlets'> | undefined,
+    limit,
+  });
+  return data.entries as ApiOutletChange[];
+}
+
+export async function convexCreateOutlet(input: ApiOutletInput & { feedUrl?: string; feedKind?: string }) {
+  return client().mutation(api.outletAdmin.createOutlet, input);
+}
+
+export async function convexUpdateOutlet(outletId: string, input: ApiOutletInput) {
+  return client().mutation(api.outletAdmin.updateOutlet, { outletId: outletId as Id<'outlets'>, ...input });
+}
+
+export async function convexSetOutletEnabled(outletId: string, enabled: boolean) {
+  return client().mutation(api.outletAdmin.setOutletEnabled, { outletId: outletId as Id<'outlets'>, enabled });
+}
+
+export async function convexDeleteOutlet(outletId: string) {
+  return client().mutation(api.outletAdmin.deleteOutlet, { outletId: outletId as Id<'outlets'> });
+}
+
+export async function convexAddFeed(outletId: string, url: string, pollIntervalSec?: number, kind?: string) {
+  return client().mutation(api.outletAdmin.addFeed, { outletId: outletId as Id<'outlets'>, url, pollIntervalSec, kind });
+}
+
+export async function convexUpdateFeed(
+  feedId: string,
+  patch: { url?: string; pollIntervalSec?: number; enabled?: boolean; edition?: string; kind?: string },
+) {
+  return client().mutation(api.outletAdmin.updateFeed, { feedId: feedId as Id<'feeds'>, ...patch });
+}
+
+export async function convexDeleteFeed(feedId: string) {
+  return client().mutation(api.outletAdmin.deleteFeed, { feedId: feedId as Id<'feeds'> });
+}
+
+export async function convexFetchFeedHealth(): Promise<ApiFeedHealth[]> {
+  const data = await client().query(api.outletAdmin.feedHealth, {});
+  return data.feeds as ApiFeedHealth[];
+}
+
+export async function convexFetchSearchUsage(days?: number): Promise<ApiSearchUsage[]> {
+  const data = await client().query(api.searchUsage.summary, { days });
+  return data.usage as ApiSearchUsage[];
+}
+
+export async function convexFetchDisputeQueue(): Promise<ApiAdminRatingDispute[]> {
+  const data = await client().query(api.ratingDisputes.queue, {});
+  return data.disputes as ApiAdminRatingDispute[];
+}
+
+export async function convexResolveDispute(
+  disputeId: string,
+  decision: 'accept' | 'reject',
+  rationale: string,
+  value?: string,
+) {
+  return client().mutation(api.ratingDisputes.resolve, {
+    disputeId: disputeId as Id<'ratingDisputes'>,
+    decision,
+    rationale,
+    value,
+  });
+}
+
+export async function convexFetchOwners(): Promise<ApiOwner[]> {
+  const data = await client().query(api.owners.list, {});
+  return data.owners as ApiOwner[];
+}
+
+export async function convexCreateOwner(input: ApiOwnerInput) {
+  return client().mutation(api.owners.createOwner, { ...input, parentId: input.parentId as Id<'owners'> | undefined });
+}
+
+export async function convexUpdateOwner(ownerId: string, input: ApiOwnerInput) {
+  return client().mutation(api.owners.updateOwner, {
+    ownerId: ownerId as Id<'owners'>,
+    ...input,
+    parentId: input.parentId as Id<'owners'> | undefined,
+  });
+}
+
+export async function convexDeleteOwner(ownerId: string) {
+  return client().mutation(api.owners.deleteOwner, { ownerId: ownerId as Id<'owners'> });
+}
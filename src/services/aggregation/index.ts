@@ -1,6 +1,7 @@
 import type { VerificationResult } from '@/types/news';
 import { logger } from '@/lib/logger';
 import * as convex from './convexBackend';
+import type { DigestFrequency, ReadingSource } from './types';
 
 export * from './types';
 
@@ -23,14 +24,19 @@ export async function fetchStories(
   return convex.convexFetchStories(limit, opts);
 }
 
-export async function fetchBlindspotStories(side: 'all' | 'left' | 'right' = 'all', limit = 30) {
+export async function fetchBlindspotStories(side: 'all' | 'left' | 'right' = 'all', limit = 30, edition?: string) {
   requireConvex();
-  return convex.convexFetchBlindspot(side, limit);
+  return convex.convexFetchBlindspot(side, limit, edition);
 }
 
-export async function searchStories(q: string, limit = 25) {
+export async function searchStories(q: string, limit = 25, edition?: string) {
   requireConvex();
-  return convex.convexSearchStories(q, limit);
+  return convex.convexSearchStories(q, limit, edition);
+}
+
+export async function fetchEditions() {
+  requireConvex();
+  return convex.convexFetchEditions();
 }
 
 export async function fetchCoverageDiet() {
@@ -38,6 +44,57 @@ export async function fetchCoverageDiet() {
   return convex.convexCoverageDiet();
 }
 
+/** Log a story open / article click for "My News Bias"; never throws (tracking must not block navigation). */
+export function recordReading(slug: string, source: ReadingSource, articleId?: string) {
+  if (!process.env.NEXT_PUBLIC_CONVEX_URL) return;
+  convex.convexRecordReading(slug, source, articleId).catch(() => {});
+}
+
+export async function fetchMyNewsBias() {
+  requireConvex();
+  return convex.convexFetchMyNewsBias();
+}
+
+export async function fetchDigestPreferences() {
+  requireConvex();
+  return convex.convexFetchDigestPreferences();
+}
+
+export async function setDigestPreferences(frequency: DigestFrequency, email?: string, topicAlerts?: boolean) {
+  requireConvex();
+  return convex.convexSetDigestPreferences(frequency, email, topicAlerts);
+}
+
+export async function unsubscribeDigest(token: string) {
+  requireConvex();
+  return convex.convexUnsubscribeDigest(token);
+}
+
+export async function fetchTopicFeed(limit = 40, edition?: string) {
+  requireConvex();
+  return convex.convexFetchTopicFeed(limit, edition);
+}
+
+export async function followTopic(topic: string) {
+  requireConvex();
+  return convex.convexFollowTopic(topic);
+}
+
+export async function unfollowTopic(topic: string) {
+  requireConvex();
+  return convex.convexUnfollowTopic(topic);
+}
+
+export async function fetchNotifications(limit = 20) {
+  requireConvex();
+  return convex.convexFetchNotifications(limit);
+}
+
+export async function markNotificationsRead(id?: string) {
+  requireConvex();
+  return convex.convexMarkNotificationsRead(id);
+}
+
 export async function generateBiasCompare(slug: string) {
   requireConvex();
   return convex.convexGenerateBiasCompare(slug);
@@ -48,6 +105,51 @@ export async function fetchStory(idOrSlug: string) {
   return convex.convexFetchStory(idOrSlug);
 }
 
+export async function fetchStoryTimeline(slug: string) {
+  requireConvex();
+  return convex.convexFetchStoryTimeline(slug);
+}
+
+export async function fetchStorylineForStory(slug: string) {
+  requireConvex();
+  return convex.convexFetchStorylineForStory(slug);
+}
+
+export async function fetchEntity(slug: string) {
+  requireConvex();
+  return convex.convexFetchEntity(slug);
+}
+
+export async function fetchRatingBreakdown() {
+  requireConvex();
+  return convex.convexFetchRatingBreakdown();
+}
+
+export async function fetchOutletRatings(outletId: string) {
+  requireConvex();
+  return convex.convexFetchOutletRatings(outletId);
+}
+
+export async function fetchOutletProfile(outletId: string) {
+  requireConvex();
+  return convex.convexFetchOutletProfile(outletId);
+}
+
+export async function fetchOutletDisputes(outletId: string) {
+  requireConvex();
+  return convex.convexFetchOutletDisputes(outletId);
+}
+
+export async function submitRatingDispute(input: Parameters<typeof convex.convexSubmitRatingDispute>[0]) {
+  requireConvex();
+  return convex.convexSubmitRatingDispute(input);
+}
+
+export async function fetchStoryEntities(slug: string) {
+  requireConvex();
+  return convex.convexFetchStoryEntities(slug);
+}
+
 export async function fetchOutlets() {
   requireConvex();
   return convex.convexFetchOutlets();
@@ -122,4 +224,118 @@ export async function fetchUserVerificationsForDashboard(limit = 100) {
   requireConvex();
   const data = await convex.convexFetchUserVerifications(limit);
   return data.verifications;
-}
\ No newline at end of file
+}
+export async function fetchAdminStatus() {
+  requireConvex();
+  return convex.convexFetchAdminStatus();
+}
+
+export async function fetchAdminClusters(q?: string, limit = 40) {
+  requireConvex();
+  return convex.convexFetchAdminClusters(q, limit);
+}
+
+export async function fetchClusterAudit(limit = 50) {
+  requireConvex();
+  return convex.convexFetchClusterAudit(limit);
+}
+
+export async function mergeStories(storyA: string, storyB: string, note?: string) {
+  requireConvex();
+  return convex.convexMergeStories(storyA, storyB, note);
+}
+
+export async function splitStory(storyId: string, articleIds: string[], note?: string) {
+  requireConvex();
+  return convex.convexSplitStory(storyId, articleIds, note);
+}
+
+export async function revertClusterOp(auditId: string) {
+  requireConvex();
+  return convex.convexRevertClusterOp(auditId);
+}
+
+export async function fetchAdminOutlets() {
+  requireConvex();
+  return convex.convexFetchAdminOutlets();
+}
+
+export async function fetchOutletHistory(outletId?: string, limit = 50) {
+  requireConvex();
+  return convex.convexFetchOutletHistory(outletId, limit);
+}
+
+export async function createOutlet(input: Parameters<typeof convex.convexCreateOutlet>[0]) {
+  requireConvex();
+  return convex.convexCreateOutlet(input);
+}
+
+export async function updateOutlet(outletId: string, input: Parameters<typeof convex.convexUpdateOutlet>[1]) {
+  requireConvex();
+  return convex.convexUpdateOutlet(outletId, input);
+}
+
+export async function setOutletEnabled(outletId: string, enabled: boolean) {
+  requireConvex();
+  return convex.convexSetOutletEnabled(outletId, enabled);
+}
+
+export async function deleteOutlet(outletId: string) {
+  requireConvex();
+  return convex.convexDeleteOutlet(outletId);
+}
+
+export async function addFeed(outletId: string, url: string, pollIntervalSec?: number, kind?: string) {
+  requireConvex();
+  return convex.convexAddFeed(outletId, url, pollIntervalSec, kind);
+}
+
+export async function updateFeed(feedId: string, patch: Parameters<typeof convex.convexUpdateFeed>[1]) {
+  requireConvex();
+  return convex.convexUpdateFeed(feedId, patch);
+}
+
+export async function deleteFeed(feedId: string) {
+  requireConvex();
+  return convex.convexDeleteFeed(feedId);
+}
+
+export async function fetchFeedHealth() {
+  requireConvex();
+  return convex.convexFetchFeedHealth();
+}
+
+export async function fetchSearchUsage(days?: number) {
+  requireConvex();
+  return convex.convexFetchSearchUsage(days);
+}
+
+export async function fetchDisputeQueue() {
+  requireConvex();
+  return convex.convexFetchDisputeQueue();
+}
+
+export async function resolveDispute(disputeId: string, decision: 'accept' | 'reject', rationale: string, value?: string) {
+  requireConvex();
+  return convex.convexResolveDispute(disputeId, decision, rationale, value);
+}
+
+export async function fetchOwners() {
+  requireConvex();
+  return convex.convexFetchOwners();
+}
+
+export async function createOwner(input: Parameters<typeof convex.convexCreateOwner>[0]) {
+  requireConvex();
+  return convex.convexCreateOwner(input);
+}
+
+export async function updateOwner(ownerId: string, input: Parameters<typeof convex.convexUpdateOwner>[1]) {
+  requireConvex();
+  return convex.convexUpdateOwner(ownerId, input);
+}
+
+export async function deleteOwner(ownerId: string) {
+  requireConvex();
+  return convex.convexDeleteOwner(ownerId);
+}
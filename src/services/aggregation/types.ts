@@ -2,17 +2,28 @@ export type ApiStory = {
   id: string;
   canonicalTitle: string;
   slug: string;
+  edition?: string;
+  lastUpdatedAt?: string;
   sourceCount: number;
+  syndicatedCount?: number;
   biasSpread: Record<string, number>;
+  /** Coverage counted per article (= `biasSpread`), per outlet, and per outlet scaled by reach. */
+  biasSpreadBy?: Record<'articles' | 'outlets' | 'reach', Record<string, number>>;
+  ownershipSpread?: Record<string, number>;
   blindspot?: { message: string; storyHeavySide: string } | null;
   blindspotSide?: 'left' | 'right' | null;
   blindspotReason?: string | null;
+  blindspotFormula?: string | null;
   biasCompareSummary?: string | null;
   articles: {
     id: string;
     url: string;
     title: string;
     summary: string | null;
+    syndicatedFromId?: string | null;
+    wireSource?: string | null;
+    /** ISO 639-1 code when the article is not in English. */
+    language?: string | null;
     outlet?: {
       id?: string;
       name: string;
@@ -24,6 +35,122 @@ export type ApiStory = {
   }[];
 };
 
+/** A story removed by retention: headline and article links only. */
+export type ApiArchivedStory = {
+  slug: string;
+  canonicalTitle: string;
+  edition: string;
+  firstSeenAt: string;
+  lastUpdatedAt: string;
+  archivedAt: string;
+  articles: {
+    title: string;
+    url: string;
+    publishedAt: string | null;
+    outlet: { id: string; name: string; biasLabel: string } | null;
+  }[];
+};
+
+export type ApiStoryEvent = {
+  kind: 'outlet_joined' | 'title_changed' | 'blindspot_changed' | 'milestone';
+  at: string;
+  outlet?: { id: string; name: string; biasLabel: string } | null;
+  publishedAt?: string | null;
+  from?: string | null;
+  to?: string | null;
+  count?: number | null;
+};
+
+export type ApiStoryTimeline = {
+  events: ApiStoryEvent[];
+  firstBySide: Partial<Record<'left' | 'center' | 'right', { at: string; outletName: string | null }>>;
+  brokeFirst: 'left' | 'right' | null;
+  otherSideLagHours: number | null;
+};
+
+export type ApiStoryline = {
+  id: string;
+  slug: string;
+  title: string;
+  entities: string[];
+  edition?: string;
+  firstSeenAt: string;
+  lastUpdatedAt: string;
+  stories: {
+    id: string;
+    slug: string;
+    canonicalTitle: string;
+    firstSeenAt: string;
+    lastUpdatedAt: string;
+    articleCount: number;
+  }[];
+};
+
+export type ApiEntity = {
+  slug: string;
+  name: string;
+  kind: 'person' | 'org' | 'place' | 'party';
+  articleCount: number;
+  lastSeenAt: string;
+};
+
+export type ApiEntityPage = {
+  entity: ApiEntity | null;
+  stories: ApiStory[];
+  biasSpread: Record<string, number>;
+};
+
+export type ApiOutletRating = {
+  id: string;
+  source: string;
+  kind: 'bias' | 'factuality';
+  scale: string;
+  scaleName: string;
+  rawValue: string;
+  score: number;
+  ratedAt: string;
+  url: string | null;
+  current: boolean;
+  weight: number;
+};
+
+export type ApiOutletRatingBreakdown = {
+  outletId: string;
+  name: string;
+  domain: string;
+  biasLabel: string;
+  biasScaleLabel: string;
+  biasScore: number | null;
+  factuality: string;
+  factualityScore: number | null;
+  ratings: ApiOutletRating[];
+};
+
+export type ApiRatingBreakdown = {
+  method: 'mean' | 'median';
+  biasPoints: 5 | 7;
+  outlets: ApiOutletRatingBreakdown[];
+};
+
+export type ApiRatingDispute = {
+  id: string;
+  kind: 'bias' | 'factuality';
+  currentValue: string;
+  proposedValue: string;
+  evidenceUrls: string[];
+  status: 'open' | 'accepted' | 'rejected';
+  rationale: string | null;
+  createdAt: string;
+  resolvedAt: string | null;
+};
+
+export type ApiAdminRatingDispute = ApiRatingDispute & {
+  outletId: string;
+  outletName: string;
+  claim: string;
+  userId: string;
+};
+
 export type ApiOutlet = {
   id: string;
   name: string;
@@ -31,6 +158,209 @@ export type ApiOutlet = {
   biasLabel: string;
   factuality: string;
   ownershipCategory?: string | null;
+  edition?: string;
+};
+
+export type ApiOutletProfile = {
+  outlet: ApiOutlet;
+  owners: { id: string; name: string; category: string }[];
+  feeds: { url: string; kind: string; enabled: boolean; lastSuccessAt: string | null }[];
+  following: boolean | null;
+  stories: ApiStory[];
+  exclusives: ApiStory[];
+  blindspots: { stories: number; left: number; right: number };
+};
+
+export type ApiReadingMix = {
+  bias: Record<string, number>;
+  factuality: Record<string, number>;
+  ownership: Record<string, number>;
+};
+
+export type ApiMyNewsBias = {
+  allowed: boolean;
+  error: string | null;
+  report: {
+    since: string;
+    articles: number;
+    stories: number;
+    total: ApiReadingMix;
+    weeks: (ApiReadingMix & { start: string; articles: number; stories: number })[];
+    topOutlets: { outletId: string; name: string; biasLabel: string; factuality: string; reads: number }[];
+    side: 'left' | 'right' | null;
+    sideFrom: 'reading' | 'profile' | null;
+    missedBlindspots: {
+      id: string;
+      slug: string;
+      canonicalTitle: string;
+      blindspotReason: string | null;
+      lastUpdatedAt: string;
+    }[];
+    truncated: boolean;
+  } | null;
+};
+
+export type ReadingSource = 'feed' | 'story' | 'blindspot';
+
+export type DigestFrequency = 'daily' | 'weekly' | 'off';
+
+export type ApiDigestPreferences = {
+  subscription: {
+    email: string;
+    frequency: DigestFrequency;
+    lastSentAt: number | null;
+    topicAlertEmail: boolean;
+  } | null;
+  accountEmail: string | null;
+};
+
+export type ApiTopicFeed = {
+  stories: ApiStory[];
+  topics: string[];
+  /** Followed topics each story matched, by story id. */
+  matches: Record<string, string[]>;
+};
+
+export type ApiNotification = {
+  id: string;
+  kind: 'topic';
+  slug: string;
+  title: string;
+  topics: string[];
+  createdAt: number;
+  read: boolean;
+};
+
+export type ApiEdition = {
+  id: string;
+  name: string;
+  locales: string[];
+  biasScale: { label: string; name: string }[];
+};
+
+export type ApiAdminCluster = {
+  id: string;
+  slug: string;
+  canonicalTitle: string;
+  firstSeenAt: number;
+  lastUpdatedAt: number;
+  articles: { id: string; title: string; url: string; outletName: string }[];
+};
+
+export type ApiClusterAuditEntry = {
+  id: string;
+  op: 'merge' | 'split';
+  actorId: string;
+  storySlug: string | null;
+  storyTitle: string | null;
+  otherSlug: string | null;
+  otherTitle: string | null;
+  articleCount: number;
+  note: string | null;
+  createdAt: number;
+  revertedAt: number | null;
+};
+
+export type ApiAdminFeed = {
+  id: string;
+  url: string;
+  /** rss | atom | json-feed | sitemap | google-news-sitemap */
+  kind: string;
+  pollIntervalSec: number;
+  enabled: boolean;
+  lastFetchedAt: number | null;
+  lastError: string | null;
+  errorStreak: number;
+  disabledReason: string | null;
+  edition: string | null;
+};
+
+export type ApiAdminOutlet = {
+  id: string;
+  externalId: string;
+  name: string;
+  domain: string;
+  biasLabel: string;
+  factuality: string;
+  ownershipCategory: string | null;
+  ownerId: string | null;
+  reachTier: string | null;
+  ratingSource: string | null;
+  enabled: boolean;
+  origin: 'seed' | 'admin';
+  edition: string;
+  feeds: ApiAdminFeed[];
+};
+
+export type ApiOutletInput = {
+  name: string;
+  domain: string;
+  biasLabel: string;
+  factuality: string;
+  ownershipCategory?: string;
+  ownerId?: string;
+  reachTier?: string;
+  ratingSource?: string;
+  edition?: string;
+};
+
+export type ApiOwner = {
+  id: string;
+  slug: string;
+  name: string;
+  category: string;
+  parentId: string | null;
+  url: string | null;
+  /** Parents from the direct one up to the ultimate owner. */
+  chain: { id: string; name: string; category: string }[];
+  outlets: { id: string; name: string }[];
+};
+
+export type ApiOwnerInput = {
+  name: string;
+  category: string;
+  parentId?: string;
+  url?: string;
+};
+
+export type ApiOutletChange = {
+  id: string;
+  outletId: string;
+  outletName: string;
+  op: 'create' | 'update' | 'enable' | 'disable' | 'delete' | 'feed-add' | 'feed-update' | 'feed-delete';
+  actorId: string;
+  changes: { field: string; before?: string; after?: string }[];
+  note: string | null;
+  createdAt: number;
+};
+
+export type ApiFeedHealth = {
+  feedId: string;
+  outletName: string;
+  url: string;
+  enabled: boolean;
+  status: 'ok' | 'failing' | 'stale' | 'disabled';
+  lastFetchedAt: string | null;
+  lastSuccessAt: string | null;
+  nextPollAt: string | null;
+  lastError: string | null;
+  errorStreak: number;
+  disabledReason: string | null;
+  polls: number;
+  errors: number;
+  notModified: number;
+  itemsPerPoll: number | null;
+  duplicateRate: number | null;
+};
+
+export type ApiSearchUsage = {
+  provider: string;
+  day: string;
+  calls: number;
+  failures: number;
+  quota: number | null;
+  lastError: string | null;
+  exhaustedUntil: number | null;
 };
 
 export type PlanCatalogItem = {
@@ -48,7 +378,7 @@ export type BillingPlansResponse = {
   billingEnabled: boolean;
   razorpayKeyId: string | null;
   catalog: PlanCatalogItem[];
-  plans: Record<string, { verificationsPerMonth: number; customFeeds: number; blindspot: boolean; biasCompare?: boolean; feedFilters?: boolean }>;
+  plans: Record<string, { verificationsPerMonth: number; customFeeds: number; blindspot: boolean; biasCompare?: boolean; feedFilters?: boolean; readingAnalytics?: boolean }>;
 };
 
 export type RazorpayOrderResponse = {
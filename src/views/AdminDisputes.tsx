@@ -0,0 +1,176 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { MarketingShell } from '@/components/marketing/MarketingShell';
+import { PageHero } from '@/components/marketing/PageHero';
+import { PageSection } from '@/components/marketing/PageSection';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useAuth } from '@/context/AuthContext';
+import {
+  fetchAdminStatus,
+  fetchDisputeQueue,
+  isConvexBackend,
+  resolveDispute,
+  type ApiAdminRatingDispute,
+} from '@/services/aggregation';
+import { Check, RefreshCw, ShieldAlert, X } from 'lucide-react';
+
+function DisputeCard({
+  dispute,
+  busy,
+  onResolve,
+}: {
+  dispute: ApiAdminRatingDispute;
+  busy: boolean;
+  onResolve: (decision: 'accept' | 'reject', rationale: string) => void;
+}) {
+  const [rationale, setRationale] = useState('');
+  return (
+    <li className="rounded-lg border border-border bg-card p-5 space-y-3">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <p className="font-medium">
+          <Link to={`/outlet/${dispute.outletId}`} className="hover:text-primary">
+            {dispute.outletName}
+          </Link>{' '}
+          <span className="text-sm text-muted-foreground">
+            · <span className="capitalize">{dispute.kind}</span>: {dispute.currentValue} → {dispute.proposedValue}
+          </span>
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {new Date(dispute.createdAt).toLocaleString()} · {dispute.userId}
+        </p>
+      </div>
+      <p className="text-sm whitespace-pre-line">{dispute.claim}</p>
+      <ul className="text-xs space-y-0.5">
+        {dispute.evidenceUrls.map((url) => (
+          <li key={url}>
+            <a href={url} target="_blank" rel="noreferrer" className="underline break-all">
+              {url}
+            </a>
+          </li>
+        ))}
+      </ul>
+      <Textarea
+        placeholder="Rationale (published on the outlet page)"
+        value={rationale}
+        onChange={(e) => setRationale(e.target.value)}
+        className="min-h-[60px]"
+      />
+      <div className="flex gap-2">
+        <Button size="sm" disabled={busy || !rationale.trim()} onClick={() => onResolve('accept', rationale)}>
+          <Check className="h-3.5 w-3.5 mr-1.5" aria-hidden />
+          Accept
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={busy || !rationale.trim()}
+          onClick={() => onResolve('reject', rationale)}
+        >
+          <X className="h-3.5 w-3.5 mr-1.5" aria-hidden />
+          Reject
+        </Button>
+      </div>
+    </li>
+  );
+}
+
+const AdminDisputes = () => {
+  const { currentUser } = useAuth();
+  const [isAdmin, setIsAdmin] = useState<boolean | null>(null);
+  const [disputes, setDisputes] = useState<ApiAdminRatingDispute[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!isConvexBackend() || !currentUser) return;
+    try {
+      const status = await fetchAdminStatus();
+      setIsAdmin(status.isAdmin);
+      if (!status.isAdmin) return;
+      setDisputes(await fetchDisputeQueue());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load disputes');
+    }
+  }, [currentUser]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const resolve = async (disputeId: string, decision: 'accept' | 'reject', rationale: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await resolveDispute(disputeId, decision, rationale);
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not resolve dispute');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <MarketingShell>
+      <PageHero
+        eyebrow="Admin"
+        title="Rating disputes"
+        description="Reader disputes of outlet bias and factuality labels, oldest first. Accepting adds the proposed value as a new editorial rating; both outcomes and their rationale are shown on the outlet page."
+      />
+
+      <PageSection width="wide">
+        {!currentUser && <p className="text-sm text-muted-foreground">Sign in to continue.</p>}
+        {currentUser && isAdmin === false && (
+          <div className="rounded-lg border border-border bg-muted/25 px-6 py-10 text-center">
+            <ShieldAlert className="h-8 w-8 text-primary mx-auto mb-4" aria-hidden />
+            <p className="font-medium text-foreground">Admin access required</p>
+            <p className="text-sm text-muted-foreground mt-2">
+              Add your user id to <code className="text-xs bg-muted px-1 rounded">ADMIN_USER_IDS</code> on Convex.
+            </p>
+          </div>
+        )}
+
+        {isAdmin && (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-6 pb-4 border-b border-border/60">
+              <p className="text-sm text-muted-foreground">{disputes.length} open</p>
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" asChild>
+                  <Link to="/admin/outlets">Manage outlets</Link>
+                </Button>
+                <Button size="sm" variant="outline" disabled={busy} onClick={() => void load()}>
+                  <RefreshCw className="h-3.5 w-3.5 mr-1.5" aria-hidden />
+                  Refresh
+                </Button>
+              </div>
+            </div>
+
+            {error && (
+              <p className="text-destructive text-sm mb-4" role="alert">
+                {error}
+              </p>
+            )}
+
+            {disputes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No open disputes.</p>
+            ) : (
+              <ul className="space-y-4">
+                {disputes.map((d) => (
+                  <DisputeCard
+                    key={d.id}
+                    dispute={d}
+                    busy={busy}
+                    onResolve={(decision, rationale) => void resolve(d.id, decision, rationale)}
+                  />
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </PageSection>
+    </MarketingShell>
+  );
+};
+
+export default AdminDisputes;
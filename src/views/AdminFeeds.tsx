@@ -0,0 +1,231 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { MarketingShell } from '@/components/marketing/MarketingShell';
+import { PageHero } from '@/components/marketing/PageHero';
+import { PageSection } from '@/components/marketing/PageSection';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/context/AuthContext';
+import {
+  fetchAdminStatus,
+  fetchFeedHealth,
+  fetchSearchUsage,
+  isConvexBackend,
+  updateFeed,
+  type ApiFeedHealth,
+  type ApiSearchUsage,
+} from '@/services/aggregation';
+import { Power, RefreshCw, ShieldAlert } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const STATUS_STYLE: Record<ApiFeedHealth['status'], string> = {
+  failing: 'bg-destructive/10 text-destructive border-destructive/30',
+  stale: 'bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-500/30',
+  disabled: 'bg-muted text-muted-foreground border-border',
+  ok: 'bg-emerald-500/10 text-emerald-700 dark:text-emerald-400 border-emerald-500/30',
+};
+
+function ago(iso: string | null) {
+  if (!iso) return 'never';
+  const mins = Math.round((Date.now() - new Date(iso).getTime()) / 60_000);
+  if (mins < 60) return `${mins}m ago`;
+  if (mins < 48 * 60) return `${Math.round(mins / 60)}h ago`;
+  return `${Math.round(mins / 1440)}d ago`;
+}
+
+function pct(rate: number | null) {
+  return rate === null ? '—' : `${Math.round(rate * 100)}%`;
+}
+
+const AdminFeeds = () => {
+  const { currentUser } = useAuth();
+  const [isAdmin, setIsAdmin] = useState<boolean | null>(null);
+  const [feeds, setFeeds] = useState<ApiFeedHealth[]>([]);
+  const [search, setSearch] = useState<ApiSearchUsage[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!isConvexBackend() || !currentUser) return;
+    try {
+      const status = await fetchAdminStatus();
+      setIsAdmin(status.isAdmin);
+      if (!status.isAdmin) return;
+      const [f, s] = await Promise.all([fetchFeedHealth(), fetchSearchUsage()]);
+      setFeeds(f);
+      setSearch(s);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load feed health');
+    }
+  }, [currentUser]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const reenable = async (feedId: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await updateFeed(feedId, { enabled: true });
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not enable feed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const counts = feeds.reduce<Record<string, number>>((acc, f) => ({ ...acc, [f.status]: (acc[f.status] ?? 0) + 1 }), {});
+
+  return (
+    <MarketingShell>
+      <PageHero
+        eyebrow="Admin"
+        title="Feed health"
+        description="Every RSS feed with its last success, error streak, items per poll and duplicate rate over the last day of polls. Feeds that keep failing are switched off automatically."
+      />
+
+      <PageSection width="wide">
+        {!currentUser && <p className="text-sm text-muted-foreground">Sign in to continue.</p>}
+        {currentUser && isAdmin === false && (
+          <div className="rounded-lg border border-border bg-muted/25 px-6 py-10 text-center">
+            <ShieldAlert className="h-8 w-8 text-primary mx-auto mb-4" aria-hidden />
+            <p className="font-medium text-foreground">Admin access required</p>
+            <p className="text-sm text-muted-foreground mt-2">
+              Add your user id to <code className="text-xs bg-muted px-1 rounded">ADMIN_USER_IDS</code> on Convex.
+            </p>
+          </div>
+        )}
+
+        {isAdmin && (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-6 pb-4 border-b border-border/60">
+              <p className="text-sm text-muted-foreground">
+                {feeds.length} feeds · {counts.failing ?? 0} failing · {counts.stale ?? 0} stale ·{' '}
+                {counts.disabled ?? 0} disabled
+              </p>
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" asChild>
+                  <Link to="/admin/outlets">Manage outlets</Link>
+                </Button>
+                <Button size="sm" variant="outline" disabled={busy} onClick={() => void load()}>
+                  <RefreshCw className="h-3.5 w-3.5 mr-1.5" aria-hidden />
+                  Refresh
+                </Button>
+              </div>
+            </div>
+
+            {error && (
+              <p className="text-destructive text-sm mb-4" role="alert">
+                {error}
+              </p>
+            )}
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-muted-foreground border-b border-border/60">
+                    <th className="py-2 pr-4 font-medium">Feed</th>
+                    <th className="py-2 pr-4 font-medium">Status</th>
+                    <th className="py-2 pr-4 font-medium">Last success</th>
+                    <th className="py-2 pr-4 font-medium text-right">Error streak</th>
+                    <th className="py-2 pr-4 font-medium text-right">Items / poll</th>
+                    <th className="py-2 pr-4 font-medium text-right">Duplicates</th>
+                    <th className="py-2 font-medium" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border/60">
+                  {feeds.map((f) => (
+                    <tr key={f.feedId} className="align-top">
+                      <td className="py-3 pr-4 min-w-[16rem]">
+                        <p className="font-medium">{f.outletName}</p>
+                        <p className="text-xs text-muted-foreground break-all">{f.url}</p>
+                        {(f.disabledReason || f.lastError) && (
+                          <p className="text-xs text-destructive mt-1">{f.disabledReason ?? f.lastError}</p>
+                        )}
+                      </td>
+                      <td className="py-3 pr-4">
+                        <span
+                          className={cn(
+                            'inline-flex rounded-full border px-2 py-0.5 text-xs font-medium capitalize',
+                            STATUS_STYLE[f.status],
+                          )}
+                        >
+                          {f.status}
+                        </span>
+                      </td>
+                      <td className="py-3 pr-4 whitespace-nowrap">{ago(f.lastSuccessAt)}</td>
+                      <td className="py-3 pr-4 text-right tabular-nums">
+                        {f.errorStreak}
+                        <span className="block text-xs text-muted-foreground">
+                          {f.errors}/{f.polls} polls failed
+                        </span>
+                      </td>
+                      <td className="py-3 pr-4 text-right tabular-nums">
+                        {f.itemsPerPoll === null ? '—' : f.itemsPerPoll.toFixed(1)}
+                      </td>
+                      <td className="py-3 pr-4 text-right tabular-nums">{pct(f.duplicateRate)}</td>
+                      <td className="py-3 text-right">
+                        {!f.enabled && (
+                          <Button size="sm" variant="ghost" disabled={busy} onClick={() => void reenable(f.feedId)}>
+                            <Power className="h-3.5 w-3.5 mr-1.5" aria-hidden />
+                            Enable
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </PageSection>
+
+      {isAdmin && (
+        <PageSection
+          width="wide"
+          title="Search providers"
+          description="Daily calls per server search provider (enrich + verify) against SEARCH_DAILY_QUOTA. Providers over quota or rate limited are skipped until they recover."
+          tone="muted"
+        >
+          {search.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No search calls recorded yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-muted-foreground border-b border-border/60">
+                  <th className="py-2 pr-4 font-medium">Day</th>
+                  <th className="py-2 pr-4 font-medium">Provider</th>
+                  <th className="py-2 pr-4 font-medium text-right">Calls</th>
+                  <th className="py-2 pr-4 font-medium text-right">Failures</th>
+                  <th className="py-2 font-medium">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border/60">
+                {search.map((u) => (
+                  <tr key={`${u.day}-${u.provider}`}>
+                    <td className="py-2 pr-4 tabular-nums">{u.day}</td>
+                    <td className="py-2 pr-4 font-medium">{u.provider}</td>
+                    <td className="py-2 pr-4 text-right tabular-nums">
+                      {u.calls}
+                      {u.quota !== null ? ` / ${u.quota}` : ''}
+                    </td>
+                    <td className="py-2 pr-4 text-right tabular-nums">{u.failures}</td>
+                    <td className="py-2 text-xs text-muted-foreground">
+                      {u.exhaustedUntil
+                        ? `paused until ${new Date(u.exhaustedUntil).toLocaleString()}`
+                        : (u.lastError ?? 'ok')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </PageSection>
+      )}
+    </MarketingShell>
+  );
+};
+
+export default AdminFeeds;
@@ -0,0 +1,696 @@
+import { useCallback, useEffect, useState } from 'react';
+import { MarketingShell } from '@/components/marketing/MarketingShell';
+import { PageHero } from '@/components/marketing/PageHero';
+import { PageSection } from '@/components/marketing/PageSection';
+import { OWNERSHIP_NAMES, OWNERSHIP_ORDER } from '@/components/OwnershipBar';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useAuth } from '@/context/AuthContext';
+import {
+  addFeed,
+  createOutlet,
+  createOwner,
+  deleteFeed,
+  deleteOutlet,
+  deleteOwner,
+  fetchAdminOutlets,
+  fetchAdminStatus,
+  fetchOutletHistory,
+  fetchOwners,
+  isConvexBackend,
+  setOutletEnabled,
+  updateFeed,
+  updateOutlet,
+  updateOwner,
+  type ApiAdminOutlet,
+  type ApiOutletChange,
+  type ApiOutletInput,
+  type ApiOwner,
+  type ApiOwnerInput,
+} from '@/services/aggregation';
+import { Pencil, Plus, Power, ShieldAlert, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const BIAS_LABELS = ['left', 'center-left', 'center', 'center-right', 'right', 'unknown'];
+const FACTUALITY_TIERS = ['very-high', 'high', 'mixed', 'low', 'unknown'];
+const OWNERSHIP_CATEGORIES = OWNERSHIP_ORDER.filter((c) => c !== 'unknown');
+const REACH_TIERS = ['national', 'regional', 'standard', 'niche'];
+const EDITIONS = ['in-national', 'in-maharashtra', 'us', 'uk'];
+const FEED_KINDS = ['rss', 'atom', 'json-feed', 'sitemap', 'google-news-sitemap'];
+
+const EMPTY_OUTLET: ApiOutletInput = {
+  name: '',
+  domain: '',
+  biasLabel: 'unknown',
+  factuality: 'unknown',
+  ownershipCategory: '',
+  edition: 'in-national',
+};
+
+const EMPTY_OWNER: ApiOwnerInput = { name: '', category: 'corporation' };
+
+const selectClass =
+  'h-9 rounded-md border border-input bg-background px-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring';
+
+function formatTime(ms: number) {
+  return new Date(ms).toLocaleString();
+}
+
+function OutletFields({
+  value,
+  owners,
+  onChange,
+}: {
+  value: ApiOutletInput;
+  owners: ApiOwner[];
+  onChange: (next: ApiOutletInput) => void;
+}) {
+  const set = (patch: Partial<ApiOutletInput>) => onChange({ ...value, ...patch });
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Input
+        placeholder="Name"
+        value={value.name}
+        onChange={(e) => set({ name: e.target.value })}
+        className="max-w-[14rem] h-9"
+      />
+      <Input
+        placeholder="Domain (example.com)"
+        value={value.domain}
+        onChange={(e) => set({ domain: e.target.value })}
+        className="max-w-[14rem] h-9"
+      />
+      <select
+        aria-label="Bias label"
+        className={selectClass}
+        value={value.biasLabel}
+        onChange={(e) => set({ biasLabel: e.target.value })}
+      >
+        {BIAS_LABELS.map((b) => (
+          <option key={b} value={b}>
+            {b}
+          </option>
+        ))}
+      </select>
+      <select
+        aria-label="Factuality"
+        className={selectClass}
+        value={value.factuality}
+        onChange={(e) => set({ factuality: e.target.value })}
+      >
+        {FACTUALITY_TIERS.map((f) => (
+          <option key={f} value={f}>
+            {f}
+          </option>
+        ))}
+      </select>
+      <select
+        aria-label="Owner"
+        className={selectClass}
+        value={value.ownerId ?? ''}
+        onChange={(e) => set({ ownerId: e.target.value })}
+      >
+        <option value="">owner…</option>
+        {owners.map((o) => (
+          <option key={o.id} value={o.id}>
+            {o.name}
+          </option>
+        ))}
+      </select>
+      <select
+        aria-label="Ownership"
+        className={selectClass}
+        value={value.ownershipCategory ?? ''}
+        disabled={Boolean(value.ownerId)}
+        title={value.ownerId ? 'Set by the owner chain' : undefined}
+        onChange={(e) => set({ ownershipCategory: e.target.value })}
+      >
+        <option value="">ownership…</option>
+        {OWNERSHIP_CATEGORIES.map((o) => (
+          <option key={o} value={o}>
+            {OWNERSHIP_NAMES[o]}
+          </option>
+        ))}
+      </select>
+      <select
+        aria-label="Reach tier"
+        className={selectClass}
+        value={value.reachTier ?? ''}
+        onChange={(e) => set({ reachTier: e.target.value })}
+      >
+        <option value="">reach…</option>
+        {REACH_TIERS.map((r) => (
+          <option key={r} value={r}>
+            {r}
+          </option>
+        ))}
+      </select>
+      <select
+        aria-label="Edition"
+        className={selectClass}
+        value={value.edition ?? 'in-national'}
+        onChange={(e) => set({ edition: e.target.value })}
+      >
+        {EDITIONS.map((ed) => (
+          <option key={ed} value={ed}>
+            {ed}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+function FeedKindSelect({
+  value,
+  onChange,
+  disabled,
+  className,
+}: {
+  value: string;
+  onChange: (kind: string) => void;
+  disabled?: boolean;
+  className?: string;
+}) {
+  return (
+    <select
+      aria-label="Feed kind"
+      className={cn(selectClass, className)}
+      value={value}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.value)}
+    >
+      {FEED_KINDS.map((k) => (
+        <option key={k} value={k}>
+          {k}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function toInput(o: ApiAdminOutlet): ApiOutletInput {
+  return {
+    name: o.name,
+    domain: o.domain,
+    biasLabel: o.biasLabel,
+    factuality: o.factuality,
+    ownershipCategory: o.ownershipCategory ?? '',
+    ownerId: o.ownerId ?? '',
+    reachTier: o.reachTier ?? '',
+    ratingSource: o.ratingSource ?? undefined,
+    edition: o.edition,
+  };
+}
+
+const AdminOutlets = () => {
+  const { currentUser } = useAuth();
+  const [isAdmin, setIsAdmin] = useState<boolean | null>(null);
+  const [outlets, setOutlets] = useState<ApiAdminOutlet[]>([]);
+  const [history, setHistory] = useState<ApiOutletChange[]>([]);
+  const [owners, setOwners] = useState<ApiOwner[]>([]);
+  const [draftOwner, setDraftOwner] = useState<ApiOwnerInput>(EMPTY_OWNER);
+  const [draft, setDraft] = useState<ApiOutletInput>(EMPTY_OUTLET);
+  const [draftFeed, setDraftFeed] = useState('');
+  const [draftFeedKind, setDraftFeedKind] = useState('rss');
+  const [editing, setEditing] = useState<Record<string, ApiOutletInput>>({});
+  const [newFeed, setNewFeed] = useState<Record<string, string>>({});
+  const [newFeedKind, setNewFeedKind] = useState<Record<string, string>>({});
+  const [filter, setFilter] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!isConvexBackend() || !currentUser) return;
+    try {
+      const status = await fetchAdminStatus();
+      setIsAdmin(status.isAdmin);
+      if (!status.isAdmin) return;
+      const [o, h, w] = await Promise.all([fetchAdminOutlets(), fetchOutletHistory(), fetchOwners()]);
+      setOutlets(o);
+      setHistory(h);
+      setOwners(w);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load outlets');
+    }
+  }, [currentUser]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const run = async (fn: () => Promise<string>) => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      setMessage(await fn());
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Operation failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const q = filter.trim().toLowerCase();
+  const visible = q
+    ? outlets.filter((o) => o.name.toLowerCase().includes(q) || o.domain.includes(q))
+    : outlets;
+
+  return (
+    <MarketingShell>
+      <PageHero
+        eyebrow="Admin"
+        title="Outlets & feeds"
+        description="Add, edit, disable or delete outlets and their feeds (RSS, Atom, JSON Feed or sitemaps). URL matching reads these rows directly, so changes apply on the next ingest run."
+      />
+
+      <PageSection width="wide">
+        {!currentUser && <p className="text-sm text-muted-foreground">Sign in to continue.</p>}
+        {currentUser && isAdmin === false && (
+          <div className="rounded-lg border border-border bg-muted/25 px-6 py-10 text-center">
+            <ShieldAlert className="h-8 w-8 text-primary mx-auto mb-4" aria-hidden />
+            <p className="font-medium text-foreground">Admin access required</p>
+            <p className="text-sm text-muted-foreground mt-2">
+              Add your user id to <code className="text-xs bg-muted px-1 rounded">ADMIN_USER_IDS</code> on Convex.
+            </p>
+          </div>
+        )}
+
+        {isAdmin && (
+          <>
+            <div className="rounded-lg border border-border/80 bg-card p-5 mb-6 space-y-3">
+              <p className="font-semibold text-sm">New outlet</p>
+              <OutletFields value={draft} owners={owners} onChange={setDraft} />
+              <div className="flex flex-wrap items-center gap-2">
+                <Input
+                  placeholder="Feed URL (optional)"
+                  value={draftFeed}
+                  onChange={(e) => setDraftFeed(e.target.value)}
+                  className="max-w-md h-9"
+                />
+                <FeedKindSelect value={draftFeedKind} onChange={setDraftFeedKind} disabled={busy} className="h-9" />
+                <Button
+                  size="sm"
+                  disabled={busy || !draft.name.trim() || !draft.domain.trim()}
+                  onClick={() =>
+                    void run(async () => {
+                      const feedUrl = draftFeed.trim() || undefined;
+                      const r = await createOutlet({ ...draft, feedUrl, feedKind: feedUrl ? draftFeedKind : undefined });
+                      setDraft(EMPTY_OUTLET);
+                      setDraftFeed('');
+                      setDraftFeedKind('rss');
+                      return `Created ${r.externalId}.`;
+                    })
+                  }
+                >
+                  <Plus className="h-3.5 w-3.5 mr-1.5" aria-hidden />
+                  Add outlet
+                </Button>
+              </div>
+            </div>
+
+            <Input
+              placeholder="Filter by name or domain…"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              className="max-w-xs h-9 mb-4"
+            />
+
+            {message && <p className="text-sm text-foreground mb-4">{message}</p>}
+            {error && (
+              <p className="text-destructive text-sm mb-4" role="alert">
+                {error}
+              </p>
+            )}
+
+            <ul className="space-y-4">
+              {visible.map((o) => {
+                const edit = editing[o.id];
+                return (
+                  <li
+                    key={o.id}
+                    className={cn('rounded-lg border border-border/80 bg-card p-5', !o.enabled && 'opacity-60')}
+                  >
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <p className="font-semibold">
+                          {o.name}
+                          {!o.enabled && <span className="ml-2 text-xs font-normal text-muted-foreground">disabled</span>}
+                        </p>
+                        <p className="text-xs text-muted-foreground mt-0.5">
+                          {o.domain} · {o.biasLabel} · factuality {o.factuality}
+                          {o.ownershipCategory ? ` · ${o.ownershipCategory}` : ''}
+                          {o.reachTier ? ` · ${o.reachTier} reach` : ''} · {o.edition} · {o.origin}
+                        </p>
+                      </div>
+                      <div className="flex shrink-0 gap-1">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={busy}
+                          onClick={() =>
+                            setEditing((prev) => {
+                              const next = { ...prev };
+                              if (next[o.id]) delete next[o.id];
+                              else next[o.id] = toInput(o);
+                              return next;
+                            })
+                          }
+                        >
+                          <Pencil className="h-3.5 w-3.5 mr-1.5" aria-hidden />
+                          Edit
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={busy}
+                          onClick={() =>
+                            void run(async () => {
+                              await setOutletEnabled(o.id, !o.enabled);
+                              return `${o.name} ${o.enabled ? 'disabled' : 'enabled'}.`;
+                            })
+                          }
+                        >
+                          <Power className="h-3.5 w-3.5 mr-1.5" aria-hidden />
+                          {o.enabled ? 'Disable' : 'Enable'}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={busy}
+                          onClick={() => {
+                            if (!window.confirm(`Delete ${o.name} and its feeds?`)) return;
+                            void run(async () => {
+                              await deleteOutlet(o.id);
+                              return `Deleted ${o.name}.`;
+                            });
+                          }}
+                        >
+                          <Trash2 className="h-3.5 w-3.5 mr-1.5" aria-hidden />
+                          Delete
+                        </Button>
+                      </div>
+                    </div>
+
+                    {edit && (
+                      <div className="mt-4 space-y-2">
+                        <OutletFields
+                          value={edit}
+                          owners={owners}
+                          onChange={(next) => setEditing((p) => ({ ...p, [o.id]: next }))}
+                        />
+                        <Button
+                          size="sm"
+                          disabled={busy}
+                          onClick={() =>
+                            void run(async () => {
+                              const r = await updateOutlet(o.id, edit);
+                              setEditing((p) => {
+                                const next = { ...p };
+                                delete next[o.id];
+                                return next;
+                              });
+                              return r.changed ? `Updated ${r.changed} field(s) on ${edit.name}.` : 'No changes.';
+                            })
+                          }
+                        >
+                          Save
+                        </Button>
+                      </div>
+                    )}
+
+                    <ul className="mt-3 space-y-1.5 pl-1">
+                      {o.feeds.map((f) => (
+                        <li key={f.id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                          <span className={cn('min-w-0 truncate', !f.enabled && 'line-through text-muted-foreground')}>
+                            {f.url}
+                            <span className="text-xs text-muted-foreground">
+                              {' '}
+                              · every {Math.round(f.pollIntervalSec / 60)}m
+                              {f.lastFetchedAt ? ` · fetched ${formatTime(f.lastFetchedAt)}` : ''}
+                              {f.errorStreak > 0 ? ` · ${f.errorStreak} errors (${f.lastError ?? 'unknown'})` : ''}
+                              {f.disabledReason ? ` · ${f.disabledReason}` : ''}
+                            </span>
+                          </span>
+                          <span className="flex shrink-0 gap-1">
+                            <FeedKindSelect
+                              value={f.kind}
+                              disabled={busy}
+                              className="h-8 text-xs"
+                              onChange={(kind) =>
+                                void run(async () => {
+                                  await updateFeed(f.id, { kind });
+                                  return `Feed now parsed as ${kind}.`;
+                                })
+                              }
+                            />
+                            <select
+                              aria-label="Feed edition"
+                              className={cn(selectClass, 'h-8 text-xs')}
+                              value={f.edition ?? ''}
+                              disabled={busy}
+                              onChange={(e) => {
+                                const edition = e.target.value;
+                                void run(async () => {
+                                  await updateFeed(f.id, { edition });
+                                  return edition ? `Feed moved to ${edition}.` : 'Feed follows the outlet edition.';
+                                });
+                              }}
+                            >
+                              <option value="">outlet edition</option>
+                              {EDITIONS.map((ed) => (
+                                <option key={ed} value={ed}>
+                                  {ed}
+                                </option>
+                              ))}
+                            </select>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              disabled={busy}
+                              onClick={() =>
+                                void run(async () => {
+                                  await updateFeed(f.id, { enabled: !f.enabled });
+                                  return `Feed ${f.enabled ? 'disabled' : 'enabled'}.`;
+                                })
+                              }
+                            >
+                              {f.enabled ? 'Disable' : 'Enable'}
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              disabled={busy}
+                              onClick={() =>
+                                void run(async () => {
+                                  await deleteFeed(f.id);
+                                  return 'Feed deleted.';
+                                })
+                              }
+                            >
+                              <Trash2 className="h-3.5 w-3.5" aria-label="Delete feed" />
+                            </Button>
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                    <div className="mt-3 flex items-center gap-2">
+                      <Input
+                        placeholder="Add feed URL"
+                        value={newFeed[o.id] ?? ''}
+                        onChange={(e) => setNewFeed((p) => ({ ...p, [o.id]: e.target.value }))}
+                        className="max-w-md h-8"
+                      />
+                      <FeedKindSelect
+                        value={newFeedKind[o.id] ?? 'rss'}
+                        onChange={(kind) => setNewFeedKind((p) => ({ ...p, [o.id]: kind }))}
+                        disabled={busy}
+                        className="h-8 text-xs"
+                      />
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={busy || !newFeed[o.id]?.trim()}
+                        onClick={() =>
+                          void run(async () => {
+                            await addFeed(o.id, newFeed[o.id].trim(), undefined, newFeedKind[o.id] ?? 'rss');
+                            setNewFeed((p) => ({ ...p, [o.id]: '' }));
+                            return `Feed added to ${o.name}.`;
+                          })
+                        }
+                      >
+                        <Plus className="h-3.5 w-3.5 mr-1.5" aria-hidden />
+                        Feed
+                      </Button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </>
+        )}
+      </PageSection>
+
+      {isAdmin && (
+        <PageSection
+          width="wide"
+          title="Owners"
+          description="Companies, people and public bodies that own outlets. An outlet's ownership type comes from the top of its owner's parent chain, so changing a parent re-categorises every outlet below it."
+        >
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            <Input
+              placeholder="Owner name"
+              value={draftOwner.name}
+              onChange={(e) => setDraftOwner({ ...draftOwner, name: e.target.value })}
+              className="max-w-[14rem] h-9"
+            />
+            <select
+              aria-label="Owner category"
+              className={selectClass}
+              value={draftOwner.category}
+              onChange={(e) => setDraftOwner({ ...draftOwner, category: e.target.value })}
+            >
+              {OWNERSHIP_CATEGORIES.map((c) => (
+                <option key={c} value={c}>
+                  {OWNERSHIP_NAMES[c]}
+                </option>
+              ))}
+            </select>
+            <select
+              aria-label="Parent owner"
+              className={selectClass}
+              value={draftOwner.parentId ?? ''}
+              onChange={(e) => setDraftOwner({ ...draftOwner, parentId: e.target.value || undefined })}
+            >
+              <option value="">no parent</option>
+              {owners.map((w) => (
+                <option key={w.id} value={w.id}>
+                  {w.name}
+                </option>
+              ))}
+            </select>
+            <Input
+              placeholder="Website (optional)"
+              value={draftOwner.url ?? ''}
+              onChange={(e) => setDraftOwner({ ...draftOwner, url: e.target.value })}
+              className="max-w-[14rem] h-9"
+            />
+            <Button
+              size="sm"
+              disabled={busy || !draftOwner.name.trim()}
+              onClick={() =>
+                void run(async () => {
+                  await createOwner(draftOwner);
+                  setDraftOwner(EMPTY_OWNER);
+                  return `Created owner ${draftOwner.name.trim()}.`;
+                })
+              }
+            >
+              <Plus className="h-3.5 w-3.5 mr-1.5" aria-hidden />
+              Add owner
+            </Button>
+          </div>
+          <ul className="divide-y divide-border/70">
+            {owners.map((w) => {
+              const input: ApiOwnerInput = {
+                name: w.name,
+                category: w.category,
+                parentId: w.parentId ?? undefined,
+                url: w.url ?? undefined,
+              };
+              const save = (patch: Partial<ApiOwnerInput>) =>
+                void run(async () => {
+                  const r = await updateOwner(w.id, { ...input, ...patch });
+                  return `Updated ${w.name}; ${r.outletsChanged} outlet(s) re-categorised.`;
+                });
+              return (
+                <li key={w.id} className="py-3 flex flex-wrap items-center justify-between gap-2 text-sm">
+                  <div className="min-w-0">
+                    <p className="font-medium">{w.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {w.chain.length > 0 ? `owned by ${w.chain.map((p) => p.name).join(' → ')} · ` : ''}
+                      {w.outlets.length > 0 ? w.outlets.map((x) => x.name).join(', ') : 'no outlets'}
+                    </p>
+                  </div>
+                  <span className="flex shrink-0 gap-1">
+                    <select
+                      aria-label="Owner category"
+                      className={cn(selectClass, 'h-8 text-xs')}
+                      value={w.category}
+                      disabled={busy}
+                      onChange={(e) => save({ category: e.target.value })}
+                    >
+                      {OWNERSHIP_CATEGORIES.map((c) => (
+                        <option key={c} value={c}>
+                          {OWNERSHIP_NAMES[c]}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      aria-label="Parent owner"
+                      className={cn(selectClass, 'h-8 text-xs')}
+                      value={w.parentId ?? ''}
+                      disabled={busy}
+                      onChange={(e) => save({ parentId: e.target.value || undefined })}
+                    >
+                      <option value="">no parent</option>
+                      {owners
+                        .filter((p) => p.id !== w.id)
+                        .map((p) => (
+                          <option key={p.id} value={p.id}>
+                            {p.name}
+                          </option>
+                        ))}
+                    </select>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={busy}
+                      onClick={() =>
+                        void run(async () => {
+                          await deleteOwner(w.id);
+                          return `Deleted owner ${w.name}.`;
+                        })
+                      }
+                    >
+                      <Trash2 className="h-3.5 w-3.5" aria-label="Delete owner" />
+                    </Button>
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </PageSection>
+      )}
+
+      {isAdmin && (
+        <PageSection width="wide" title="Change history" description="Most recent edits first." tone="muted">
+          {history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No outlet changes yet.</p>
+          ) : (
+            <ul className="divide-y divide-border/70">
+              {history.map((h) => (
+                <li key={h.id} className="py-3 text-sm">
+                  <p className="font-medium">
+                    {h.outletName} · {h.op}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {h.changes.map((c) => `${c.field}: ${c.before ?? '—'} → ${c.after ?? '—'}`).join('; ')}
+                    {h.changes.length > 0 ? ' · ' : ''}
+                    {formatTime(h.createdAt)} · {h.actorId}
+                  </p>
+                  {h.note && <p className="text-xs text-muted-foreground mt-0.5">{h.note}</p>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </PageSection>
+      )}
+    </MarketingShell>
+  );
+};
+
+export default AdminOutlets;
@@ -0,0 +1,265 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { MarketingShell } from '@/components/marketing/MarketingShell';
+import { PageHero } from '@/components/marketing/PageHero';
+import { PageSection } from '@/components/marketing/PageSection';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useAuth } from '@/context/AuthContext';
+import {
+  fetchAdminClusters,
+  fetchAdminStatus,
+  fetchClusterAudit,
+  isConvexBackend,
+  mergeStories,
+  revertClusterOp,
+  splitStory,
+  type ApiAdminCluster,
+  type ApiClusterAuditEntry,
+} from '@/services/aggregation';
+import { GitMerge, RotateCcw, Scissors, ShieldAlert } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+function formatTime(ms: number) {
+  return new Date(ms).toLocaleString();
+}
+
+const AdminStories = () => {
+  const { currentUser } = useAuth();
+  const [isAdmin, setIsAdmin] = useState<boolean | null>(null);
+  const [clusters, setClusters] = useState<ApiAdminCluster[]>([]);
+  const [audit, setAudit] = useState<ApiClusterAuditEntry[]>([]);
+  const [searchQ, setSearchQ] = useState('');
+  const [note, setNote] = useState('');
+  const [mergePick, setMergePick] = useState<string[]>([]);
+  const [splitPick, setSplitPick] = useState<Record<string, Set<string>>>({});
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!isConvexBackend() || !currentUser) return;
+    try {
+      const status = await fetchAdminStatus();
+      setIsAdmin(status.isAdmin);
+      if (!status.isAdmin) return;
+      const [c, a] = await Promise.all([fetchAdminClusters(searchQ.trim() || undefined), fetchClusterAudit()]);
+      setClusters(c);
+      setAudit(a);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load clusters');
+    }
+  }, [currentUser, searchQ]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const run = async (fn: () => Promise<string>) => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      setMessage(await fn());
+      setMergePick([]);
+      setSplitPick({});
+      setNote('');
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Operation failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleMerge = (id: string) => {
+    setMergePick((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id].slice(-2)));
+  };
+
+  const toggleSplit = (storyId: string, articleId: string) => {
+    setSplitPick((prev) => {
+      const next = new Set(prev[storyId] ?? []);
+      if (next.has(articleId)) next.delete(articleId);
+      else next.add(articleId);
+      return { ...prev, [storyId]: next };
+    });
+  };
+
+  return (
+    <MarketingShell>
+      <PageHero
+        eyebrow="Admin"
+        title="Story clusters"
+        description="Merge clusters that describe the same event, or split unrelated articles into their own story. Every change is logged and can be reverted."
+      />
+
+      <PageSection width="wide">
+        {!currentUser && <p className="text-sm text-muted-foreground">Sign in to continue.</p>}
+        {currentUser && isAdmin === false && (
+          <div className="rounded-lg border border-border bg-muted/25 px-6 py-10 text-center">
+            <ShieldAlert className="h-8 w-8 text-primary mx-auto mb-4" aria-hidden />
+            <p className="font-medium text-foreground">Admin access required</p>
+            <p className="text-sm text-muted-foreground mt-2">
+              Add your user id to <code className="text-xs bg-muted px-1 rounded">ADMIN_USER_IDS</code> on Convex.
+            </p>
+          </div>
+        )}
+
+        {isAdmin && (
+          <>
+            <div className="flex flex-wrap items-center gap-2 mb-6 pb-4 border-b border-border/60">
+              <Input
+                placeholder="Filter by title or slug…"
+                value={searchQ}
+                onChange={(e) => setSearchQ(e.target.value)}
+                className="max-w-xs h-9"
+              />
+              <Input
+                placeholder="Note for the audit log (optional)"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                className="max-w-sm h-9"
+              />
+              <Button
+                size="sm"
+                disabled={busy || mergePick.length !== 2}
+                onClick={() =>
+                  void run(async () => {
+                    const r = await mergeStories(mergePick[0], mergePick[1], note.trim() || undefined);
+                    return `Merged ${r.mergedSlug} into ${r.keptSlug} (${r.moved} articles moved).`;
+                  })
+                }
+              >
+                <GitMerge className="h-3.5 w-3.5 mr-1.5" aria-hidden />
+                Merge selected ({mergePick.length}/2)
+              </Button>
+            </div>
+
+            {message && <p className="text-sm text-foreground mb-4">{message}</p>}
+            {error && (
+              <p className="text-destructive text-sm mb-4" role="alert">
+                {error}
+              </p>
+            )}
+
+            <ul className="space-y-4">
+              {clusters.map((c) => {
+                const picked = splitPick[c.id] ?? new Set<string>();
+                return (
+                  <li
+                    key={c.id}
+                    className={cn(
+                      'rounded-lg border border-border/80 bg-card p-5',
+                      mergePick.includes(c.id) && 'border-primary',
+                    )}
+                  >
+                    <div className="flex items-start justify-between gap-4">
+                      <label className="flex items-start gap-2 min-w-0">
+                        <input
+                          type="checkbox"
+                          className="mt-1"
+                          checked={mergePick.includes(c.id)}
+                          onChange={() => toggleMerge(c.id)}
+                        />
+                        <span className="min-w-0">
+                          <Link to={`/story/${c.slug}`} className="font-semibold hover:text-primary">
+                            {c.canonicalTitle}
+                          </Link>
+                          <span className="block text-xs text-muted-foreground mt-0.5">
+                            {c.slug} · first seen {formatTime(c.firstSeenAt)}
+                          </span>
+                        </span>
+                      </label>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="shrink-0"
+                        disabled={busy || picked.size === 0 || picked.size >= c.articles.length}
+                        onClick={() =>
+                          void run(async () => {
+                            const r = await splitStory(c.id, [...picked], note.trim() || undefined);
+                            return `Split ${r.moved} article(s) into ${r.newSlug}.`;
+                          })
+                        }
+                      >
+                        <Scissors className="h-3.5 w-3.5 mr-1.5" aria-hidden />
+                        Split {picked.size || ''}
+                      </Button>
+                    </div>
+                    <ul className="mt-3 space-y-1.5 pl-6">
+                      {c.articles.map((a) => (
+                        <li key={a.id} className="text-sm">
+                          <label className="flex items-start gap-2">
+                            <input
+                              type="checkbox"
+                              className="mt-1"
+                              checked={picked.has(a.id)}
+                              onChange={() => toggleSplit(c.id, a.id)}
+                            />
+                            <span>
+                              <span className="font-medium">{a.outletName}</span>
+                              <span className="text-muted-foreground"> — {a.title}</span>
+                            </span>
+                          </label>
+                        </li>
+                      ))}
+                    </ul>
+                  </li>
+                );
+              })}
+            </ul>
+          </>
+        )}
+      </PageSection>
+
+      {isAdmin && (
+        <PageSection width="wide" title="Audit log" description="Most recent merges and splits first." tone="muted">
+          {audit.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No cluster changes yet.</p>
+          ) : (
+            <ul className="divide-y divide-border/70">
+              {audit.map((e) => (
+                <li key={e.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="min-w-0 text-sm">
+                    <p className="font-medium capitalize">
+                      {e.op} · {e.articleCount} article{e.articleCount === 1 ? '' : 's'}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {e.op === 'merge'
+                        ? `${e.otherSlug ?? '?'} → ${e.storySlug ?? '?'}`
+                        : `${e.storySlug ?? '?'} → ${e.otherSlug ?? '?'}`}
+                      {' · '}
+                      {formatTime(e.createdAt)} · {e.actorId}
+                      {e.note ? ` · ${e.note}` : ''}
+                    </p>
+                  </div>
+                  {e.revertedAt ? (
+                    <span className="text-xs text-muted-foreground shrink-0">Reverted {formatTime(e.revertedAt)}</span>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="shrink-0"
+                      disabled={busy}
+                      onClick={() =>
+                        void run(async () => {
+                          const r = await revertClusterOp(e.id);
+                          return `Reverted ${e.op} (${r.moved} articles moved back).`;
+                        })
+                      }
+                    >
+                      <RotateCcw className="h-3.5 w-3.5 mr-1.5" aria-hidden />
+                      Revert
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </PageSection>
+      )}
+    </MarketingShell>
+  );
+};
+
+export default AdminStories;
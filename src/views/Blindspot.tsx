@@ -5,6 +5,8 @@ import { PageSection } from '@/components/marketing/PageSection';
 import { BiasBar } from '@/components/BiasBar';
 import { Button } from '@/components/ui/button';
 import { fetchBlindspotStories, isConvexBackend, type ApiStory } from '@/services/aggregation';
+import { useEdition } from '@/hooks/useEdition';
+import { useReadingLog } from '@/hooks/useReadingLog';
 import { Eye, EyeOff } from 'lucide-react';
 
 type Tab = 'all' | 'left' | 'right';
@@ -14,6 +16,8 @@ const Blindspot = () => {
   const [stories, setStories] = useState<ApiStory[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { editionId } = useEdition();
+  const track = useReadingLog('blindspot');
 
   const load = () => {
     if (!isConvexBackend()) {
@@ -22,7 +26,7 @@ const Blindspot = () => {
     }
     setLoading(true);
     setError(null);
-    fetchBlindspotStories(tab, 35)
+    fetchBlindspotStories(tab, 35, editionId)
       .then(setStories)
       .catch((e) => setError(e instanceof Error ? e.message : 'Failed'))
       .finally(() => setLoading(false));
@@ -30,7 +34,7 @@ const Blindspot = () => {
 
   useEffect(() => {
     load();
-  }, [tab]);
+  }, [tab, editionId]);
 
   return (
     <MarketingShell>
@@ -65,7 +69,7 @@ const Blindspot = () => {
         <ul className="space-y-4 mt-6">
           {stories.map((s) => (
             <li key={s.id} className="rounded-lg border border-border bg-card p-5">
-              <Link to={`/story/${s.slug}`} className="font-semibold hover:text-primary">
+              <Link to={`/story/${s.slug}`} onClick={() => track(s.slug)} className="font-semibold hover:text-primary">
                 {s.canonicalTitle}
               </Link>
               {s.blindspotReason && (
@@ -1,5 +1,5 @@
 import { useEffect, lazy, Suspense, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import Header from '@/components/Header';
 import { useAuth } from '@/context/AuthContext';
 import { SkeletonDashboard } from '@/components/ui/skeleton-loaders';
@@ -86,6 +86,12 @@ const Dashboard = () => {
             </div>
           )}
 
+          <p className="mb-8 text-sm">
+            <Link to="/my-news-bias" className="text-primary hover:underline">
+              My News Bias — what you actually read →
+            </Link>
+          </p>
+
           {/* Stats Overview */}
           <Suspense fallback={<div className="h-48 bg-muted/20 rounded-lg animate-pulse" />}>
             <StatsOverview
@@ -0,0 +1,83 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { MarketingShell } from '@/components/marketing/MarketingShell';
+import { PageSection } from '@/components/marketing/PageSection';
+import { BiasBar, BiasLegend } from '@/components/BiasBar';
+import { fetchEntity, isConvexBackend, type ApiEntityPage } from '@/services/aggregation';
+import { useEdition } from '@/hooks/useEdition';
+
+const KIND_LABEL = { person: 'Person', org: 'Organisation', place: 'Place', party: 'Party' } as const;
+
+const EntityPage = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const [page, setPage] = useState<ApiEntityPage | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { edition } = useEdition();
+
+  useEffect(() => {
+    if (!slug || !isConvexBackend()) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    fetchEntity(slug)
+      .then(setPage)
+      .catch((e) => setError(e instanceof Error ? e.message : 'Failed'))
+      .finally(() => setLoading(false));
+  }, [slug]);
+
+  const entity = page?.entity;
+
+  return (
+    <MarketingShell>
+      <PageSection width="content" className="!py-10">
+        {error && <p className="text-destructive text-sm">{error}</p>}
+        {loading && <p className="text-muted-foreground text-sm">Loading…</p>}
+        {!loading && !error && !entity && <p className="text-muted-foreground text-sm">No stories mention this yet.</p>}
+
+        {entity && page && (
+          <>
+            <p className="text-xs font-semibold uppercase tracking-widest text-primary">
+              Facets · {KIND_LABEL[entity.kind]}
+            </p>
+            <h1 className="font-display text-3xl font-semibold mt-2">{entity.name}</h1>
+            <p className="text-sm text-muted-foreground mt-2">
+              {page.stories.length} recent stor{page.stories.length === 1 ? 'y' : 'ies'} · mentioned in{' '}
+              {entity.articleCount} article{entity.articleCount === 1 ? '' : 's'}
+            </p>
+
+            <div className="mt-6 max-w-md">
+              <p className="text-xs text-muted-foreground mb-1">Combined coverage across these stories</p>
+              <BiasBar spread={page.biasSpread} />
+              <BiasLegend scale={edition?.biasScale} />
+            </div>
+
+            <ul className="space-y-4 mt-8">
+              {page.stories.map((s) => (
+                <li key={s.id} className="rounded-lg border border-border bg-card p-5">
+                  <Link to={`/story/${s.slug}`} className="font-semibold hover:text-primary">
+                    {s.canonicalTitle}
+                  </Link>
+                  <div className="mt-3 max-w-md">
+                    <BiasBar spread={s.biasSpread} className="h-2" />
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-2">{s.sourceCount} sources</p>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+
+        <p className="mt-8 text-sm">
+          <Link to="/feed" className="text-primary hover:underline">
+            ← Full feed
+          </Link>
+        </p>
+      </PageSection>
+    </MarketingShell>
+  );
+};
+
+export default EntityPage;
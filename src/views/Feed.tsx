@@ -1,17 +1,23 @@
 import { useEffect, useState, useCallback } from 'react';
 import { Link } from 'react-router-dom';
 import { isConvexBackend } from '@/services/aggregation';
-import { BiasBar, BiasLegend } from '@/components/BiasBar';
+import { BiasBar, BiasLegend, CoverageWeightingSwitch, spreadFor, type CoverageWeighting } from '@/components/BiasBar';
+import { OWNERSHIP_NAMES, OWNERSHIP_ORDER, OwnershipBar, OwnershipLegend } from '@/components/OwnershipBar';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { MarketingShell } from '@/components/marketing/MarketingShell';
 import { PageSection } from '@/components/marketing/PageSection';
 import { RelatedLinks } from '@/components/marketing/RelatedLinks';
-import { fetchStories, searchStories, type ApiStory } from '@/services/aggregation';
+import { fetchStories, fetchTopicFeed, searchStories, type ApiStory } from '@/services/aggregation';
+import { TopicFollows } from '@/components/TopicFollows';
 import { FactualityBadge } from '@/components/FactualityBadge';
 import { Input } from '@/components/ui/input';
 import { FACETS } from '@/lib/brand';
-import { AlertCircle, ArrowRight, ExternalLink, Layers, Newspaper, RefreshCw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useAuth } from '@/context/AuthContext';
+import { useEdition } from '@/hooks/useEdition';
+import { useReadingLog } from '@/hooks/useReadingLog';
+import { AlertCircle, ArrowRight, ExternalLink, Hash, Layers, Newspaper, RefreshCw } from 'lucide-react';
 
 function FeedSkeleton() {
   return (
@@ -33,22 +39,47 @@ const Feed = () => {
   const [loading, setLoading] = useState(true);
   const [searchQ, setSearchQ] = useState('');
   const [minOutlets, setMinOutlets] = useState(0);
+  const [ownership, setOwnership] = useState('');
+  const [coverageBy, setCoverageBy] = useState<'bias' | 'ownership'>('bias');
+  const [weighting, setWeighting] = useState<CoverageWeighting>('articles');
+  const [view, setView] = useState<'all' | 'topics'>('all');
+  const [topics, setTopics] = useState<string[]>([]);
+  const [matches, setMatches] = useState<Record<string, string[]>>({});
+  const { editionId, edition, editions, setEdition } = useEdition();
+  const { currentUser } = useAuth();
+  const track = useReadingLog('feed');
 
   const load = useCallback(() => {
-    if (!isConvexBackend()) {
+    if (!isConvexBackend() || (view === 'topics' && !currentUser)) {
+      setStories([]);
       setLoading(false);
       return;
     }
     setLoading(true);
     setError(null);
+    if (view === 'topics') {
+      fetchTopicFeed(40, editionId)
+        .then((feed) => {
+          setStories(feed.stories);
+          setTopics(feed.topics);
+          setMatches(feed.matches);
+        })
+        .catch((e) => setError(e instanceof Error ? e.message : 'Failed to load'))
+        .finally(() => setLoading(false));
+      return;
+    }
     const run = searchQ.trim()
-      ? searchStories(searchQ.trim(), 40)
-      : fetchStories(40, minOutlets >= 2 ? { minOutlets } : undefined);
+      ? searchStories(searchQ.trim(), 40, editionId)
+      : fetchStories(40, {
+          edition: editionId,
+          ...(minOutlets >= 2 ? { minOutlets } : {}),
+          ...(ownership ? { ownership } : {}),
+        });
     run
       .then(setStories)
       .catch((e) => setError(e instanceof Error ? e.message : 'Failed to load'))
       .finally(() => setLoading(false));
-  }, [searchQ, minOutlets]);
+  }, [searchQ, minOutlets, ownership, editionId, view, currentUser]);
 
   useEffect(() => {
     load();
@@ -64,13 +95,34 @@ const Feed = () => {
           </h1>
           <p className="mt-1 text-xs text-muted-foreground tracking-wide">{FACETS.tagline}</p>
           <p className="mt-3 text-sm sm:text-base text-muted-foreground leading-relaxed max-w-[58ch]">
-            RSS from Indian outlets seeds stories; Exa widens coverage so more left, center, and right sources land on the same
+            RSS from {edition?.name ?? 'Indian'} outlets seeds stories; Exa widens coverage so more left, center, and right sources land on the same
             cluster. Sorted by how many outlets cover each story—not a truth score:{' '}
             <Link to="/" className="text-primary font-medium hover:underline underline-offset-4">
               verify claims
             </Link>{' '}
             separately.
           </p>
+          {editions.length > 1 && (
+            <div className="mt-5 flex flex-wrap gap-1.5" role="tablist" aria-label="Edition">
+              {editions.map((e) => (
+                <button
+                  key={e.id}
+                  type="button"
+                  role="tab"
+                  aria-selected={e.id === editionId}
+                  onClick={() => setEdition(e.id)}
+                  className={cn(
+                    'rounded-full border px-3 py-1 text-xs font-medium transition-colors',
+                    e.id === editionId
+                      ? 'border-primary bg-primary text-primary-foreground'
+                      : 'border-border bg-background text-muted-foreground hover:text-foreground',
+                  )}
+                >
+                  {e.name}
+                </button>
+              ))}
+            </div>
+          )}
           <div className="mt-6 flex flex-wrap gap-2">
             <Button size="sm" asChild>
               <Link to="/following">
@@ -86,6 +138,50 @@ const Feed = () => {
       </div>
 
       <PageSection width="content" className="!py-8 sm:!py-10">
+        {isConvexBackend() && (
+          <div className="mb-6 flex gap-1.5" role="tablist" aria-label="Feed">
+            {(
+              [
+                ['all', 'All stories'],
+                ['topics', 'Your topics'],
+              ] as const
+            ).map(([id, label]) => (
+              <button
+                key={id}
+                type="button"
+                role="tab"
+                aria-selected={view === id}
+                onClick={() => setView(id)}
+                className={cn(
+                  'rounded-full border px-3 py-1 text-xs font-medium transition-colors',
+                  view === id
+                    ? 'border-primary bg-primary text-primary-foreground'
+                    : 'border-border bg-background text-muted-foreground hover:text-foreground',
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {isConvexBackend() && view === 'topics' && !currentUser && (
+          <div className="rounded-lg border border-dashed border-border bg-muted/20 text-center py-10 px-6">
+            <Hash className="h-8 w-8 text-muted-foreground/40 mx-auto mb-3" aria-hidden />
+            <p className="font-medium text-foreground">Follow topics to build your own feed</p>
+            <p className="text-sm text-muted-foreground mt-2">
+              <Link to="/sign-in" className="text-primary hover:underline underline-offset-4">
+                Sign in
+              </Link>{' '}
+              to follow topics and get an alert when a new story matches one.
+            </p>
+          </div>
+        )}
+
+        {isConvexBackend() && view === 'topics' && currentUser && !loading && !error && (
+          <TopicFollows topics={topics} onChange={load} />
+        )}
+
         {!isConvexBackend() && (
           <div className="rounded-lg border border-dashed border-border bg-muted/30 px-4 py-5 text-sm text-muted-foreground">
             <p className="font-medium text-foreground mb-1">Convex not connected</p>
@@ -118,36 +214,73 @@ const Feed = () => {
 
         {loading && !error && <FeedSkeleton />}
 
-        {!loading && !error && isConvexBackend() && stories.length > 0 && (
+        {!loading && !error && isConvexBackend() && (stories.length > 0 || (view === 'all' && ownership)) && (
           <>
             <div className="flex flex-col gap-4 mb-6 pb-4 border-b border-border/60">
-              <div className="flex flex-wrap gap-2 items-center">
-                <Input
-                  placeholder="Search coverage…"
-                  value={searchQ}
-                  onChange={(e) => setSearchQ(e.target.value)}
-                  className="max-w-xs h-9"
-                />
-                <Button type="button" variant="outline" size="sm" onClick={() => load()}>
-                  Search
-                </Button>
-                <label className="text-xs text-muted-foreground flex items-center gap-2">
-                  <input
-                    type="checkbox"
-                    checked={minOutlets >= 2}
-                    onChange={(e) => setMinOutlets(e.target.checked ? 2 : 0)}
+              {view === 'all' && (
+                <div className="flex flex-wrap gap-2 items-center">
+                  <Input
+                    placeholder="Search coverage…"
+                    value={searchQ}
+                    onChange={(e) => setSearchQ(e.target.value)}
+                    className="max-w-xs h-9"
                   />
-                  2+ outlets only
-                </label>
-                <Button size="sm" variant="ghost" asChild>
-                  <Link to="/blindspot">Blindspot feed</Link>
-                </Button>
-              </div>
+                  <Button type="button" variant="outline" size="sm" onClick={() => load()}>
+                    Search
+                  </Button>
+                  <label className="text-xs text-muted-foreground flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={minOutlets >= 2}
+                      onChange={(e) => setMinOutlets(e.target.checked ? 2 : 0)}
+                    />
+                    2+ outlets only
+                  </label>
+                  <select
+                    value={ownership}
+                    onChange={(e) => setOwnership(e.target.value)}
+                    className="h-9 rounded-md border border-input bg-background px-2 text-xs text-muted-foreground"
+                    aria-label="Covered by ownership type"
+                  >
+                    <option value="">Any ownership</option>
+                    {OWNERSHIP_ORDER.filter((c) => c !== 'unknown').map((c) => (
+                      <option key={c} value={c}>
+                        {OWNERSHIP_NAMES[c]}
+                      </option>
+                    ))}
+                  </select>
+                  <Button size="sm" variant="ghost" asChild>
+                    <Link to="/blindspot">Blindspot feed</Link>
+                  </Button>
+                </div>
+              )}
               <div className="flex flex-wrap items-center justify-between gap-3">
                 <p className="text-sm text-muted-foreground">
                   <span className="font-medium text-foreground tabular-nums">{stories.length}</span> stories
                 </p>
-                <BiasLegend />
+                <div className="flex flex-wrap items-center gap-3">
+                  <div className="flex gap-1 text-xs" role="tablist" aria-label="Coverage by">
+                    {(['bias', 'ownership'] as const).map((m) => (
+                      <button
+                        key={m}
+                        type="button"
+                        role="tab"
+                        aria-selected={coverageBy === m}
+                        onClick={() => setCoverageBy(m)}
+                        className={cn(
+                          'rounded-full border px-2.5 py-0.5 capitalize transition-colors',
+                          coverageBy === m
+                            ? 'border-primary text-foreground'
+                            : 'border-border text-muted-foreground hover:text-foreground',
+                        )}
+                      >
+                        {m}
+                      </button>
+                    ))}
+                  </div>
+                  {coverageBy === 'bias' && <CoverageWeightingSwitch value={weighting} onChange={setWeighting} />}
+                  {coverageBy === 'bias' ? <BiasLegend scale={edition?.biasScale} /> : <OwnershipLegend />}
+                </div>
               </div>
             </div>
 
@@ -159,6 +292,7 @@ const Feed = () => {
                 >
                   <Link
                     to={`/story/${s.slug}`}
+                    onClick={() => track(s.slug)}
                     className="text-lg font-semibold leading-snug text-foreground hover:text-primary transition-colors line-clamp-3"
                   >
                     {s.canonicalTitle}
@@ -166,9 +300,19 @@ const Feed = () => {
                   <p className="mt-2 flex items-center gap-1.5 text-xs text-muted-foreground">
                     <Layers className="h-3.5 w-3.5 shrink-0 opacity-70" aria-hidden />
                     {s.sourceCount} source{s.sourceCount === 1 ? '' : 's'}
+                    {view === 'topics' && matches[s.id]?.length ? (
+                      <span className="ml-2 inline-flex items-center gap-1 text-primary">
+                        <Hash className="h-3 w-3" aria-hidden />
+                        {matches[s.id].join(', ')}
+                      </span>
+                    ) : null}
                   </p>
                   <div className="mt-4 max-w-xl">
-                    <BiasBar spread={s.biasSpread} className="h-2.5" />
+                    {coverageBy === 'ownership' && s.ownershipSpread ? (
+                      <OwnershipBar spread={s.ownershipSpread} className="h-2.5" />
+                    ) : (
+                      <BiasBar spread={spreadFor(s, weighting)} className="h-2.5" />
+                    )}
                   </div>
                   {s.blindspot?.message ? (
                     <p className="mt-3 text-xs text-muted-foreground leading-relaxed bg-muted/40 rounded-md px-3 py-2">
@@ -182,6 +326,7 @@ const Feed = () => {
                         href={a.url}
                         target="_blank"
                         rel="noopener noreferrer"
+                        onClick={() => track(s.slug, a.id)}
                         className="inline-flex items-center gap-1 rounded-md border border-border bg-background px-2.5 py-1 text-xs font-medium text-foreground hover:bg-muted/60 transition-colors"
                       >
                         <span className="inline-flex items-center gap-1">
@@ -198,7 +343,13 @@ const Feed = () => {
           </>
         )}
 
-        {!loading && isConvexBackend() && stories.length === 0 && !error && (
+        {!loading && !error && view === 'topics' && currentUser && topics.length > 0 && stories.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No recent stories match your topics yet. New matches also arrive as alerts.
+          </p>
+        )}
+
+        {!loading && isConvexBackend() && view === 'all' && stories.length === 0 && !ownership && !error && (
           <div className="rounded-lg border border-dashed border-border bg-muted/20 text-center py-14 px-6">
             <Newspaper className="h-9 w-9 text-muted-foreground/40 mx-auto mb-3" aria-hidden />
             <p className="font-medium text-foreground">Feed is empty</p>
@@ -147,7 +147,11 @@ const Following = () => {
                   return (
                     <li key={o.id} className="flex items-center justify-between gap-4 py-4 first:pt-0">
                       <div className="min-w-0">
-                        <p className="text-sm font-medium truncate">{o.name}</p>
+                        <p className="text-sm font-medium truncate">
+                          <Link to={`/outlet/${o.id}`} className="hover:text-primary">
+                            {o.name}
+                          </Link>
+                        </p>
                         <p className="text-xs text-muted-foreground capitalize mt-0.5">{formatLean(o.biasLabel)}</p>
                       </div>
                       <Button
@@ -176,6 +180,7 @@ const Following = () => {
       <RelatedLinks
         links={[
           { to: '/feed', label: 'Story feed' },
+          { to: '/my-news-bias', label: 'My News Bias' },
           { to: '/methodology', label: 'Methodology' },
           { to: '/pricing', label: 'Pricing' },
         ]}
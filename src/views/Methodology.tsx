@@ -1,5 +1,51 @@
+import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
 import Header from '@/components/Header';
+import { formatRatingScore, OutletRatingTable } from '@/components/OutletRatingTable';
+import { fetchRatingBreakdown, isConvexBackend, type ApiRatingBreakdown } from '@/services/aggregation';
+
+const RatingBreakdown = () => {
+  const [data, setData] = useState<ApiRatingBreakdown | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isConvexBackend()) return;
+    fetchRatingBreakdown()
+      .then(setData)
+      .catch((e) => setError(e instanceof Error ? e.message : 'Failed'));
+  }, []);
+
+  if (error) return <p className="text-destructive text-sm">{error}</p>;
+  if (!data) return null;
+  return (
+    <>
+      <p>
+        Effective labels use the {data.method} of each source&apos;s latest rating on a {data.biasPoints}-point bias
+        scale. Scores run from −1 (left) to +1 (right) for bias and 0 to 1 for factuality.
+      </p>
+      {data.outlets.map((o) => {
+        const sources = new Set(o.ratings.map((r) => r.source)).size;
+        return (
+          <details key={o.outletId} className="not-prose border-b border-border py-2">
+            <summary className="cursor-pointer text-sm">
+              <Link to={`/outlet/${o.outletId}`} className="font-medium hover:text-primary">
+                {o.name}
+              </Link>{' '}
+              <span className="text-muted-foreground">
+                · {o.biasScaleLabel} ({formatRatingScore(o.biasScore, true)}) · factuality {o.factuality} (
+                {formatRatingScore(o.factualityScore, false)}) · {sources} source
+                {sources === 1 ? '' : 's'}
+              </span>
+            </summary>
+            <div className="mt-2">
+              <OutletRatingTable ratings={o.ratings} />
+            </div>
+          </details>
+        );
+      })}
+    </>
+  );
+};
 
 const Methodology = () => (
   <div className="min-h-screen flex flex-col">
@@ -12,17 +58,25 @@ const Methodology = () => (
       </p>
       <h2>Outlet labels</h2>
       <p>
-        Each publisher in our seed list has a <code>bias_label</code> (left, center-left, center,
-        center-right, right) and optional <code>factuality</code> tier. Labels come from manual curation
-        aligned with public rating organizations (e.g. AllSides, Media Bias/Fact Check) and are
-        versioned in <code>convex/seedData.ts</code>. Ingestion: RSS seed + Exa widen — see <code>docs/FEED_PIPELINE.md</code>.
+        Each publisher has a <code>bias_label</code> (left, center-left, center, center-right, right) and a{' '}
+        <code>factuality</code> tier. Both are aggregated from rating observations: our own editorial rating
+        (versioned in <code>convex/seedData.ts</code>) plus ratings from organisations such as AllSides, Media
+        Bias/Fact Check and Ad Fontes Media where we have them, each with its date and a link to the source. Struck-out
+        rows below are superseded by a newer rating from the same source, or from a source we currently give no weight.
+        Ingestion: RSS seed + Exa widen — see <code>docs/FEED_PIPELINE.md</code>.
       </p>
+      <RatingBreakdown />
       <h2>Coverage bar</h2>
       <p>
         For each story cluster, we count how many linked articles belong to each bias bucket and show
         that distribution as a bar. More sources on one side means heavier coverage from that
         perspective—not a verdict on accuracy.
       </p>
+      <p>
+        Articles are not the only way to count: one prolific site can outnumber a national daily. Story pages and the
+        feed can switch the bar to count each outlet once, or each outlet once weighted by its reach (national,
+        regional, standard or niche by circulation and traffic).
+      </p>
       <h2>Story matching</h2>
       <p>
         New RSS items are grouped when headlines are similar (token overlap) and published within the
@@ -30,18 +84,23 @@ const Methodology = () => (
       </p>
       <h2>Ownership</h2>
       <p>
-        Outlets may include an <code>ownershipCategory</code> (independent, media conglomerate, government, etc.) for
-        filter and transparency — Ground-style, hand-seeded in <code>convex/seedData.ts</code>.
+        Outlets are linked to their owner and the owner&apos;s parent companies, seeded in{' '}
+        <code>convex/seedData.ts</code>. Each outlet gets the category of the owner at the top of that chain — independent,
+        individual, media conglomerate, corporation, telecom, private equity, government or other — and story pages show
+        coverage by ownership type the same way they show coverage by bias.
       </p>
       <h2>Blindspot</h2>
       <p>
-        Stories flagged when coverage skews left or right (see <code>convex/lib/blindspotFormula.ts</code>). Explore on{' '}
+        Stories flagged when coverage skews left or right (see <code>convex/lib/blindspotFormula.ts</code>). The
+        thresholds are versioned, and each story page names the formula version that flagged it. Explore on{' '}
         <Link to="/blindspot">/blindspot</Link>.
       </p>
       <h2>Corrections</h2>
       <p>
-        Outlet owners or readers can request label updates via the project issue tracker. We do not
-        claim infallible bias scores.
+        Signed-in readers and outlet owners can dispute a bias or factuality label from the outlet&apos;s page, with
+        links to evidence. Each dispute is reviewed and accepted or rejected with a written rationale; accepted
+        disputes add a new editorial rating, and every resolved dispute stays visible in the outlet&apos;s changelog.
+        We do not claim infallible bias scores.
       </p>
       <p>
         <Link to="/feed">← Story feed</Link>
@@ -0,0 +1,287 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { MarketingShell } from '@/components/marketing/MarketingShell';
+import { PageHero } from '@/components/marketing/PageHero';
+import { PageSection } from '@/components/marketing/PageSection';
+import { RelatedLinks } from '@/components/marketing/RelatedLinks';
+import { BiasBar, BiasLegend } from '@/components/BiasBar';
+import { FactualityBadge } from '@/components/FactualityBadge';
+import { OwnershipBar, OwnershipLegend } from '@/components/OwnershipBar';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/context/AuthContext';
+import { useReadingLog } from '@/hooks/useReadingLog';
+import { fetchMyNewsBias, isConvexBackend, type ApiMyNewsBias, type ApiReadingMix } from '@/services/aggregation';
+import { cn } from '@/lib/utils';
+import { EyeOff, LogIn, Sparkles } from 'lucide-react';
+
+type Report = NonNullable<ApiMyNewsBias['report']>;
+type MixKind = keyof ApiReadingMix;
+
+const MIX_KINDS: MixKind[] = ['bias', 'factuality', 'ownership'];
+
+const FACTUALITY_ORDER = ['very-high', 'high', 'mixed', 'low', 'unknown'];
+
+const FACTUALITY_COLOR: Record<string, string> = {
+  'very-high': 'bg-emerald-600',
+  high: 'bg-emerald-400',
+  mixed: 'bg-amber-400',
+  low: 'bg-red-500',
+  unknown: 'bg-muted-foreground',
+};
+
+/** Factuality tiers of what was read, drawn like `BiasBar`. */
+function FactualityBar({ spread, className }: { spread: Record<string, number>; className?: string }) {
+  const total = Object.values(spread).reduce((a, b) => a + b, 0) || 1;
+  return (
+    <div className={cn('flex h-2 w-full overflow-hidden rounded-full bg-muted', className)}>
+      {FACTUALITY_ORDER.map((tier) => {
+        const n = spread[tier] ?? 0;
+        if (!n) return null;
+        return (
+          <div
+            key={tier}
+            className={FACTUALITY_COLOR[tier]}
+            style={{ width: `${(n / total) * 100}%` }}
+            title={`${tier}: ${n}`}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+function MixBar({ kind, mix, className }: { kind: MixKind; mix: ApiReadingMix; className?: string }) {
+  if (kind === 'factuality') return <FactualityBar spread={mix.factuality} className={className} />;
+  if (kind === 'ownership') return <OwnershipBar spread={mix.ownership} className={className} />;
+  return <BiasBar spread={mix.bias} className={className} />;
+}
+
+function weekLabel(iso: string) {
+  return new Date(iso).toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+}
+
+function ReportView({ report }: { report: Report }) {
+  const [kind, setKind] = useState<MixKind>('bias');
+  const track = useReadingLog('blindspot');
+
+  if (report.stories === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Nothing read yet. Open stories and articles from the <Link to="/feed" className="underline">feed</Link> and
+        they will show up here.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-12">
+      <section>
+        <p className="text-sm text-muted-foreground">
+          {report.articles} article{report.articles === 1 ? '' : 's'} opened across {report.stories} stor
+          {report.stories === 1 ? 'y' : 'ies'} since {new Date(report.since).toLocaleDateString()}
+          {report.truncated && ' (most recent reads only)'}.
+        </p>
+        <div className="mt-6 space-y-5 max-w-xl">
+          <div>
+            <h2 className="text-sm font-semibold mb-2">Bias of what you read</h2>
+            <BiasBar spread={report.total.bias} className="h-2.5" />
+            <div className="mt-2">
+              <BiasLegend />
+            </div>
+          </div>
+          <div>
+            <h2 className="text-sm font-semibold mb-2">Factuality</h2>
+            <FactualityBar spread={report.total.factuality} className="h-2.5" />
+            <div className="mt-2 flex flex-wrap gap-2">
+              {FACTUALITY_ORDER.filter((t) => report.total.factuality[t]).map((t) => (
+                <span key={t} className="inline-flex items-center gap-1 text-xs text-muted-foreground">
+                  <FactualityBadge tier={t} /> {report.total.factuality[t]}
+                </span>
+              ))}
+            </div>
+          </div>
+          <div>
+            <h2 className="text-sm font-semibold mb-2">Ownership</h2>
+            <OwnershipBar spread={report.total.ownership} className="h-2.5" />
+            <div className="mt-2">
+              <OwnershipLegend />
+            </div>
+          </div>
+        </div>
+      </section>
+
+      <section>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h2 className="text-sm font-semibold">Week by week</h2>
+          <div role="tablist" aria-label="Mix" className="flex gap-1 text-xs">
+            {MIX_KINDS.map((k) => (
+              <button
+                key={k}
+                type="button"
+                role="tab"
+                aria-selected={kind === k}
+                onClick={() => setKind(k)}
+                className={cn(
+                  'rounded-full border px-2.5 py-0.5 capitalize transition-colors',
+                  kind === k
+                    ? 'border-primary text-foreground'
+                    : 'border-border text-muted-foreground hover:text-foreground',
+                )}
+              >
+                {k}
+              </button>
+            ))}
+          </div>
+        </div>
+        <ul className="mt-4 space-y-2">
+          {report.weeks.map((w) => (
+            <li key={w.start} className="grid grid-cols-[4.5rem_1fr_4rem] items-center gap-3 text-xs">
+              <span className="text-muted-foreground">{weekLabel(w.start)}</span>
+              {w.articles ? <MixBar kind={kind} mix={w} className="h-2" /> : <div className="h-2 rounded-full bg-muted/50" />}
+              <span className="text-right text-muted-foreground tabular-nums">{w.articles}</span>
+            </li>
+          ))}
+        </ul>
+      </section>
+
+      <section>
+        <h2 className="text-sm font-semibold">Most-read outlets</h2>
+        {report.topOutlets.length === 0 ? (
+          <p className="text-sm text-muted-foreground mt-2">No article click-throughs yet.</p>
+        ) : (
+          <ul className="mt-3 divide-y divide-border/70">
+            {report.topOutlets.map((o) => (
+              <li key={o.outletId} className="flex items-center justify-between gap-4 py-2.5">
+                <div className="min-w-0 flex items-center gap-2">
+                  <Link to={`/outlet/${o.outletId}`} className="text-sm font-medium truncate hover:text-primary">
+                    {o.name}
+                  </Link>
+                  <span className="text-xs text-muted-foreground capitalize">{o.biasLabel.replace(/-/g, ' ')}</span>
+                  <FactualityBadge tier={o.factuality} />
+                </div>
+                <span className="text-xs text-muted-foreground tabular-nums shrink-0">
+                  {o.reads} read{o.reads === 1 ? '' : 's'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section>
+        <h2 className="text-sm font-semibold flex items-center gap-2">
+          <EyeOff className="h-4 w-4 text-primary" aria-hidden />
+          Blindspots you missed
+        </h2>
+        {!report.side ? (
+          <p className="text-sm text-muted-foreground mt-2 max-w-[58ch]">
+            Your reading is balanced between left and right, so there is no side to show blindspots for. Setting your
+            typical lean on <Link to="/following" className="underline">Following</Link> is used when you have not read
+            any rated outlets yet.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground mt-2 max-w-[58ch]">
+              {report.sideFrom === 'reading' ? 'You mostly read' : 'You told us you lean'} {report.side}. These stories
+              got little coverage from {report.side}-leaning outlets, and you have not opened them.
+            </p>
+            {report.missedBlindspots.length === 0 ? (
+              <p className="text-sm text-muted-foreground mt-3">None in the last few weeks.</p>
+            ) : (
+              <ul className="mt-3 space-y-3">
+                {report.missedBlindspots.map((s) => (
+                  <li key={s.id} className="rounded-lg border border-border bg-card p-4">
+                    <Link
+                      to={`/story/${s.slug}`}
+                      onClick={() => track(s.slug)}
+                      className="text-sm font-semibold hover:text-primary"
+                    >
+                      {s.canonicalTitle}
+                    </Link>
+                    {s.blindspotReason && <p className="text-xs text-muted-foreground mt-1">{s.blindspotReason}</p>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </section>
+    </div>
+  );
+}
+
+const MyNewsBias = () => {
+  const { currentUser } = useAuth();
+  const [data, setData] = useState<ApiMyNewsBias | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!isConvexBackend() || !currentUser) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    fetchMyNewsBias()
+      .then(setData)
+      .catch((e) => setError(e instanceof Error ? e.message : 'Failed to load'))
+      .finally(() => setLoading(false));
+  }, [currentUser]);
+
+  return (
+    <MarketingShell>
+      <PageHero
+        eyebrow="Your lens"
+        title="My News Bias"
+        description="What you actually read: the bias, factuality and ownership of the articles you open, week by week — and the blindspots for your side you skipped. Your follows are on the dashboard; this is your clicks."
+      />
+
+      <PageSection width="content">
+        {isConvexBackend() && !currentUser && (
+          <div className="rounded-lg border border-border bg-muted/25 px-6 py-10 text-center">
+            <LogIn className="h-8 w-8 text-primary mx-auto mb-4" aria-hidden />
+            <p className="font-medium text-foreground">Sign in to see your reading mix</p>
+            <p className="text-sm text-muted-foreground mt-2 max-w-sm mx-auto">
+              Stories and articles you open while signed in are logged to your account only.
+            </p>
+            <Button className="mt-6" asChild>
+              <Link to="/sign-in">Sign in</Link>
+            </Button>
+          </div>
+        )}
+
+        {loading && <p className="text-sm text-muted-foreground">Loading…</p>}
+        {error && (
+          <p className="text-destructive text-sm" role="alert">
+            {error}
+          </p>
+        )}
+
+        {data && !data.allowed && (
+          <div className="rounded-lg border border-border bg-muted/25 px-6 py-10 text-center">
+            <Sparkles className="h-8 w-8 text-primary mx-auto mb-4" aria-hidden />
+            <p className="font-medium text-foreground">{data.error}</p>
+            <p className="text-sm text-muted-foreground mt-2 max-w-sm mx-auto">
+              We already log what you read while signed in, so your history is there when you upgrade.
+            </p>
+            <Button className="mt-6" asChild>
+              <Link to="/pricing">See plans</Link>
+            </Button>
+          </div>
+        )}
+
+        {data?.report && <ReportView report={data.report} />}
+      </PageSection>
+
+      <RelatedLinks
+        links={[
+          { to: '/dashboard', label: 'Dashboard' },
+          { to: '/following', label: 'Following' },
+          { to: '/blindspot', label: 'Blindspot' },
+        ]}
+      />
+    </MarketingShell>
+  );
+};
+
+export default MyNewsBias;
@@ -0,0 +1,358 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { MarketingShell } from '@/components/marketing/MarketingShell';
+import { PageSection } from '@/components/marketing/PageSection';
+import { BiasBar } from '@/components/BiasBar';
+import { FactualityBadge } from '@/components/FactualityBadge';
+import { formatRatingScore, OutletRatingTable } from '@/components/OutletRatingTable';
+import { OWNERSHIP_NAMES } from '@/components/OwnershipBar';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useAuth } from '@/context/AuthContext';
+import {
+  fetchOutletDisputes,
+  fetchOutletProfile,
+  fetchOutletRatings,
+  followOutlet,
+  isConvexBackend,
+  submitRatingDispute,
+  unfollowOutlet,
+  type ApiOutletProfile,
+  type ApiOutletRatingBreakdown,
+  type ApiRatingDispute,
+  type ApiStory,
+} from '@/services/aggregation';
+import { cn } from '@/lib/utils';
+
+const VALUES = {
+  bias: ['left', 'center-left', 'center', 'center-right', 'right'],
+  factuality: ['very-high', 'high', 'mixed', 'low'],
+} as const;
+
+type Kind = keyof typeof VALUES;
+
+const selectClass =
+  'h-9 rounded-md border border-input bg-background px-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring';
+
+function DisputeForm({ outlet, onSubmitted }: { outlet: ApiOutletRatingBreakdown; onSubmitted: () => void }) {
+  const [kind, setKind] = useState<Kind>('bias');
+  const [proposedValue, setProposedValue] = useState('');
+  const [claim, setClaim] = useState('');
+  const [evidence, setEvidence] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const current = kind === 'bias' ? outlet.biasLabel : outlet.factuality;
+
+  const submit = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await submitRatingDispute({
+        outletId: outlet.outletId,
+        kind,
+        proposedValue,
+        claim,
+        evidenceUrls: evidence.split(/\s+/).filter(Boolean),
+      });
+      setProposedValue('');
+      setClaim('');
+      setEvidence('');
+      onSubmitted();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not submit dispute');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select
+          value={kind}
+          onChange={(e) => {
+            setKind(e.target.value as Kind);
+            setProposedValue('');
+          }}
+          className={selectClass}
+          aria-label="Label to dispute"
+        >
+          <option value="bias">Bias</option>
+          <option value="factuality">Factuality</option>
+        </select>
+        <span className="text-muted-foreground">is rated {current}; should be</span>
+        <select
+          value={proposedValue}
+          onChange={(e) => setProposedValue(e.target.value)}
+          className={selectClass}
+          aria-label="Proposed value"
+        >
+          <option value="">choose…</option>
+          {VALUES[kind]
+            .filter((v) => v !== current)
+            .map((v) => (
+              <option key={v} value={v}>
+                {v}
+              </option>
+            ))}
+        </select>
+      </div>
+      <Textarea
+        placeholder="Why the label is wrong (at least 20 characters)"
+        value={claim}
+        onChange={(e) => setClaim(e.target.value)}
+      />
+      <Textarea
+        placeholder="Evidence links, one per line (up to 5)"
+        value={evidence}
+        onChange={(e) => setEvidence(e.target.value)}
+        className="min-h-[60px]"
+      />
+      {error && (
+        <p className="text-destructive text-sm" role="alert">
+          {error}
+        </p>
+      )}
+      <Button size="sm" disabled={busy || !proposedValue} onClick={() => void submit()}>
+        Submit dispute
+      </Button>
+    </div>
+  );
+}
+
+function DisputeRow({ d }: { d: ApiRatingDispute }) {
+  return (
+    <li className="py-3 text-sm">
+      <p>
+        <span className="font-medium capitalize">{d.kind}</span>: {d.currentValue} → {d.proposedValue}{' '}
+        <span
+          className={
+            d.status === 'accepted'
+              ? 'text-emerald-700 dark:text-emerald-400'
+              : d.status === 'rejected'
+                ? 'text-destructive'
+                : 'text-muted-foreground'
+          }
+        >
+          {d.status}
+        </span>
+        <span className="text-xs text-muted-foreground">
+          {' '}
+          · {(d.resolvedAt ?? d.createdAt).slice(0, 10)}
+        </span>
+      </p>
+      {d.rationale && <p className="text-muted-foreground mt-1">{d.rationale}</p>}
+      <p className="text-xs mt-1 space-x-2">
+        {d.evidenceUrls.map((url) => (
+          <a key={url} href={url} target="_blank" rel="noreferrer" className="underline break-all">
+            {new URL(url).hostname}
+          </a>
+        ))}
+      </p>
+    </li>
+  );
+}
+
+function StoryRows({ stories, empty }: { stories: ApiStory[]; empty: string }) {
+  if (stories.length === 0) return <p className="text-sm text-muted-foreground">{empty}</p>;
+  return (
+    <ul className="divide-y divide-border/60">
+      {stories.map((s) => (
+        <li key={s.id} className="py-3">
+          <Link to={`/story/${s.slug}`} className="text-sm font-medium hover:text-primary">
+            {s.canonicalTitle}
+          </Link>
+          <div className="mt-2 flex items-center gap-3">
+            <BiasBar spread={s.biasSpread} className="h-1.5 max-w-xs" />
+            <span className="text-xs text-muted-foreground shrink-0">
+              {s.sourceCount} source{s.sourceCount === 1 ? '' : 's'}
+              {s.lastUpdatedAt ? ` · ${s.lastUpdatedAt.slice(0, 10)}` : ''}
+            </span>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+const OutletPage = () => {
+  const { id } = useParams<{ id: string }>();
+  const { currentUser } = useAuth();
+  const [outlet, setOutlet] = useState<ApiOutletRatingBreakdown | null>(null);
+  const [profile, setProfile] = useState<ApiOutletProfile | null>(null);
+  const [following, setFollowing] = useState<boolean | null>(null);
+  const [disputes, setDisputes] = useState<{ resolved: ApiRatingDispute[]; mine: ApiRatingDispute[] }>({
+    resolved: [],
+    mine: [],
+  });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDisputes = useCallback(async () => {
+    if (!id) return;
+    setDisputes(await fetchOutletDisputes(id));
+  }, [id]);
+
+  useEffect(() => {
+    if (!id || !isConvexBackend()) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    Promise.all([
+      fetchOutletRatings(id).then(setOutlet),
+      fetchOutletProfile(id).then((p) => {
+        setProfile(p);
+        setFollowing(p?.following ?? null);
+      }),
+      loadDisputes(),
+    ])
+      .catch((e) => setError(e instanceof Error ? e.message : 'Failed'))
+      .finally(() => setLoading(false));
+  }, [id, loadDisputes, currentUser]);
+
+  const toggleFollow = async () => {
+    if (!id) return;
+    setError(null);
+    try {
+      if (following) await unfollowOutlet(id);
+      else await followOutlet(id);
+      setFollowing(!following);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not update follow');
+    }
+  };
+
+  return (
+    <MarketingShell>
+      <PageSection width="content" className="!py-10">
+        {error && <p className="text-destructive text-sm">{error}</p>}
+        {loading && <p className="text-muted-foreground text-sm">Loading…</p>}
+        {!loading && !error && !outlet && <p className="text-muted-foreground text-sm">Outlet not found.</p>}
+
+        {outlet && (
+          <>
+            <p className="text-xs font-semibold uppercase tracking-widest text-primary">Facets · Outlet</p>
+            <div className="flex flex-wrap items-start justify-between gap-4 mt-2">
+              <h1 className="font-display text-3xl font-semibold">{outlet.name}</h1>
+              {currentUser ? (
+                <Button
+                  size="sm"
+                  variant={following ? 'secondary' : 'outline'}
+                  className={cn('shrink-0', following && 'font-medium')}
+                  onClick={() => void toggleFollow()}
+                >
+                  {following ? 'Following' : 'Follow'}
+                </Button>
+              ) : (
+                <Button size="sm" variant="outline" asChild>
+                  <Link to="/sign-in">Sign in to follow</Link>
+                </Button>
+              )}
+            </div>
+            <p className="text-sm text-muted-foreground mt-2 flex flex-wrap items-center gap-2">
+              <span>{outlet.domain}</span>·<span>{outlet.biasScaleLabel}</span>
+              <span>({formatRatingScore(outlet.biasScore, true)})</span>·
+              <FactualityBadge tier={outlet.factuality} />
+            </p>
+            {profile && (profile.owners.length > 0 || profile.outlet.ownershipCategory) && (
+              <p className="text-sm text-muted-foreground mt-1">
+                {profile.owners.length > 0 ? `Owned by ${profile.owners.map((o) => o.name).join(' → ')} · ` : ''}
+                {OWNERSHIP_NAMES[profile.outlet.ownershipCategory ?? 'unknown'] ?? profile.outlet.ownershipCategory}
+              </p>
+            )}
+
+            <h2 className="font-semibold mt-8 mb-2">Ratings</h2>
+            <OutletRatingTable ratings={outlet.ratings} />
+            <p className="text-xs text-muted-foreground mt-2">
+              How ratings are combined: <Link to="/methodology">methodology</Link>.
+            </p>
+
+            {profile && (
+              <>
+                <h2 className="font-semibold mt-8 mb-2">Feeds</h2>
+                {profile.feeds.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No feeds; stories come from search only.</p>
+                ) : (
+                  <ul className="text-sm space-y-1">
+                    {profile.feeds.map((f) => (
+                      <li key={f.url} className={cn('break-all', !f.enabled && 'text-muted-foreground line-through')}>
+                        {f.url}
+                        <span className="text-xs text-muted-foreground">
+                          {' '}
+                          · {f.kind}
+                          {f.lastSuccessAt ? ` · last read ${f.lastSuccessAt.slice(0, 10)}` : ''}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <h2 className="font-semibold mt-8 mb-2">Blindspots</h2>
+                <p className="text-sm text-muted-foreground">
+                  Of the {profile.blindspots.stories} recent stories {outlet.name} covered,{' '}
+                  <Link to="/blindspot" className="underline">
+                    {profile.blindspots.left} were missing on the left and {profile.blindspots.right} on the right
+                  </Link>
+                  .
+                </p>
+
+                <h2 className="font-semibold mt-8 mb-2">Recent stories</h2>
+                <StoryRows stories={profile.stories} empty="No stories yet." />
+
+                <h2 className="font-semibold mt-8 mb-2">Exclusives</h2>
+                <p className="text-xs text-muted-foreground mb-2">
+                  Stories {outlet.name} covered that no outlet from the other side of the spectrum did.
+                </p>
+                <StoryRows
+                  stories={profile.exclusives}
+                  empty={
+                    outlet.biasLabel === 'center' || outlet.biasLabel === 'unknown'
+                      ? 'Only left- or right-leaning outlets have exclusives.'
+                      : 'No exclusives among recent stories.'
+                  }
+                />
+              </>
+            )}
+
+            <h2 className="font-semibold mt-8 mb-2">Dispute a rating</h2>
+            {currentUser ? (
+              <DisputeForm outlet={outlet} onSubmitted={() => void loadDisputes()} />
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                <Link to="/sign-in" className="underline">
+                  Sign in
+                </Link>{' '}
+                to dispute this outlet&apos;s bias or factuality label.
+              </p>
+            )}
+            {disputes.mine.length > 0 && (
+              <>
+                <p className="text-xs text-muted-foreground mt-4">Your open disputes</p>
+                <ul className="divide-y divide-border/60">
+                  {disputes.mine.map((d) => (
+                    <DisputeRow key={d.id} d={d} />
+                  ))}
+                </ul>
+              </>
+            )}
+
+            <h2 className="font-semibold mt-8 mb-2">Rating changelog</h2>
+            {disputes.resolved.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No resolved disputes yet.</p>
+            ) : (
+              <ul className="divide-y divide-border/60">
+                {disputes.resolved.map((d) => (
+                  <DisputeRow key={d.id} d={d} />
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </PageSection>
+    </MarketingShell>
+  );
+};
+
+export default OutletPage;
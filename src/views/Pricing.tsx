@@ -41,9 +41,9 @@ const FALLBACK_CATALOG: PlanCatalogItem[] = [
 ];
 
 const FALLBACK_LIMITS: BillingPlansResponse['plans'] = {
-  free: { verificationsPerMonth: 5, customFeeds: 3, blindspot: false },
-  plus: { verificationsPerMonth: 50, customFeeds: 25, blindspot: true },
-  pro: { verificationsPerMonth: 500, customFeeds: 9999, blindspot: true },
+  free: { verificationsPerMonth: 5, customFeeds: 3, blindspot: false, readingAnalytics: false },
+  plus: { verificationsPerMonth: 50, customFeeds: 25, blindspot: true, readingAnalytics: true },
+  pro: { verificationsPerMonth: 500, customFeeds: 9999, blindspot: true, readingAnalytics: true },
 };
 
 function loadRazorpayScript(): Promise<void> {
@@ -63,7 +63,12 @@ function formatInr(n: unknown) {
   return new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', maximumFractionDigits: 0 }).format(v);
 }
 
-type PlanLimitsRow = { verificationsPerMonth: number; customFeeds: number; blindspot: boolean };
+type PlanLimitsRow = {
+  verificationsPerMonth: number;
+  customFeeds: number;
+  blindspot: boolean;
+  readingAnalytics: boolean;
+};
 
 function normLimits(raw: unknown): PlanLimitsRow | null {
   if (!raw || typeof raw !== 'object') return null;
@@ -72,6 +77,7 @@ function normLimits(raw: unknown): PlanLimitsRow | null {
     verificationsPerMonth: Number(o.verificationsPerMonth) || 0,
     customFeeds: Number(o.customFeeds) || 0,
     blindspot: Boolean(o.blindspot),
+    readingAnalytics: Boolean(o.readingAnalytics),
   };
 }
 
@@ -82,6 +88,7 @@ function featureList(limits: PlanLimitsRow): string[] {
     `${v} AI verifications / month`,
     `${f} custom feed slots`,
     limits.blindspot ? 'Blindspot & coverage insights' : 'No blindspot insights',
+    ...(limits.readingAnalytics ? ['My News Bias reading analytics'] : []),
     'Multi-source story feed',
     'Bias coverage bar per story',
   ];
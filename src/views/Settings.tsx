@@ -4,6 +4,7 @@ import { ChevronLeft, Bell, Lock, Eye, Globe } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { DigestPreferences } from "@/components/DigestPreferences";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/context/AuthContext";
 import { useTranslation } from "react-i18next";
@@ -183,6 +184,9 @@ const Settings = () => {
             </CardContent>
           </Card>
 
+          {/* Digest and topic alert emails (stored on Convex) */}
+          {user && <DigestPreferences />}
+
           {/* Language */}
           <Card className={isLoading ? "opacity-50 pointer-events-none" : ""}>
             <CardHeader>
@@ -1,37 +1,67 @@
 import { useEffect, useState } from 'react';
 import { Link, useNavigate, useParams } from 'react-router-dom';
 import Header from '@/components/Header';
-import { BiasBar, BiasLegend } from '@/components/BiasBar';
+import { BiasBar, BiasLegend, CoverageWeightingSwitch, spreadFor, type CoverageWeighting } from '@/components/BiasBar';
+import { OwnershipBar, OwnershipLegend } from '@/components/OwnershipBar';
 import { Button } from '@/components/ui/button';
-import { fetchStory, type ApiStory } from '@/services/aggregation';
+import { fetchStory, type ApiArchivedStory, type ApiStory } from '@/services/aggregation';
 import { isConvexBackend } from '@/services/aggregation';
 import { ExternalLink, ShieldCheck, Sparkles } from 'lucide-react';
+import { EntityChips } from '@/components/EntityChips';
 import { FactualityBadge } from '@/components/FactualityBadge';
 import { HeadlineCompare } from '@/components/HeadlineCompare';
+import { StorylineSection } from '@/components/StorylineSection';
+import { StoryTimeline } from '@/components/StoryTimeline';
 import { generateBiasCompare } from '@/services/aggregation';
 import { useNews } from '@/context/NewsContext';
 import { useAuth } from '@/context/AuthContext';
+import { useEdition } from '@/hooks/useEdition';
+import { useReadingLog } from '@/hooks/useReadingLog';
+
+/** Native name of the article's language ("हिन्दी", "मराठी"), falling back to the code. */
+function languageName(code: string): string {
+  try {
+    return new Intl.DisplayNames([code], { type: 'language' }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
 
 const StoryDetail = () => {
   const { slug } = useParams<{ slug: string }>();
   const [story, setStory] = useState<ApiStory | null>(null);
+  const [archived, setArchived] = useState<ApiArchivedStory | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [compareSummary, setCompareSummary] = useState<string | null>(null);
   const [compareLoading, setCompareLoading] = useState(false);
+  const [weighting, setWeighting] = useState<CoverageWeighting>('articles');
   const { currentUser } = useAuth();
   const { setNewsContent, setSearchQuery, setSelectedArticle } = useNews();
+  const { editions } = useEdition();
+  const track = useReadingLog('story');
   const navigate = useNavigate();
 
   useEffect(() => {
     if (!slug || !isConvexBackend) return;
     fetchStory(slug)
-      .then((s) => {
+      .then(({ story: s, archived: a }) => {
+        // Merged clusters resolve to the surviving story; move the URL to its slug.
+        if (s && s.slug !== slug) navigate(`/story/${s.slug}`, { replace: true });
         setStory(s);
+        setArchived(a);
         setCompareSummary(s?.biasCompareSummary ?? null);
+        if (!s && !a) setError('Story not found.');
       })
       .catch((e) => setError(e instanceof Error ? e.message : 'Failed'));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [slug]);
 
+  // Opens from the feed or blindspot list were already logged there; repeats are dropped server-side.
+  const storySlug = story?.slug;
+  useEffect(() => {
+    if (storySlug) track(storySlug);
+  }, [storySlug, track]);
+
   const onVerify = () => {
     if (!story) return;
     const first = story.articles[0];
@@ -55,23 +85,70 @@ const StoryDetail = () => {
           <p className="text-sm">Configure Convex in .env.local.</p>
         )}
         {error && <p className="text-destructive text-sm">{error}</p>}
-        {!story && !error && isConvexBackend && (
+        {!story && !archived && !error && isConvexBackend && (
           <p className="text-muted-foreground text-sm">Loading…</p>
         )}
+        {archived && (
+          <>
+            <h1 className="text-2xl font-semibold mb-2">{archived.canonicalTitle}</h1>
+            <p className="text-sm text-muted-foreground mb-4">
+              Archived {new Date(archived.archivedAt).toLocaleDateString()}. This story had a single source, so only
+              its headline and link were kept.
+            </p>
+            <div className="space-y-3">
+              {archived.articles.map((a) => (
+                <div key={a.url} className="border rounded-lg p-4 flex justify-between gap-2">
+                  <div>
+                    <p className="font-medium text-sm">{a.outlet?.name ?? 'Source'}</p>
+                    <p className="text-sm mt-1">{a.title}</p>
+                    {a.publishedAt && (
+                      <p className="text-xs text-muted-foreground mt-0.5">
+                        {new Date(a.publishedAt).toLocaleDateString()}
+                      </p>
+                    )}
+                  </div>
+                  <Button variant="ghost" size="sm" asChild>
+                    <a href={a.url} target="_blank" rel="noopener noreferrer">
+                      <ExternalLink className="h-4 w-4" />
+                    </a>
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
         {story && (
           <>
             <h1 className="text-2xl font-semibold mb-2">{story.canonicalTitle}</h1>
+            <EntityChips slug={story.slug} />
             <p className="text-sm text-muted-foreground mb-4">
-              {story.sourceCount} source{story.sourceCount === 1 ? '' : 's'} · coverage spread
+              {story.sourceCount} source{story.sourceCount === 1 ? '' : 's'}
+              {story.syndicatedCount
+                ? ` (${story.sourceCount < story.articles.length ? '+' : 'incl. '}${story.syndicatedCount} syndicated)`
+                : ''}{' '}
+              · coverage spread
             </p>
-            <BiasBar spread={story.biasSpread} className="mb-2" />
-            <BiasLegend />
+            {story.biasSpreadBy && (
+              <div className="mb-2">
+                <CoverageWeightingSwitch value={weighting} onChange={setWeighting} />
+              </div>
+            )}
+            <BiasBar spread={spreadFor(story, weighting)} className="mb-2" />
+            <BiasLegend scale={editions.find((e) => e.id === story.edition)?.biasScale} />
+            {story.ownershipSpread && (
+              <>
+                <p className="text-sm text-muted-foreground mt-4 mb-2">Coverage by ownership type</p>
+                <OwnershipBar spread={story.ownershipSpread} className="mb-2" />
+                <OwnershipLegend />
+              </>
+            )}
             {story.blindspotReason && (
               <p className="mt-3 text-xs text-amber-800 dark:text-amber-200 bg-amber-500/10 border border-amber-500/20 rounded-md px-3 py-2">
                 Blindspot: {story.blindspotReason}{' '}
                 <Link to="/blindspot" className="underline">
                   Explore feed
                 </Link>
+                {story.blindspotFormula && <span className="opacity-70"> · formula {story.blindspotFormula}</span>}
               </p>
             )}
             <HeadlineCompare story={story} />
@@ -133,10 +210,24 @@ const StoryDetail = () => {
                         {a.outlet?.ownershipCategory && (
                           <span className="text-[10px] text-muted-foreground">{a.outlet.ownershipCategory}</span>
                         )}
+                        {(a.syndicatedFromId || a.wireSource) && (
+                          <span
+                            className="text-[10px] rounded border border-border px-1.5 py-0.5 text-muted-foreground"
+                            title={a.syndicatedFromId ? 'Near-duplicate of an earlier article in this story' : undefined}
+                          >
+                            {a.syndicatedFromId ? 'Syndicated' : 'Wire'}
+                            {a.wireSource ? ` · ${a.wireSource}` : ''}
+                          </span>
+                        )}
+                        {a.language && a.language !== 'en' && (
+                          <span className="text-[10px] rounded border border-border px-1.5 py-0.5 text-muted-foreground">
+                            {languageName(a.language)}
+                          </span>
+                        )}
                       </div>
                     </div>
                     <Button variant="ghost" size="sm" asChild>
-                      <a href={a.url} target="_blank" rel="noopener noreferrer">
+                      <a href={a.url} target="_blank" rel="noopener noreferrer" onClick={() => track(story.slug, a.id)}>
                         <ExternalLink className="h-4 w-4" />
                       </a>
                     </Button>
@@ -147,6 +238,8 @@ const StoryDetail = () => {
                 </div>
               ))}
             </div>
+            <StoryTimeline slug={story.slug} />
+            <StorylineSection slug={story.slug} />
             <Button className="mt-6" onClick={onVerify}>
               <ShieldCheck className="mr-2 h-4 w-4" />
               Fact-check this headline
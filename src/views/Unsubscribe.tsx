@@ -0,0 +1,59 @@
+import { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { MarketingShell } from '@/components/marketing/MarketingShell';
+import { PageHero } from '@/components/marketing/PageHero';
+import { PageSection } from '@/components/marketing/PageSection';
+import { unsubscribeDigest } from '@/services/aggregation';
+
+type State = 'confirm' | 'working' | 'done' | 'invalid' | 'error';
+
+/**
+ * Target of the digest email's unsubscribe link; works without signing in. Unsubscribing waits for
+ * a click so link scanners that open the page do not unsubscribe anyone.
+ */
+const Unsubscribe = () => {
+  const [params] = useSearchParams();
+  const token = params.get('token') ?? '';
+  const [state, setState] = useState<State>(token ? 'confirm' : 'invalid');
+
+  const confirm = () => {
+    setState('working');
+    unsubscribeDigest(token)
+      .then(({ unsubscribed }) => setState(unsubscribed ? 'done' : 'invalid'))
+      .catch(() => setState('error'));
+  };
+
+  return (
+    <MarketingShell>
+      <PageHero
+        eyebrow="Blindspot digest"
+        title="Unsubscribe"
+        description="Stop the daily or weekly blindspot email. Nothing else about your account changes."
+      />
+      <PageSection width="content">
+        <p className="text-muted-foreground">
+          {state === 'confirm' && 'Stop sending the blindspot digest and topic alert emails to this address?'}
+          {state === 'working' && 'Unsubscribing…'}
+          {state === 'done' && 'You will not get the blindspot digest or topic alert emails any more.'}
+          {state === 'invalid' && 'This unsubscribe link is not valid. It may be from an old email.'}
+          {state === 'error' && 'Something went wrong. Please try again.'}
+        </p>
+        {(state === 'confirm' || state === 'error') && (
+          <Button className="mt-4" onClick={confirm}>
+            Unsubscribe
+          </Button>
+        )}
+        <p className="mt-4 text-sm text-muted-foreground">
+          Changed your mind? Turn the digest back on in{' '}
+          <Link to="/settings" className="underline">
+            Settings
+          </Link>
+          .
+        </p>
+      </PageSection>
+    </MarketingShell>
+  );
+};
+
+export default Unsubscribe;